@@ -466,7 +466,7 @@ async function branchDelete(args: string[]): Promise<void> {
       }
       return entry;
     });
-    writePrdAuto(result.prdPath, updatedEntries);
+    writePrdAuto(result.prdPath, updatedEntries, { action: "untag", source: "cli" });
     console.log(`\x1b[32mPRD items updated.\x1b[0m`);
   }
 
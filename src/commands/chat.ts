@@ -4,10 +4,10 @@
  */
 
 import { existsSync, readFileSync, writeFileSync, watch, type FSWatcher } from "fs";
-import { join, basename, extname } from "path";
+import { join, basename } from "path";
 import { execSync, spawn } from "child_process";
-import YAML from "yaml";
-import { robustYamlParse } from "../utils/prd-validator.js";
+import { readPrdFile, writePrdAuto, PrdEntry } from "../utils/prd-validator.js";
+import { generatePrdId, collectPrdIds } from "../utils/prd-ids.js";
 import {
   loadConfig,
   getRalphDir,
@@ -97,6 +97,7 @@ function getProjectName(): string {
 }
 
 interface PrdItem {
+  id?: string;
   category?: string;
   description?: string;
   steps?: string[];
@@ -105,24 +106,11 @@ interface PrdItem {
 }
 
 /**
- * Parse PRD file content based on file extension.
+ * Read the PRD items (all files of a split PRD), or null if the PRD can't be parsed.
  */
-function parsePrdContent(filePath: string, content: string): PrdItem[] | null {
-  const ext = extname(filePath).toLowerCase();
-  try {
-    let parsed: unknown;
-    if (ext === ".yaml" || ext === ".yml") {
-      parsed = robustYamlParse(content);
-    } else {
-      parsed = JSON.parse(content);
-    }
-    if (Array.isArray(parsed)) {
-      return parsed as PrdItem[];
-    }
-    return null;
-  } catch {
-    return null;
-  }
+function readPrdItems(filePath: string): PrdItem[] | null {
+  const parsed = readPrdFile(filePath);
+  return parsed && Array.isArray(parsed.content) ? (parsed.content as PrdItem[]) : null;
 }
 
 /**
@@ -137,8 +125,7 @@ function getPrdStatus(): { complete: number; total: number; incomplete: number }
 
   try {
     const prdPath = prdFiles.primary!;
-    const content = readFileSync(prdPath, "utf-8");
-    const items = parsePrdContent(prdPath, content);
+    const items = readPrdItems(prdPath);
     if (!Array.isArray(items)) {
       return { complete: 0, total: 0, incomplete: 0 };
     }
@@ -164,8 +151,7 @@ function getOpenCategories(): string[] {
 
   try {
     const prdPath = prdFiles.primary!;
-    const content = readFileSync(prdPath, "utf-8");
-    const items = parsePrdContent(prdPath, content);
+    const items = readPrdItems(prdPath);
     if (!Array.isArray(items)) {
       return [];
     }
@@ -196,13 +182,13 @@ function addPrdTask(description: string): boolean {
 
   try {
     const prdPath = prdFiles.primary!;
-    const content = readFileSync(prdPath, "utf-8");
-    const items = parsePrdContent(prdPath, content);
+    const items = readPrdItems(prdPath);
     if (!Array.isArray(items)) {
       return false;
     }
 
     items.push({
+      id: generatePrdId(description, collectPrdIds(items)),
       category: "feature",
       description,
       steps: [],
@@ -210,12 +196,7 @@ function addPrdTask(description: string): boolean {
     });
 
     // Write back in the same format as the source file
-    const ext = extname(prdPath).toLowerCase();
-    if (ext === ".yaml" || ext === ".yml") {
-      writeFileSync(prdPath, YAML.stringify(items));
-    } else {
-      writeFileSync(prdPath, JSON.stringify(items, null, 2) + "\n");
-    }
+    writePrdAuto(prdPath, items as PrdEntry[], { action: "add", source: "chat" });
     return true;
   } catch {
     return false;
@@ -273,8 +254,7 @@ async function handleBranchList(
     return;
   }
 
-  const content = readFileSync(prdFiles.primary, "utf-8");
-  const items = parsePrdContent(prdFiles.primary, content);
+  const items = readPrdItems(prdFiles.primary);
   if (!Array.isArray(items) || items.length === 0) {
     await client.sendMessage(chatId, `${state.projectName}: No PRD items found.`);
     return;
@@ -406,8 +386,7 @@ async function handleBranchPr(
   // PRD Items section
   const prdFiles = getPrdFiles();
   if (!prdFiles.none && prdFiles.primary) {
-    const content = readFileSync(prdFiles.primary, "utf-8");
-    const items = parsePrdContent(prdFiles.primary, content);
+    const items = readPrdItems(prdFiles.primary);
     if (Array.isArray(items)) {
       const branchItems = items.filter((e) => e.branch === branchName);
       if (branchItems.length > 0) {
@@ -614,8 +593,7 @@ async function handleBranchDelete(
   // Step 3: Remove branch tag from PRD items
   const prdFiles = getPrdFiles();
   if (!prdFiles.none && prdFiles.primary) {
-    const content = readFileSync(prdFiles.primary, "utf-8");
-    const items = parsePrdContent(prdFiles.primary, content);
+    const items = readPrdItems(prdFiles.primary);
     if (Array.isArray(items)) {
       const taggedCount = items.filter((e) => e.branch === branchName).length;
       if (taggedCount > 0) {
@@ -627,12 +605,10 @@ async function handleBranchDelete(
           return item;
         });
 
-        const ext = extname(prdFiles.primary).toLowerCase();
-        if (ext === ".yaml" || ext === ".yml") {
-          writeFileSync(prdFiles.primary, YAML.stringify(updatedItems));
-        } else {
-          writeFileSync(prdFiles.primary, JSON.stringify(updatedItems, null, 2) + "\n");
-        }
+        writePrdAuto(prdFiles.primary, updatedItems as PrdEntry[], {
+          action: "untag",
+          source: "chat",
+        });
         results.push(`${taggedCount} PRD item(s) untagged.`);
       }
     }
@@ -0,0 +1,145 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { spawnSync } from "child_process";
+import { FirewallConfig } from "../utils/config.js";
+import {
+  FIREWALL_LOG_DIR,
+  FIREWALL_NAME_FILES,
+  parseFirewallLog,
+  parseDnsNames,
+  buildFirewallReport,
+  FirewallDestination,
+} from "../utils/firewall-report.js";
+
+const LOG_MARKER = "RALPH-FW-";
+
+export interface FirewallReportOptions {
+  mode?: FirewallConfig["mode"];
+  configuredDomains: string[]; // docker.firewall.allowedDomains
+  allowedDomains: string[]; // Everything the firewall allows, built-in and language domains included
+}
+
+function printUsage(): void {
+  console.error("Usage: ralph docker firewall report [log-file|-]");
+  console.error("\nSummarizes the connections the container firewall logged and suggests");
+  console.error("domains to add to docker.firewall.allowedDomains.");
+  console.error("\nThe kernel log is read with journalctl -k or dmesg. Pass a file, or - for");
+  console.error("stdin, when it lives elsewhere (e.g. the Docker Desktop VM):");
+  console.error("  docker run --rm --privileged alpine dmesg | ralph docker firewall report -");
+}
+
+/**
+ * Reads the kernel log of the machine the containers run on, trying journalctl, then dmesg.
+ */
+function readKernelLog(): string | null {
+  const sources: [string, string[]][] = [
+    ["journalctl", ["-k", "--no-pager", "-q"]],
+    ["dmesg", []],
+  ];
+  for (const [command, args] of sources) {
+    const result = spawnSync(command, args, {
+      encoding: "utf-8",
+      timeout: 15000,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    if (result.status === 0 && result.stdout.includes(LOG_MARKER)) {
+      return result.stdout;
+    }
+  }
+  return null;
+}
+
+function formatDestination(destination: FirewallDestination): string {
+  const names = destination.names.length > 0 ? `${destination.names.join(", ")} ` : "";
+  const target = names ? `${names}\x1b[2m(${destination.dst})\x1b[0m` : destination.dst;
+  const port = destination.port ? `${destination.proto}/${destination.port}` : destination.proto;
+  return `${String(destination.count).padStart(6)}  ${target}  \x1b[2m${port}\x1b[0m`;
+}
+
+function firewallReport(args: string[], ralphDir: string, options: FirewallReportOptions): void {
+  const source = args[0];
+  let log: string | null;
+  if (source === "-") {
+    log = readFileSync(0, "utf-8");
+  } else if (source) {
+    if (!existsSync(source)) {
+      console.error(`Error: File not found: ${source}`);
+      process.exit(1);
+    }
+    log = readFileSync(source, "utf-8");
+  } else {
+    log = readKernelLog();
+  }
+
+  const events = log ? parseFirewallLog(log) : [];
+  if (events.length === 0) {
+    console.log("No firewall log entries found.");
+    console.log("\nThe firewall logs connections once init-firewall.sh has run in the container.");
+    console.log("If the kernel log isn't readable here, pass it in:");
+    console.log("  sudo dmesg | ralph docker firewall report -");
+    console.log("  docker run --rm --privileged alpine dmesg | ralph docker firewall report -");
+    return;
+  }
+
+  const nameLog = FIREWALL_NAME_FILES.map((file) => join(ralphDir, FIREWALL_LOG_DIR, file))
+    .filter((path) => existsSync(path))
+    .map((path) => readFileSync(path, "utf-8"))
+    .join("\n");
+  const report = buildFirewallReport(events, parseDnsNames(nameLog), options.allowedDomains);
+
+  console.log(`Firewall report (${events.length} logged connections)\n`);
+  if (report.blocked.length > 0) {
+    const audit = report.blocked.some((d) => d.verdict === "audit");
+    console.log(
+      audit
+        ? "\x1b[33mOutside the allowlist (allowed in audit mode):\x1b[0m"
+        : "\x1b[31mBlocked:\x1b[0m",
+    );
+    report.blocked.forEach((d) => console.log(formatDestination(d)));
+    console.log("");
+  }
+  if (report.allowed.length > 0) {
+    console.log("\x1b[32mAllowed:\x1b[0m");
+    report.allowed.forEach((d) => console.log(formatDestination(d)));
+    console.log("");
+  }
+
+  if (report.suggestedDomains.length > 0) {
+    const domains = [...new Set([...options.configuredDomains, ...report.suggestedDomains])];
+    console.log("Suggested additions to docker.firewall.allowedDomains in .ralph/config.json:");
+    report.suggestedDomains.forEach((domain) => console.log(`  \x1b[32m+ ${domain}\x1b[0m`));
+    console.log(`\n  "firewall": { "allowedDomains": ${JSON.stringify(domains)} }`);
+    console.log("\nThen run 'ralph docker init -y' and 'ralph docker build' to apply them.");
+  }
+  if (report.unnamed.length > 0 && options.mode !== "audit") {
+    console.log(
+      `\n\x1b[2m${report.unnamed.length} blocked address(es) have no known name. Audit mode`,
+    );
+    console.log(
+      `(docker.firewall.mode: "audit") logs DNS answers so the report can name them.\x1b[0m`,
+    );
+  }
+}
+
+/**
+ * ralph docker firewall <subcommand>
+ */
+export function dockerFirewall(
+  args: string[],
+  ralphDir: string,
+  options: FirewallReportOptions,
+): void {
+  switch (args[0]) {
+    case "report":
+      firewallReport(args.slice(1), ralphDir, options);
+      break;
+    case "--help":
+    case "-h":
+    case "help":
+      printUsage();
+      break;
+    default:
+      printUsage();
+      process.exit(1);
+  }
+}
@@ -0,0 +1,68 @@
+import { join } from "path";
+import {
+  BUILT_STAGES_FILE,
+  compareStages,
+  loadStageState,
+  StageRecord,
+} from "../utils/docker-stages.js";
+
+const DOCKER_DIR = "docker";
+
+export interface DockerStatusOptions {
+  imageName: string;
+  runtime: string;
+  hasImage: boolean;
+  configChanged: boolean; // .ralph/config.json changed since the last `ralph docker init`
+  stages: StageRecord[]; // Stages the current config produces
+}
+
+function formatTime(iso: string): string {
+  return iso.replace("T", " ").slice(0, 16);
+}
+
+/**
+ * ralph docker status - shows which image stages are stale and why.
+ */
+export function dockerStatus(ralphDir: string, options: DockerStatusOptions): void {
+  const built = options.hasImage
+    ? loadStageState(join(ralphDir, DOCKER_DIR, BUILT_STAGES_FILE))
+    : null;
+
+  let image: string;
+  if (!options.hasImage) {
+    image = "\x1b[33mnot built\x1b[0m";
+  } else if (built?.builtAt) {
+    image = `built ${formatTime(built.builtAt)}`;
+  } else {
+    image = "built \x1b[2m(before stage tracking; the next build records its stages)\x1b[0m";
+  }
+  console.log(`Image:  ${options.imageName} (${options.runtime}), ${image}`);
+  console.log(
+    options.configChanged
+      ? "Files:  \x1b[33m.ralph/config.json changed since 'ralph docker init'\x1b[0m"
+      : "Files:  up to date with .ralph/config.json",
+  );
+
+  const statuses = compareStages(
+    options.stages,
+    built?.stages ?? null,
+    options.hasImage ? "no record of the last build" : "not built yet",
+  );
+  const width = Math.max(...statuses.map((s) => s.name.length));
+  console.log("\nStages (build order):");
+  for (const status of statuses) {
+    const icon = status.stale ? "\x1b[33m✗\x1b[0m" : "\x1b[32m✓\x1b[0m";
+    const detail = status.stale ? status.reason : "\x1b[2mup to date\x1b[0m";
+    console.log(`  ${icon} ${status.name.padEnd(width)}  ${detail}`);
+  }
+
+  const stale = statuses.filter((s) => s.stale).length;
+  if (stale === 0) {
+    console.log("\nNothing to rebuild.");
+    return;
+  }
+  const regenerate = options.configChanged ? " (after regenerating the Docker files)" : "";
+  console.log(
+    `\n'ralph docker build' rebuilds ${stale} of ${statuses.length} stages${regenerate}.`,
+  );
+}
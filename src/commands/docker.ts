@@ -8,9 +8,37 @@ import {
   RalphConfig,
   McpServerConfig,
   SkillConfig,
+  CommandPolicyConfig,
+  FirewallConfig,
 } from "../utils/config.js";
 import { promptConfirm } from "../utils/prompt.js";
 import { getLanguagesJson, getCliProvidersJson } from "../templates/prompts.js";
+import {
+  generatePolicyShimScript,
+  getShimCommands,
+  POLICY_SHIM_DIR,
+  POLICY_SHIM_SCRIPT,
+} from "../utils/command-policy.js";
+import { dockerFirewall } from "./docker-firewall.js";
+import { getContainerRuntime, ContainerRuntime } from "../utils/container-runtime.js";
+import {
+  generateDevcontainerJson,
+  getDevcontainerPath,
+  readDevcontainerHash,
+  DEVCONTAINER_DIR,
+} from "../utils/devcontainer.js";
+import {
+  BUILT_STAGES_FILE,
+  GENERATED_STAGES_FILE,
+  compareStages,
+  loadStageState,
+  renderDockerfile,
+  saveStageState,
+  toStageRecords,
+  DockerStage,
+  StageRecord,
+} from "../utils/docker-stages.js";
+import { dockerStatus } from "./docker-status.js";
 
 // Track background processes for cleanup
 const backgroundProcesses: ChildProcess[] = [];
@@ -27,6 +55,7 @@ function computeConfigHash(config: RalphConfig): string {
     docker: config.docker,
     claude: config.claude,
     cliModel: config.cli?.model,
+    policy: config.policy,
   };
   const content = JSON.stringify(relevantConfig, null, 2);
   return createHash("sha256").update(content).digest("hex").substring(0, 16);
@@ -46,7 +75,8 @@ function loadConfigHash(dockerDir: string): string | null {
   return readFileSync(hashPath, "utf-8").trim();
 }
 
-// Check if config has changed since last docker init
+// Check if config has changed since last docker init (or since a generated
+// .devcontainer/devcontainer.json was written)
 function hasConfigChanged(ralphDir: string, config: RalphConfig): boolean {
   const dockerDir = join(ralphDir, DOCKER_DIR);
   const savedHash = loadConfigHash(dockerDir);
@@ -54,7 +84,10 @@ function hasConfigChanged(ralphDir: string, config: RalphConfig): boolean {
     return false; // No hash file means docker init hasn't run yet
   }
   const currentHash = computeConfigHash(config);
-  return savedHash !== currentHash;
+  const devcontainerHash = readDevcontainerHash(process.cwd());
+  return (
+    savedHash !== currentHash || (devcontainerHash !== null && devcontainerHash !== currentHash)
+  );
 }
 
 // Get language Docker snippet from config, with version substitution
@@ -92,15 +125,26 @@ function getCliProviderSnippet(cliProvider?: string): string {
   return provider.docker.install;
 }
 
-function generateDockerfile(
+const DOCKERFILE_HEADER = `# Ralph CLI Sandbox Environment
+# Based on Claude Code devcontainer
+# Generated by ralph-cli
+#
+# Each stage builds on the previous one. Stages are ordered from least to most often
+# changed, so 'ralph docker build' only rebuilds from the first stage whose inputs changed.`;
+
+const BASE_IMAGE = "node:20-bookworm";
+
+function generateDockerStages(
   language: string,
   javaVersion?: number,
   cliProvider?: string,
   dockerConfig?: RalphConfig["docker"],
   cliModel?: string,
-): string {
+  policyConfig?: CommandPolicyConfig,
+): DockerStage[] {
   const languageSnippet = getLanguageSnippet(language, javaVersion);
   const cliSnippet = getCliProviderSnippet(cliProvider);
+  const usesShims = usesPolicyShims(cliProvider, policyConfig);
 
   // Ollama model pull: when provider is ollama and a model is configured,
   // start the server briefly and pull the model during the Docker build
@@ -109,10 +153,20 @@ function generateDockerfile(
     ollamaModelPull = `\n# Pull Ollama model during build\nRUN ollama serve & sleep 2 && ollama pull ${cliModel}\n`;
   }
 
-  // Build custom packages section
+  // Build custom packages section, plus dnsmasq in audit mode (logs DNS answers so the
+  // firewall report can name destinations)
+  const aptPackages = [
+    ...(dockerConfig?.firewall?.mode === "audit" ? ["dnsmasq"] : []),
+    ...(dockerConfig?.packages ?? []),
+  ];
   let customPackages = "";
-  if (dockerConfig?.packages && dockerConfig.packages.length > 0) {
-    customPackages = dockerConfig.packages.map((pkg) => `    ${pkg} \\`).join("\n") + "\n";
+  if (aptPackages.length > 0) {
+    customPackages = `
+# Install custom packages
+RUN apt-get update && apt-get install -y \\
+${aptPackages.map((pkg) => `    ${pkg} \\`).join("\n")}
+    && rm -rf /var/lib/apt/lists/*
+`;
   }
 
   // Build root build commands section
@@ -157,6 +211,24 @@ RUN mkdir -p /worktrees && chown node:node /worktrees
 `;
   }
 
+  // Build command policy shims: Claude Code checks commands in its PreToolUse hook,
+  // other providers get wrappers in front of the programs the policy has rules for
+  let policyShims = "";
+  if (usesShims) {
+    policyShims = `
+# Command policy shims: these programs are checked against "policy" in
+# .ralph/config.json (ralph policy exec) before they run
+COPY ${POLICY_SHIM_SCRIPT} /usr/local/bin/${POLICY_SHIM_SCRIPT}
+RUN chmod +x /usr/local/bin/${POLICY_SHIM_SCRIPT} \\
+    && mkdir -p ${POLICY_SHIM_DIR} \\
+    && for cmd in ${getShimCommands(policyConfig).join(" ")}; do \\
+        ln -s /usr/local/bin/${POLICY_SHIM_SCRIPT} ${POLICY_SHIM_DIR}/$cmd; \\
+    done
+ENV PATH="${POLICY_SHIM_DIR}:$PATH"
+ENV RALPH_POLICY_CONFIG=/workspace/.ralph/config.json
+`;
+  }
+
   // Build asciinema installation section if enabled
   let asciinemaInstall = "";
   let asciinemaDir = "";
@@ -181,12 +253,11 @@ RUN chmod +x /usr/local/bin/ralph-stream.sh
     }
   }
 
-  return `# Ralph CLI Sandbox Environment
-# Based on Claude Code devcontainer
-# Generated by ralph-cli
-
-FROM node:20-bookworm
-
+  const base: DockerStage = {
+    name: "base",
+    description: "system tools, shell and user setup",
+    inputs: {},
+    instructions: `
 ARG DEBIAN_FRONTEND=noninteractive
 ARG TZ=UTC
 ARG ZSH_IN_DOCKER_VERSION="1.2.1"
@@ -216,7 +287,7 @@ RUN apt-get update && apt-get install -y \\
     dnsutils \\
     ripgrep \\
     zsh \\
-${customPackages}    && rm -rf /var/lib/apt/lists/*
+    && rm -rf /var/lib/apt/lists/*
 
 # Setup zsh with oh-my-zsh and plugins (no theme, we set custom prompt)
 RUN sh -c "$(wget -O- https://github.com/deluan/zsh-in-docker/releases/download/v\${ZSH_IN_DOCKER_VERSION}/zsh-in-docker.sh)" -- \\
@@ -253,12 +324,6 @@ if [ -z "$RALPH_BANNER_SHOWN" ]; then
 fi
 RALPH_BANNER
 
-${cliSnippet}
-${ollamaModelPull}
-# Install ralph-cli-sandboxed from npm registry
-RUN npm install -g ralph-cli-sandboxed
-RUN ralph logo
-${languageSnippet}
 # Setup sudo only for firewall script (no general sudo for security)
 RUN echo "node ALL=(ALL) NOPASSWD: /usr/local/bin/init-firewall.sh" >> /etc/sudoers.d/node-firewall
 
@@ -266,10 +331,6 @@ RUN echo "node ALL=(ALL) NOPASSWD: /usr/local/bin/init-firewall.sh" >> /etc/sudo
 RUN mkdir -p /workspace && chown node:node /workspace
 RUN mkdir -p /home/node/.claude && chown node:node /home/node/.claude
 RUN mkdir -p /commandhistory && chown node:node /commandhistory
-${worktreesDir}${asciinemaDir}
-# Copy firewall script
-COPY init-firewall.sh /usr/local/bin/init-firewall.sh
-RUN chmod +x /usr/local/bin/init-firewall.sh
 
 # Set environment variables
 ENV DEVCONTAINER=true
@@ -281,29 +342,125 @@ ENV EDITOR=nano
 # Add bash aliases and prompt (fallback if using bash)
 RUN echo 'alias ll="ls -la"' >> /etc/bash.bashrc && \\
     echo 'PS1="\\[\\033[43;30m\\][ralph]\\w\\[\\033[0m\\]\\$ "' >> /etc/bash.bashrc
-${rootBuildCommands}${asciinemaInstall}${streamScriptCopy}
-# Switch to non-root user
+`,
+  };
+
+  const toolchain: DockerStage = {
+    name: "toolchain",
+    description: "language toolchain",
+    inputs: { language, javaVersion },
+    instructions: `
+ARG DEBIAN_FRONTEND=noninteractive
+${languageSnippet}`,
+  };
+
+  const cli: DockerStage = {
+    name: "cli",
+    description: "AI CLI and ralph-cli",
+    inputs: {
+      cliProvider: cliProvider ?? "claude",
+      ...(cliProvider === "ollama" && { "cli.model": cliModel }),
+    },
+    instructions: `
+ARG DEBIAN_FRONTEND=noninteractive
+
+${cliSnippet}
+${ollamaModelPull}
+# Install ralph-cli-sandboxed from npm registry
+RUN npm install -g ralph-cli-sandboxed
+RUN ralph logo
+`,
+  };
+
+  const packages: DockerStage = {
+    name: "packages",
+    description: "custom packages",
+    inputs: {
+      "docker.packages": dockerConfig?.packages,
+      "docker.firewall.mode": dockerConfig?.firewall?.mode,
+      "docker.asciinema.enabled": dockerConfig?.asciinema?.enabled,
+    },
+    instructions: `
+ARG DEBIAN_FRONTEND=noninteractive
+${customPackages}${asciinemaInstall}`,
+  };
+
+  const build: DockerStage = {
+    name: "build",
+    description: "project build commands",
+    inputs: {
+      "docker.buildCommands": dockerConfig?.buildCommands,
+      "docker.git": dockerConfig?.git,
+    },
+    instructions: `
+ARG DEBIAN_FRONTEND=noninteractive
+${rootBuildCommands}
 USER node
 ${gitConfigSection}${nodeBuildCommands}
+USER root
+`,
+  };
+
+  const sandbox: DockerStage = {
+    name: "sandbox",
+    description: "firewall, command policy and runtime settings",
+    inputs: {
+      "docker.firewall": dockerConfig?.firewall,
+      "docker.worktreesPath": dockerConfig?.worktreesPath,
+      "docker.asciinema": dockerConfig?.asciinema,
+      ...(usesShims && { policy: policyConfig }),
+    },
+    copies: [
+      "init-firewall.sh",
+      ...(usesShims ? [POLICY_SHIM_SCRIPT] : []),
+      ...(streamScriptCopy ? ["ralph-stream.sh"] : []),
+    ],
+    instructions: `${worktreesDir}${asciinemaDir}
+# Copy firewall script
+COPY init-firewall.sh /usr/local/bin/init-firewall.sh
+RUN chmod +x /usr/local/bin/init-firewall.sh
+${policyShims}${streamScriptCopy}
+# Switch to non-root user
+USER node
 WORKDIR /workspace
 
 # Default to zsh
 CMD ["zsh"]
-`;
+`,
+  };
+
+  return [base, toolchain, cli, packages, build, sandbox];
 }
 
-function generateFirewallScript(customDomains: string[] = []): string {
-  // Generate custom domains section if any are configured
-  let customDomainsSection = "";
-  if (customDomains.length > 0) {
-    const domainList = customDomains.join(" ");
-    customDomainsSection = `
-# Custom allowed domains (from config)
-for ip in $(dig +short ${domainList}); do
-    ipset add allowed_ips $ip 2>/dev/null || true
-done
-`;
-  }
+function generateDockerfile(stages: DockerStage[]): string {
+  return renderDockerfile(DOCKERFILE_HEADER, BASE_IMAGE, stages);
+}
+// Domains the firewall always allows: GitHub, npm registry and Anthropic API
+const BASE_FIREWALL_DOMAINS = [
+  "github.com",
+  "api.github.com",
+  "raw.githubusercontent.com",
+  "registry.npmjs.org",
+  "api.anthropic.com",
+];
+
+const DEFAULT_FIREWALL_REFRESH_INTERVAL = 300;
+
+// Merge custom firewall domains with language-specific domains
+function getFirewallDomains(language: string, dockerConfig?: RalphConfig["docker"]): string[] {
+  const customDomains = dockerConfig?.firewall?.allowedDomains || [];
+  const languagesJson = getLanguagesJson();
+  const langFirewallDomains = languagesJson.languages[language]?.docker?.firewallDomains || [];
+  return [...new Set([...customDomains, ...langFirewallDomains])];
+}
+
+function generateFirewallScript(
+  customDomains: string[] = [],
+  firewallConfig?: FirewallConfig,
+): string {
+  const mode = firewallConfig?.mode === "audit" ? "audit" : "enforce";
+  const refreshInterval = firewallConfig?.refreshInterval ?? DEFAULT_FIREWALL_REFRESH_INTERVAL;
+  const domains = [...new Set([...BASE_FIREWALL_DOMAINS, ...customDomains])];
 
   // Generate echo line with custom domains if configured
   const allowedList =
@@ -314,10 +471,19 @@ done
   return `#!/bin/bash
 # Firewall initialization script for Ralph sandbox
 # Based on Claude Code devcontainer firewall
+#
+# New outbound connections are logged to the kernel log with a RALPH-FW-ALLOW,
+# RALPH-FW-DENY or RALPH-FW-AUDIT prefix; 'ralph docker firewall report' summarizes them.
 
 set -e
 
-echo "Initializing sandbox firewall..."
+MODE="${mode}"  # enforce: drop traffic outside the allowlist; audit: log it and let it through
+REFRESH_INTERVAL=${refreshInterval}  # Seconds between DNS re-resolutions (0 = resolve once)
+ALLOWED_DOMAINS="${domains.join(" ")}"
+LOG_DIR=/workspace/.ralph/firewall
+
+echo "Initializing sandbox firewall ($MODE mode)..."
+mkdir -p "$LOG_DIR"
 
 # Get Docker DNS before flushing
 DOCKER_DNS=$(cat /etc/resolv.conf | grep nameserver | head -1 | awk '{print $2}')
@@ -330,9 +496,16 @@ iptables -t nat -X
 iptables -t mangle -F
 iptables -t mangle -X
 
-# Create ipset for allowed IPs
+# Create ipset for allowed IPs. With a refresh interval, resolved addresses expire
+# unless a later resolution sees them again, so stale CDN addresses drop out.
 ipset destroy allowed_ips 2>/dev/null || true
-ipset create allowed_ips hash:net
+if [ "$REFRESH_INTERVAL" -gt 0 ]; then
+    ipset create allowed_ips hash:net timeout $((REFRESH_INTERVAL * 3))
+    PERMANENT="timeout 0"
+else
+    ipset create allowed_ips hash:net
+    PERMANENT=""
+fi
 
 # Allow localhost
 iptables -A OUTPUT -o lo -j ACCEPT
@@ -352,47 +525,89 @@ fi
 # Allow SSH (for git)
 iptables -A OUTPUT -p tcp --dport 22 -j ACCEPT
 
-# Add allowed domains to ipset
-# GitHub
-for ip in $(dig +short github.com api.github.com raw.githubusercontent.com); do
-    ipset add allowed_ips $ip 2>/dev/null || true
-done
-
-# npm registry
-for ip in $(dig +short registry.npmjs.org); do
-    ipset add allowed_ips $ip 2>/dev/null || true
-done
-
-# Anthropic API
-for ip in $(dig +short api.anthropic.com); do
-    ipset add allowed_ips $ip 2>/dev/null || true
-done
-${customDomainsSection}
+# In audit mode, log DNS answers so the report can name the destinations
+# (skipped when a previous run already pointed resolv.conf at dnsmasq)
+if [ "$MODE" = "audit" ] && [ -n "$DOCKER_DNS" ] && [ "$DOCKER_DNS" != "127.0.0.1" ] \\
+    && command -v dnsmasq >/dev/null; then
+    dnsmasq --listen-address=127.0.0.1 --bind-interfaces --no-resolv --no-hosts --user=root \\
+        --server="$DOCKER_DNS" --log-queries --log-facility="$LOG_DIR/dns.log"
+    echo "nameserver 127.0.0.1" > /etc/resolv.conf
+fi
+
+# Add the addresses of the allowed domains to the ipset; new addresses are
+# recorded in resolved.log
+resolve_domains() {
+    for domain in $ALLOWED_DOMAINS; do
+        for ip in $(dig +short A "$domain" | grep -E '^[0-9.]+$'); do
+            if ! ipset test allowed_ips "$ip" 2>/dev/null; then
+                echo "$(date -u +%Y-%m-%dT%H:%M:%SZ) $domain $ip" >> "$LOG_DIR/resolved.log"
+            fi
+            ipset add -exist allowed_ips "$ip" 2>/dev/null || true
+        done
+    done
+}
+resolve_domains
+
 # Allow host network (for mounted volumes, etc.)
 HOST_NETWORK=$(ip route | grep default | awk '{print $3}' | head -1)
 if [ -n "$HOST_NETWORK" ]; then
     HOST_SUBNET=$(echo $HOST_NETWORK | sed 's/\\.[0-9]*$/.0\\/24/')
-    ipset add allowed_ips $HOST_SUBNET 2>/dev/null || true
+    ipset add -exist allowed_ips $HOST_SUBNET $PERMANENT 2>/dev/null || true
 fi
 
-# Allow traffic to allowed IPs
+# Log new connections (rate limited) and allow traffic to allowed IPs
+iptables -A OUTPUT -m state --state NEW -m set --match-set allowed_ips dst \\
+    -m limit --limit 10/second -j LOG --log-prefix "RALPH-FW-ALLOW: "
 iptables -A OUTPUT -m set --match-set allowed_ips dst -j ACCEPT
 
+# Everything else is dropped, or logged and allowed in audit mode
+if [ "$MODE" = "audit" ]; then
+    iptables -A OUTPUT -m state --state NEW -m limit --limit 10/second \\
+        -j LOG --log-prefix "RALPH-FW-AUDIT: "
+    iptables -A OUTPUT -j ACCEPT
+else
+    iptables -A OUTPUT -m state --state NEW -m limit --limit 10/second \\
+        -j LOG --log-prefix "RALPH-FW-DENY: "
+fi
+
 # Set default policies to DROP
 iptables -P INPUT DROP
 iptables -P FORWARD DROP
 iptables -P OUTPUT DROP
 
-# Allow HTTPS to allowed IPs
-iptables -I OUTPUT -p tcp --dport 443 -m set --match-set allowed_ips dst -j ACCEPT
-iptables -I OUTPUT -p tcp --dport 80 -m set --match-set allowed_ips dst -j ACCEPT
+# Re-resolve the allowed domains in the background so CDN address changes
+# don't break long runs
+if [ "$REFRESH_INTERVAL" -gt 0 ]; then
+    PID_FILE=/var/run/ralph-firewall-refresh.pid
+    if [ -f "$PID_FILE" ]; then
+        kill "$(cat "$PID_FILE")" 2>/dev/null || true
+    fi
+    ( while sleep "$REFRESH_INTERVAL"; do resolve_domains; done ) >/dev/null 2>&1 &
+    echo $! > "$PID_FILE"
+fi
 
-echo "Firewall initialized. Only allowed destinations are accessible."
+if [ "$MODE" = "audit" ]; then
+    echo "Firewall initialized in audit mode. Traffic outside the allowlist is logged, not blocked."
+else
+    echo "Firewall initialized. Only allowed destinations are accessible."
+fi
 echo "Allowed: ${allowedList}"
 `;
 }
 
-function generateDockerCompose(imageName: string, dockerConfig?: RalphConfig["docker"]): string {
+function generateDockerCompose(
+  imageName: string,
+  dockerConfig: RalphConfig["docker"] | undefined,
+  runtime: ContainerRuntime,
+  rootless: boolean,
+): string {
+  // Bind mount options for the runtime (e.g. ":z" for SELinux relabeling with Podman)
+  const mountOptions = runtime.bindMountOptions();
+  const mount = (volume: string, ...options: string[]) => {
+    const all = [...options, ...mountOptions];
+    return all.length > 0 ? `${volume}:${all.join(",")}` : volume;
+  };
+
   // Build ports section if configured
   let portsSection = "";
   if (dockerConfig?.ports && dockerConfig.ports.length > 0) {
@@ -403,16 +618,16 @@ function generateDockerCompose(imageName: string, dockerConfig?: RalphConfig["do
   // Build volumes array: base volumes + custom volumes
   const baseVolumes = [
     "      # Mount project root (two levels up from .ralph/docker/)",
-    "      - ../..:/workspace",
+    `      - ${mount("../..:/workspace")}`,
     "      # Mount host's ~/.claude for Pro/Max OAuth credentials",
-    "      - ${HOME}/.claude:/home/node/.claude",
+    `      - ${mount("${HOME}/.claude:/home/node/.claude")}`,
     `      - ${imageName}-history:/commandhistory`,
   ];
 
   // Mount worktrees path if configured
   if (dockerConfig?.worktreesPath) {
     baseVolumes.push("      # Mount host worktrees directory for git worktree storage");
-    baseVolumes.push(`      - ${dockerConfig.worktreesPath}:/worktrees`);
+    baseVolumes.push(`      - ${mount(`${dockerConfig.worktreesPath}:/worktrees`)}`);
   }
 
   // Mount env file if configured (read-only)
@@ -432,7 +647,9 @@ function generateDockerCompose(imageName: string, dockerConfig?: RalphConfig["do
     }
     sanitizedEnvFile = normalized;
     baseVolumes.push("      # Mount env file into container");
-    baseVolumes.push(`      - ../../${sanitizedEnvFile}:/workspace/${sanitizedEnvFile}:ro`);
+    baseVolumes.push(
+      `      - ${mount(`../../${sanitizedEnvFile}:/workspace/${sanitizedEnvFile}`, "ro")}`,
+    );
   }
 
   if (dockerConfig?.volumes && dockerConfig.volumes.length > 0) {
@@ -499,6 +716,9 @@ function generateDockerCompose(imageName: string, dockerConfig?: RalphConfig["do
     restartSection = "    restart: unless-stopped\n";
   }
 
+  const runtimeOptions = runtime.composeServiceOptions(rootless);
+  const runtimeSection = runtimeOptions.length > 0 ? `${runtimeOptions.join("\n")}\n` : "";
+
   return `# Ralph CLI Docker Compose
 # Generated by ralph-cli
 
@@ -515,7 +735,7 @@ ${environmentSection}${sanitizedEnvFile ? `    env_file:\n      - ../../${saniti
     tty: true
     cap_add:
       - NET_ADMIN  # Required for firewall
-${restartSection}${streamJsonNote}${commandSection}
+${runtimeSection}${restartSection}${streamJsonNote}${commandSection}
 volumes:
   ${imageName}-history:
 `;
@@ -623,96 +843,18 @@ function generateSkillFile(skill: SkillConfig): string {
   return lines.join("\n");
 }
 
-// Generate dangerous_patterns.txt content
-// Each line is a grep-compatible pattern that will be matched against Bash commands.
-// Lines starting with # are comments. Empty lines are ignored.
-function generateDangerousPatterns(): string {
-  return `# Dangerous command patterns for Claude Code hooks
-# Each line is a grep -E pattern matched against Bash commands.
-# Lines starting with # are comments. Empty lines are ignored.
-# Add your own patterns below to extend the blocklist.
-
-# Destructive git operations
-git clean -fd
-git checkout \\.
-git reset --hard
-git push.*--force
-git push.*-f
-git branch -D
-
-# Destructive file operations
-rm -rf /
-rm -rf \\*
-rm -rf \\.
-mkfs\\.
-dd if=.*of=/dev/
-
-# Database destruction
-DROP TABLE
-DROP DATABASE
-TRUNCATE TABLE
-
-# System-level destructive commands
-:(){ :|:& };:
-chmod -R 777 /
-chown -R.*:/
-`;
-}
-
 // Generate block-dangerous-commands.sh hook script
+// The rules live in "policy" in config.json and are checked by `ralph policy hook claude`.
 function generateBlockDangerousCommandsHook(): string {
   return `#!/bin/bash
-# Claude Code PreToolUse hook: blocks dangerous Bash commands
+# Claude Code PreToolUse hook: blocks Bash commands denied by the command policy
 # Generated by ralph-cli
 #
-# This script reads dangerous patterns from dangerous_patterns.txt
-# and blocks any Bash command that matches a pattern.
-
-set -e
-
-# Read the command from hook JSON input on stdin
-INPUT=$(cat)
-COMMAND=$(echo "$INPUT" | jq -r '.tool_input.command // empty')
-
-if [ -z "$COMMAND" ]; then
-  exit 0
-fi
-
-# Locate the dangerous_patterns.txt file next to this script
-SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
-PATTERNS_FILE="$SCRIPT_DIR/dangerous_patterns.txt"
-
-if [ ! -f "$PATTERNS_FILE" ]; then
-  exit 0
-fi
-
-# Build grep pattern from file (skip comments and empty lines)
-PATTERNS=$(grep -v '^#' "$PATTERNS_FILE" | grep -v '^$' || true)
+# Rules are set with "policy" in .ralph/config.json ('ralph policy list' shows them).
+# Patterns in dangerous_patterns.txt next to this script, if it exists, are added
+# as deny rules.
 
-if [ -z "$PATTERNS" ]; then
-  exit 0
-fi
-
-# Check if command matches any dangerous pattern
-MATCHED_PATTERN=$(echo "$PATTERNS" | while IFS= read -r pattern; do
-  if echo "$COMMAND" | grep -qE "$pattern"; then
-    echo "$pattern"
-    break
-  fi
-done)
-
-if [ -n "$MATCHED_PATTERN" ]; then
-  # Output JSON to deny the command
-  jq -n --arg reason "Blocked by safety hook: command matches dangerous pattern ($MATCHED_PATTERN)" '{
-    hookSpecificOutput: {
-      hookEventName: "PreToolUse",
-      permissionDecision: "deny",
-      permissionDecisionReason: $reason
-    }
-  }'
-else
-  exit 0
-fi
+exec ralph policy hook claude
 `;
 }
 
@@ -790,6 +932,54 @@ function generateClaudeSettings(language?: string): string {
   return JSON.stringify(settings, null, 2) + "\n";
 }
 
+// Claude Code checks commands in its PreToolUse hook, other providers need the PATH shims
+function usesPolicyShims(cliProvider?: string, policyConfig?: CommandPolicyConfig): boolean {
+  return (cliProvider ?? "claude") !== "claude" && policyConfig?.enabled !== false;
+}
+
+// Files the Dockerfile copies from the build context
+function generateContextFiles(
+  language: string,
+  dockerConfig?: RalphConfig["docker"],
+  cliProvider?: string,
+  policyConfig?: CommandPolicyConfig,
+): Record<string, string> {
+  const files: Record<string, string> = {
+    "init-firewall.sh": generateFirewallScript(
+      getFirewallDomains(language, dockerConfig),
+      dockerConfig?.firewall,
+    ),
+  };
+
+  if (usesPolicyShims(cliProvider, policyConfig)) {
+    files[POLICY_SHIM_SCRIPT] = generatePolicyShimScript(policyConfig);
+  }
+
+  // Add stream script if streamJson is enabled
+  if (dockerConfig?.asciinema?.enabled && dockerConfig.asciinema.streamJson?.enabled) {
+    const outputDir = dockerConfig.asciinema.outputDir || ".recordings";
+    const saveRawJson = dockerConfig.asciinema.streamJson.saveRawJson !== false; // default true
+    files["ralph-stream.sh"] = generateStreamScript(outputDir, saveRawJson);
+  }
+  return files;
+}
+
+// Stage hashes the current config produces, for comparison with the last build
+function getCurrentStageRecords(config: RalphConfig): StageRecord[] {
+  const stages = generateDockerStages(
+    config.language,
+    config.javaVersion,
+    config.cliProvider,
+    config.docker,
+    config.cli?.model,
+    config.policy,
+  );
+  return toStageRecords(
+    stages,
+    generateContextFiles(config.language, config.docker, config.cliProvider, config.policy),
+  );
+}
+
 async function generateFiles(
   ralphDir: string,
   language: string,
@@ -800,6 +990,8 @@ async function generateFiles(
   dockerConfig?: RalphConfig["docker"],
   claudeConfig?: RalphConfig["claude"],
   cliModel?: string,
+  policyConfig?: CommandPolicyConfig,
+  devcontainer: boolean = false,
 ): Promise<void> {
   const dockerDir = join(ralphDir, DOCKER_DIR);
 
@@ -809,28 +1001,28 @@ async function generateFiles(
     console.log(`Created ${DOCKER_DIR}/`);
   }
 
-  // Merge custom firewall domains with language-specific domains
-  const customDomains = dockerConfig?.firewall?.allowedDomains || [];
-  const languagesJson = getLanguagesJson();
-  const langFirewallDomains = languagesJson.languages[language]?.docker?.firewallDomains || [];
-  const allFirewallDomains = [...new Set([...customDomains, ...langFirewallDomains])];
+  const runtime = getContainerRuntime(dockerConfig?.runtime);
+  const rootless = runtime.isRootless();
+  const stages = generateDockerStages(
+    language,
+    javaVersion,
+    cliProvider,
+    dockerConfig,
+    cliModel,
+    policyConfig,
+  );
+  const contextFiles = generateContextFiles(language, dockerConfig, cliProvider, policyConfig);
   const files: { name: string; content: string }[] = [
+    { name: "Dockerfile", content: generateDockerfile(stages) },
+    ...Object.entries(contextFiles).map(([name, content]) => ({ name, content })),
     {
-      name: "Dockerfile",
-      content: generateDockerfile(language, javaVersion, cliProvider, dockerConfig, cliModel),
+      name: "docker-compose.yml",
+      content: generateDockerCompose(imageName, dockerConfig, runtime, rootless),
     },
-    { name: "init-firewall.sh", content: generateFirewallScript(allFirewallDomains) },
-    { name: "docker-compose.yml", content: generateDockerCompose(imageName, dockerConfig) },
     { name: ".dockerignore", content: DOCKERIGNORE },
   ];
 
-  // Add stream script if streamJson is enabled
-  if (dockerConfig?.asciinema?.enabled && dockerConfig.asciinema.streamJson?.enabled) {
-    const outputDir = dockerConfig.asciinema.outputDir || ".recordings";
-    const saveRawJson = dockerConfig.asciinema.streamJson.saveRawJson !== false; // default true
-    files.push({ name: "ralph-stream.sh", content: generateStreamScript(outputDir, saveRawJson) });
-  }
-
+  let dockerfileWritten = false;
   for (const file of files) {
     const filePath = join(dockerDir, file.name);
 
@@ -845,6 +1037,7 @@ async function generateFiles(
     }
 
     writeFileSync(filePath, file.content);
+    dockerfileWritten ||= file.name === "Dockerfile";
 
     if (file.name.endsWith(".sh")) {
       chmodSync(filePath, 0o755);
@@ -853,6 +1046,13 @@ async function generateFiles(
     console.log(`Created ${DOCKER_DIR}/${file.name}`);
   }
 
+  // Record the stage hashes of the new Dockerfile so the next build knows what to rebuild
+  if (dockerfileWritten) {
+    saveStageState(join(dockerDir, GENERATED_STAGES_FILE), {
+      stages: toStageRecords(stages, contextFiles),
+    });
+  }
+
   // Generate Claude config files at project root
   const projectRoot = process.cwd();
 
@@ -904,23 +1104,6 @@ async function generateFiles(
     console.log("Created .claude/hooks/");
   }
 
-  // Generate dangerous_patterns.txt (extendable list of blocked command patterns)
-  const patternsPath = join(hooksDir, "dangerous_patterns.txt");
-  if (existsSync(patternsPath) && !force) {
-    const overwrite = await promptConfirm(
-      ".claude/hooks/dangerous_patterns.txt already exists. Overwrite?",
-    );
-    if (overwrite) {
-      writeFileSync(patternsPath, generateDangerousPatterns());
-      console.log("Created .claude/hooks/dangerous_patterns.txt");
-    } else {
-      console.log("Skipped .claude/hooks/dangerous_patterns.txt");
-    }
-  } else {
-    writeFileSync(patternsPath, generateDangerousPatterns());
-    console.log("Created .claude/hooks/dangerous_patterns.txt");
-  }
-
   // Generate block-dangerous-commands.sh hook script
   const hookScriptPath = join(hooksDir, "block-dangerous-commands.sh");
   if (existsSync(hookScriptPath) && !force) {
@@ -976,7 +1159,7 @@ async function generateFiles(
     console.log("Created .claude/settings.json");
   }
 
-  // Save config hash for change detection
+  // Config hash for change detection
   const configForHash: RalphConfig = {
     language,
     checkCommand: "",
@@ -986,12 +1169,42 @@ async function generateFiles(
     docker: dockerConfig,
     claude: claudeConfig,
     cli: cliModel ? { command: "", model: cliModel } : undefined,
+    policy: policyConfig,
   };
   const hash = computeConfigHash(configForHash);
+
+  // Generate .devcontainer/devcontainer.json when asked, and keep a generated one in sync
+  const devcontainerHash = readDevcontainerHash(projectRoot);
+  if (devcontainer || devcontainerHash !== null) {
+    const devcontainerPath = getDevcontainerPath(projectRoot);
+    const label = `${DEVCONTAINER_DIR}/devcontainer.json`;
+    const overwrite =
+      !existsSync(devcontainerPath) ||
+      devcontainerHash !== null ||
+      force ||
+      (await promptConfirm(`${label} already exists. Overwrite?`));
+    if (overwrite) {
+      mkdirSync(join(projectRoot, DEVCONTAINER_DIR), { recursive: true });
+      writeFileSync(
+        devcontainerPath,
+        generateDevcontainerJson({
+          name: imageName,
+          configHash: hash,
+          docker: dockerConfig,
+          mcpServers: claudeConfig?.mcpServers,
+          runArgs: runtime.runArgs(rootless),
+        }),
+      );
+      console.log(`Created ${label}`);
+    } else {
+      console.log(`Skipped ${label}`);
+    }
+  }
+
   saveConfigHash(dockerDir, hash);
 }
 
-async function buildImage(ralphDir: string): Promise<void> {
+async function buildImage(ralphDir: string, noCache: boolean = false): Promise<void> {
   const dockerDir = join(ralphDir, DOCKER_DIR);
 
   if (!existsSync(join(dockerDir, "Dockerfile"))) {
@@ -1021,28 +1234,58 @@ async function buildImage(ralphDir: string): Promise<void> {
         config.docker,
         config.claude,
         config.cli?.model,
+        config.policy,
       );
       console.log("");
     }
   }
 
-  console.log("Building Docker image...\n");
+  const runtime = getContainerRuntime(config.docker?.runtime);
   const imageName =
     config.imageName ||
     `ralph-${basename(process.cwd())
       .toLowerCase()
       .replace(/[^a-z0-9-]/g, "-")}`;
 
+  // Compare the Dockerfile's stages with the last build: unchanged stages come from the
+  // layer cache, so only the first stale stage and the ones after it are rebuilt
+  const generated = loadStageState(join(dockerDir, GENERATED_STAGES_FILE));
+  if (generated && !noCache) {
+    const built = (await imageExists(imageName, runtime))
+      ? loadStageState(join(dockerDir, BUILT_STAGES_FILE))
+      : null;
+    const stale = compareStages(generated.stages, built?.stages ?? null).filter((s) => s.stale);
+    if (stale.length === 0) {
+      console.log("Docker image is up to date: no stage changed since the last build.");
+      console.log("Use 'ralph docker build --clean' to rebuild from scratch with the latest CLIs.");
+      return;
+    }
+    if (stale.length < generated.stages.length) {
+      console.log(`Rebuilding stages ${stale.map((s) => s.name).join(", ")} (${stale[0].reason}).`);
+    }
+  }
+
+  console.log(`Building Docker image with ${runtime.name}...\n`);
+
   return new Promise((resolve, reject) => {
-    // Use --no-cache and --pull to ensure we always get the latest CLI versions
+    // --no-cache and --pull rebuild everything with the latest base image and CLI versions;
+    // otherwise the layer cache keeps the stages whose inputs didn't change
     // Use -p to set unique project name per ralph project
-    const proc = spawn("docker", ["compose", "-p", imageName, "build", "--no-cache", "--pull"], {
+    const buildArgs = noCache ? ["build", "--no-cache", "--pull"] : ["build"];
+    const compose = runtime.composeCommand(["-p", imageName, ...buildArgs]);
+    const proc = spawn(compose.command, compose.args, {
       cwd: dockerDir,
       stdio: "inherit",
     });
 
     proc.on("close", (code) => {
       if (code === 0) {
+        if (generated) {
+          saveStageState(join(dockerDir, BUILT_STAGES_FILE), {
+            stages: generated.stages,
+            builtAt: new Date().toISOString(),
+          });
+        }
         console.log("\nDocker image built successfully!");
         resolve();
       } else {
@@ -1051,14 +1294,14 @@ async function buildImage(ralphDir: string): Promise<void> {
     });
 
     proc.on("error", (err) => {
-      reject(new Error(`Failed to run docker: ${err.message}`));
+      reject(new Error(`Failed to run ${runtime.command}: ${err.message}`));
     });
   });
 }
 
-async function imageExists(imageName: string): Promise<boolean> {
+async function imageExists(imageName: string, runtime: ContainerRuntime): Promise<boolean> {
   return new Promise((resolve) => {
-    const proc = spawn("docker", ["images", "-q", imageName], {
+    const proc = spawn(runtime.command, ["images", "-q", imageName], {
       stdio: ["ignore", "pipe", "ignore"],
     });
 
@@ -1184,7 +1427,8 @@ async function runContainer(
 ): Promise<void> {
   const dockerDir = join(ralphDir, DOCKER_DIR);
   const dockerfileExists = existsSync(join(dockerDir, "Dockerfile"));
-  const hasImage = await imageExists(imageName);
+  const runtime = getContainerRuntime(dockerConfig?.runtime);
+  const hasImage = await imageExists(imageName, runtime);
 
   // Check if config has changed since last docker init
   if (dockerfileExists) {
@@ -1197,6 +1441,7 @@ async function runContainer(
       docker: dockerConfig,
       claude: claudeConfig,
       cli: fullConfig?.cli?.model ? { command: "", model: fullConfig.cli.model } : undefined,
+      policy: fullConfig?.policy,
     };
     if (hasConfigChanged(ralphDir, configForHash)) {
       const regenerate = await promptConfirm(
@@ -1213,6 +1458,7 @@ async function runContainer(
           dockerConfig,
           claudeConfig,
           fullConfig?.cli?.model,
+          fullConfig?.policy,
         );
         console.log("");
       }
@@ -1233,6 +1479,7 @@ async function runContainer(
         dockerConfig,
         claudeConfig,
         fullConfig?.cli?.model,
+        fullConfig?.policy,
       );
       console.log("");
     }
@@ -1251,7 +1498,7 @@ async function runContainer(
       ? `${cliConfig.command} ${cliConfig.yoloArgs.join(" ")}`
       : cliConfig.command;
 
-  console.log("Starting Docker container...\n");
+  console.log(`Starting Docker container with ${runtime.name}...\n`);
 
   // Show note about yolo mode and credentials
   console.log("IMPORTANT: Getting Started");
@@ -1297,7 +1544,8 @@ async function runContainer(
 
   return new Promise((resolve, reject) => {
     // Use -p to set unique project name per ralph project
-    const proc = spawn("docker", ["compose", "-p", imageName, "run", "--rm", "ralph"], {
+    const compose = runtime.composeCommand(["-p", imageName, "run", "--rm", "ralph"]);
+    const proc = spawn(compose.command, compose.args, {
       cwd: dockerDir,
       stdio: "inherit",
     });
@@ -1315,12 +1563,16 @@ async function runContainer(
 
     proc.on("error", (err) => {
       cleanupServices();
-      reject(new Error(`Failed to run docker: ${err.message}`));
+      reject(new Error(`Failed to run ${runtime.command}: ${err.message}`));
     });
   });
 }
 
-async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
+async function cleanImage(
+  imageName: string,
+  ralphDir: string,
+  runtime: ContainerRuntime,
+): Promise<void> {
   const dockerDir = join(ralphDir, DOCKER_DIR);
 
   console.log(`Cleaning Docker image: ${imageName}...\n`);
@@ -1330,7 +1582,8 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
     // Stop running containers first
     // Use -p to target only this project's resources
     await new Promise<void>((resolve) => {
-      const proc = spawn("docker", ["compose", "-p", imageName, "stop", "--timeout", "5"], {
+      const compose = runtime.composeCommand(["-p", imageName, "stop", "--timeout", "5"]);
+      const proc = spawn(compose.command, compose.args, {
         cwd: dockerDir,
         stdio: "inherit",
       });
@@ -1347,25 +1600,21 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
     // Remove containers, volumes, networks, and local images
     // Use -p to target only this project's resources
     await new Promise<void>((resolve) => {
-      const proc = spawn(
-        "docker",
-        [
-          "compose",
-          "-p",
-          imageName,
-          "down",
-          "--rmi",
-          "local",
-          "-v",
-          "--remove-orphans",
-          "--timeout",
-          "5",
-        ],
-        {
-          cwd: dockerDir,
-          stdio: "inherit",
-        },
-      );
+      const compose = runtime.composeCommand([
+        "-p",
+        imageName,
+        "down",
+        "--rmi",
+        "local",
+        "-v",
+        "--remove-orphans",
+        "--timeout",
+        "5",
+      ]);
+      const proc = spawn(compose.command, compose.args, {
+        cwd: dockerDir,
+        stdio: "inherit",
+      });
 
       proc.on("close", () => {
         // Continue regardless of exit code (image may not exist)
@@ -1384,7 +1633,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
   const volumePattern = imageName;
   await new Promise<void>((resolve) => {
     // List all containers (including stopped) and filter by volume name pattern
-    const proc = spawn("docker", ["ps", "-aq", "--filter", `volume=${volumePattern}`], {
+    const proc = spawn(runtime.command, ["ps", "-aq", "--filter", `volume=${volumePattern}`], {
       stdio: ["ignore", "pipe", "ignore"],
     });
 
@@ -1401,7 +1650,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
       if (containerIds.length > 0) {
         // Force remove these containers
         await new Promise<void>((innerResolve) => {
-          const rmProc = spawn("docker", ["rm", "-f", ...containerIds], {
+          const rmProc = spawn(runtime.command, ["rm", "-f", ...containerIds], {
             stdio: "inherit",
           });
           rmProc.on("close", () => innerResolve());
@@ -1418,7 +1667,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
 
   // Also try to remove the image directly (in case it was built outside compose)
   await new Promise<void>((resolve) => {
-    const proc = spawn("docker", ["rmi", "-f", imageName], {
+    const proc = spawn(runtime.command, ["rmi", "-f", imageName], {
       stdio: "inherit",
     });
 
@@ -1434,9 +1683,13 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
   // Clean up volumes matching our pattern
   await new Promise<void>((resolve) => {
     // List volumes matching our pattern
-    const proc = spawn("docker", ["volume", "ls", "-q", "--filter", `name=${volumePattern}`], {
-      stdio: ["ignore", "pipe", "ignore"],
-    });
+    const proc = spawn(
+      runtime.command,
+      ["volume", "ls", "-q", "--filter", `name=${volumePattern}`],
+      {
+        stdio: ["ignore", "pipe", "ignore"],
+      },
+    );
 
     let output = "";
     proc.stdout.on("data", (data) => {
@@ -1451,7 +1704,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
       if (volumeNames.length > 0) {
         // Force remove these volumes
         await new Promise<void>((innerResolve) => {
-          const rmProc = spawn("docker", ["volume", "rm", "-f", ...volumeNames], {
+          const rmProc = spawn(runtime.command, ["volume", "rm", "-f", ...volumeNames], {
             stdio: "inherit",
           });
           rmProc.on("close", () => innerResolve());
@@ -1469,7 +1722,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
   // Also try removing the simple volume name pattern
   const volumeName = `${imageName}-history`;
   await new Promise<void>((resolve) => {
-    const proc = spawn("docker", ["volume", "rm", "-f", volumeName], {
+    const proc = spawn(runtime.command, ["volume", "rm", "-f", volumeName], {
       stdio: "inherit",
     });
 
@@ -1485,7 +1738,11 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
   // For Podman: clean up any orphaned pods matching this specific project
   // Use imageName to ensure we only clean this project's pods, not other ralph projects
   await new Promise<void>((resolve) => {
-    const proc = spawn("docker", ["pod", "ls", "-q", "--filter", `name=${imageName}`], {
+    if (!runtime.hasPods) {
+      resolve();
+      return;
+    }
+    const proc = spawn(runtime.command, ["pod", "ls", "-q", "--filter", `name=${imageName}`], {
       stdio: ["ignore", "pipe", "ignore"],
     });
 
@@ -1502,7 +1759,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
       if (podIds.length > 0) {
         // Force remove these pods (this also removes their containers)
         await new Promise<void>((innerResolve) => {
-          const rmProc = spawn("docker", ["pod", "rm", "-f", ...podIds], {
+          const rmProc = spawn(runtime.command, ["pod", "rm", "-f", ...podIds], {
             stdio: "inherit",
           });
           rmProc.on("close", () => innerResolve());
@@ -1513,7 +1770,6 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
     });
 
     proc.on("error", () => {
-      // docker pod command doesn't exist (not Podman) - ignore
       resolve();
     });
   });
@@ -1521,7 +1777,7 @@ async function cleanImage(imageName: string, ralphDir: string): Promise<void> {
   // Clean up project-specific network (project name is imageName via -p flag)
   const networkName = `${imageName}_default`;
   await new Promise<void>((resolve) => {
-    const proc = spawn("docker", ["network", "rm", networkName], {
+    const proc = spawn(runtime.command, ["network", "rm", networkName], {
       stdio: ["ignore", "ignore", "ignore"], // Suppress output - network may not exist
     });
 
@@ -1570,6 +1826,7 @@ export async function dockerInit(silent: boolean = false): Promise<void> {
     config.docker,
     config.claude,
     config.cli?.model,
+    config.policy,
   );
 
   if (!silent) {
@@ -1598,25 +1855,34 @@ ralph docker - Generate and manage Docker sandbox environment
 USAGE:
   ralph docker init         Generate Dockerfile and scripts
   ralph docker init -y      Generate files, overwrite without prompting
-  ralph docker build        Build image (fetches latest CLI versions)
-  ralph docker build --clean  Clean existing image and rebuild from scratch
-                              (alias: --no-cache)
+  ralph docker init --devcontainer
+                            Also generate .devcontainer/devcontainer.json for editors
+  ralph docker build        Build image, rebuilding only the stages whose inputs changed
+  ralph docker build --clean  Clean existing image and rebuild from scratch with the
+                              latest CLI versions (alias: --no-cache)
+  ralph docker status       Show which image stages are stale and why
   ralph docker run          Run container (auto-init and build if needed)
   ralph docker clean        Remove Docker image and associated resources
+  ralph docker firewall report [log]
+                            Summarize blocked and allowed connections and suggest
+                            domains for docker.firewall.allowedDomains
   ralph docker help         Show this help message
 
 FILES GENERATED:
   .ralph/docker/
-  ├── Dockerfile            Based on Claude Code devcontainer
+  ├── Dockerfile            Based on Claude Code devcontainer, in cacheable stages
   ├── init-firewall.sh      Sandbox firewall script
   ├── docker-compose.yml    Container orchestration
   └── .dockerignore         Build exclusions
 
+  .devcontainer/
+  └── devcontainer.json     Dev container using the same Dockerfile (--devcontainer);
+                            regenerated with the Docker files once it exists
+
   .claude/
   ├── settings.json         Hooks configuration
   └── hooks/
-      ├── block-dangerous-commands.sh  PreToolUse hook script
-      └── dangerous_patterns.txt       Extendable blocklist of patterns
+      └── block-dangerous-commands.sh  PreToolUse hook (runs 'ralph policy hook claude')
 
 AUTHENTICATION:
   Pro/Max users: Your ~/.claude credentials are mounted automatically.
@@ -1626,8 +1892,10 @@ EXAMPLES:
   ralph docker init               # Generate files
   ralph docker build              # Build image
   ralph docker build --clean      # Clean and rebuild from scratch
+  ralph docker status             # What would the next build rebuild?
   ralph docker run                # Start interactive shell
   ralph docker clean              # Remove image and volumes
+  ralph docker firewall report    # Which domains did the firewall block?
 
   # Or use docker compose directly:
   cd .ralph/docker && docker compose run --rm ralph
@@ -1635,6 +1903,18 @@ EXAMPLES:
   # Run ralph automation in container:
   docker compose run --rm ralph ralph once
 
+IMAGE STAGES:
+  The Dockerfile is split into stages built on top of each other: base (system tools),
+  toolchain (language), cli (AI CLI, ralph-cli), packages (docker.packages), build
+  (docker.buildCommands, docker.git) and sandbox (firewall, policy). 'ralph docker build'
+  reuses cached stages and rebuilds from the first stage whose inputs changed.
+
+CONTAINER RUNTIMES:
+  Docker, Podman and nerdctl are supported. By default the runtime is detected
+  (Docker if its daemon is running, then Podman, then nerdctl); set docker.runtime
+  in config.json to "docker", "podman" or "nerdctl" to choose one. With rootless
+  Podman the container's node user is mapped to your user (userns keep-id).
+
 INSTALLING PACKAGES (works with Docker & Podman):
   # 1. Run as root to install packages:
   docker compose run -u root ralph apt-get update
@@ -1673,12 +1953,26 @@ INSTALLING PACKAGES (works with Docker & Podman):
       // Handle build --clean combination: clean first, then build
       // Also support --no-cache as alias for --clean
       if (hasFlag("--clean") || hasFlag("--no-cache") || hasFlag("-no-cache")) {
-        await cleanImage(imageName, ralphDir);
+        await cleanImage(imageName, ralphDir, getContainerRuntime(config.docker?.runtime));
         console.log(""); // Add spacing between clean and build output
+        await buildImage(ralphDir, true);
+      } else {
+        await buildImage(ralphDir);
       }
-      await buildImage(ralphDir);
       break;
 
+    case "status": {
+      const runtime = getContainerRuntime(config.docker?.runtime);
+      dockerStatus(ralphDir, {
+        imageName,
+        runtime: runtime.name,
+        hasImage: await imageExists(imageName, runtime),
+        configChanged: hasConfigChanged(ralphDir, config),
+        stages: getCurrentStageRecords(config),
+      });
+      break;
+    }
+
     case "run":
       await runContainer(
         ralphDir,
@@ -1693,16 +1987,26 @@ INSTALLING PACKAGES (works with Docker & Podman):
       break;
 
     case "clean":
-      await cleanImage(imageName, ralphDir);
+      await cleanImage(imageName, ralphDir, getContainerRuntime(config.docker?.runtime));
+      break;
+
+    case "firewall":
+      dockerFirewall(subArgs, ralphDir, {
+        mode: config.docker?.firewall?.mode,
+        configuredDomains: config.docker?.firewall?.allowedDomains ?? [],
+        allowedDomains: [
+          ...BASE_FIREWALL_DOMAINS,
+          ...getFirewallDomains(config.language, config.docker),
+        ],
+      });
       break;
 
     case "init":
     default: {
       // Default to init if no subcommand or unrecognized subcommand
-      const force =
-        subcommand === "init"
-          ? subArgs[0] === "-y" || subArgs[0] === "--yes"
-          : subcommand === "-y" || subcommand === "--yes";
+      const initArgs = subcommand === "init" ? subArgs : args;
+      const force = initArgs.includes("-y") || initArgs.includes("--yes");
+      const devcontainer = initArgs.includes("--devcontainer");
       console.log(`Generating Docker files for: ${config.language}`);
       if ((config.language === "java" || config.language === "kotlin") && config.javaVersion) {
         console.log(`Java version: ${config.javaVersion}`);
@@ -1721,8 +2025,15 @@ INSTALLING PACKAGES (works with Docker & Podman):
         config.docker,
         config.claude,
         config.cli?.model,
+        config.policy,
+        devcontainer,
       );
 
+      if (devcontainer) {
+        console.log(`
+Dev container written to ${DEVCONTAINER_DIR}/devcontainer.json. Editors with dev container
+support (e.g. VS Code: "Reopen in Container") build it from the same Dockerfile.`);
+      }
       console.log(`
 Docker files generated in .ralph/docker/
 
@@ -2,6 +2,7 @@ import { existsSync, readFileSync, writeFileSync, copyFileSync } from "fs";
 import { getPaths, type RalphConfig } from "../utils/config.js";
 import { promptConfirm } from "../utils/prompt.js";
 import { getLanguages, getCliProviders } from "../templates/prompts.js";
+import { CATEGORY_NAME_PATTERN } from "../utils/prd-categories.js";
 
 /**
  * Configuration sections that can be individually validated and recovered.
@@ -17,6 +18,15 @@ const CONFIG_SECTIONS = [
   "notifications",
   "technologies",
   "javaVersion",
+  "maxCostUsd",
+  "maxTokens",
+  "maxAttemptsPerTask",
+  "verification",
+  "iteration",
+  "pick",
+  "lint",
+  "policy",
+  "categories",
   "docker",
   "claude",
   "chat",
@@ -162,9 +172,25 @@ function validateSection(section: ConfigSection, value: unknown): boolean {
     case "technologies":
       return Array.isArray(value) && value.every((item) => typeof item === "string");
 
+    case "categories":
+      return (
+        Array.isArray(value) &&
+        value.every((item) => {
+          const name = typeof item === "object" && item !== null ? item.name : item;
+          return typeof name === "string" && CATEGORY_NAME_PATTERN.test(name);
+        })
+      );
+
     case "javaVersion":
       return value === null || typeof value === "number";
 
+    case "maxCostUsd":
+    case "maxTokens":
+      return typeof value === "number" && value > 0;
+
+    case "maxAttemptsPerTask":
+      return typeof value === "number" && Number.isInteger(value) && value > 0;
+
     case "cli":
       if (typeof value !== "object" || value === null) return false;
       const cli = value as Record<string, unknown>;
@@ -175,6 +201,11 @@ function validateSection(section: ConfigSection, value: unknown): boolean {
       const notif = value as Record<string, unknown>;
       return typeof notif.provider === "string";
 
+    case "verification":
+    case "iteration":
+    case "pick":
+    case "lint":
+    case "policy":
     case "docker":
     case "claude":
     case "chat":
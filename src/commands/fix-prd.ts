@@ -9,8 +9,19 @@ import {
   createTemplatePrd,
   readPrdFile,
   writePrdAuto,
+  PrdEntry,
 } from "../utils/prd-validator.js";
-import { robustYamlParse } from "../utils/prd-validator.js";
+import { robustYamlParse, resolvePrdSources } from "../utils/prd-validator.js";
+import { assignMissingIds } from "../utils/prd-ids.js";
+import { loadCategoryNames } from "../utils/prd-categories.js";
+
+/**
+ * Writes recovered/restored entries, keeping their ids and assigning ids
+ * to entries that lost theirs (or never had one).
+ */
+function writeRecoveredPrd(prdPath: string, entries: PrdEntry[]): void {
+  writePrdAuto(prdPath, assignMissingIds(entries).entries, { action: "fix", source: "cli" });
+}
 
 /**
  * Resolves a backup path - can be absolute, relative, or just a filename.
@@ -54,7 +65,7 @@ function restoreFromBackup(prdPath: string, backupPath: string): boolean {
   try {
     const backupContent = readFileSync(backupPath, "utf-8");
     const backupParsed = parseBackupContent(backupPath, backupContent);
-    const validation = validatePrd(backupParsed);
+    const validation = validatePrd(backupParsed, loadCategoryNames());
 
     if (!validation.valid) {
       console.error("Error: Backup file contains invalid PRD structure:");
@@ -71,7 +82,7 @@ function restoreFromBackup(prdPath: string, backupPath: string): boolean {
     }
 
     // Write in the same format as the target PRD file
-    writePrdAuto(prdPath, validation.data!);
+    writeRecoveredPrd(prdPath, validation.data!);
     console.log(`\x1b[32m✓ PRD restored from: ${backupPath}\x1b[0m`);
     console.log(`  Restored ${validation.data!.length} entries.`);
     return true;
@@ -104,10 +115,10 @@ function handleBrokenPrd(prdPath: string): void {
     try {
       const backupContent = readFileSync(latestBackup, "utf-8");
       const backupParsed = parseBackupContent(latestBackup, backupContent);
-      const backupValidation = validatePrd(backupParsed);
+      const backupValidation = validatePrd(backupParsed, loadCategoryNames());
 
       if (backupValidation.valid) {
-        writePrdAuto(prdPath, backupValidation.data!);
+        writeRecoveredPrd(prdPath, backupValidation.data!);
         console.log("\x1b[32m✓ PRD restored from backup!\x1b[0m");
         console.log(`  Restored ${backupValidation.data!.length} entries.`);
         console.log("\x1b[33m  Note: Recent changes may have been lost.\x1b[0m");
@@ -124,7 +135,7 @@ function handleBrokenPrd(prdPath: string): void {
 
   // Reset to template as last resort - with instructions to recover from backup
   console.log("Resetting PRD to recovery template...");
-  writePrdAuto(prdPath, createTemplatePrd(backupPath));
+  writePrdAuto(prdPath, createTemplatePrd(backupPath), { action: "fix", source: "cli" });
   console.log("\x1b[33m✓ PRD reset with recovery task.\x1b[0m");
   console.log("  Next 'ralph run' will instruct the LLM to recover entries from backup.");
   console.log(`  Backup location: ${backupPath}`);
@@ -167,8 +178,9 @@ export async function fixPrd(args: string[] = []): Promise<void> {
   const isYamlFile =
     extname(prdPath).toLowerCase() === ".yaml" || extname(prdPath).toLowerCase() === ".yml";
   const fileFormatName = isYamlFile ? "YAML" : "JSON";
+  const isSplit = resolvePrdSources(prdPath) !== null;
 
-  console.log(`Checking PRD structure (${fileFormatName})...\n`);
+  console.log(`Checking PRD structure (${isSplit ? "split PRD" : fileFormatName})...\n`);
 
   // Step 1: Try to read and parse the file
   const parsed = readPrdFile(prdPath);
@@ -184,7 +196,7 @@ export async function fixPrd(args: string[] = []): Promise<void> {
   }
 
   // Step 2: Validate the structure
-  const validation = validatePrd(parsed.content);
+  const validation = validatePrd(parsed.content, loadCategoryNames());
 
   if (validation.valid) {
     console.log("\x1b[32m✓ PRD is valid.\x1b[0m");
@@ -192,6 +204,16 @@ export async function fixPrd(args: string[] = []): Promise<void> {
     return;
   }
 
+  // Structure is fine but ids/dependsOn are inconsistent - recovery would only lose data
+  if (validation.data) {
+    console.log("\x1b[31m✗ PRD dependencies are invalid:\x1b[0m");
+    validation.errors.forEach((err) => {
+      console.log(`  - ${err}`);
+    });
+    console.log("\nEdit the 'id' and 'dependsOn' fields in the PRD to fix these references.");
+    process.exit(1);
+  }
+
   // PRD is invalid
   console.log("\x1b[31m✗ PRD structure is invalid:\x1b[0m");
   validation.errors.slice(0, 5).forEach((err) => {
@@ -214,14 +236,14 @@ export async function fixPrd(args: string[] = []): Promise<void> {
   console.log("Attempting recovery...\n");
 
   // Strategy 1: Try to recover from malformed structure
-  const recovered = attemptRecovery(parsed.content);
+  const recovered = attemptRecovery(parsed.content, loadCategoryNames());
 
   if (recovered) {
     // Validate the recovered data
-    const recoveredValidation = validatePrd(recovered);
+    const recoveredValidation = validatePrd(recovered, loadCategoryNames());
 
     if (recoveredValidation.valid) {
-      writePrdAuto(prdPath, recovered);
+      writeRecoveredPrd(prdPath, recovered);
       console.log("\x1b[32m✓ PRD recovered successfully!\x1b[0m");
       console.log(`  Recovered ${recovered.length} entries by unwrapping/remapping fields.`);
       return;
@@ -239,10 +261,10 @@ export async function fixPrd(args: string[] = []): Promise<void> {
     try {
       const backupContent = readFileSync(latestBackup, "utf-8");
       const backupParsed = parseBackupContent(latestBackup, backupContent);
-      const backupValidation = validatePrd(backupParsed);
+      const backupValidation = validatePrd(backupParsed, loadCategoryNames());
 
       if (backupValidation.valid) {
-        writePrdAuto(prdPath, backupValidation.data!);
+        writeRecoveredPrd(prdPath, backupValidation.data!);
         console.log("\x1b[32m✓ PRD restored from backup!\x1b[0m");
         console.log(`  Restored ${backupValidation.data!.length} entries.`);
         console.log("\x1b[33m  Note: Recent changes may have been lost.\x1b[0m");
@@ -259,7 +281,7 @@ export async function fixPrd(args: string[] = []): Promise<void> {
 
   // Strategy 3: Reset to recovery template - LLM will fix it on next run
   console.log("Resetting PRD to recovery template...");
-  writePrdAuto(prdPath, createTemplatePrd(backupPath));
+  writePrdAuto(prdPath, createTemplatePrd(backupPath), { action: "fix", source: "cli" });
   console.log("\x1b[33m✓ PRD reset with recovery task.\x1b[0m");
   console.log("  Next 'ralph run' will instruct the LLM to recover entries from backup.");
   console.log(`  Backup location: ${backupPath}`);
@@ -10,8 +10,8 @@ COMMANDS:
   run [n] [opts]    Run automation iterations (default: all tasks)
   add               Add a new PRD entry (interactive)
   list [opts]       List all PRD entries
-  status [--head]   Show PRD completion status
-  toggle <n>        Toggle passes status for entry n
+  status [opts]     Show PRD completion status
+  toggle <n|id>     Toggle passes status for entry n (or by id)
   clean             Remove all passing entries from the PRD
   reset             Reset all entries to incomplete (passes=false)
   fix-prd [opts]    Validate and recover corrupted PRD file
@@ -26,9 +26,20 @@ COMMANDS:
   slack <sub>       Slack app setup and management
   branch <sub>      Manage git branch worktrees
   progress <sub>    Manage progress.txt file
+  history [sub]     Show recorded runs and iteration results
+  rollback [n]      Restore the workspace and PRD to the checkpoint before iteration n
+  quarantine [sub]  List items set aside after repeated failures, or release them
+  policy <sub>      Check commands against the command policy, list rules, show blocks
   help              Show this help message
 
   prd <subcommand>  (Alias) Manage PRD entries - same as add/list/status/toggle/clean
+  prd import <file> Import PRD entries from a Markdown checklist, CSV or JSON issue export
+  prd export        Export the PRD as a Markdown report, JUnit XML, HTML page or CSV
+  prd edit          Edit, reorder, toggle and delete PRD entries in an interactive TUI
+  prd generate      Draft PRD entries from a free-text spec file with an LLM provider
+  prd lint          Check PRD entries for vague, unverifiable or duplicate items
+  prd log           Show the history of PRD changes (who changed what, and when)
+  prd diff <a> [b]  Compare two points in the PRD history, or backup files
 
 INIT:
   The init command uses interactive prompts with arrow key navigation:
@@ -41,22 +52,57 @@ RUN OPTIONS:
   --all, -a                  Run until all tasks are complete (default behavior)
   --loop, -l                 Run continuously, waiting for new items when complete
   --category, -c <category>  Filter PRD items by category
-                             Valid: ui, feature, bugfix, setup, development, testing, docs
+                             Built-in: ui, feature, bugfix, setup, development, testing, docs
+                             (add more with "categories" in config.json)
+  --parallel, -p <n>         Run up to n branch groups at once, one agent per worktree
+  --pick <strategy>          Order of unblocked items: fifo (default), priority,
+                             category-round-robin, smallest-first
+  --max-tasks-in-context <n> Only show the agent the first n items per iteration
 
 LIST OPTIONS:
   --category, -c <category>  Filter PRD items by category
-                             Valid: ui, feature, bugfix, setup, development, testing, docs
+                             Built-in: ui, feature, bugfix, setup, development, testing, docs
+                             (add more with "categories" in config.json)
   --passes                   Show only completed items (passes=true)
   --no-passes                Show only incomplete items (passes=false)
 
 STATUS OPTIONS:
   --head                     Show only status summary without task headlines
+  --by-file                  Group remaining items by PRD file (split PRDs)
 
 TOGGLE OPTIONS:
   <n> [n2] [n3]...           Toggle one or more entries by number
   <start>-<end>              Toggle a range of entries (e.g., 1-18)
   --all, -a                  Toggle all PRD entries
 
+PRD IMPORT OPTIONS:
+  <file>                     .md checklist, .csv file or .json issue export
+  --format, -f <format>      markdown, csv or issues (default: detected from extension)
+  --dry-run, -n              Show the preview without writing the PRD
+  --yes, -y                  Skip the confirmation prompt
+
+PRD EXPORT OPTIONS:
+  --format, -f <format>      md, junit, html or csv (default: md)
+  --output, -o <file>        Write to a file instead of stdout
+  --category, -c <category>  Only export items in this category
+  --branch, -b <name>        Only export items tagged with this branch
+  --fail-pending             JUnit: report items that don't pass as failures, not skipped
+
+PRD LINT OPTIONS:
+  --fix                      Apply autofixes (a backup of the PRD is written first)
+  --strict                   Exit with status 1 on warnings too, not just errors
+  --rules                    List the rules with their configured severities
+
+PRD LOG OPTIONS:
+  -n, --limit <count>        Number of changes to show (default: 20)
+  --all                      Show every recorded change
+  --item <id>                Only changes that touched this item
+
+PRD DIFF POINTS:
+  <n>                        Change number from 'ralph prd log'
+  current                    The PRD as it is now (default for [b])
+  <file>                     A PRD file, e.g. a backup.prd.*.yaml file in .ralph/
+
 FIX-PRD OPTIONS:
   <backup-file>              Restore PRD from a specific backup file
   --verify, -v               Only verify format, don't attempt to fix
@@ -67,9 +113,11 @@ FIX-CONFIG OPTIONS:
 
 DOCKER SUBCOMMANDS:
   docker init       Generate Dockerfile and scripts
-  docker build      Build image (always fetches latest Claude Code)
+  docker build      Build image, rebuilding only stale stages (--clean: from scratch)
+  docker status     Show which image stages are stale and why
   docker run        Run container (auto-init and build if needed)
   docker clean      Remove Docker image and associated resources
+  docker firewall report [log]  Summarize blocked and allowed connections, suggest domains
   docker help       Show docker help message
 
 DAEMON SUBCOMMANDS:
@@ -98,6 +146,29 @@ BRANCH SUBCOMMANDS:
 PROGRESS SUBCOMMANDS:
   progress summarize    Add a PRD entry to summarize and compact progress.txt
 
+HISTORY SUBCOMMANDS:
+  history [list]             List recorded runs (--limit n, default 20)
+  history show <run> [n]     Show a run's iterations, or iteration n in detail
+                             <run> is a run id, a unique prefix, or "latest"
+  history compare            Compare success rates across CLI providers and models
+
+QUARANTINE SUBCOMMANDS:
+  quarantine [list]          List quarantined items and failed attempts per item
+  quarantine release <id>... Release items so 'ralph run' picks them up again
+  quarantine release --all   Release every quarantined item
+
+POLICY SUBCOMMANDS:
+  policy check <command>     Show whether the policy allows, denies or asks about a command
+  policy list                List the rules in evaluation order (first match wins)
+  policy log [-n count]      Show recent blocked commands with the rule that matched
+  policy hook claude         Claude Code PreToolUse hook (used by the generated hook script)
+  policy exec -- <cmd>       Check and run a command (used by the PATH shims in the container)
+
+ROLLBACK OPTIONS:
+  [iteration]                Iteration to roll back (default: the last one)
+  --run, -r <run>            Run id, unique prefix or "latest" (default: latest)
+  -y, --yes                  Skip the confirmation prompt
+
 NOTIFY OPTIONS:
   [message]              Message to send as notification
   --action, -a <name>    Execute specific daemon action (default: notify)
@@ -123,6 +194,8 @@ EXAMPLES:
   ralph run 5                # Run exactly 5 iterations
   ralph run -c feature       # Complete all feature tasks only
   ralph run --loop           # Run continuously until interrupted
+  ralph run --parallel 3     # Work on up to 3 branch worktrees at once
+  ralph run --pick priority  # Work on critical/high priority items first
   ralph add                  # Add new PRD entry
   ralph list                 # Show all entries
   ralph list -c feature      # Show only feature entries
@@ -133,9 +206,17 @@ EXAMPLES:
   ralph toggle 1             # Toggle entry #1
   ralph toggle 1 2 3         # Toggle multiple entries
   ralph toggle 1-5           # Toggle entries 1 through 5
+  ralph toggle setup-db      # Toggle the entry with id "setup-db"
   ralph toggle --all         # Toggle all entries
   ralph clean                # Remove passing entries
   ralph reset                # Reset all entries to incomplete
+  ralph prd import backlog.md  # Import a Markdown checklist into the PRD
+  ralph prd export -f junit -o prd.xml  # Write PRD progress as JUnit XML for CI
+  ralph prd edit             # Reorder and edit PRD entries interactively
+  ralph prd generate spec.md -p ollama  # Draft PRD items from a spec with a local model
+  ralph prd lint --fix       # Check PRD item quality and apply autofixes
+  ralph prd log --item login # Show every change to the "login" item
+  ralph prd diff 12          # What changed in the PRD since change #12
   ralph fix-prd              # Validate/recover corrupted PRD file
   ralph fix-prd --verify     # Check PRD format without fixing
   ralph fix-prd backup.prd.2024-01-15.json  # Restore from specific backup
@@ -143,6 +224,7 @@ EXAMPLES:
   ralph fix-config --verify  # Check config format without fixing
   ralph fix-config -y        # Auto-fix without prompts
   ralph prompt               # Display resolved prompt
+  ralph policy check "git push --force origin main"  # Would the agent be allowed to run this?
   ralph docker init          # Generate Dockerfile for sandboxed env
   ralph docker build         # Build Docker image
   ralph docker run           # Run container (auto-init/build if needed)
@@ -161,6 +243,13 @@ EXAMPLES:
   ralph branch delete feat/old   # Delete branch and its worktree
   ralph branch pr feat/login     # Create a GitHub PR for feat/login
   ralph progress summarize   # Add PRD entry to summarize progress.txt
+  ralph history              # List recorded runs
+  ralph history show latest 3  # Show iteration 3 of the most recent run
+  ralph history compare      # Compare success rates across models
+  ralph rollback             # Undo the last iteration of the latest run
+  ralph rollback 3 -r 2026-01-15  # Restore the checkpoint before iteration 3 of a run
+  ralph rollback --prune --keep 5  # Delete checkpoint refs of all but the last 5 runs
+  ralph quarantine release --all  # Retry every quarantined item
 
 CONFIGURATION:
   After running 'ralph init', you'll have:
@@ -0,0 +1,300 @@
+import { getRalphDir } from "../utils/config.js";
+import {
+  getRunsDir,
+  listRunIds,
+  readLedger,
+  readAllLedgers,
+  resolveRunId,
+  compareModels,
+  isSuccessfulIteration,
+  IterationRecord,
+  RunLedger,
+  sumLedgerUsage,
+} from "../utils/run-ledger.js";
+import { formatUsage, hasUsage, splitUsage } from "../utils/usage.js";
+import { describeAgentAction } from "../utils/agent-actions.js";
+import { describeTimeout } from "../utils/watchdog.js";
+import { describeModelSwitch } from "../utils/model-chain.js";
+
+const DEFAULT_LIST_LIMIT = 20;
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0) parts.push(`${minutes}m`);
+  if (seconds > 0 || parts.length === 0) parts.push(`${seconds}s`);
+
+  return parts.join(" ");
+}
+
+function formatPercent(count: number, total: number): string {
+  return total === 0 ? "-" : `${Math.round((count / total) * 100)}%`;
+}
+
+function formatTime(iso: string): string {
+  return iso.replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Loads a run by id, prefix or "latest", exiting with an error if it can't be found.
+ */
+function loadRun(runsDir: string, ref: string): RunLedger {
+  const runIds = listRunIds(runsDir);
+  const runId = resolveRunId(runIds, ref);
+  const ledger = runId ? readLedger(runsDir, runId) : null;
+  if (!ledger) {
+    console.error(`\x1b[31mError: No run matches "${ref}".\x1b[0m`);
+    console.error("Run 'ralph history' to list recorded runs.");
+    process.exit(1);
+  }
+  return ledger;
+}
+
+function describeModels(ledger: RunLedger): string {
+  const models = new Set(ledger.iterations.map((it) => it.model || "default"));
+  if (models.size === 0 && ledger.start) {
+    models.add(ledger.start.model || "default");
+  }
+  return [...models].join(", ");
+}
+
+function historyList(args: string[]): void {
+  const runsDir = getRunsDir(getRalphDir());
+  const limitIndex = args.findIndex((a) => a === "--limit" || a === "-n");
+  const limit = limitIndex !== -1 ? parseInt(args[limitIndex + 1]) : DEFAULT_LIST_LIMIT;
+  if (isNaN(limit) || limit < 1) {
+    console.error("Error: --limit requires a positive number");
+    process.exit(1);
+  }
+
+  const ledgers = readAllLedgers(runsDir).slice(-limit).reverse();
+  if (ledgers.length === 0) {
+    console.log("No runs recorded yet. Runs are recorded by 'ralph run' in .ralph/runs/.");
+    return;
+  }
+
+  console.log("\x1b[1mRuns:\x1b[0m\n");
+
+  for (const ledger of ledgers) {
+    const iterations = ledger.iterations.length;
+    const succeeded = ledger.iterations.filter(isSuccessfulIteration).length;
+    const tasks = ledger.iterations.reduce((sum, it) => sum + it.tasksCompleted.length, 0);
+    const provider = ledger.start?.cliProvider ?? "unknown";
+    const reason = ledger.end ? ledger.end.reason : "interrupted";
+    const reasonColor = reason === "complete" ? "\x1b[32m" : "\x1b[33m";
+    const usage = sumLedgerUsage([ledger]);
+    const usageText = hasUsage(usage) ? `, ${formatUsage(usage)}` : "";
+
+    console.log(
+      `  \x1b[1m${ledger.runId}\x1b[0m  ${provider} (${describeModels(ledger)})  ${reasonColor}${reason}\x1b[0m`,
+    );
+    console.log(
+      `    \x1b[2m${iterations} iteration(s), ${succeeded} succeeded (${formatPercent(succeeded, iterations)}), ${tasks} task(s) completed${usageText}\x1b[0m`,
+    );
+  }
+
+  console.log();
+  console.log("Use 'ralph history show <run-id> [iteration]' for details.");
+}
+
+function printIterationSummary(it: IterationRecord): void {
+  const icon = isSuccessfulIteration(it) ? "\x1b[32m✓\x1b[0m" : "\x1b[31m✗\x1b[0m";
+  const branch = it.branch ? `  \x1b[36m${it.branch}\x1b[0m` : "";
+  const tasks = it.tasksCompleted.length > 0 ? `, ${it.tasksCompleted.length} task(s)` : "";
+  const commits = it.commits.length > 0 ? `, ${it.commits.length} commit(s)` : "";
+  const timedOut = it.timedOut ? `  \x1b[31m${describeTimeout(it.timedOut)}\x1b[0m` : "";
+  const warnings = it.agentActions?.length
+    ? `  \x1b[33m${it.agentActions.length} warning(s)\x1b[0m`
+    : "";
+  console.log(
+    `  ${icon} #${it.iteration}  exit ${it.exitCode}  ${formatDuration(it.durationMs)}  ${it.model || "default"}${branch}\x1b[2m${tasks}${commits}\x1b[0m${timedOut}${warnings}`,
+  );
+}
+
+function printIterationDetail(ledger: RunLedger, it: IterationRecord): void {
+  console.log(`\x1b[1mRun ${ledger.runId} — iteration ${it.iteration}\x1b[0m\n`);
+  console.log(`  Started:    ${formatTime(it.startedAt)}`);
+  console.log(`  Ended:      ${formatTime(it.endedAt)} (${formatDuration(it.durationMs)})`);
+  console.log(`  Provider:   ${it.cliProvider}`);
+  console.log(`  Model:      ${it.model || "default"}`);
+  for (const modelSwitch of it.modelSwitches ?? []) {
+    console.log(`  Switched:   ${describeModelSwitch(modelSwitch)}`);
+  }
+  if (it.branch) {
+    console.log(`  Branch:     ${it.branch}`);
+  }
+  if (it.worktree) {
+    console.log(`  Worktree:   ${it.worktree}`);
+  }
+  console.log(
+    `  Exit code:  ${it.exitCode}${it.timedOut ? ` \x1b[31m(agent ${describeTimeout(it.timedOut)})\x1b[0m` : ""}`,
+  );
+  const checkpoint = ledger.checkpoints.find((cp) => cp.iteration === it.iteration);
+  if (checkpoint?.head) {
+    const stash = checkpoint.stash ? " + uncommitted changes" : "";
+    console.log(
+      `  Checkpoint: ${checkpoint.head.slice(0, 12)}${stash} \x1b[2m(ralph rollback ${it.iteration} --run ${ledger.runId})\x1b[0m`,
+    );
+  }
+  if (it.usage) {
+    console.log(`  Usage:      ${formatUsage(it.usage)}`);
+  }
+  console.log(
+    `  Counters:   ${it.consecutiveFailures} consecutive failure(s), ${it.iterationsWithoutProgress} iteration(s) without progress`,
+  );
+
+  console.log(`\n  Tasks completed (${it.tasksCompleted.length}):`);
+  for (const task of it.tasksCompleted) {
+    const id = task.id ? `\x1b[2m#${task.id}\x1b[0m ` : "";
+    const usage = task.usage ? ` \x1b[2m(${formatUsage(task.usage)})\x1b[0m` : "";
+    console.log(`    ${id}${task.description}${usage}`);
+  }
+
+  if (it.tasksReverted?.length) {
+    console.log(`\n  \x1b[33mTasks reverted by verification (${it.tasksReverted.length}):\x1b[0m`);
+    for (const task of it.tasksReverted) {
+      const id = task.id ? `\x1b[2m#${task.id}\x1b[0m ` : "";
+      console.log(`    ${id}${task.description}`);
+    }
+  }
+
+  if (it.tasksQuarantined?.length) {
+    console.log(`\n  \x1b[33mTasks quarantined (${it.tasksQuarantined.length}):\x1b[0m`);
+    for (const task of it.tasksQuarantined) {
+      const id = task.id ? `\x1b[2m#${task.id}\x1b[0m ` : "";
+      console.log(`    ${id}${task.description}`);
+    }
+  }
+
+  console.log(`\n  Commits (${it.commits.length}):`);
+  for (const sha of it.commits) {
+    console.log(`    ${sha}`);
+  }
+
+  if (it.agentActions?.length) {
+    console.log(`\n  \x1b[33mWarnings (${it.agentActions.length}):\x1b[0m`);
+    for (const action of it.agentActions) {
+      console.log(`    ${describeAgentAction(action)}`);
+    }
+  }
+}
+
+function historyShow(args: string[]): void {
+  const ref = args[0];
+  if (!ref) {
+    console.error("Usage: ralph history show <run-id|latest> [iteration]");
+    process.exit(1);
+  }
+
+  const runsDir = getRunsDir(getRalphDir());
+  const ledger = loadRun(runsDir, ref);
+
+  if (args[1] !== undefined) {
+    const iterationNumber = parseInt(args[1]);
+    const iteration = ledger.iterations.find((it) => it.iteration === iterationNumber);
+    if (!iteration) {
+      console.error(`\x1b[31mError: Run ${ledger.runId} has no iteration ${args[1]}.\x1b[0m`);
+      process.exit(1);
+    }
+    printIterationDetail(ledger, iteration);
+    return;
+  }
+
+  const { start, end, iterations } = ledger;
+  console.log(`\x1b[1mRun ${ledger.runId}\x1b[0m\n`);
+  if (start) {
+    console.log(`  Started:    ${formatTime(start.startedAt)}`);
+    console.log(`  Provider:   ${start.cliProvider} (${start.command})`);
+    console.log(`  Mode:       ${start.mode}`);
+    if (start.models) {
+      console.log(`  Models:     ${start.models.join(" → ")}`);
+    }
+    if (start.parallel) {
+      console.log(`  Parallel:   ${start.parallel} branch group(s) at once`);
+    }
+    if (start.category) {
+      console.log(`  Category:   ${start.category}`);
+    }
+    if (start.branchFilter !== undefined) {
+      console.log(`  Branch:     ${start.branchFilter || "(any branched item)"}`);
+    }
+  }
+  if (end) {
+    console.log(`  Ended:      ${formatTime(end.endedAt)} (${end.reason})`);
+  } else {
+    console.log("  Ended:      \x1b[33mno end record (interrupted or still running)\x1b[0m");
+  }
+
+  console.log(`\n  Iterations (${iterations.length}):`);
+  for (const it of iterations) {
+    printIterationSummary(it);
+  }
+}
+
+function historyCompare(): void {
+  const runsDir = getRunsDir(getRalphDir());
+  const stats = compareModels(readAllLedgers(runsDir));
+
+  if (stats.length === 0) {
+    console.log("No iterations recorded yet. Runs are recorded by 'ralph run' in .ralph/runs/.");
+    return;
+  }
+
+  console.log("\x1b[1mSuccess rates by CLI provider and model:\x1b[0m\n");
+
+  for (const s of stats) {
+    console.log(`  \x1b[1m${s.cliProvider}\x1b[0m / ${s.model}`);
+    console.log(
+      `    ${s.runs} run(s), ${s.iterations} iteration(s), avg ${formatDuration(s.totalDurationMs / s.iterations)} per iteration`,
+    );
+    console.log(
+      `    Exit 0:       ${s.succeeded}/${s.iterations} (${formatPercent(s.succeeded, s.iterations)})`,
+    );
+    console.log(
+      `    Productive:   ${s.productive}/${s.iterations} (${formatPercent(s.productive, s.iterations)}) — ${s.tasksCompleted} task(s) completed`,
+    );
+    if (hasUsage(s.usage)) {
+      const perTask =
+        s.tasksCompleted > 0
+          ? `, ${formatUsage(splitUsage(s.usage, s.tasksCompleted))} per task`
+          : "";
+      console.log(`    Usage:        ${formatUsage(s.usage)}${perTask}`);
+    }
+  }
+  console.log();
+}
+
+export async function history(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case undefined:
+    case "list":
+      historyList(args.slice(subcommand ? 1 : 0));
+      break;
+    case "show":
+      historyShow(args.slice(1));
+      break;
+    case "compare":
+      historyCompare();
+      break;
+    default:
+      if (subcommand.startsWith("-")) {
+        historyList(args);
+        break;
+      }
+      console.error("Usage: ralph history [subcommand]");
+      console.error("\nSubcommands:");
+      console.error("  list [--limit n]              List recorded runs (default)");
+      console.error("  show <run-id> [iteration]     Show a run's iterations, or one iteration");
+      console.error(
+        "  compare                       Compare success rates across models/providers",
+      );
+      process.exit(1);
+  }
+}
@@ -482,13 +482,24 @@ config.json
 messages.json
 chat-state.json
 prd-tasks.json
+prd-attempts.json
+prd-journal.jsonl
+
+# Run history (ralph history)
+runs/
 
 # Service logs
 daemon.log
 chat.log
+policy-log.jsonl
+
+# Firewall logs (ralph docker firewall report)
+firewall/
 
 # Docker build artifacts
 docker/.config-hash
+docker/.stage-hashes.json
+docker/.build-stages.json
 `;
     writeFileSync(gitignorePath, gitignoreContent);
     console.log(`Created ${RALPH_DIR}/.gitignore`);
@@ -11,7 +11,19 @@ import {
 } from "../utils/config.js";
 import { resolvePromptVariables, getCliProviders } from "../templates/prompts.js";
 import { getStreamJsonParser } from "../utils/stream-json.js";
+import { getModelList } from "../utils/model-chain.js";
 import { sendNotificationWithDaemonEvents } from "../utils/notification.js";
+import { readPrdFile, PrdEntry } from "../utils/prd-validator.js";
+import {
+  applyVerificationGate,
+  findNewlyPassing,
+  isVerificationEnabled,
+} from "../utils/verification.js";
+
+function readPrdEntries(prdPath: string): PrdEntry[] {
+  const parsed = readPrdFile(prdPath);
+  return parsed && Array.isArray(parsed.content) ? (parsed.content as PrdEntry[]) : [];
+}
 
 export async function once(args: string[]): Promise<void> {
   // Parse flags
@@ -46,10 +58,8 @@ export async function once(args: string[]): Promise<void> {
   const paths = getPaths();
   const cliConfig = getCliConfig(config);
 
-  // Use config model as fallback when --model flag is not provided
-  if (!model && cliConfig.model) {
-    model = cliConfig.model;
-  }
+  // Use the configured model (the first of a fallback chain) when --model is not provided
+  model = getModelList(cliConfig, model)[0];
 
   // Check if stream-json output is enabled
   const streamJsonConfig = config.docker?.asciinema?.streamJson;
@@ -129,6 +139,16 @@ export async function once(args: string[]): Promise<void> {
   // Create provider-specific stream-json parser
   const streamJsonParser = getStreamJsonParser(config.cliProvider, debug);
 
+  // Snapshot the PRD so tasks the agent marks as passing can be verified afterwards
+  const prdBefore = isVerificationEnabled(config) ? readPrdEntries(paths.prd) : null;
+
+  // Runs the verification gate on newly passing tasks. Returns true if any were reverted.
+  const verifyCompletedTasks = async (): Promise<boolean> => {
+    if (!prdBefore) return false;
+    const completed = findNewlyPassing(prdBefore, readPrdEntries(paths.prd));
+    return (await applyVerificationGate(completed, config, paths)).failed.length > 0;
+  };
+
   // Notification options for this run
   const notifyOptions = {
     command: config.notifyCommand,
@@ -211,6 +231,8 @@ export async function once(args: string[]): Promise<void> {
         // Ensure final newline
         process.stdout.write("\n");
 
+        const tasksReverted = await verifyCompletedTasks();
+
         // Send notification based on outcome
         if (code !== 0) {
           console.error(`\n${cliConfig.command} exited with code ${code}`);
@@ -219,7 +241,7 @@ export async function once(args: string[]): Promise<void> {
             ...notifyOptions,
             errorMessage,
           });
-        } else if (output.includes("<promise>COMPLETE</promise>")) {
+        } else if (output.includes("<promise>COMPLETE</promise>") && !tasksReverted) {
           await sendNotificationWithDaemonEvents("prd_complete", undefined, notifyOptions);
         } else {
           await sendNotificationWithDaemonEvents("iteration_complete", undefined, notifyOptions);
@@ -244,6 +266,8 @@ export async function once(args: string[]): Promise<void> {
       });
 
       proc.on("close", async (code) => {
+        const tasksReverted = await verifyCompletedTasks();
+
         // Send notification based on outcome
         if (code !== 0) {
           console.error(`\n${cliConfig.command} exited with code ${code}`);
@@ -252,7 +276,7 @@ export async function once(args: string[]): Promise<void> {
             ...notifyOptions,
             errorMessage,
           });
-        } else if (output.includes("<promise>COMPLETE</promise>")) {
+        } else if (output.includes("<promise>COMPLETE</promise>") && !tasksReverted) {
           await sendNotificationWithDaemonEvents("prd_complete", undefined, notifyOptions);
         } else {
           await sendNotificationWithDaemonEvents("iteration_complete", undefined, notifyOptions);
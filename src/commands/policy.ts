@@ -0,0 +1,271 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { dirname, join, delimiter, resolve } from "path";
+import { spawnSync } from "child_process";
+import { constants } from "os";
+import { CommandPolicyRule } from "../utils/config.js";
+import { promptConfirm } from "../utils/prompt.js";
+import {
+  DEFAULT_POLICY_RULES,
+  POLICY_LOG_FILE,
+  POLICY_SHIM_DIR,
+  evaluateArgv,
+  evaluateCommand,
+  findPolicyConfigPath,
+  getDefaultPolicyContext,
+  loadPolicy,
+  logPolicyDecision,
+  ruleName,
+  PolicyDecision,
+  PolicyLogEntry,
+} from "../utils/command-policy.js";
+
+// Exit status of a blocked command, as for a command that can't be executed
+const BLOCKED_EXIT_CODE = 126;
+
+function printUsage(): void {
+  console.error("Usage: ralph policy <check|list|log|hook|exec>");
+  console.error("\nSubcommands:");
+  console.error("  check <command>             Show what the policy decides for a command line");
+  console.error("  list                        List the rules in evaluation order");
+  console.error("  log [-n <count>]            Show recent blocked commands");
+  console.error("  hook claude                 Claude Code PreToolUse hook (reads JSON on stdin)");
+  console.error("  exec -- <program> [args]    Check and run a program (used by the PATH shims)");
+}
+
+function getLogPath(configPath: string | null): string | null {
+  return configPath ? join(dirname(configPath), POLICY_LOG_FILE) : null;
+}
+
+function describeDecision(decision: PolicyDecision): string {
+  const reason = decision.reason ? `: ${decision.reason}` : "";
+  return `${decision.command ?? "command"} (rule ${decision.rule}${reason})`;
+}
+
+function record(
+  configPath: string | null,
+  decision: PolicyDecision,
+  via: string,
+  line: string,
+): void {
+  const logPath = getLogPath(configPath);
+  if (!logPath || decision.action === "allow") return;
+  const entry: PolicyLogEntry = {
+    timestamp: new Date().toISOString(),
+    via,
+    line,
+    cwd: process.cwd(),
+    ...decision,
+  };
+  logPolicyDecision(logPath, entry);
+}
+
+function policyCheck(args: string[]): void {
+  const line = args.join(" ");
+  if (!line) {
+    console.error("Usage: ralph policy check <command line>");
+    process.exit(1);
+  }
+  const configPath = findPolicyConfigPath();
+  const { enabled, rules } = loadPolicy(configPath);
+  const decision = evaluateCommand(line, rules, getDefaultPolicyContext());
+
+  if (!enabled) {
+    console.log("\x1b[33mThe policy is disabled (policy.enabled: false).\x1b[0m");
+  }
+  if (decision.action === "allow") {
+    const by = decision.rule ? ` by rule ${decision.rule}` : " (no rule matched)";
+    console.log(`\x1b[32mallow\x1b[0m${by}`);
+    return;
+  }
+  const color = decision.action === "deny" ? "\x1b[31m" : "\x1b[33m";
+  console.log(`${color}${decision.action}\x1b[0m ${describeDecision(decision)}`);
+  process.exit(1);
+}
+
+function policyList(): void {
+  const configPath = findPolicyConfigPath();
+  const { enabled, rules } = loadPolicy(configPath);
+  console.log(
+    `Command policy${enabled ? "" : " (disabled)"} - first matching rule wins:${configPath ? "" : "\n\x1b[2mNo .ralph/config.json found, using the built-in rules.\x1b[0m"}\n`,
+  );
+  rules.forEach((rule: CommandPolicyRule, i) => {
+    const color =
+      rule.action === "deny" ? "\x1b[31m" : rule.action === "ask" ? "\x1b[33m" : "\x1b[32m";
+    const builtIn = DEFAULT_POLICY_RULES.includes(rule) ? " \x1b[2m(built-in)\x1b[0m" : "";
+    const match = [
+      rule.command && `command: ${rule.command}`,
+      rule.args && `args: ${rule.args.join(" ")}`,
+      rule.paths && `paths: ${rule.paths.join(", ")}`,
+      rule.pattern && `pattern: /${rule.pattern}/`,
+    ]
+      .filter(Boolean)
+      .join("  ");
+    console.log(
+      `${String(i + 1).padStart(3)}. ${color}${rule.action.padEnd(5)}\x1b[0m ${ruleName(rule)}${builtIn}`,
+    );
+    console.log(`       \x1b[2m${match}\x1b[0m`);
+  });
+}
+
+function policyLog(args: string[]): void {
+  let limit = 20;
+  if (args[0] === "-n" || args[0] === "--limit") {
+    limit = Number(args[1]);
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error("Error: --limit requires a positive number");
+      process.exit(1);
+    }
+  }
+
+  const logPath = getLogPath(findPolicyConfigPath());
+  if (!logPath || !existsSync(logPath)) {
+    console.log("No blocked commands recorded.");
+    return;
+  }
+  const entries = readFileSync(logPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as PolicyLogEntry];
+      } catch {
+        return [];
+      }
+    });
+
+  for (const entry of entries.slice(-limit)) {
+    const color = entry.action === "deny" ? "\x1b[31m" : "\x1b[33m";
+    const time = entry.timestamp.replace("T", " ").slice(0, 19);
+    console.log(
+      `${time}  ${color}${entry.action.padEnd(4)}\x1b[0m ${entry.rule}  \x1b[2m(${entry.via})\x1b[0m`,
+    );
+    console.log(`  ${entry.line}`);
+  }
+}
+
+/**
+ * Claude Code PreToolUse hook: denies (or asks about) Bash commands the policy blocks.
+ * Allowed commands produce no output, so Claude Code's own permission handling applies.
+ */
+function policyHook(args: string[]): void {
+  if (args[0] !== "claude") {
+    console.error("Error: Only Claude Code has a policy hook ('ralph policy hook claude').");
+    console.error("Other CLI providers are covered by the PATH shims in the container.");
+    process.exit(1);
+  }
+
+  let command: string | undefined;
+  try {
+    command = JSON.parse(readFileSync(0, "utf-8"))?.tool_input?.command;
+  } catch {
+    return;
+  }
+  if (typeof command !== "string" || !command) return;
+
+  const configPath = findPolicyConfigPath();
+  const { enabled, rules } = loadPolicy(configPath);
+  if (!enabled) return;
+
+  const decision = evaluateCommand(command, rules, getDefaultPolicyContext());
+  if (decision.action === "allow") return;
+
+  record(configPath, decision, "claude-hook", command);
+  console.log(
+    JSON.stringify({
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: decision.action,
+        permissionDecisionReason: `Blocked by ralph command policy: ${describeDecision(decision)}`,
+      },
+    }),
+  );
+}
+
+/**
+ * Finds `program` on PATH, skipping the shim directory.
+ */
+function findRealProgram(program: string): string | null {
+  if (program.includes("/")) return program;
+  for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+    if (!dir || resolve(dir) === POLICY_SHIM_DIR) continue;
+    const candidate = join(dir, program);
+    try {
+      if (statSync(candidate).isFile()) return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+/**
+ * Runs a program after checking it against the policy. The PATH shims call this with
+ * their own name, so the check sees the real arguments after shell expansion.
+ */
+async function policyExec(args: string[]): Promise<void> {
+  const argv = args[0] === "--" ? args.slice(1) : args;
+  if (argv.length === 0) {
+    console.error("Usage: ralph policy exec -- <program> [args...]");
+    process.exit(1);
+  }
+
+  const configPath = findPolicyConfigPath();
+  const { enabled, rules } = loadPolicy(configPath);
+  if (enabled) {
+    const decision = evaluateArgv(argv, rules, getDefaultPolicyContext());
+    if (decision.action !== "allow") {
+      const line = argv.join(" ");
+      const interactive = process.stdin.isTTY && process.stdout.isTTY;
+      const approved =
+        decision.action === "ask" &&
+        interactive &&
+        (await promptConfirm(`ralph policy: run ${describeDecision(decision)}?`, false));
+      if (!approved) {
+        record(configPath, decision, "shim", line);
+        const verb = decision.action === "ask" ? "needs approval" : "blocked";
+        console.error(`ralph policy: ${verb}: ${describeDecision(decision)}`);
+        process.exit(BLOCKED_EXIT_CODE);
+      }
+    }
+  }
+
+  const program = findRealProgram(argv[0]);
+  if (!program) {
+    console.error(`ralph policy: ${argv[0]}: command not found`);
+    process.exit(127);
+  }
+  const result = spawnSync(program, argv.slice(1), { stdio: "inherit" });
+  if (result.error) {
+    console.error(`ralph policy: ${argv[0]}: ${result.error.message}`);
+    process.exit(BLOCKED_EXIT_CODE);
+  }
+  process.exit(result.status ?? 128 + (result.signal ? constants.signals[result.signal] : 0));
+}
+
+export async function policy(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  switch (subcommand) {
+    case "check":
+      policyCheck(args.slice(1));
+      break;
+    case "list":
+      policyList();
+      break;
+    case "log":
+      policyLog(args.slice(1));
+      break;
+    case "hook":
+      policyHook(args.slice(1));
+      break;
+    case "exec":
+      await policyExec(args.slice(1));
+      break;
+    case "--help":
+    case "-h":
+      printUsage();
+      break;
+    default:
+      printUsage();
+      process.exit(1);
+  }
+}
@@ -2,8 +2,10 @@ import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
 import { join } from "path";
 import YAML from "yaml";
 import { getRalphDir } from "../utils/config.js";
+import { assignMissingIds } from "../utils/prd-ids.js";
 
 interface PrdEntry {
+  id?: string;
   category: string;
   description: string;
   steps: string[];
@@ -76,6 +78,10 @@ export async function prdConvert(args: string[]): Promise<void> {
     process.exit(1);
   }
 
+  // Keep existing ids and give the remaining entries one
+  const { entries: entriesWithIds, assigned } = assignMissingIds(prdEntries);
+  prdEntries = entriesWithIds;
+
   // Convert to YAML
   const yamlContent = YAML.stringify(prdEntries, {
     indent: 2,
@@ -89,6 +95,9 @@ export async function prdConvert(args: string[]): Promise<void> {
     console.log(yamlContent);
     console.log("-------------------\n");
     console.log(`Entries: ${prdEntries.length}`);
+    if (assigned > 0) {
+      console.log(`Ids to assign: ${assigned}`);
+    }
     return;
   }
 
@@ -102,7 +111,11 @@ export async function prdConvert(args: string[]): Promise<void> {
 
   // Success message
   console.log(`\n\x1b[32mConversion complete!\x1b[0m`);
-  console.log(`  Converted ${prdEntries.length} PRD entries to YAML format.\n`);
+  console.log(`  Converted ${prdEntries.length} PRD entries to YAML format.`);
+  if (assigned > 0) {
+    console.log(`  Assigned ids to ${assigned} ${assigned === 1 ? "entry" : "entries"}.`);
+  }
+  console.log("");
 
   console.log("Next steps:");
   console.log("  1. Your PRD is now in .ralph/prd.yaml");
@@ -0,0 +1,51 @@
+import { render } from "ink";
+import React from "react";
+import { getPrdFiles } from "../utils/config.js";
+import { PrdEditor } from "../tui/PrdEditor.js";
+
+function showPrdEditHelp(): void {
+  const helpText = `
+ralph prd edit - Interactive TUI PRD editor
+
+USAGE:
+  ralph prd edit          Open the TUI PRD editor
+  ralph prd edit help     Show this help message
+
+DESCRIPTION:
+  Lists the PRD entries with filters. Reorder entries, edit their description,
+  steps, branch and category, toggle or delete several at once. Saving validates
+  the PRD like 'ralph fix-prd', backs up the current file and keeps its format.
+
+KEYBOARD SHORTCUTS:
+  j/k         Navigate up/down
+  J/K         Move the entry down/up
+  Enter       Open the entry to edit its fields
+  Space       Mark/unmark the entry (a: mark all visible)
+  t           Toggle passes on the marked entries (or the highlighted one)
+  d           Delete the marked entries (or the highlighted one)
+  f           Cycle the status filter (all, pending, passing)
+  c           Cycle the category filter
+  /           Search description, id and branch (x: clear filters)
+  S           Save changes
+  Q           Quit (asks before discarding unsaved changes)
+`;
+  console.log(helpText.trim());
+}
+
+export async function prdEdit(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (subcommand === "help" || subcommand === "--help" || subcommand === "-h") {
+    showPrdEditHelp();
+    return;
+  }
+
+  if (!getPrdFiles().primary) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+
+  // Render Ink app with PrdEditor
+  const { waitUntilExit } = render(<PrdEditor />);
+  await waitUntilExit();
+}
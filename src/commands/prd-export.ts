@@ -0,0 +1,102 @@
+import { writeFileSync } from "fs";
+import { getPrdFiles, getProjectName } from "../utils/config.js";
+import { readPrdFile, PrdEntry } from "../utils/prd-validator.js";
+import { loadCategoryNames } from "../utils/prd-categories.js";
+import { renderPrdExport, EXPORT_FORMATS, ExportFormat } from "../utils/prd-export.js";
+
+function printUsage(): void {
+  console.error("Usage: ralph prd export [--format <format>] [--output <file>] [options]");
+  console.error("\nRenders the PRD as a Markdown report, JUnit XML, an HTML status page or CSV.");
+  console.error("\nOptions:");
+  console.error(`  --format, -f <format>       ${EXPORT_FORMATS.join(", ")} (default: md)`);
+  console.error("  --output, -o <file>         Write to a file instead of stdout");
+  console.error("  --category, -c <cat>        Only export items in this category");
+  console.error("  --branch, -b <name>         Only export items tagged with this branch");
+  console.error("  --fail-pending              JUnit: report items that don't pass as failures");
+}
+
+/**
+ * Exports the PRD for use outside the terminal: reports, CI test results and PR attachments.
+ */
+export function prdExport(args: string[]): void {
+  let format: ExportFormat = "md";
+  let outputPath: string | undefined;
+  let category: string | undefined;
+  let branch: string | undefined;
+  let failPending = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--format" || arg === "-f") {
+      const value = args[++i];
+      if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+        console.error(`Error: --format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+      format = value as ExportFormat;
+    } else if (arg === "--output" || arg === "-o") {
+      outputPath = args[++i];
+      if (!outputPath) {
+        console.error("Error: --output requires a file path");
+        process.exit(1);
+      }
+    } else if (arg === "--category" || arg === "-c") {
+      category = args[++i];
+      const categories = loadCategoryNames();
+      if (!category || !categories.includes(category)) {
+        console.error(`Error: Invalid category "${category ?? ""}"`);
+        console.error(`Valid categories: ${categories.join(", ")}`);
+        process.exit(1);
+      }
+    } else if (arg === "--branch" || arg === "-b") {
+      branch = args[++i];
+      if (!branch) {
+        console.error("Error: --branch requires a branch name");
+        process.exit(1);
+      }
+    } else if (arg === "--fail-pending") {
+      failPending = true;
+    } else if (arg === "--help" || arg === "-h") {
+      printUsage();
+      return;
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) {
+    console.error("Error: PRD file is corrupted. Run 'ralph fix-prd' first.");
+    process.exit(1);
+  }
+
+  const allEntries = parsed.content as PrdEntry[];
+  const entries = allEntries.filter(
+    (entry) =>
+      (!category || entry.category === category) &&
+      (branch === undefined || entry.branch === branch),
+  );
+
+  const titleParts = [`${getProjectName()} PRD`];
+  if (branch) titleParts.push(branch);
+  if (category) titleParts.push(category);
+
+  const output = renderPrdExport(entries, format, {
+    title: titleParts.join(" — "),
+    allEntries,
+    failPending,
+  });
+
+  if (outputPath) {
+    writeFileSync(outputPath, output);
+    console.log(`Exported ${entries.length} PRD item(s) to ${outputPath} (${format})`);
+  } else {
+    process.stdout.write(output);
+  }
+}
@@ -0,0 +1,227 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, relative } from "path";
+import { getPrdFiles, loadConfig } from "../utils/config.js";
+import {
+  readPrdFile,
+  writePrdAuto,
+  createBackup,
+  validatePrd,
+  PrdEntry,
+} from "../utils/prd-validator.js";
+import { generatePrdId, collectPrdIds } from "../utils/prd-ids.js";
+import { dedupeEntries } from "../utils/prd-import.js";
+import { loadPrdCategories } from "../utils/prd-categories.js";
+import { createLLMClient } from "../utils/llm-client.js";
+import {
+  resolveGenerateProvider,
+  buildGeneratePrompt,
+  parseGeneratedItems,
+} from "../utils/prd-generate.js";
+import { promptInput } from "../utils/prompt.js";
+
+function printUsage(): void {
+  console.error("Usage: ralph prd generate <spec.md> [--provider <name>] [--dry-run] [-y]");
+  console.error("\nAsks an LLM provider from llmProviders in config.json to draft PRD items");
+  console.error("from a free-text spec, then lets you accept or reject each one.");
+  console.error("\nOptions:");
+  console.error(
+    "  --provider, -p <name>       LLM provider to use (default: first in llmProviders)",
+  );
+  console.error("  --dry-run, -n               Show the drafted items without changing the PRD");
+  console.error("  --yes, -y                   Accept every drafted item");
+}
+
+function printErrors(title: string, errors: string[]): void {
+  console.error(`\x1b[31mError: ${title}\x1b[0m`);
+  for (const error of errors) {
+    console.error(`  - ${error}`);
+  }
+}
+
+function printEntry(entry: PrdEntry, index: number, total: number): void {
+  console.log(`\n\x1b[1m[${index + 1}/${total}] ${entry.description}\x1b[0m`);
+  const details = [`#${entry.id}`, entry.category];
+  if (entry.priority) details.push(`priority: ${entry.priority}`);
+  if (entry.dependsOn?.length) details.push(`depends on: ${entry.dependsOn.join(", ")}`);
+  console.log(`  \x1b[2m${details.join(" · ")}\x1b[0m`);
+  entry.steps.forEach((step, i) => {
+    console.log(`  ${i + 1}. ${step}`);
+  });
+}
+
+/**
+ * Asks whether to add a drafted item. "all" accepts the rest, "quit" rejects the rest.
+ */
+async function promptAccept(): Promise<"yes" | "no" | "all" | "quit"> {
+  while (true) {
+    const answer = (await promptInput("Add this item? (Y/n, a = all remaining, q = stop): "))
+      .toLowerCase()
+      .trim();
+    if (answer === "" || answer === "y" || answer === "yes") return "yes";
+    if (answer === "n" || answer === "no") return "no";
+    if (answer === "a" || answer === "all") return "all";
+    if (answer === "q" || answer === "quit") return "quit";
+    console.log("Please enter y, n, a or q.");
+  }
+}
+
+/**
+ * Drafts PRD items from a spec with an LLM, checks them like `ralph fix-prd` would and
+ * appends the ones the user accepts.
+ */
+export async function prdGenerate(args: string[]): Promise<void> {
+  let specPath: string | undefined;
+  let providerName: string | undefined;
+  let dryRun = false;
+  let acceptAll = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--provider" || args[i] === "-p") {
+      providerName = args[++i];
+      if (!providerName) {
+        console.error("Error: --provider requires a provider name");
+        process.exit(1);
+      }
+    } else if (args[i] === "--dry-run" || args[i] === "-n") {
+      dryRun = true;
+    } else if (args[i] === "--yes" || args[i] === "-y") {
+      acceptAll = true;
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      printUsage();
+      return;
+    } else if (!specPath && !args[i].startsWith("-")) {
+      specPath = args[i];
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  if (!specPath) {
+    printUsage();
+    process.exit(1);
+  }
+  if (!existsSync(specPath)) {
+    console.error(`Error: File not found: ${specPath}`);
+    process.exit(1);
+  }
+
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) {
+    console.error("Error: PRD file is corrupted. Run 'ralph fix-prd' first.");
+    process.exit(1);
+  }
+  const existing = parsed.content as PrdEntry[];
+  const categories = loadPrdCategories();
+  const categoryNames = categories.map((c) => c.name);
+
+  let client;
+  let provider;
+  try {
+    provider = resolveGenerateProvider(loadConfig(), providerName);
+    client = createLLMClient(provider.provider);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  const { systemPrompt, message } = buildGeneratePrompt(
+    readFileSync(specPath, "utf-8"),
+    categories,
+    existing,
+  );
+
+  console.log(
+    `Drafting PRD items from ${basename(specPath)} with ${provider.name} (${provider.provider.model})...`,
+  );
+  let reply: string;
+  try {
+    reply = await client.chat([{ role: "user", content: message }], systemPrompt, {
+      maxTokens: 8192,
+      temperature: 0.2,
+    });
+  } catch (err) {
+    console.error(
+      `\x1b[31mError: ${provider.name} request failed: ${err instanceof Error ? err.message : String(err)}\x1b[0m`,
+    );
+    process.exit(1);
+  }
+
+  let generated;
+  try {
+    generated = parseGeneratedItems(reply, categoryNames);
+  } catch (err) {
+    console.error(`\x1b[31mError: ${err instanceof Error ? err.message : String(err)}\x1b[0m`);
+    process.exit(1);
+  }
+  if (generated.recovered) {
+    console.log(
+      `\x1b[33mThe reply wasn't a valid PRD (${generated.errors.length} error(s)) - recovered ${generated.entries.length} item(s).\x1b[0m`,
+    );
+  }
+
+  const { added, duplicates } = dedupeEntries(existing, generated.entries);
+  if (duplicates.length > 0) {
+    console.log(`\n\x1b[33mSkipped duplicates (${duplicates.length}):\x1b[0m`);
+    for (const { entry, match } of duplicates) {
+      console.log(`  = ${entry.description}`);
+      console.log(`    \x1b[2mmatches "${match.description}"\x1b[0m`);
+    }
+  }
+
+  const usedIds = collectPrdIds(existing);
+  const drafted = added.map((entry) => {
+    const id =
+      entry.id && !usedIds.has(entry.id) ? entry.id : generatePrdId(entry.description, usedIds);
+    usedIds.add(id);
+    return { ...entry, id };
+  });
+
+  if (drafted.length === 0) {
+    console.log("\nNo new items drafted.");
+    return;
+  }
+
+  const accepted: PrdEntry[] = [];
+  let acceptRest = acceptAll || dryRun;
+  for (let i = 0; i < drafted.length; i++) {
+    printEntry(drafted[i], i, drafted.length);
+    if (acceptRest) {
+      accepted.push(drafted[i]);
+      continue;
+    }
+    const answer = await promptAccept();
+    if (answer === "quit") break;
+    if (answer === "all") acceptRest = true;
+    if (answer !== "no") accepted.push(drafted[i]);
+  }
+  console.log();
+
+  if (dryRun) {
+    console.log("Dry run - no changes made.");
+    return;
+  }
+  if (accepted.length === 0) {
+    console.log("No items accepted.");
+    return;
+  }
+
+  // Dependencies of rejected items (or unknown ids) would leave the PRD inconsistent
+  const merged = [...existing, ...accepted];
+  const mergedValidation = validatePrd(merged, categoryNames);
+  if (!mergedValidation.valid) {
+    printErrors("The accepted items don't fit the PRD:", mergedValidation.errors);
+    process.exit(1);
+  }
+
+  const prdName = relative(process.cwd(), prdPath) || prdPath;
+  const backupPath = createBackup(prdPath);
+  writePrdAuto(prdPath, merged, { action: "generate", source: "cli" });
+  console.log(`\x1b[32m✓ Added ${accepted.length} item(s) to ${prdName}\x1b[0m`);
+  console.log(`\x1b[90mPRD backup: ${backupPath}\x1b[0m`);
+}
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, relative } from "path";
+import { getPrdFiles } from "../utils/config.js";
+import {
+  readPrdFile,
+  writePrdAuto,
+  createBackup,
+  validatePrd,
+  PrdEntry,
+} from "../utils/prd-validator.js";
+import { generatePrdId, collectPrdIds } from "../utils/prd-ids.js";
+import {
+  detectImportFormat,
+  parseImport,
+  dedupeEntries,
+  IMPORT_FORMATS,
+  ImportFormat,
+} from "../utils/prd-import.js";
+import { loadCategoryNames } from "../utils/prd-categories.js";
+import { promptConfirm } from "../utils/prompt.js";
+
+function printUsage(): void {
+  console.error("Usage: ralph prd import <file> [--format <format>] [--dry-run] [-y]");
+  console.error("\nImports requirements from a Markdown checklist (.md), a CSV file (.csv)");
+  console.error("or a JSON issue export (.json) and appends the new items to the PRD.");
+  console.error("\nOptions:");
+  console.error(`  --format, -f <format>       Input format (${IMPORT_FORMATS.join(", ")})`);
+  console.error("  --dry-run, -n               Preview without making changes");
+  console.error("  --yes, -y                   Skip the confirmation prompt");
+}
+
+function printErrors(title: string, errors: string[]): void {
+  console.error(`\x1b[31mError: ${title}\x1b[0m`);
+  for (const error of errors) {
+    console.error(`  - ${error}`);
+  }
+}
+
+/**
+ * Imports PRD entries from a Markdown checklist, CSV file or JSON issue export.
+ * Entries that duplicate existing PRD items are skipped. Shows a preview and asks
+ * for confirmation before writing.
+ */
+export async function prdImport(args: string[]): Promise<void> {
+  let filePath: string | undefined;
+  let format: ImportFormat | null = null;
+  let dryRun = false;
+  let skipConfirm = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--format" || args[i] === "-f") {
+      const value = args[++i];
+      if (!IMPORT_FORMATS.includes(value as ImportFormat)) {
+        console.error(`Error: --format must be one of: ${IMPORT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+      format = value as ImportFormat;
+    } else if (args[i] === "--dry-run" || args[i] === "-n") {
+      dryRun = true;
+    } else if (args[i] === "--yes" || args[i] === "-y") {
+      skipConfirm = true;
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      printUsage();
+      return;
+    } else if (!filePath && !args[i].startsWith("-")) {
+      filePath = args[i];
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  if (!filePath) {
+    printUsage();
+    process.exit(1);
+  }
+  if (!existsSync(filePath)) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  format = format ?? detectImportFormat(filePath);
+  if (!format) {
+    console.error(`Error: Can't tell the format of ${basename(filePath)} from its extension.`);
+    console.error(`Use --format with one of: ${IMPORT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) {
+    console.error("Error: PRD file is corrupted. Run 'ralph fix-prd' first.");
+    process.exit(1);
+  }
+  const existing = parsed.content as PrdEntry[];
+  const categories = loadCategoryNames();
+
+  let imported: PrdEntry[];
+  let warnings: string[];
+  try {
+    ({ entries: imported, warnings } = parseImport(
+      readFileSync(filePath, "utf-8"),
+      format,
+      categories,
+    ));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\x1b[31mError: Failed to parse ${basename(filePath)}: ${message}\x1b[0m`);
+    process.exit(1);
+  }
+
+  const importValidation = validatePrd(imported, categories);
+  if (!importValidation.valid && !importValidation.data) {
+    printErrors(`${basename(filePath)} has invalid items:`, importValidation.errors);
+    process.exit(1);
+  }
+
+  const { added, duplicates } = dedupeEntries(existing, imported);
+
+  const existingIds = collectPrdIds(existing);
+  for (const entry of added) {
+    if (entry.id) existingIds.add(entry.id);
+  }
+  const newEntries = added.map((entry): PrdEntry => {
+    if (entry.id) return entry;
+    const { id: _, ...rest } = entry;
+    return { id: generatePrdId(entry.description, existingIds), ...rest };
+  });
+
+  // Check the combined PRD too: dependsOn may refer to items that are already in it
+  const merged = [...existing, ...newEntries];
+  const mergedValidation = validatePrd(merged, categories);
+  if (!mergedValidation.valid) {
+    printErrors("The imported items don't fit the PRD:", mergedValidation.errors);
+    process.exit(1);
+  }
+
+  const prdName = relative(process.cwd(), prdPath) || prdPath;
+  console.log(
+    `\x1b[1mImport from ${basename(filePath)} (${format}): ${imported.length} item(s)\x1b[0m\n`,
+  );
+
+  if (newEntries.length > 0) {
+    console.log(`  New (${newEntries.length}):`);
+    const categories = [...new Set(newEntries.map((entry) => entry.category))];
+    for (const category of categories) {
+      console.log(`    \x1b[36m${category}\x1b[0m`);
+      for (const entry of newEntries.filter((e) => e.category === category)) {
+        const status = entry.passes ? " \x1b[32m(passing)\x1b[0m" : "";
+        console.log(`      + ${entry.description}${status}`);
+        console.log(`        \x1b[2m#${entry.id}, ${entry.steps.length} step(s)\x1b[0m`);
+      }
+    }
+  }
+
+  if (duplicates.length > 0) {
+    console.log(`\n  \x1b[33mSkipped duplicates (${duplicates.length}):\x1b[0m`);
+    for (const { entry, match, score } of duplicates) {
+      const similar = score < 1 ? ` (${Math.round(score * 100)}% similar)` : "";
+      const matchId = match.id ? `#${match.id} ` : "";
+      console.log(`      = ${entry.description}`);
+      console.log(`        \x1b[2mmatches ${matchId}"${match.description}"${similar}\x1b[0m`);
+    }
+  }
+
+  if (warnings.length > 0) {
+    console.log(`\n  \x1b[33mWarnings (${warnings.length}):\x1b[0m`);
+    for (const warning of warnings) {
+      console.log(`    ${warning}`);
+    }
+  }
+  console.log();
+
+  if (newEntries.length === 0) {
+    console.log("Nothing to import.");
+    return;
+  }
+
+  if (dryRun) {
+    console.log("Dry run - no changes made.");
+    return;
+  }
+
+  if (!skipConfirm) {
+    const confirmed = await promptConfirm(`Add ${newEntries.length} item(s) to ${prdName}?`, true);
+    if (!confirmed) {
+      console.log("Import cancelled.");
+      return;
+    }
+  }
+
+  const backupPath = createBackup(prdPath);
+  writePrdAuto(prdPath, merged, { action: "import", source: "cli" });
+  console.log(`\x1b[32m✓ Added ${newEntries.length} item(s) to ${prdName}\x1b[0m`);
+  console.log(`\x1b[90mPRD backup: ${backupPath}\x1b[0m`);
+}
@@ -0,0 +1,216 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { getPrdFiles, getRalphDir } from "../utils/config.js";
+import { readPrdFile, PrdEntry } from "../utils/prd-validator.js";
+import {
+  readPrdJournal,
+  diffPrd,
+  describePrdDiff,
+  isEmptyDiff,
+  PrdJournalEntry,
+  PrdItemChange,
+} from "../utils/prd-journal.js";
+
+const DEFAULT_LOG_LIMIT = 20;
+
+function printLogUsage(): void {
+  console.error("Usage: ralph prd log [-n <count>] [--item <id>]");
+  console.error("\nLists recorded PRD changes, newest first.");
+  console.error("\nOptions:");
+  console.error(
+    `  -n, --limit <count>         Number of changes to show (default: ${DEFAULT_LOG_LIMIT})`,
+  );
+  console.error("  --all                       Show every recorded change");
+  console.error("  --item <id>                 Only changes that touched this item");
+}
+
+function printDiffUsage(): void {
+  console.error("Usage: ralph prd diff <from> [to]");
+  console.error("\nShows the items added, removed and changed between two points of the PRD.");
+  console.error("A point is a change number from 'ralph prd log', 'current' (the PRD as it is");
+  console.error("now) or a PRD file such as a backup. [to] defaults to 'current'.");
+}
+
+function requirePrdPath(): string {
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  return prdPath;
+}
+
+function itemLabel(item: PrdEntry): string {
+  return item.id ? `${item.id}: ${item.description}` : item.description;
+}
+
+function formatTimestamp(timestamp: string): string {
+  return timestamp.replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Lists the journal, newest first, with what each change did to the items.
+ */
+export function prdLog(args: string[]): void {
+  let limit: number | undefined = DEFAULT_LOG_LIMIT;
+  let itemId: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "-n" || args[i] === "--limit") {
+      limit = Number(args[++i]);
+      if (!Number.isInteger(limit) || limit < 1) {
+        console.error("Error: --limit requires a positive number");
+        process.exit(1);
+      }
+    } else if (args[i] === "--all") {
+      limit = undefined;
+    } else if (args[i] === "--item") {
+      itemId = args[++i];
+      if (!itemId) {
+        console.error("Error: --item requires an item id");
+        process.exit(1);
+      }
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      printLogUsage();
+      return;
+    } else {
+      printLogUsage();
+      process.exit(1);
+    }
+  }
+
+  const journal = readPrdJournal(requirePrdPath());
+  if (journal.length === 0) {
+    console.log("No PRD changes recorded yet.");
+    return;
+  }
+
+  let rows = journal.map((entry, i) => {
+    const diff = diffPrd(i > 0 ? journal[i - 1].items : [], entry.items);
+    return { entry, diff };
+  });
+  if (itemId) {
+    rows = rows.filter(({ diff }) =>
+      [...diff.added, ...diff.removed, ...diff.changed.map((c) => c.after)].some(
+        (item) => item.id === itemId,
+      ),
+    );
+  }
+
+  const shown = limit === undefined ? rows.slice().reverse() : rows.slice(-limit).reverse();
+  for (const { entry, diff } of shown) {
+    const summary =
+      entry.action === "initial" ? `${entry.items.length} items` : describePrdDiff(diff);
+    console.log(
+      `\x1b[33m#${String(entry.seq).padEnd(4)}\x1b[0m ${formatTimestamp(entry.timestamp)}  ${entry.action.padEnd(9)} \x1b[2m${entry.source.padEnd(6)}\x1b[0m ${summary}`,
+    );
+  }
+  if (shown.length < rows.length) {
+    console.log(
+      `\x1b[2m... ${rows.length - shown.length} older change(s), use --all to see them\x1b[0m`,
+    );
+  }
+}
+
+/**
+ * Resolves a diff point: a journal change number, "current" or a PRD file
+ * (as given, or relative to .ralph/ for backup file names).
+ */
+function resolvePoint(
+  point: string,
+  prdPath: string,
+  journal: PrdJournalEntry[],
+): { label: string; items: PrdEntry[] } {
+  if (/^\d+$/.test(point)) {
+    const entry = journal.find((e) => e.seq === Number(point));
+    if (!entry) {
+      console.error(`Error: No PRD change #${point}. Run 'ralph prd log' to list changes.`);
+      process.exit(1);
+    }
+    return {
+      label: `#${entry.seq} (${formatTimestamp(entry.timestamp)}, ${entry.action} by ${entry.source})`,
+      items: entry.items,
+    };
+  }
+
+  const path =
+    point === "current" ? prdPath : existsSync(point) ? point : join(getRalphDir(), point);
+  const parsed = existsSync(path) ? readPrdFile(path) : null;
+  if (!parsed || !Array.isArray(parsed.content)) {
+    console.error(
+      existsSync(path)
+        ? `Error: ${point} is not a readable PRD.`
+        : `Error: File not found: ${point}`,
+    );
+    process.exit(1);
+  }
+  return { label: point, items: parsed.content as PrdEntry[] };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+function printItemChange(change: PrdItemChange): void {
+  console.log(`\x1b[33m~ ${itemLabel(change.after)}\x1b[0m`);
+  for (const field of change.fields) {
+    const before = change.before[field as keyof PrdEntry];
+    const after = change.after[field as keyof PrdEntry];
+    if (Array.isArray(before) && Array.isArray(after)) {
+      console.log(`    ${field}:`);
+      for (const value of before.filter((v) => !after.includes(v))) {
+        console.log(`      \x1b[31m- ${value}\x1b[0m`);
+      }
+      for (const value of after.filter((v) => !before.includes(v))) {
+        console.log(`      \x1b[32m+ ${value}\x1b[0m`);
+      }
+      if (before.every((v) => after.includes(v)) && after.every((v) => before.includes(v))) {
+        console.log("      \x1b[2m(reordered)\x1b[0m");
+      }
+    } else {
+      console.log(`    ${field}: ${formatValue(before)} → ${formatValue(after)}`);
+    }
+  }
+}
+
+/**
+ * Shows the semantic difference between two points of the PRD.
+ */
+export function prdDiff(args: string[]): void {
+  if (args.includes("--help") || args.includes("-h")) {
+    printDiffUsage();
+    return;
+  }
+  if (args.length < 1 || args.length > 2) {
+    printDiffUsage();
+    process.exit(1);
+  }
+
+  const prdPath = requirePrdPath();
+  const journal = readPrdJournal(prdPath);
+  const from = resolvePoint(args[0], prdPath, journal);
+  const to = resolvePoint(args[1] ?? "current", prdPath, journal);
+
+  console.log(`\x1b[2m--- ${from.label}\x1b[0m`);
+  console.log(`\x1b[2m+++ ${to.label}\x1b[0m\n`);
+
+  const diff = diffPrd(from.items, to.items);
+  if (isEmptyDiff(diff)) {
+    console.log("No differences.");
+    return;
+  }
+
+  for (const item of diff.added) {
+    console.log(`\x1b[32m+ ${itemLabel(item)}\x1b[0m`);
+  }
+  for (const item of diff.removed) {
+    console.log(`\x1b[31m- ${itemLabel(item)}\x1b[0m`);
+  }
+  for (const change of diff.changed) {
+    printItemChange(change);
+  }
+  if (diff.reordered) {
+    console.log("\x1b[2mItems were reordered.\x1b[0m");
+  }
+  console.log(`\n${describePrdDiff(diff)}`);
+}
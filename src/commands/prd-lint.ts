@@ -0,0 +1,140 @@
+import { getPrdFiles, getRalphDir, loadConfig, PrdLintConfig } from "../utils/config.js";
+import {
+  readPrdFile,
+  writePrdAuto,
+  createBackup,
+  validatePrd,
+  PrdEntry,
+} from "../utils/prd-validator.js";
+import { loadCategoryNames } from "../utils/prd-categories.js";
+import {
+  LINT_RULES,
+  getRuleSeverities,
+  lintPrd,
+  fixPrd,
+  hasLintFailures,
+  LintIssue,
+} from "../utils/prd-lint.js";
+
+function printUsage(): void {
+  console.error("Usage: ralph prd lint [--fix] [--strict] [--rules]");
+  console.error(
+    "\nChecks PRD items for vague descriptions, missing verification steps, duplicates,",
+  );
+  console.error("steps that can't be checked and @{file} references to missing files.");
+  console.error("Exits with status 1 if any error is found.");
+  console.error("\nOptions:");
+  console.error("  --fix                       Apply autofixes (a backup is written first)");
+  console.error("  --strict                    Fail on warnings too");
+  console.error("  --rules                     List the rules and their severities");
+}
+
+function loadLintConfig(): PrdLintConfig | undefined {
+  try {
+    return loadConfig().lint;
+  } catch {
+    // Missing or corrupted config - use the default severities
+    return undefined;
+  }
+}
+
+function printRules(config?: PrdLintConfig): void {
+  const severities = getRuleSeverities(config);
+  console.log("PRD lint rules (change severities with lint.rules in config.json):\n");
+  for (const rule of LINT_RULES) {
+    console.log(`  ${rule.name.padEnd(24)} ${severities[rule.name].padEnd(8)} ${rule.description}`);
+  }
+}
+
+/**
+ * Prints lint issues grouped by entry and returns the summary line.
+ */
+function printLintIssues(issues: LintIssue[], entries: PrdEntry[]): string {
+  let lastIndex = -1;
+  for (const issue of issues) {
+    if (issue.index !== lastIndex) {
+      const entry = entries[issue.index];
+      const id = entry.id ? ` \x1b[2m#${entry.id}\x1b[0m` : "";
+      console.log(`\n  ${issue.index + 1}. ${entry.description}${id}`);
+      lastIndex = issue.index;
+    }
+    const color = issue.severity === "error" ? "\x1b[31m" : "\x1b[33m";
+    console.log(
+      `    ${color}${issue.severity.padEnd(7)}\x1b[0m ${issue.message} \x1b[2m(${issue.rule})\x1b[0m`,
+    );
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const warnings = issues.length - errors;
+  const fixable = issues.filter((issue) => issue.fixable).length;
+  const fixHint = fixable > 0 ? `, ${fixable} fixable with 'ralph prd lint --fix'` : "";
+  return `${errors} error(s), ${warnings} warning(s)${fixHint}`;
+}
+
+/**
+ * Lints the PRD. Exits with status 1 when errors (or, with --strict, warnings) remain.
+ */
+export function prdLint(args: string[]): void {
+  let fix = false;
+  let strictFlag = false;
+
+  for (const arg of args) {
+    if (arg === "--fix") {
+      fix = true;
+    } else if (arg === "--strict") {
+      strictFlag = true;
+    } else if (arg === "--rules") {
+      printRules(loadLintConfig());
+      return;
+    } else if (arg === "--help" || arg === "-h") {
+      printUsage();
+      return;
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  const parsed = readPrdFile(prdPath);
+  const validation = parsed ? validatePrd(parsed.content, loadCategoryNames()) : null;
+  if (!validation?.data) {
+    console.error("Error: PRD file is corrupted. Run 'ralph fix-prd' first.");
+    process.exit(1);
+  }
+
+  const config = loadLintConfig();
+  const strict = strictFlag || config?.strict === true;
+  const context = { baseDir: getRalphDir() };
+  let entries = validation.data;
+
+  if (fix) {
+    const result = fixPrd(entries, context, config);
+    if (result.fixed.length > 0) {
+      const backupPath = createBackup(prdPath);
+      writePrdAuto(prdPath, result.entries, { action: "fix", source: "cli" });
+      entries = result.entries;
+      console.log(`\x1b[32m✓ Fixed: ${result.fixed.join(", ")}\x1b[0m`);
+      console.log(`\x1b[90mPRD backup: ${backupPath}\x1b[0m`);
+    } else {
+      console.log("Nothing to fix.");
+    }
+  }
+
+  const issues = lintPrd(entries, context, config);
+  if (issues.length === 0) {
+    console.log(`\x1b[32m✓ PRD lint passed (${entries.length} items).\x1b[0m`);
+    return;
+  }
+
+  const summary = printLintIssues(issues, entries);
+  const failed = hasLintFailures(issues, strict);
+  console.log(`\n${failed ? "\x1b[31m✗" : "\x1b[33m!"} ${summary}\x1b[0m`);
+  if (failed) {
+    process.exit(1);
+  }
+}
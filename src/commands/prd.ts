@@ -1,11 +1,35 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import { extname, join } from "path";
+import { dirname, extname, join, relative } from "path";
 import { promptInput, promptSelect, promptConfirm } from "../utils/prompt.js";
 import { getRalphDir, getPrdFiles } from "../utils/config.js";
 import { convert as prdConvert } from "./prd-convert.js";
+import { prdImport } from "./prd-import.js";
+import { prdExport } from "./prd-export.js";
+import { prdEdit } from "./prd-edit.js";
+import { prdGenerate } from "./prd-generate.js";
+import { prdLint } from "./prd-lint.js";
+import { prdLog, prdDiff } from "./prd-journal.js";
 import { DEFAULT_PRD_YAML } from "../templates/prompts.js";
-import YAML from "yaml";
-import { robustYamlParse } from "../utils/prd-validator.js";
+import {
+  robustYamlParse,
+  readPrdFile,
+  writePrdAuto,
+  resolvePrdSources,
+  PRD_PRIORITIES,
+  PrdPriority,
+} from "../utils/prd-validator.js";
+import type { PrdChangeAction } from "../utils/prd-journal.js";
+import { loadPrdCategories, loadCategoryNames } from "../utils/prd-categories.js";
+import { indexById, getBlockers, formatBlockers } from "../utils/prd-dependencies.js";
+import { migratePrdIds, generatePrdId, collectPrdIds } from "../utils/prd-ids.js";
+import {
+  getRunsDir,
+  readAllLedgers,
+  sumLedgerUsage,
+  summarizeModels,
+} from "../utils/run-ledger.js";
+import { formatUsage, hasUsage } from "../utils/usage.js";
+import { getAttemptsPath, readTaskAttempts, listQuarantined } from "../utils/task-attempts.js";
 
 interface PrdEntry {
   category: string;
@@ -13,11 +37,16 @@ interface PrdEntry {
   steps: string[];
   passes: boolean;
   branch?: string;
+  id?: string;
+  dependsOn?: string[];
+  priority?: PrdPriority;
+  owner?: string;
+  estimate?: number;
+  labels?: string[];
 }
 
 const PRD_FILE_JSON = "prd.json";
 const PRD_FILE_YAML = "prd.yaml";
-const CATEGORIES = ["ui", "feature", "bugfix", "setup", "development", "testing", "docs"];
 
 // Track whether we've shown the migration notice in this session
 let migrationNoticeShown = false;
@@ -37,6 +66,17 @@ function getPrdPath(): string {
  * Returns empty array if file is empty or parses to null.
  */
 function parsePrdFile(path: string): PrdEntry[] {
+  if (resolvePrdSources(path)) {
+    // Split PRD - merge its files
+    const parsed = readPrdFile(path);
+    if (!parsed) {
+      console.error(`Error parsing ${path}: one of its PRD files is invalid.`);
+      console.error("Run 'ralph fix-prd' to attempt automatic repair.");
+      process.exit(1);
+    }
+    return parsed.content as PrdEntry[];
+  }
+
   const content = readFileSync(path, "utf-8");
   const ext = extname(path).toLowerCase();
 
@@ -79,6 +119,20 @@ function parsePrdFile(path: string): PrdEntry[] {
   }
 }
 
+/**
+ * Assigns stable ids to entries that don't have one yet (older PRDs).
+ * A backup is written before the file is rewritten.
+ */
+function ensurePrdIds(path: string): void {
+  const { assigned, backupPath } = migratePrdIds(path);
+  if (assigned > 0) {
+    console.log(
+      `\x1b[33mAssigned ids to ${assigned} ${assigned === 1 ? "entry" : "entries"} in ${path} (backup: ${backupPath})\x1b[0m`,
+    );
+    console.log("");
+  }
+}
+
 /**
  * Loads PRD entries from prd.yaml and/or prd.json.
  * - If neither exists, creates prd.yaml with default content
@@ -110,10 +164,12 @@ function loadPrd(): PrdEntry[] {
   }
 
   // Load primary file
+  ensurePrdIds(prdFiles.primary!);
   const primary = parsePrdFile(prdFiles.primary!);
 
   // If both files exist, merge them
   if (prdFiles.both && prdFiles.secondary) {
+    ensurePrdIds(prdFiles.secondary);
     const secondary = parsePrdFile(prdFiles.secondary);
     // Merge without deduplication - primary (YAML) first, then secondary (JSON)
     return [...primary, ...secondary];
@@ -122,21 +178,19 @@ function loadPrd(): PrdEntry[] {
   return primary;
 }
 
-function savePrd(entries: PrdEntry[]): void {
-  const path = getPrdPath();
-  const ext = extname(path).toLowerCase();
-
-  if (ext === ".yaml" || ext === ".yml") {
-    writeFileSync(path, YAML.stringify(entries));
-  } else {
-    writeFileSync(path, JSON.stringify(entries, null, 2) + "\n");
-  }
+function savePrd(entries: PrdEntry[], action: PrdChangeAction): void {
+  writePrdAuto(getPrdPath(), entries, { action, source: "cli" });
 }
 
 export async function prdAdd(): Promise<void> {
   console.log("Add new PRD entry\n");
 
-  const category = await promptSelect("Select category:", CATEGORIES);
+  const categories = loadPrdCategories();
+  const categoryOptions = categories.map((c) =>
+    c.description ? `${c.name} - ${c.description}` : c.name,
+  );
+  const selected = await promptSelect("Select category:", categoryOptions);
+  const category = categories[categoryOptions.indexOf(selected)].name;
   const description = await promptInput("\nDescription: ");
 
   if (!description) {
@@ -159,18 +213,44 @@ export async function prdAdd(): Promise<void> {
     steps.push("Verify the feature works as expected");
   }
 
+  console.log("\nOptional fields (press Enter to skip):");
+  let priority: string;
+  while (true) {
+    priority = (await promptInput(`  Priority (${PRD_PRIORITIES.join(", ")}): `)).toLowerCase();
+    if (!priority || (PRD_PRIORITIES as readonly string[]).includes(priority)) break;
+    console.log(`  Priority must be one of: ${PRD_PRIORITIES.join(", ")}`);
+  }
+  const owner = await promptInput("  Owner: ");
+  let estimate: number | undefined;
+  while (true) {
+    const answer = await promptInput("  Estimate (number): ");
+    estimate = answer ? Number(answer) : undefined;
+    if (estimate === undefined || estimate > 0) break;
+    console.log("  Estimate must be a positive number.");
+  }
+  const labels = (await promptInput("  Labels (comma-separated): "))
+    .split(",")
+    .map((label) => label.trim())
+    .filter(Boolean);
+
+  const prd = loadPrd();
+
   const entry: PrdEntry = {
+    id: generatePrdId(description, collectPrdIds(prd)),
     category,
     description,
     steps,
     passes: false,
+    ...(priority && { priority: priority as PrdPriority }),
+    ...(owner && { owner }),
+    ...(estimate !== undefined && { estimate }),
+    ...(labels.length > 0 && { labels }),
   };
 
-  const prd = loadPrd();
   prd.push(entry);
-  savePrd(prd);
+  savePrd(prd, "add");
 
-  console.log(`\nAdded entry #${prd.length}: "${description}"`);
+  console.log(`\nAdded entry #${prd.length} (${entry.id}): "${description}"`);
 }
 
 export function prdList(category?: string, passesFilter?: boolean): void {
@@ -215,12 +295,28 @@ export function prdList(category?: string, passesFilter?: boolean): void {
     console.log("\nPRD Entries:\n");
   }
 
+  const byId = indexById(prd);
+
   filteredPrd.forEach(({ entry, originalIndex }) => {
-    const statusEmoji = entry.passes ? "✅" : "○";
+    const blockers = entry.passes ? [] : getBlockers(entry, byId);
+    const statusEmoji = entry.passes ? "✅" : blockers.length > 0 ? "⏸" : "○";
+    const idTag = entry.id ? ` \x1b[90m#${entry.id}\x1b[0m` : "";
     const branchTag = entry.branch ? ` \x1b[36m(${entry.branch})\x1b[0m` : "";
     console.log(
-      `  ${originalIndex + 1}. ${statusEmoji} [${entry.category}] ${entry.description}${branchTag}`,
+      `  ${originalIndex + 1}. ${statusEmoji} [${entry.category}] ${entry.description}${idTag}${branchTag}`,
     );
+    if (blockers.length > 0) {
+      console.log(`       \x1b[33mblocked by: ${formatBlockers(blockers)}\x1b[0m`);
+    }
+    const fields = [
+      entry.priority && `priority: ${entry.priority}`,
+      entry.owner && `owner: ${entry.owner}`,
+      entry.estimate !== undefined && `estimate: ${entry.estimate}`,
+      entry.labels?.length && `labels: ${entry.labels.join(", ")}`,
+    ].filter(Boolean);
+    if (fields.length > 0) {
+      console.log(`       \x1b[90m${fields.join(" · ")}\x1b[0m`);
+    }
     entry.steps.forEach((step, j) => {
       console.log(`       ${j + 1}. ${step}`);
     });
@@ -228,7 +324,15 @@ export function prdList(category?: string, passesFilter?: boolean): void {
   });
 }
 
-export function prdStatus(headOnly: boolean = false): void {
+/**
+ * For a split PRD, the file (relative to .ralph/) each entry was read from.
+ */
+function loadPrdSources(): string[] | undefined {
+  const path = getPrdPath();
+  return readPrdFile(path)?.sources?.map((source) => relative(dirname(path), source));
+}
+
+export function prdStatus(headOnly: boolean = false, byFile: boolean = false): void {
   const prd = loadPrd();
 
   if (prd.length === 0) {
@@ -283,15 +387,112 @@ export function prdStatus(headOnly: boolean = false): void {
     });
   }
 
+  // By file (only for a split PRD)
+  const sources = loadPrdSources();
+  const sourceOf = new Map<PrdEntry, string>();
+  if (sources && sources.length === prd.length) {
+    const byFileStats: Record<string, { pass: number; total: number }> = {};
+    prd.forEach((entry, index) => {
+      const file = sources[index];
+      sourceOf.set(entry, file);
+      if (!byFileStats[file]) {
+        byFileStats[file] = { pass: 0, total: 0 };
+      }
+      byFileStats[file].total++;
+      if (entry.passes) byFileStats[file].pass++;
+    });
+
+    console.log("\n  By file:");
+    Object.entries(byFileStats).forEach(([file, stats]) => {
+      console.log(`    ${file}: ${stats.pass}/${stats.total}`);
+    });
+  }
+
+  // Token/cost totals recorded by `ralph run`
+  const ledgers = readAllLedgers(getRunsDir(getRalphDir()));
+  const totalUsage = sumLedgerUsage(ledgers);
+  if (hasUsage(totalUsage)) {
+    const lastRun = ledgers[ledgers.length - 1];
+    const lastUsage = sumLedgerUsage([lastRun]);
+    console.log("\n  Usage:");
+    console.log(`    all runs (${ledgers.length}): ${formatUsage(totalUsage)}`);
+    if (hasUsage(lastUsage)) {
+      console.log(`    last run (${lastRun.runId}): ${formatUsage(lastUsage)}`);
+    }
+  }
+
+  // Models used by the last run, and the one its latest iteration ran on
+  const lastRun = ledgers[ledgers.length - 1];
+  if (lastRun && lastRun.iterations.length > 0) {
+    const latest = lastRun.iterations[lastRun.iterations.length - 1];
+    console.log(`\n  Models (last run ${lastRun.runId}):`);
+    for (const summary of summarizeModels(lastRun)) {
+      console.log(
+        `    ${summary.model}: ${summary.iterations} iteration(s), ${summary.tasksCompleted} task(s) completed`,
+      );
+    }
+    console.log(`    latest iteration (#${latest.iteration}): ${latest.model || "default"}`);
+  }
+
+  // Items `ralph run` set aside after too many failed attempts
+  const quarantined = listQuarantined(readTaskAttempts(getAttemptsPath(getRalphDir())), prd);
+  const quarantinedEntries = new Set(quarantined.map(({ item }) => item));
+
+  // Items waiting on unfinished dependencies
+  const byId = indexById(prd);
+  const blocked = prd
+    .filter((e) => !e.passes && !quarantinedEntries.has(e))
+    .map((entry) => ({ entry, blockers: getBlockers(entry, byId) }))
+    .filter(({ blockers }) => blockers.length > 0);
+
   if (passing === total) {
     console.log("\n  \x1b[32m\u2713 All requirements complete!\x1b[0m");
   } else if (!headOnly) {
-    const remaining = prd.filter((e) => !e.passes);
+    const blockedEntries = new Set(blocked.map(({ entry }) => entry));
+    const remaining = prd.filter(
+      (e) => !e.passes && !blockedEntries.has(e) && !quarantinedEntries.has(e),
+    );
     console.log(`\n  Remaining (${remaining.length}):`);
-    remaining.forEach((entry) => {
+    const printRemaining = (entry: PrdEntry, indent: string) => {
       const branchTag = entry.branch ? ` \x1b[36m(${entry.branch})\x1b[0m` : "";
-      console.log(`    - [${entry.category}] ${entry.description}${branchTag}`);
-    });
+      console.log(`${indent}- [${entry.category}] ${entry.description}${branchTag}`);
+    };
+    if (byFile && sourceOf.size > 0) {
+      const files = [...new Set(remaining.map((entry) => sourceOf.get(entry)!))];
+      files.forEach((file) => {
+        console.log(`    \x1b[90m${file}\x1b[0m`);
+        remaining
+          .filter((entry) => sourceOf.get(entry) === file)
+          .forEach((entry) => printRemaining(entry, "      "));
+      });
+    } else {
+      remaining.forEach((entry) => printRemaining(entry, "    "));
+    }
+  }
+
+  if (blocked.length > 0) {
+    console.log(`\n  \x1b[33mBlocked (${blocked.length}):\x1b[0m`);
+    if (!headOnly) {
+      blocked.forEach(({ entry, blockers }) => {
+        const branchTag = entry.branch ? ` \x1b[36m(${entry.branch})\x1b[0m` : "";
+        console.log(`    - [${entry.category}] ${entry.description}${branchTag}`);
+        console.log(`      \x1b[90mwaiting on: ${formatBlockers(blockers)}\x1b[0m`);
+      });
+    }
+  }
+
+  if (quarantined.length > 0) {
+    console.log(`\n  \x1b[33mQuarantined (${quarantined.length}):\x1b[0m`);
+    if (!headOnly) {
+      quarantined.forEach(({ item, record }) => {
+        const branchTag = item.branch ? ` \x1b[36m(${item.branch})\x1b[0m` : "";
+        console.log(`    - [${item.category}] ${item.description}${branchTag}`);
+        console.log(
+          `      \x1b[90m${record.attempts} failed attempt(s), last: ${record.lastError ?? "unknown"}\x1b[0m`,
+        );
+      });
+      console.log("    Release with 'ralph quarantine release <id>' (or --all).");
+    }
   }
 }
 
@@ -385,22 +586,37 @@ export function prdToggle(args: string[]): void {
     prd.forEach((entry) => {
       entry.passes = !entry.passes;
     });
-    savePrd(prd);
+    savePrd(prd, "toggle");
 
     console.log(`Toggled all ${prd.length} PRD entries.`);
     return;
   }
 
+  const prd = loadPrd();
+
+  // Entries can be referenced by id as well as by number/range
+  const idIndices: number[] = [];
+  const numericArgs: string[] = [];
+  for (const a of args) {
+    const index = prd.findIndex((entry) => entry.id === a);
+    if (index !== -1) {
+      idIndices.push(index + 1);
+    } else {
+      numericArgs.push(a);
+    }
+  }
+
   // Parse arguments with range support
-  const indices = expandRangeArgs(args);
-  if (!indices) {
-    console.error("Usage: ralph prd toggle <number> [number2] [number3] ...");
+  const indices = numericArgs.length > 0 ? expandRangeArgs(numericArgs) : idIndices;
+  if (!indices || indices.length === 0) {
+    console.error("Usage: ralph prd toggle <number|id> [number2|id2] ...");
     console.error("       ralph prd toggle <start>-<end>");
     console.error("       ralph prd toggle --all");
     process.exit(1);
   }
-
-  const prd = loadPrd();
+  if (numericArgs.length > 0) {
+    indices.push(...idIndices);
+  }
 
   // Validate all indices
   for (const index of indices) {
@@ -421,7 +637,7 @@ export function prdToggle(args: string[]): void {
     console.log(`Entry #${index} "${entry.description}" is now ${statusText}`);
   }
 
-  savePrd(prd);
+  savePrd(prd, "toggle");
 }
 
 export function prdClean(): void {
@@ -436,7 +652,7 @@ export function prdClean(): void {
   }
 
   const removed = originalLength - filtered.length;
-  savePrd(filtered);
+  savePrd(filtered, "clean");
 
   console.log(`Removed ${removed} passing ${removed === 1 ? "entry" : "entries"}.`);
   console.log(`${filtered.length} ${filtered.length === 1 ? "entry" : "entries"} remaining.`);
@@ -470,7 +686,7 @@ export async function prdReset(): Promise<void> {
   prd.forEach((entry) => {
     entry.passes = false;
   });
-  savePrd(prd);
+  savePrd(prd, "reset");
 
   console.log(
     `Reset ${alreadyPassing} ${alreadyPassing === 1 ? "entry" : "entries"} to incomplete.`,
@@ -481,6 +697,7 @@ export async function prdReset(): Promise<void> {
 }
 
 export function parseListArgs(args: string[]): { category?: string; passesFilter?: boolean } {
+  const categories = loadCategoryNames();
   let category: string | undefined;
   let passesFilter: boolean | undefined;
 
@@ -491,7 +708,7 @@ export function parseListArgs(args: string[]): { category?: string; passesFilter
         i++; // Skip the category value
       } else {
         console.error("Error: --category requires a value");
-        console.error(`Valid categories: ${CATEGORIES.join(", ")}`);
+        console.error(`Valid categories: ${categories.join(", ")}`);
         process.exit(1);
       }
     } else if (args[i] === "--passes" || args[i] === "--passed") {
@@ -507,9 +724,9 @@ export function parseListArgs(args: string[]): { category?: string; passesFilter
   }
 
   // Validate category if provided
-  if (category && !CATEGORIES.includes(category)) {
+  if (category && !categories.includes(category)) {
     console.error(`Error: Invalid category "${category}"`);
-    console.error(`Valid categories: ${CATEGORIES.join(", ")}`);
+    console.error(`Valid categories: ${categories.join(", ")}`);
     process.exit(1);
   }
 
@@ -530,7 +747,8 @@ export async function prd(args: string[]): Promise<void> {
     }
     case "status": {
       const headOnly = args.slice(1).includes("--head");
-      prdStatus(headOnly);
+      const byFile = args.slice(1).includes("--by-file");
+      prdStatus(headOnly, byFile);
       break;
     }
     case "toggle":
@@ -545,12 +763,35 @@ export async function prd(args: string[]): Promise<void> {
     case "convert":
       await prdConvert(args.slice(1));
       break;
+    case "import":
+      await prdImport(args.slice(1));
+      break;
+    case "export":
+      prdExport(args.slice(1));
+      break;
+    case "edit":
+      await prdEdit(args.slice(1));
+      break;
+    case "generate":
+      await prdGenerate(args.slice(1));
+      break;
+    case "lint":
+      prdLint(args.slice(1));
+      break;
+    case "log":
+      prdLog(args.slice(1));
+      break;
+    case "diff":
+      prdDiff(args.slice(1));
+      break;
     default:
-      console.error("Usage: ralph prd <add|list|status|toggle|clean|reset|convert>");
+      console.error(
+        "Usage: ralph prd <add|list|status|toggle|clean|reset|convert|import|export|edit|generate|lint|log|diff>",
+      );
       console.error("\nSubcommands:");
       console.error("  add                         Add a new PRD entry");
       console.error("  list [options]              List all PRD entries");
-      console.error("  status [--head]             Show completion status");
+      console.error("  status [--head] [--by-file] Show completion status");
       console.error(
         "  toggle <n> ...              Toggle passes status for entry n (accepts multiple)",
       );
@@ -559,6 +800,13 @@ export async function prd(args: string[]): Promise<void> {
       console.error("  clean                       Remove all passing entries from the PRD");
       console.error("  reset                       Reset all entries to incomplete (passes=false)");
       console.error("  convert [options]           Convert prd.json to prd.yaml format");
+      console.error("  import <file> [options]     Import items from Markdown, CSV or JSON issues");
+      console.error("  export [options]            Export as Markdown, JUnit XML, HTML or CSV");
+      console.error("  edit                        Open the interactive PRD editor (TUI)");
+      console.error("  generate <spec> [options]   Draft items from a spec with an LLM provider");
+      console.error("  lint [options]              Check items for quality problems");
+      console.error("  log [-n <count>]            Show the history of PRD changes");
+      console.error("  diff <from> [to]            Compare two points in the history or backups");
       console.error("\nList options:");
       console.error("  --category, -c <cat>        Filter by category");
       console.error("  --passes                    Show only completed items");
@@ -567,7 +815,31 @@ export async function prd(args: string[]): Promise<void> {
       console.error("\nConvert options:");
       console.error("  --force, -f                 Overwrite existing files");
       console.error("  --dry-run, -n               Preview without making changes");
-      console.error(`\nValid categories: ${CATEGORIES.join(", ")}`);
+      console.error("\nImport options:");
+      console.error(
+        "  --format, -f <format>       markdown, csv or issues (default: from extension)",
+      );
+      console.error("  --dry-run, -n               Preview without making changes");
+      console.error("  --yes, -y                   Skip the confirmation prompt");
+      console.error("\nGenerate options:");
+      console.error("  --provider, -p <name>       LLM provider from llmProviders in config.json");
+      console.error(
+        "  --dry-run, -n               Show the drafted items without changing the PRD",
+      );
+      console.error("  --yes, -y                   Accept every drafted item");
+      console.error("\nLint options:");
+      console.error("  --fix                       Apply autofixes (a backup is written first)");
+      console.error("  --strict                    Fail on warnings too");
+      console.error("  --rules                     List the rules and their severities");
+      console.error("\nExport options:");
+      console.error("  --format, -f <format>       md, junit, html or csv (default: md)");
+      console.error("  --output, -o <file>         Write to a file instead of stdout");
+      console.error("  --category, -c <cat>        Only export items in this category");
+      console.error("  --branch, -b <name>         Only export items tagged with this branch");
+      console.error(
+        "  --fail-pending              JUnit: report items that don't pass as failures",
+      );
+      console.error(`\nValid categories: ${loadCategoryNames().join(", ")}`);
       process.exit(1);
   }
 }
@@ -2,8 +2,12 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
 import { extname, join } from "path";
 import { getRalphDir, getPrdFiles } from "../utils/config.js";
 import { DEFAULT_PRD_YAML } from "../templates/prompts.js";
-import YAML from "yaml";
-import { robustYamlParse } from "../utils/prd-validator.js";
+import {
+  robustYamlParse,
+  readPrdFile,
+  writePrdAuto,
+  resolvePrdSources,
+} from "../utils/prd-validator.js";
 
 interface PrdEntry {
   category: string;
@@ -25,6 +29,16 @@ function getPrdPath(): string {
 }
 
 function parsePrdFile(path: string): PrdEntry[] {
+  if (resolvePrdSources(path)) {
+    // Split PRD - merge its files
+    const parsed = readPrdFile(path);
+    if (!parsed) {
+      console.error(`Error parsing ${path}. Run 'ralph fix-prd' to attempt automatic repair.`);
+      process.exit(1);
+    }
+    return parsed.content as PrdEntry[];
+  }
+
   const content = readFileSync(path, "utf-8");
   const ext = extname(path).toLowerCase();
 
@@ -67,14 +81,7 @@ function loadPrd(): PrdEntry[] {
 }
 
 function savePrd(entries: PrdEntry[]): void {
-  const path = getPrdPath();
-  const ext = extname(path).toLowerCase();
-
-  if (ext === ".yaml" || ext === ".yml") {
-    writeFileSync(path, YAML.stringify(entries));
-  } else {
-    writeFileSync(path, JSON.stringify(entries, null, 2) + "\n");
-  }
+  writePrdAuto(getPrdPath(), entries, { action: "add", source: "cli" });
 }
 
 function progressSummarize(): void {
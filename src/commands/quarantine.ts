@@ -0,0 +1,134 @@
+import { getRalphDir, getPrdFiles, loadConfig } from "../utils/config.js";
+import { readPrdFile, PrdEntry } from "../utils/prd-validator.js";
+import { prdItemKey } from "../utils/checkpoint.js";
+import {
+  getAttemptsPath,
+  readTaskAttempts,
+  writeTaskAttempts,
+  listQuarantined,
+  releaseQuarantined,
+  TaskAttempt,
+} from "../utils/task-attempts.js";
+
+/**
+ * Loads the PRD entries, exiting with an error if the PRD is missing or corrupted.
+ */
+function loadEntries(): PrdEntry[] {
+  const prdPath = getPrdFiles().primary;
+  if (!prdPath) {
+    console.error("Error: No PRD file found. Run 'ralph init' first.");
+    process.exit(1);
+  }
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) {
+    console.error("Error: PRD file is corrupted. Run 'ralph fix-prd' first.");
+    process.exit(1);
+  }
+  return parsed.content as PrdEntry[];
+}
+
+function formatItem(record: { id?: string; description: string }): string {
+  return record.id ? `${record.id}: ${record.description}` : record.description;
+}
+
+function formatAttempts(record: TaskAttempt): string {
+  const iteration =
+    record.lastIteration !== undefined ? ` (iteration ${record.lastIteration})` : "";
+  return `${record.attempts} failed attempt(s), last${iteration}: ${record.lastError ?? "unknown"}`;
+}
+
+function quarantineList(): void {
+  const entries = loadEntries();
+  const attempts = readTaskAttempts(getAttemptsPath(getRalphDir()));
+  const quarantined = listQuarantined(attempts, entries);
+
+  let maxAttempts: number | undefined;
+  try {
+    maxAttempts = loadConfig().maxAttemptsPerTask;
+  } catch {
+    // Missing or corrupted config - the limit is only informational here
+  }
+
+  if (quarantined.length === 0) {
+    console.log("No quarantined items.");
+  } else {
+    console.log(`\x1b[33mQuarantined (${quarantined.length}):\x1b[0m`);
+    for (const { item, record } of quarantined) {
+      console.log(`  - [${item.category}] ${formatItem(item)}`);
+      console.log(`    \x1b[90m${formatAttempts(record)}\x1b[0m`);
+    }
+    console.log("\nRelease them with 'ralph quarantine release <id>' (or --all) once fixed.");
+  }
+
+  // Items that failed but haven't reached the limit yet
+  const failing = entries
+    .filter((entry) => !entry.passes)
+    .map((entry) => ({ entry, record: attempts[prdItemKey(entry)] }))
+    .filter(({ record }) => record && !record.quarantined);
+  if (failing.length > 0) {
+    const limit = maxAttempts !== undefined ? ` (limit: ${maxAttempts})` : "";
+    console.log(`\nFailed attempts${limit}:`);
+    for (const { entry, record } of failing) {
+      console.log(`  - [${entry.category}] ${formatItem(entry)}`);
+      console.log(`    \x1b[90m${formatAttempts(record)}\x1b[0m`);
+    }
+  }
+}
+
+function quarantineRelease(args: string[]): void {
+  const all = args.includes("--all") || args.includes("-a");
+  const refs = args.filter((arg) => arg !== "--all" && arg !== "-a");
+  if (!all && refs.length === 0) {
+    console.error("Usage: ralph quarantine release <id>... | --all");
+    process.exit(1);
+  }
+
+  const attemptsPath = getAttemptsPath(getRalphDir());
+  const attempts = readTaskAttempts(attemptsPath);
+  const released = releaseQuarantined(attempts, all ? [] : refs);
+
+  const unmatched = refs.filter(
+    (ref) => !released.some((record) => record.id === ref || record.description === ref),
+  );
+  if (!all && unmatched.length > 0) {
+    console.error(`Error: Not quarantined: ${unmatched.join(", ")}`);
+    console.error("Run 'ralph quarantine' to list quarantined items.");
+    process.exit(1);
+  }
+
+  if (released.length === 0) {
+    console.log("No quarantined items.");
+    return;
+  }
+
+  writeTaskAttempts(attemptsPath, attempts);
+  console.log(`\x1b[32mReleased ${released.length} item(s):\x1b[0m`);
+  for (const record of released) {
+    console.log(`  - ${formatItem(record)}`);
+  }
+  console.log("Their attempt counts were reset; the next 'ralph run' picks them up again.");
+}
+
+export async function quarantine(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case undefined:
+    case "list":
+      quarantineList();
+      break;
+    case "release":
+      quarantineRelease(args.slice(1));
+      break;
+    default:
+      console.error("Usage: ralph quarantine [subcommand]");
+      console.error("\nSubcommands:");
+      console.error(
+        "  list                        List quarantined items and failed attempts (default)",
+      );
+      console.error(
+        "  release <id>... | --all     Release quarantined items and reset their attempts",
+      );
+      process.exit(1);
+  }
+}
@@ -0,0 +1,199 @@
+import { existsSync } from "fs";
+import { execFileSync } from "child_process";
+import { getRalphDir, getPrdFiles } from "../utils/config.js";
+import { readPrdFile, writePrdAuto, createBackup, PrdEntry } from "../utils/prd-validator.js";
+import { promptConfirm } from "../utils/prompt.js";
+import {
+  getRunsDir,
+  listRunIds,
+  readLedger,
+  resolveRunId,
+  CheckpointRecord,
+} from "../utils/run-ledger.js";
+import {
+  createStashCommit,
+  restoreCheckpoint,
+  restorePassesFlags,
+  pruneCheckpoints,
+  BEFORE_ROLLBACK_REF_PREFIX,
+  DEFAULT_KEEP_CHECKPOINT_RUNS,
+} from "../utils/checkpoint.js";
+
+function printUsage(): void {
+  console.error("Usage: ralph rollback [iteration] [--run <run-id>] [-y]");
+  console.error("       ralph rollback --prune [--keep <n>]");
+  console.error("\nRestores the workspace (or worktree) and PRD passes flags to the checkpoint");
+  console.error("taken before an iteration. Defaults to the last iteration of the latest run.");
+  console.error(
+    `\n--prune deletes the checkpoint refs of all but the newest runs (default: ${DEFAULT_KEEP_CHECKPOINT_RUNS}).`,
+  );
+}
+
+/**
+ * Saves uncommitted changes in `dir` under a ref before they are discarded.
+ * Returns the stash commit, or undefined if there was nothing to save.
+ */
+function saveCurrentChanges(dir: string): string | undefined {
+  const stash = createStashCommit(dir);
+  if (stash) {
+    const ref = `${BEFORE_ROLLBACK_REF_PREFIX}/${Date.now()}`;
+    try {
+      execFileSync("git", ["update-ref", ref, stash], { cwd: dir, stdio: "pipe" });
+    } catch {
+      // The stash SHA is still printed
+    }
+  }
+  return stash;
+}
+
+export async function rollback(args: string[]): Promise<void> {
+  let runRef = "latest";
+  let iterationArg: string | undefined;
+  let skipConfirm = false;
+  let prune = false;
+  let keep = DEFAULT_KEEP_CHECKPOINT_RUNS;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--run" || args[i] === "-r") {
+      if (i + 1 >= args.length) {
+        console.error("Error: --run requires a run id");
+        process.exit(1);
+      }
+      runRef = args[++i];
+    } else if (args[i] === "-y" || args[i] === "--yes") {
+      skipConfirm = true;
+    } else if (args[i] === "--prune") {
+      prune = true;
+    } else if (args[i] === "--keep") {
+      keep = parseInt(args[++i] ?? "");
+      if (isNaN(keep) || keep < 0) {
+        console.error("Error: --keep requires a number of runs (0 or more)");
+        process.exit(1);
+      }
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      printUsage();
+      return;
+    } else if (!iterationArg && !args[i].startsWith("-")) {
+      iterationArg = args[i];
+    } else {
+      printUsage();
+      process.exit(1);
+    }
+  }
+
+  if (prune) {
+    const deleted = pruneCheckpoints(process.cwd(), keep);
+    console.log(
+      deleted > 0
+        ? `\x1b[32m✓ Deleted ${deleted} checkpoint ref(s), keeping the newest ${keep} run(s)\x1b[0m`
+        : "No checkpoint refs to prune.",
+    );
+    return;
+  }
+
+  const runsDir = getRunsDir(getRalphDir());
+  const runId = resolveRunId(listRunIds(runsDir), runRef);
+  const ledger = runId ? readLedger(runsDir, runId) : null;
+  if (!ledger) {
+    console.error(`\x1b[31mError: No run matches "${runRef}".\x1b[0m`);
+    console.error("Run 'ralph history' to list recorded runs.");
+    process.exit(1);
+  }
+  if (ledger.checkpoints.length === 0) {
+    console.error(`\x1b[31mError: Run ${ledger.runId} has no checkpoints.\x1b[0m`);
+    process.exit(1);
+  }
+
+  let checkpoint: CheckpointRecord | undefined;
+  if (iterationArg !== undefined) {
+    const iteration = parseInt(iterationArg);
+    checkpoint = ledger.checkpoints.find((cp) => cp.iteration === iteration);
+    if (!checkpoint) {
+      const available = ledger.checkpoints.map((cp) => cp.iteration).join(", ");
+      console.error(
+        `\x1b[31mError: Run ${ledger.runId} has no checkpoint for iteration ${iterationArg}.\x1b[0m`,
+      );
+      console.error(`Available iterations: ${available}`);
+      process.exit(1);
+    }
+  } else {
+    checkpoint = ledger.checkpoints[ledger.checkpoints.length - 1];
+  }
+
+  if (!checkpoint.head) {
+    console.error(
+      "\x1b[31mError: The repository had no commits at this checkpoint - nothing to restore.\x1b[0m",
+    );
+    process.exit(1);
+  }
+  if (!existsSync(checkpoint.dir)) {
+    console.error(`\x1b[31mError: Checkpoint directory not found: ${checkpoint.dir}\x1b[0m`);
+    console.error("Run 'ralph rollback' where the run ran (e.g. inside the container).");
+    process.exit(1);
+  }
+
+  const prdPath = getPrdFiles().primary;
+  const parsed = prdPath ? readPrdFile(prdPath) : null;
+  const prd = parsed && Array.isArray(parsed.content) ? (parsed.content as PrdEntry[]) : null;
+  if (!prdPath || !prd) {
+    console.error(
+      "\x1b[33mWarning: PRD file not found or corrupted - only the files will be restored.\x1b[0m",
+    );
+  }
+
+  console.log(
+    `\x1b[1mRollback to run ${ledger.runId}, before iteration ${checkpoint.iteration}\x1b[0m\n`,
+  );
+  console.log(`  Directory:  ${checkpoint.dir}`);
+  if (checkpoint.branch) {
+    console.log(`  Branch:     ${checkpoint.branch}`);
+  }
+  console.log(`  HEAD:       ${checkpoint.head.slice(0, 12)}`);
+  console.log(
+    `  Changes:    ${checkpoint.stash ? "uncommitted changes will be re-applied" : "none"}`,
+  );
+  console.log(`  PRD:        ${checkpoint.passing.length} item(s) passing at the checkpoint`);
+  console.log();
+
+  if (!skipConfirm) {
+    const confirmed = await promptConfirm(
+      "Discard all changes since this checkpoint and restore it?",
+      false,
+    );
+    if (!confirmed) {
+      console.log("Rollback cancelled.");
+      return;
+    }
+  }
+
+  // Back up the PRD first - resetting the workspace can also reset a tracked PRD file
+  const backupPath = prdPath && prd ? createBackup(prdPath) : undefined;
+  const saved = saveCurrentChanges(checkpoint.dir);
+  if (saved) {
+    console.log(
+      `\x1b[90mCurrent uncommitted changes saved as ${saved.slice(0, 12)} (restore with: git stash apply ${saved})\x1b[0m`,
+    );
+  }
+
+  try {
+    restoreCheckpoint(checkpoint);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`\x1b[31mError: Failed to restore checkpoint: ${message}\x1b[0m`);
+    process.exit(1);
+  }
+  console.log(`\x1b[32m✓ Restored ${checkpoint.dir} to ${checkpoint.head.slice(0, 12)}\x1b[0m`);
+
+  if (prdPath && prd) {
+    // Write back the PRD as it was before the rollback (keeping items added since),
+    // with the passes flags from the checkpoint
+    const changed = restorePassesFlags(prd, checkpoint.passing);
+    writePrdAuto(prdPath, prd, { action: "rollback", source: "cli" });
+    console.log(`\x1b[32m✓ Restored passes flags (${changed} PRD item(s) changed)\x1b[0m`);
+    console.log(`\x1b[90mPRD backup: ${backupPath}\x1b[0m`);
+  }
+
+  console.log(
+    "\nUntracked files created since the checkpoint are left in place (see 'git status').",
+  );
+}
@@ -8,7 +8,7 @@ import {
   mkdirSync,
   copyFileSync,
 } from "fs";
-import { extname, join } from "path";
+import { dirname, extname, join, relative } from "path";
 import {
   checkFilesExist,
   loadConfig,
@@ -30,9 +30,91 @@ import {
   writePrdAuto,
   expandPrdFileReferences,
   PrdEntry,
+  PrdPriority,
 } from "../utils/prd-validator.js";
-import { getStreamJsonParser, StreamJsonParser } from "../utils/stream-json.js";
+import {
+  scheduleItems,
+  indexById,
+  getBlockers,
+  formatBlockers,
+} from "../utils/prd-dependencies.js";
+import { migratePrdIds, generatePrdId } from "../utils/prd-ids.js";
+import { loadCategoryNames } from "../utils/prd-categories.js";
+import { lintPrd, hasLintFailures, formatLintIssue } from "../utils/prd-lint.js";
+import {
+  DEFAULT_PICK_STRATEGY,
+  getTaskSelection,
+  isPickStrategy,
+  limitTasks,
+  orderTasks,
+  parseMaxTasks,
+  PICK_STRATEGIES,
+  PickStrategy,
+  selectTasks,
+  TaskSelection,
+} from "../utils/task-picker.js";
+import {
+  clearAttempts,
+  excerptError,
+  getAttemptsPath,
+  getQuarantinedKeys,
+  getFailedAttemptItems,
+  getRunStopLimit,
+  readTaskAttempts,
+  recordFailedAttempt,
+  TaskAttempt,
+  TaskAttempts,
+  writeTaskAttempts,
+} from "../utils/task-attempts.js";
+import { getStreamJsonParser, StreamJsonParser, TokenUsage } from "../utils/stream-json.js";
+import { detectAgentAction, describeAgentAction, AgentAction } from "../utils/agent-actions.js";
+import { applyVerificationGate, isVerificationEnabled, runCommand } from "../utils/verification.js";
+import {
+  createCheckpoint,
+  getCheckpointRef,
+  prdItemKey,
+  pruneCheckpoints,
+} from "../utils/checkpoint.js";
+import {
+  createLock,
+  createLinePrefixer,
+  formatLanePrefix,
+  parseParallelCount,
+} from "../utils/parallel.js";
+import {
+  createWatchdog,
+  describeTimeout,
+  getWatchdogOptions,
+  TimeoutReason,
+  TIMEOUT_EXIT_CODE,
+  WatchdogOptions,
+} from "../utils/watchdog.js";
+import {
+  createModelChain,
+  describeModelSwitch,
+  DEFAULT_ESCALATE_AFTER,
+  getModelList,
+  isRateLimitError,
+  ModelChain,
+  ModelSwitch,
+} from "../utils/model-chain.js";
 import { sendNotificationWithDaemonEvents } from "../utils/notification.js";
+import {
+  getRunsDir,
+  createUniqueRunId,
+  appendLedgerRecord,
+  RunStartRecord,
+  LedgerTask,
+} from "../utils/run-ledger.js";
+import {
+  emptyUsage,
+  addUsage,
+  splitUsage,
+  hasUsage,
+  formatUsage,
+  checkBudget,
+  providerReportsCost,
+} from "../utils/usage.js";
 
 /**
  * Stream JSON configuration for clean output display
@@ -45,16 +127,32 @@ interface StreamJsonOptions {
   parser: StreamJsonParser; // Provider-specific stream-json parser
 }
 
+/**
+ * A branch group in a parallel run, with its own failure and stall counters.
+ */
+interface ParallelLane {
+  key: string; // Branch name, or "" for no-branch items (run in the workspace)
+  prefix: string; // Prefix for the lane's output lines
+  status: "running" | "done" | "stalled" | "failed";
+  consecutiveFailures: number;
+  lastExitCode: number;
+  iterationsWithoutProgress: number;
+  unattributedUsage: TokenUsage; // Usage not yet attributed to a completed task
+  modelChain: ModelChain; // Each lane escalates models on its own
+}
+
 interface PrdItem {
   category: string;
   description: string;
   steps: string[];
   passes: boolean;
   branch?: string;
+  id?: string;
+  dependsOn?: string[];
+  priority?: PrdPriority;
+  estimate?: number;
 }
 
-const CATEGORIES = ["ui", "feature", "bugfix", "setup", "development", "testing", "docs"];
-
 /**
  * Converts a branch name to a worktree directory name, prefixed with the project name.
  * e.g., "feat/login" -> "myproject_feat-login"
@@ -78,6 +176,24 @@ function repoHasCommits(): boolean {
   }
 }
 
+/**
+ * Lists commits created in `cwd` since `sinceSha` (newest first) as short SHAs.
+ * If the repo had no commits before, all commits reachable from HEAD are listed.
+ */
+function listCommitsSince(sinceSha: string | null, cwd: string): string[] {
+  try {
+    const range = sinceSha ? [`${sinceSha}..HEAD`] : ["HEAD"];
+    const out = execFileSync("git", ["rev-list", "--abbrev-commit", ...range], {
+      cwd,
+      encoding: "utf-8",
+      stdio: "pipe",
+    });
+    return out.split("\n").filter((line) => line.trim());
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Groups PRD items by branch field.
  * Returns a Map where:
@@ -100,6 +216,67 @@ function groupItemsByBranch(items: PrdItem[]): Map<string, PrdItem[]> {
   return groups;
 }
 
+/**
+ * Filters the incomplete PRD items by --category/--branch, sets quarantined items aside,
+ * drops items whose dependencies haven't passed yet, orders the rest by the --pick
+ * strategy and groups them by branch.
+ */
+function getReadyBranchGroups(
+  allItems: PrdItem[],
+  category?: string,
+  branchFilterActive?: boolean,
+  branchFilter?: string,
+  strategy: PickStrategy = DEFAULT_PICK_STRATEGY,
+  quarantinedKeys: Set<string> = new Set(),
+): {
+  ready: PrdItem[];
+  blocked: PrdItem[];
+  quarantined: PrdItem[];
+  groups: Map<string, PrdItem[]>;
+} {
+  let items = allItems.filter((item) => !item.passes);
+  if (category) {
+    items = items.filter((item) => item.category === category);
+  }
+  if (branchFilterActive) {
+    items = applyBranchFilter(items, branchFilter!);
+  }
+
+  const quarantined = items.filter((item) => quarantinedKeys.has(prdItemKey(item)));
+  items = items.filter((item) => !quarantinedKeys.has(prdItemKey(item)));
+
+  const schedule = scheduleItems(items, allItems);
+  const ready = orderTasks(schedule.ready, strategy);
+  return { ready, blocked: schedule.blocked, quarantined, groups: groupItemsByBranch(ready) };
+}
+
+/**
+ * Moves items tagged with the base branch into the no-branch group,
+ * so they run in /workspace instead of creating a worktree.
+ */
+function mergeBaseBranchGroup(groups: Map<string, PrdItem[]>, baseBranch: string): void {
+  const baseBranchItems = groups.get(baseBranch);
+  if (baseBranchItems && baseBranchItems.length > 0) {
+    const noBranch = groups.get("") || [];
+    groups.set("", [...noBranch, ...baseBranchItems]);
+    groups.delete(baseBranch);
+  }
+}
+
+/**
+ * Returns the branch checked out in /workspace ("main" if it can't be determined).
+ */
+function getBaseBranch(): string {
+  if (!repoHasCommits()) return "main";
+  try {
+    return execSync("git -C /workspace rev-parse --abbrev-ref HEAD", {
+      encoding: "utf-8",
+    }).trim();
+  } catch {
+    return "main";
+  }
+}
+
 /**
  * Creates or reuses a git worktree for the given branch.
  * The worktree is created at /worktrees/<project>_<branch-dir-name>.
@@ -191,8 +368,10 @@ function setupWorktreeRalphDir(
 /**
  * Creates a filtered PRD file containing only incomplete items (passes: false).
  * Optionally filters by category and/or branch if specified.
+ * Quarantined items and items whose dependencies haven't passed yet are left out, and the remaining
+ * items are ordered by the --pick strategy and capped at --max-tasks-in-context.
  * Expands @{filepath} references to include file contents.
- * Returns the path to the temp file, or null if all items pass.
+ * Returns the path to the temp file and whether any unblocked items remain.
  */
 function createFilteredPrd(
   prdPath: string,
@@ -200,7 +379,9 @@ function createFilteredPrd(
   category?: string,
   branchFilterActive?: boolean,
   branchFilter?: string,
-): { tempPath: string; hasIncomplete: boolean } {
+  selection: TaskSelection = { strategy: DEFAULT_PICK_STRATEGY },
+  quarantinedKeys: Set<string> = new Set(),
+): { tempPath: string; hasIncomplete: boolean; blockedCount: number } {
   // Use readPrdFile to handle both JSON and YAML formats
   const parsed = readPrdFile(prdPath);
 
@@ -221,7 +402,9 @@ function createFilteredPrd(
   }
 
   const items: PrdItem[] = parsed.content;
-  let filteredItems = items.filter((item) => item.passes === false);
+  let filteredItems = items.filter(
+    (item) => item.passes === false && !quarantinedKeys.has(prdItemKey(item)),
+  );
 
   // Apply category filter if specified
   if (category) {
@@ -233,8 +416,11 @@ function createFilteredPrd(
     filteredItems = applyBranchFilter(filteredItems, branchFilter!);
   }
 
+  // Only hand unblocked items to the agent, in pick order
+  const { ready, blocked } = scheduleItems(filteredItems, items);
+
   // Expand @{filepath} references in description and steps
-  const expandedItems = expandPrdFileReferences(filteredItems, baseDir);
+  const expandedItems = expandPrdFileReferences(selectTasks(ready, selection), baseDir);
 
   // Write to .ralph/prd-tasks.json so LLMs see a sensible path
   const tempPath = join(baseDir, "prd-tasks.json");
@@ -242,28 +428,82 @@ function createFilteredPrd(
 
   return {
     tempPath,
-    hasIncomplete: filteredItems.length > 0,
+    hasIncomplete: ready.length > 0,
+    blockedCount: blocked.length,
   };
 }
 
+/**
+ * Prints items that can't be scheduled because of unfinished dependencies.
+ */
+function printBlockedItems(blocked: PrdItem[], allItems: PrdItem[]): void {
+  const byId = indexById(allItems);
+  console.log(`Blocked items (${blocked.length}):`);
+  for (const item of blocked) {
+    const label = item.id ? `${item.id}: ${item.description}` : item.description;
+    console.log(`  - ${label}`);
+    console.log(`    \x1b[90mwaiting on: ${formatBlockers(getBlockers(item, byId))}\x1b[0m`);
+  }
+}
+
+/**
+ * Prints items left out because they reached maxAttemptsPerTask.
+ */
+function printQuarantinedItems(quarantined: PrdItem[], attempts: TaskAttempts): void {
+  console.log(`Quarantined items (${quarantined.length}):`);
+  for (const item of quarantined) {
+    const label = item.id ? `${item.id}: ${item.description}` : item.description;
+    const record = attempts[prdItemKey(item)];
+    console.log(`  - ${label}`);
+    if (record) {
+      console.log(
+        `    \x1b[90m${record.attempts} failed attempt(s), last: ${record.lastError ?? "unknown"}\x1b[0m`,
+      );
+    }
+  }
+  console.log("Release them with 'ralph quarantine release <id>' (or --all) once fixed.");
+}
+
+/**
+ * A PRD item that was marked complete during an iteration.
+ */
+interface SyncedTask {
+  id?: string;
+  description: string;
+  category: string;
+}
+
 /**
  * Result of syncing tasks from prd-tasks.json to prd.json.
  */
 interface SyncResult {
   count: number;
-  taskNames: string[];
+  tasks: SyncedTask[];
+}
+
+/**
+ * Finds the PRD item a task from prd-tasks.json refers to.
+ * Matches on the stable id; tasks without an id (e.g. added by the agent)
+ * fall back to an exact description match.
+ */
+function findMatchingPrdItem(prd: PrdItem[], task: PrdItem): PrdItem | undefined {
+  if (task.id) {
+    return prd.find((item) => item.id === task.id);
+  }
+  return prd.find((item) => !item.id && item.description === task.description);
 }
 
 /**
  * Syncs passes flags from prd-tasks.json back to the main PRD file.
  * If the LLM marked any item as passes: true in prd-tasks.json,
- * find the matching item in the PRD and update it.
- * Returns the number of items synced and their names.
+ * find the matching item in the PRD (by id) and update it.
+ * Returns the number of items synced and which items they were.
+ * Messages are printed with `logPrefix` (the lane prefix in parallel runs).
  */
-function syncPassesFromTasks(tasksPath: string, prdPath: string): SyncResult {
+function syncPassesFromTasks(tasksPath: string, prdPath: string, logPrefix = ""): SyncResult {
   // Check if tasks file exists
   if (!existsSync(tasksPath)) {
-    return { count: 0, taskNames: [] };
+    return { count: 0, tasks: [] };
   }
 
   try {
@@ -271,7 +511,7 @@ function syncPassesFromTasks(tasksPath: string, prdPath: string): SyncResult {
     const tasksParsed = JSON.parse(tasksContent);
     if (!Array.isArray(tasksParsed)) {
       console.warn("\x1b[33mWarning: prd-tasks.json is not a valid array - skipping sync.\x1b[0m");
-      return { count: 0, taskNames: [] };
+      return { count: 0, tasks: [] };
     }
     const tasks: PrdItem[] = tasksParsed;
 
@@ -282,53 +522,62 @@ function syncPassesFromTasks(tasksPath: string, prdPath: string): SyncResult {
       const format = ext === ".yaml" || ext === ".yml" ? "YAML" : "JSON";
       console.warn(`\x1b[33mWarning: PRD contains invalid ${format} - skipping sync.\x1b[0m`);
       console.warn("Run \x1b[36mralph fix-prd\x1b[0m after this session to repair.\n");
-      return { count: 0, taskNames: [] };
+      return { count: 0, tasks: [] };
     }
     if (!Array.isArray(prdParsed.content)) {
       console.warn("\x1b[33mWarning: PRD is corrupted - skipping sync.\x1b[0m");
       console.warn("Run \x1b[36mralph fix-prd\x1b[0m after this session to repair.\n");
-      return { count: 0, taskNames: [] };
+      return { count: 0, tasks: [] };
     }
     const prd: PrdItem[] = prdParsed.content;
 
     let synced = 0;
-    const syncedTaskNames: string[] = [];
+    const syncedTasks: SyncedTask[] = [];
+    const syncedFiles = new Set<string>(); // Files of a split PRD that get written
 
     // Find tasks that were marked as passing
     for (const task of tasks) {
       if (task.passes === true) {
-        // Find matching item in prd by description
-        const match = prd.find(
-          (item) =>
-            item.description === task.description ||
-            item.description.includes(task.description) ||
-            task.description.includes(item.description),
-        );
+        const match = findMatchingPrdItem(prd, task);
 
         if (match && !match.passes) {
           match.passes = true;
           synced++;
-          syncedTaskNames.push(task.description);
+          if (prdParsed.sources) {
+            syncedFiles.add(relative(dirname(prdPath), prdParsed.sources[prd.indexOf(match)]));
+          }
+          syncedTasks.push({
+            id: match.id,
+            description: match.description,
+            category: match.category,
+          });
         }
       }
     }
 
     // Write back if any items were synced (using format-aware write)
     if (synced > 0) {
-      writePrdAuto(prdPath, prd);
-      const prdFileName = prdPath.split("/").pop() || "PRD";
+      writePrdAuto(prdPath, prd, { action: "sync", source: "agent" });
+      const prdFileName =
+        syncedFiles.size > 0 ? [...syncedFiles].join(", ") : prdPath.split("/").pop() || "PRD";
       console.log(
-        `\x1b[32mSynced ${synced} completed item(s) from prd-tasks.json to ${prdFileName}\x1b[0m`,
+        `${logPrefix}\x1b[32mSynced ${synced} completed item(s) from prd-tasks.json to ${prdFileName}\x1b[0m`,
       );
     }
 
-    return { count: synced, taskNames: syncedTaskNames };
+    return { count: synced, tasks: syncedTasks };
   } catch {
     // Ignore errors - the validation step will handle any issues
-    return { count: 0, taskNames: [] };
+    return { count: 0, tasks: [] };
   }
 }
 
+/**
+ * Runs the agent once in `cwd`. With an `outputPrefix` (parallel runs), every output
+ * line is prefixed and the agent doesn't get the terminal's stdin. With `limits`, the
+ * agent is stopped once it runs too long or goes silent, and the iteration fails with
+ * TIMEOUT_EXIT_CODE.
+ */
 async function runIteration(
   prompt: string,
   paths: ReturnType<typeof getPaths>,
@@ -336,14 +585,32 @@ async function runIteration(
   filteredPrdPath: string,
   cliConfig: CliConfig,
   debug: boolean,
+  cwd: string,
   model?: string,
   streamJson?: StreamJsonOptions,
-): Promise<{ exitCode: number; output: string; stderr: string }> {
+  outputPrefix?: string,
+  limits?: Omit<WatchdogOptions, "onTimeout"> | null,
+): Promise<{
+  exitCode: number;
+  output: string;
+  stderr: string;
+  usage: TokenUsage | null;
+  agentActions: AgentAction[];
+  timedOut?: TimeoutReason;
+}> {
   return new Promise((resolve, reject) => {
     let output = "";
     let stderrOutput = "";
+    let usage: TokenUsage | null = null; // Usage reported by stream-json events
+    const agentActions: AgentAction[] = []; // Flagged actions seen in stream-json events
     let jsonLogPath: string | undefined;
     let lineBuffer = ""; // Buffer for incomplete JSON lines
+    const stdout = outputPrefix
+      ? createLinePrefixer((text) => process.stdout.write(text), outputPrefix)
+      : { write: (text: string) => process.stdout.write(text), flush: () => {} };
+    const stderr = outputPrefix
+      ? createLinePrefixer((text) => process.stderr.write(text), outputPrefix)
+      : { write: (text: string) => process.stderr.write(text), flush: () => {} };
 
     // Build CLI arguments: config args + yolo args + model args + prompt args
     const cliArgs = [...(cliConfig.args ?? [])];
@@ -361,7 +628,7 @@ async function runIteration(
 
       // Setup JSON log file if saving raw JSON
       if (streamJson.saveRawJson) {
-        const outputDir = join(process.cwd(), streamJson.outputDir);
+        const outputDir = join(cwd, streamJson.outputDir);
         if (!existsSync(outputDir)) {
           mkdirSync(outputDir, { recursive: true });
         }
@@ -397,27 +664,80 @@ async function runIteration(
     cliArgs.push(...promptArgs, promptValue);
 
     if (debug) {
-      console.log(
-        `[debug] ${cliConfig.command} ${cliArgs.map((a) => (a.includes(" ") ? `"${a}"` : a)).join(" ")}\n`,
+      stdout.write(
+        `[debug] ${cliConfig.command} ${cliArgs.map((a) => (a.includes(" ") ? `"${a}"` : a)).join(" ")}\n\n`,
       );
       if (jsonLogPath) {
-        console.log(`[debug] Saving raw JSON to: ${jsonLogPath}\n`);
+        stdout.write(`[debug] Saving raw JSON to: ${jsonLogPath}\n\n`);
       }
     }
 
+    // Save, parse and display one stream-json line, collecting usage and flagged actions
+    const handleJsonLine = (jsonLine: string, parser: StreamJsonParser) => {
+      if (jsonLogPath) {
+        try {
+          appendFileSync(jsonLogPath, jsonLine + "\n");
+        } catch {
+          // Ignore write errors
+        }
+      }
+
+      const events = parser.parseStreamEvents(jsonLine);
+      const text = parser.renderStreamEvents(events);
+      if (text) {
+        stdout.write(text);
+        output += text; // Accumulate parsed text for completion detection
+      }
+
+      for (const event of events) {
+        if (event.type === "usage") {
+          usage = addUsage(usage ?? emptyUsage(), event.usage);
+        }
+        const action = detectAgentAction(event);
+        if (action) {
+          agentActions.push(action);
+          stdout.write(`\n\x1b[33m[ralph] Warning: ${describeAgentAction(action)}\x1b[0m\n`);
+        }
+      }
+    };
+
     const proc = spawn(cliConfig.command, cliArgs, {
-      stdio: ["inherit", "pipe", "pipe"],
+      cwd,
+      // Parallel agents can't share the terminal's stdin
+      stdio: [outputPrefix ? "ignore" : "inherit", "pipe", "pipe"],
+    });
+
+    const watchdog = limits
+      ? createWatchdog(proc, {
+          ...limits,
+          onTimeout: (reason) => {
+            stdout.write(
+              `\n\x1b[31m[ralph] Agent ${describeTimeout(reason, limits)} - stopping it (SIGTERM, then SIGKILL after ${limits.killGraceMs / 1000}s)\x1b[0m\n`,
+            );
+          },
+        })
+      : null;
+
+    // Processes the agent started can keep its output pipes open after it is killed,
+    // so close them ourselves once a stopped agent exits
+    proc.on("exit", () => {
+      if (watchdog?.reason) {
+        proc.stdout.destroy();
+        proc.stderr?.destroy();
+      }
     });
 
     // Capture stderr for error detection (also pass through to console)
     proc.stderr?.on("data", (data: Buffer) => {
       const chunk = data.toString();
+      watchdog?.activity();
       stderrOutput += chunk;
-      process.stderr.write(chunk);
+      stderr.write(chunk);
     });
 
     proc.stdout.on("data", (data: Buffer) => {
       const chunk = data.toString();
+      watchdog?.activity();
 
       if (streamJson?.enabled) {
         // Process stream-json output: parse JSON and display clean text
@@ -432,67 +752,55 @@ async function runIteration(
 
           // Check if this is a JSON line
           if (trimmedLine.startsWith("{")) {
-            // Save raw JSON if enabled
-            if (jsonLogPath) {
-              try {
-                appendFileSync(jsonLogPath, trimmedLine + "\n");
-              } catch {
-                // Ignore write errors
-              }
-            }
-
             // Parse and display clean text using provider-specific parser
-            const text = streamJson.parser.parseStreamJsonLine(trimmedLine);
-            if (text) {
-              process.stdout.write(text);
-              output += text; // Accumulate parsed text for completion detection
-            }
+            handleJsonLine(trimmedLine, streamJson.parser);
           } else {
             // Non-JSON line - display as-is (might be status messages, errors, etc.)
-            process.stdout.write(trimmedLine + "\n");
+            stdout.write(trimmedLine + "\n");
             output += trimmedLine + "\n";
           }
         }
       } else {
         // Standard output: pass through as-is
         output += chunk;
-        process.stdout.write(chunk);
+        stdout.write(chunk);
       }
     });
 
     proc.on("close", (code) => {
+      watchdog?.stop();
       // Process any remaining buffered content
       if (streamJson?.enabled && lineBuffer.trim()) {
         const trimmedLine = lineBuffer.trim();
         if (trimmedLine.startsWith("{")) {
-          if (jsonLogPath) {
-            try {
-              appendFileSync(jsonLogPath, trimmedLine + "\n");
-            } catch {
-              // Ignore write errors
-            }
-          }
-          const text = streamJson.parser.parseStreamJsonLine(trimmedLine);
-          if (text) {
-            process.stdout.write(text);
-            output += text;
-          }
+          handleJsonLine(trimmedLine, streamJson.parser);
         } else {
           // Non-JSON remaining content
-          process.stdout.write(trimmedLine + "\n");
+          stdout.write(trimmedLine + "\n");
           output += trimmedLine + "\n";
         }
       }
 
       // Ensure final newline for clean output
       if (streamJson?.enabled) {
-        process.stdout.write("\n");
+        stdout.write("\n");
       }
-
-      resolve({ exitCode: code ?? 0, output, stderr: stderrOutput });
+      stdout.flush();
+      stderr.flush();
+
+      const timedOut = watchdog?.reason ?? undefined;
+      resolve({
+        exitCode: timedOut ? TIMEOUT_EXIT_CODE : (code ?? 0),
+        output,
+        stderr: stderrOutput,
+        usage,
+        agentActions,
+        ...(timedOut && { timedOut }),
+      });
     });
 
     proc.on("error", (err) => {
+      watchdog?.stop();
       reject(new Error(`Failed to start ${cliConfig.command}: ${err.message}`));
     });
   });
@@ -619,9 +927,15 @@ function validateAndRecoverPrd(
 ): { recovered: boolean; itemsUpdated: number; newItemsPreserved: number } {
   const parsed = readPrdFile(prdPath);
 
-  // Helper to find items in current that don't exist in validPrd
+  // Helper to find items in current that don't exist in validPrd.
+  // Known ids identify existing items; items without an id are matched by description.
   const findNewItems = (currentItems: unknown[]): PrdEntry[] => {
+    const validIds = new Set<string>();
+    for (const item of validPrd) {
+      if (item.id) validIds.add(item.id);
+    }
     const validDescriptions = new Set(validPrd.map((item) => item.description));
+    const usedIds = new Set(validIds);
     const newItems: PrdEntry[] = [];
 
     for (const item of currentItems) {
@@ -629,11 +943,16 @@ function validateAndRecoverPrd(
         item &&
         typeof item === "object" &&
         "description" in item &&
-        typeof (item as { description: unknown }).description === "string" &&
-        !validDescriptions.has((item as { description: string }).description)
+        typeof (item as { description: unknown }).description === "string"
       ) {
-        // This is a new item - preserve it with safe defaults
         const typedItem = item as Record<string, unknown>;
+        const isKnown =
+          typeof typedItem.id === "string" && typedItem.id
+            ? validIds.has(typedItem.id)
+            : validDescriptions.has(typedItem.description as string);
+        if (isKnown) continue;
+
+        // This is a new item - preserve it with safe defaults
         const newEntry: PrdEntry = {
           category:
             typeof typedItem.category === "string"
@@ -646,6 +965,17 @@ function validateAndRecoverPrd(
         if (typeof typedItem.branch === "string") {
           newEntry.branch = typedItem.branch;
         }
+        // Keep the agent's id unless it collides, otherwise generate a stable one
+        newEntry.id =
+          typeof typedItem.id === "string" && typedItem.id && !usedIds.has(typedItem.id)
+            ? typedItem.id
+            : generatePrdId(newEntry.description, usedIds);
+        usedIds.add(newEntry.id);
+        if (Array.isArray(typedItem.dependsOn)) {
+          newEntry.dependsOn = (typedItem.dependsOn as unknown[]).filter(
+            (dep): dep is string => typeof dep === "string",
+          );
+        }
         newItems.push(newEntry);
       }
     }
@@ -662,7 +992,7 @@ function validateAndRecoverPrd(
   if (!parsed) {
     console.log("\nNote: PRD corrupted (invalid JSON) - restored from memory.");
     const mergedPrd = [...validPrd, ...newItems];
-    writePrdAuto(prdPath, mergedPrd);
+    writePrdAuto(prdPath, mergedPrd, { action: "fix", source: "agent" });
     if (newItems.length > 0) {
       console.log(`Preserved ${newItems.length} newly-added item(s).`);
     }
@@ -670,9 +1000,11 @@ function validateAndRecoverPrd(
   }
 
   // Validate the structure
-  const validation = validatePrd(parsed.content);
+  const validation = validatePrd(parsed.content, loadCategoryNames());
 
-  if (validation.valid) {
+  // Dependency errors (e.g. a dangling dependsOn) leave the structure intact,
+  // so they don't call for recovery
+  if (validation.valid || validation.data) {
     // PRD is valid, no recovery needed
     return { recovered: false, itemsUpdated: 0, newItemsPreserved: 0 };
   }
@@ -686,7 +1018,7 @@ function validateAndRecoverPrd(
   const mergedPrd = [...mergeResult.merged, ...newItems];
 
   // Write the valid structure back (with new items)
-  writePrdAuto(prdPath, mergedPrd);
+  writePrdAuto(prdPath, mergedPrd, { action: "fix", source: "agent" });
 
   if (mergeResult.itemsUpdated > 0) {
     console.log(
@@ -711,6 +1043,14 @@ function validateAndRecoverPrd(
   };
 }
 
+/**
+ * Reads the PRD items, or an empty list if the file can't be parsed.
+ */
+function readPrdItems(prdPath: string): PrdItem[] {
+  const content = readPrdFile(prdPath)?.content;
+  return Array.isArray(content) ? content : [];
+}
+
 /**
  * Loads a valid copy of the PRD to keep in memory.
  * Returns the validated PRD entries.
@@ -731,6 +1071,8 @@ function loadValidPrd(prdPath: string): PrdEntry[] {
 }
 
 export async function run(args: string[]): Promise<void> {
+  const categories = loadCategoryNames();
+
   // Parse flags
   let category: string | undefined;
   let branchFilter: string | undefined; // undefined = no filter, "" = any branch, "name" = specific branch
@@ -739,6 +1081,9 @@ export async function run(args: string[]): Promise<void> {
   let loopMode = false;
   let allModeExplicit = false;
   let debug = false;
+  let parallel = 1;
+  let pickStrategy: PickStrategy | undefined;
+  let maxTasksInContext: number | undefined;
   const filteredArgs: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
@@ -748,7 +1093,7 @@ export async function run(args: string[]): Promise<void> {
         i++; // Skip the category value
       } else {
         console.error("Error: --category requires a value");
-        console.error(`Valid categories: ${CATEGORIES.join(", ")}`);
+        console.error(`Valid categories: ${categories.join(", ")}`);
         process.exit(1);
       }
     } else if (args[i] === "--branch" || args[i] === "-b") {
@@ -775,15 +1120,39 @@ export async function run(args: string[]): Promise<void> {
       allModeExplicit = true;
     } else if (args[i] === "--debug" || args[i] === "-d") {
       debug = true;
+    } else if (args[i] === "--parallel" || args[i] === "-p") {
+      const count = parseParallelCount(args[i + 1]);
+      if (count === null) {
+        console.error("Error: --parallel requires a positive number");
+        process.exit(1);
+      }
+      parallel = count;
+      i++; // Skip the count value
+    } else if (args[i] === "--pick") {
+      const strategy = args[i + 1];
+      if (!isPickStrategy(strategy)) {
+        console.error(`Error: --pick requires one of: ${PICK_STRATEGIES.join(", ")}`);
+        process.exit(1);
+      }
+      pickStrategy = strategy;
+      i++; // Skip the strategy value
+    } else if (args[i] === "--max-tasks-in-context") {
+      const count = parseMaxTasks(args[i + 1]);
+      if (count === null) {
+        console.error("Error: --max-tasks-in-context requires a positive number");
+        process.exit(1);
+      }
+      maxTasksInContext = count;
+      i++; // Skip the count value
     } else {
       filteredArgs.push(args[i]);
     }
   }
 
   // Validate category if provided
-  if (category && !CATEGORIES.includes(category)) {
+  if (category && !categories.includes(category)) {
     console.error(`Error: Invalid category "${category}"`);
-    console.error(`Valid categories: ${CATEGORIES.join(", ")}`);
+    console.error(`Valid categories: ${categories.join(", ")}`);
     process.exit(1);
   }
 
@@ -795,10 +1164,16 @@ export async function run(args: string[]): Promise<void> {
     filteredArgs.length > 0 && !isNaN(parseInt(filteredArgs[0])) && parseInt(filteredArgs[0]) >= 1;
   const allMode = !loopMode && (allModeExplicit || !hasIterationArg);
 
+  if (parallel > 1 && loopMode) {
+    console.error("Error: --parallel can't be combined with --loop");
+    process.exit(1);
+  }
+
   requireContainer("run");
   checkFilesExist();
 
   const config = loadConfig();
+  const taskSelection = getTaskSelection(config.pick, pickStrategy, maxTasksInContext);
 
   // Generate GEMINI.md in project root when using Gemini CLI
   // Gemini CLI auto-reads this file for provider-specific instructions
@@ -820,10 +1195,10 @@ export async function run(args: string[]): Promise<void> {
   const paths = getPaths();
   const cliConfig = getCliConfig(config);
 
-  // Use config model as fallback when --model flag is not provided
-  if (!model && cliConfig.model) {
-    model = cliConfig.model;
-  }
+  // --model pins the run to one model; otherwise use the configured chain (or single model)
+  const models = getModelList(cliConfig, model);
+  const escalation = cliConfig.escalation ?? {};
+  model = models[0];
 
   // Check if stream-json output is enabled
   const streamJsonConfig = config.docker?.asciinema?.streamJson;
@@ -885,6 +1260,79 @@ export async function run(args: string[]): Promise<void> {
       process.exit(1);
     }
   }
+  const usageLimits = { maxCostUsd: config.maxCostUsd, maxTokens: config.maxTokens };
+  if (streamJson?.enabled && usageLimits.maxCostUsd !== undefined) {
+    if (!providerReportsCost(config.cliProvider)) {
+      console.warn(
+        `\x1b[33mWarning: ${config.cliProvider} doesn't report cost, so maxCostUsd will not be enforced. Use maxTokens instead.\x1b[0m`,
+      );
+      usageLimits.maxCostUsd = undefined;
+    }
+  }
+  if (usageLimits.maxCostUsd !== undefined || usageLimits.maxTokens !== undefined) {
+    if (streamJson?.enabled) {
+      const limits = [
+        usageLimits.maxCostUsd !== undefined ? `$${usageLimits.maxCostUsd}` : "",
+        usageLimits.maxTokens !== undefined ? `${usageLimits.maxTokens} tokens` : "",
+      ].filter(Boolean);
+      console.log(`Budget: stopping once the run reaches ${limits.join(" or ")}`);
+    } else {
+      console.warn(
+        "\x1b[33mWarning: maxCostUsd/maxTokens need stream-json output to track usage (docker.asciinema.streamJson.enabled). Limits will not be enforced.\x1b[0m",
+      );
+    }
+  }
+  // Detect if worktrees are available (/worktrees exists and is mounted)
+  const worktreesBase = "/worktrees";
+  const worktreesAvailable = existsSync(worktreesBase);
+  if (parallel > 1 && (!worktreesAvailable || !repoHasCommits())) {
+    console.warn(
+      "\x1b[33mWarning: --parallel needs /worktrees mounted and a repository with commits - running branch groups one at a time.\x1b[0m",
+    );
+    parallel = 1;
+  } else if (parallel > 1) {
+    console.log(`Parallel: running up to ${parallel} branch groups at once`);
+  }
+  if (taskSelection.strategy !== DEFAULT_PICK_STRATEGY || taskSelection.maxTasks !== undefined) {
+    const limit =
+      taskSelection.maxTasks !== undefined
+        ? `, showing the agent ${taskSelection.maxTasks} item(s) per iteration`
+        : "";
+    console.log(`Task selection: ${taskSelection.strategy}${limit}`);
+  }
+  if (models.length > 1) {
+    const escalateAfter = escalation.afterIterationsWithoutProgress ?? DEFAULT_ESCALATE_AFTER;
+    const policy = [
+      escalateAfter > 0 ? `after ${escalateAfter} iteration(s) on a task without progress` : "",
+      escalation.onRateLimit !== false ? "on rate-limit/overload errors" : "",
+    ].filter(Boolean);
+    console.log(
+      `Models: ${models.join(" → ")}${policy.length > 0 ? ` (switching ${policy.join(" or ")})` : ""}`,
+    );
+  }
+  const iterationLimits = getWatchdogOptions(config.iteration);
+  if (iterationLimits) {
+    const limits = [
+      iterationLimits.timeoutMs !== undefined
+        ? `${iterationLimits.timeoutMs / 1000}s per iteration`
+        : "",
+      iterationLimits.idleMs !== undefined
+        ? `${iterationLimits.idleMs / 1000}s without output`
+        : "",
+    ].filter(Boolean);
+    console.log(`Timeouts: stopping the agent after ${limits.join(" or ")}`);
+  }
+  const configuredAttempts = config.maxAttemptsPerTask;
+  const maxAttemptsPerTask =
+    Number.isInteger(configuredAttempts) && configuredAttempts! > 0
+      ? configuredAttempts
+      : undefined;
+  if (maxAttemptsPerTask !== undefined) {
+    console.log(`Retries: quarantining items after ${maxAttemptsPerTask} failed attempt(s)`);
+  }
+  if (isVerificationEnabled(config)) {
+    console.log("Verification: checking completed tasks with checkCommand/testCommand");
+  }
   if (streamJson?.enabled) {
     console.log("Stream JSON output enabled - displaying formatted Claude output");
     if (streamJson.saveRawJson) {
@@ -898,6 +1346,12 @@ export async function run(args: string[]): Promise<void> {
 
   const POLL_INTERVAL_MS = 30000; // 30 seconds between checks when waiting for new items
   const MAX_CONSECUTIVE_FAILURES = 3; // Stop after this many consecutive failures
+  // With quarantine on, the run keeps going long enough for a failing item to be set aside
+  const maxIterationsWithoutProgress = getRunStopLimit(
+    MAX_ITERATIONS_WITHOUT_PROGRESS,
+    maxAttemptsPerTask,
+  );
+  const maxConsecutiveFailures = getRunStopLimit(MAX_CONSECUTIVE_FAILURES, maxAttemptsPerTask);
   const startTime = Date.now();
   let consecutiveFailures = 0;
   let lastExitCode = 0;
@@ -964,11 +1418,39 @@ export async function run(args: string[]): Promise<void> {
     process.exit(143);
   });
 
-  // Detect if worktrees are available (/worktrees exists and is mounted)
-  const worktreesBase = "/worktrees";
-  const worktreesAvailable = existsSync(worktreesBase);
+  // Give every PRD entry a stable id so syncing doesn't rely on descriptions.
+  // Only done once the PID file is ours, so a refused second run leaves the PRD alone.
+  for (const prdFile of [paths.prd, paths.prdSecondary]) {
+    if (!prdFile || !existsSync(prdFile)) continue;
+    const migration = migratePrdIds(prdFile);
+    if (migration.assigned > 0) {
+      console.log(
+        `Assigned ids to ${migration.assigned} PRD item(s) in ${prdFile.split("/").pop()} (backup: ${migration.backupPath})`,
+      );
+    }
+  }
+
+  // lint.blockRun: don't start on a PRD with lint errors (or warnings with lint.strict)
+  if (config.lint?.blockRun) {
+    const parsed = readPrdFile(paths.prd);
+    const entries = parsed ? validatePrd(parsed.content, loadCategoryNames()).data : undefined;
+    const issues = entries ? lintPrd(entries, { baseDir: paths.dir }, config.lint) : [];
+    if (entries && hasLintFailures(issues, config.lint.strict)) {
+      const failing = issues.filter((issue) => issue.severity === "error" || config.lint!.strict);
+      console.error(`\x1b[31mError: The PRD has ${failing.length} lint problem(s):\x1b[0m`);
+      for (const issue of failing) {
+        console.error(`  - ${formatLintIssue(issue, entries)}`);
+      }
+      console.error("\nRun \x1b[36mralph prd lint\x1b[0m for details (--fix applies autofixes).");
+      process.exit(1);
+    }
+  }
+
   const workspaceCwd = process.cwd();
 
+  // Drop checkpoint refs of old runs so their stash commits don't accumulate
+  pruneCheckpoints(workspaceCwd);
+
   // Check for existing branch state from a previous interrupted run
   const resumedBranchState = loadBranchState();
   if (resumedBranchState) {
@@ -984,9 +1466,12 @@ export async function run(args: string[]): Promise<void> {
     }
   }
 
+  // Serializes PRD syncs so parallel lanes can't race on the master PRD
+  const withPrdLock = createLock();
+
   /**
    * Runs a single iteration in the given working directory.
-   * Handles: cwd switch, running CLI, syncing results, cwd restore.
+   * Handles: checkpoint, running CLI, syncing results back to the master PRD.
    * Returns the iteration result for flow control.
    */
   async function runIterationInDir(
@@ -994,94 +1479,606 @@ export async function run(args: string[]): Promise<void> {
     iterFilteredPrdPath: string,
     iterValidPrd: PrdEntry[],
     targetDir: string,
+    iteration: number,
+    modelChain: ModelChain,
     branchLabel?: string,
-  ): Promise<{ exitCode: number; output: string; stderr: string; syncResult: SyncResult }> {
-    // Change to target directory
-    if (targetDir !== workspaceCwd) {
-      process.chdir(targetDir);
-      if (branchLabel) {
+    outputPrefix?: string,
+  ): Promise<{
+    exitCode: number;
+    output: string;
+    stderr: string;
+    syncResult: SyncResult;
+    tasksReverted: SyncedTask[];
+    model?: string;
+    modelSwitches: ModelSwitch[];
+    commits: string[];
+    usage: TokenUsage | null;
+    agentActions: AgentAction[];
+    timedOut?: TimeoutReason;
+  }> {
+    const prefix = outputPrefix ?? "";
+    if (targetDir !== workspaceCwd && branchLabel && !outputPrefix) {
+      console.log(
+        `\x1b[90m[ralph] Working in worktree: ${targetDir} (branch: ${branchLabel})\x1b[0m`,
+      );
+    }
+
+    // Checkpoint the directory and PRD flags so `ralph rollback` can undo this iteration
+    const checkpoint = createCheckpoint(
+      targetDir,
+      iterValidPrd,
+      getCheckpointRef(runId, iteration),
+    );
+    appendLedgerRecord(runsDir, runId, {
+      type: "checkpoint",
+      iteration,
+      createdAt: new Date().toISOString(),
+      ...(branchLabel && { branch: branchLabel }),
+      ...checkpoint,
+    });
+
+    const headBefore = checkpoint.head;
+    let usedModel = modelChain.current();
+    const modelSwitches: ModelSwitch[] = [];
+    let { exitCode, output, stderr, usage, agentActions, timedOut } = await runIteration(
+      prompt,
+      iterPaths,
+      sandboxed,
+      iterFilteredPrdPath,
+      cliConfig,
+      debug,
+      targetDir,
+      usedModel,
+      streamJson,
+      outputPrefix,
+      iterationLimits,
+    );
+
+    // Retry once with the suggested model if the model wasn't found, and with the next
+    // model in the chain on rate-limit/overload errors
+    let retriedModelNotFound = false;
+    while (exitCode !== 0 && !timedOut && stderr) {
+      const modelError = retriedModelNotFound ? null : parseModelNotFoundError(stderr);
+      let nextModel: string | undefined;
+      if (modelError) {
+        retriedModelNotFound = true;
+        nextModel = modelError.suggestion;
+        modelSwitches.push({ from: usedModel, to: nextModel, reason: "model_not_found" });
         console.log(
-          `\x1b[90m[ralph] Working in worktree: ${targetDir} (branch: ${branchLabel})\x1b[0m`,
+          `\n${prefix}\x1b[33mModel "${modelError.modelID}" not found. Retrying with suggested model "${modelError.suggestion}"...\x1b[0m`,
         );
+        console.log(
+          `${prefix}\x1b[90mTip: Add "modelArgs": ["--model"], and use "ralph run --model ${modelError.suggestion}" or configure in config.json\x1b[0m\n`,
+        );
+      } else if (
+        escalation.onRateLimit !== false &&
+        isRateLimitError(stderr, escalation.errorPatterns)
+      ) {
+        nextModel = modelChain.advance();
+        if (nextModel) {
+          modelSwitches.push({ from: usedModel, to: nextModel, reason: "rate_limit" });
+          console.log(
+            `\n${prefix}\x1b[33mRate limited or overloaded on "${usedModel ?? "default"}". Falling back to "${nextModel}"...\x1b[0m\n`,
+          );
+        }
       }
-    }
+      if (!nextModel) break;
 
-    try {
-      let { exitCode, output, stderr } = await runIteration(
+      const retryResult = await runIteration(
         prompt,
         iterPaths,
         sandboxed,
         iterFilteredPrdPath,
         cliConfig,
         debug,
-        model,
+        targetDir,
+        nextModel,
         streamJson,
+        outputPrefix,
+        iterationLimits,
       );
+      exitCode = retryResult.exitCode;
+      timedOut = retryResult.timedOut;
+      output = retryResult.output;
+      stderr = retryResult.stderr;
+      usedModel = nextModel;
+      if (retryResult.usage) {
+        usage = addUsage(usage ?? emptyUsage(), retryResult.usage);
+      }
+      agentActions = [...agentActions, ...retryResult.agentActions];
+    }
 
-      // Check for model not found error and retry with suggestion
-      if (exitCode !== 0 && stderr) {
-        const modelError = parseModelNotFoundError(stderr);
-        if (modelError) {
-          console.log(
-            `\n\x1b[33mModel "${modelError.modelID}" not found. Retrying with suggested model "${modelError.suggestion}"...\x1b[0m`,
+    const commits = listCommitsSince(headBefore, targetDir);
+
+    // Sync completed items from the (worktree's) prd-tasks.json back to the master PRD,
+    // then run the verification gate, which reverts tasks whose checks fail. The checks run
+    // outside the PRD lock so other lanes aren't held up by them.
+    const synced = await withPrdLock(() =>
+      syncPassesFromTasks(iterFilteredPrdPath, paths.prd, prefix),
+    );
+    const verification = await applyVerificationGate(
+      synced.tasks,
+      config,
+      { prd: paths.prd, progress: iterPaths.progress },
+      targetDir,
+      runCommand,
+      withPrdLock,
+    );
+    const syncResult = { count: verification.passed.length, tasks: verification.passed };
+    const tasksReverted = verification.failed.map((failure) => failure.task);
+
+    // Send task_complete notification for each completed task
+    for (const task of syncResult.tasks) {
+      await sendNotificationWithDaemonEvents(
+        "task_complete",
+        `Ralph: Task complete - ${task.description}`,
+        {
+          command: config.notifyCommand,
+          debug,
+          daemonConfig: config.daemon,
+          chatConfig: config.chat,
+          taskName: task.description,
+          taskId: task.id,
+        },
+      );
+    }
+
+    // Clean up temp file after iteration
+    try {
+      unlinkSync(iterFilteredPrdPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+
+    return {
+      exitCode,
+      output,
+      stderr,
+      syncResult,
+      tasksReverted,
+      model: usedModel,
+      modelSwitches,
+      commits,
+      usage,
+      agentActions,
+      ...(timedOut && { timedOut }),
+    };
+  }
+
+  // Record this run in .ralph/runs/<run-id>.jsonl
+  const runsDir = getRunsDir(paths.dir);
+  const runId = createUniqueRunId(runsDir);
+  const cliProvider = config.cliProvider || "claude";
+  let stopReason = "finished";
+  let recordedIterations = 0;
+
+  // Failed attempts per PRD item, stored next to the PRD
+  const attemptsPath = getAttemptsPath(paths.dir);
+  const loadQuarantinedKeys = () => getQuarantinedKeys(readTaskAttempts(attemptsPath));
+
+  const describeAttemptFailure = (
+    result: Awaited<ReturnType<typeof runIterationInDir>>,
+  ): string => {
+    if (result.timedOut) {
+      return `${cliConfig.command} ${describeTimeout(result.timedOut, iterationLimits)}`;
+    }
+    if (result.tasksReverted.length > 0) {
+      return "Marked as passing but failed verification";
+    }
+    if (result.exitCode !== 0) {
+      const excerpt = excerptError(result.stderr);
+      return `${cliConfig.command} exited with code ${result.exitCode}${excerpt ? `: ${excerpt}` : ""}`;
+    }
+    return "No task completed and nothing committed";
+  };
+
+  /**
+   * Forgets the attempts of completed tasks and counts a failed attempt against the tasks
+   * the iteration failed on (see getFailedAttemptItems).
+   * Returns the records of tasks this attempt quarantined.
+   */
+  const recordTaskAttempt = (
+    task: PrdItem | undefined,
+    result: Awaited<ReturnType<typeof runIterationInDir>>,
+    iteration: number,
+  ): TaskAttempt[] => {
+    const attempts = readTaskAttempts(attemptsPath);
+    clearAttempts(attempts, result.syncResult.tasks);
+    const failedItems = getFailedAttemptItems(
+      {
+        exitCode: result.exitCode,
+        timedOut: result.timedOut !== undefined,
+        completed: result.syncResult.count,
+        reverted: result.tasksReverted,
+        commits: result.commits,
+      },
+      task,
+    );
+    const quarantined: TaskAttempt[] = [];
+    for (const item of failedItems) {
+      const record = recordFailedAttempt(
+        attempts,
+        item,
+        { error: describeAttemptFailure(result), iteration, runId },
+        maxAttemptsPerTask,
+      );
+      if (record.quarantined) quarantined.push(record);
+    }
+    writeTaskAttempts(attemptsPath, attempts);
+    return quarantined;
+  };
+
+  const describeQuarantine = (record: TaskAttempt): string =>
+    `Quarantined "${record.id ?? record.description}" after ${record.attempts} failed attempt(s) - continuing with the other items.`;
+
+  // Usage accounting: run totals, plus usage not yet attributed to a completed task
+  let runUsage = emptyUsage();
+  let unattributedUsage = emptyUsage();
+  const usageSummary = () => (hasUsage(runUsage) ? ` (${formatUsage(runUsage)})` : "");
+  const runStart: RunStartRecord = {
+    type: "run_start",
+    runId,
+    startedAt: new Date(startTime).toISOString(),
+    cliProvider,
+    command: cliConfig.command,
+    model,
+    mode: allMode ? "all" : loopMode ? "loop" : "count",
+  };
+  if (!allMode && !loopMode) runStart.requestedIterations = requestedIterations;
+  if (category) runStart.category = category;
+  if (branchFilterActive) runStart.branchFilter = branchFilter;
+  if (parallel > 1) runStart.parallel = parallel;
+  if (models.length > 1) runStart.models = models;
+  if (taskSelection.strategy !== DEFAULT_PICK_STRATEGY) runStart.pick = taskSelection.strategy;
+  if (taskSelection.maxTasks !== undefined) runStart.maxTasksInContext = taskSelection.maxTasks;
+  appendLedgerRecord(runsDir, runId, runStart);
+  if (debug) {
+    console.log(`[debug] Recording run ledger: ${join(runsDir, `${runId}.jsonl`)}`);
+  }
+
+  const modelChain = createModelChain(models, escalation);
+
+  /**
+   * Runs up to `parallel` branch groups at once: each branch in its own worktree and
+   * no-branch items in the workspace. Every lane loops over its group with its own
+   * failure and stall counters; syncs back to the master PRD go through withPrdLock.
+   */
+  async function runParallel(): Promise<void> {
+    const baseBranch = getBaseBranch();
+    const lanes = new Map<string, ParallelLane>();
+    const active = new Map<string, Promise<void>>();
+    let stopping = false; // Budget or requested iteration count reached
+    let knownGoodPrd = loadValidPrd(paths.prd); // Last valid PRD, for recovery
+
+    if (resumedBranchState) {
+      // Every branch group runs in parallel, so there is no single branch to resume
+      clearBranchState();
+    }
+
+    const getLaneGroups = () => {
+      const allItems = readPrdItems(paths.prd);
+      const schedule = getReadyBranchGroups(
+        allItems,
+        category,
+        branchFilterActive,
+        branchFilter,
+        taskSelection.strategy,
+        loadQuarantinedKeys(),
+      );
+      mergeBaseBranchGroup(schedule.groups, baseBranch);
+      return { ...schedule, allItems };
+    };
+
+    const runLane = async (lane: ParallelLane): Promise<void> => {
+      const log = (message: string) => console.log(`${lane.prefix}${message}`);
+      lane.status = "running";
+
+      while (!stopping) {
+        if (!allMode && iterationCount >= requestedIterations) {
+          stopping = true;
+          stopReason = "iterations";
+          break;
+        }
+
+        const laneItems = getLaneGroups().groups.get(lane.key) ?? [];
+        if (laneItems.length === 0) {
+          lane.status = "done";
+          log("\x1b[32mNo remaining items for this group.\x1b[0m");
+          break;
+        }
+
+        iterationCount++;
+        const iteration = iterationCount;
+        const laneModel = lane.modelChain.current();
+        log(
+          `\x1b[1mIteration ${iteration}\x1b[0m (${laneItems.length} item(s)${laneModel ? `, model: ${laneModel}` : ""})`,
+        );
+
+        let iterPaths = paths;
+        let tasksPath: string;
+        let targetDir = workspaceCwd;
+        if (lane.key) {
+          try {
+            targetDir = ensureWorktree(lane.key, worktreesBase);
+          } catch (err) {
+            log(
+              `\x1b[31mError creating worktree: ${err instanceof Error ? err.message : err}\x1b[0m`,
+            );
+            lane.status = "failed";
+            break;
+          }
+          const worktreeSetup = setupWorktreeRalphDir(
+            targetDir,
+            limitTasks(laneItems, taskSelection.maxTasks),
+            paths,
           );
-          console.log(
-            `\x1b[90mTip: Add "modelArgs": ["--model"], and use "ralph run --model ${modelError.suggestion}" or configure in config.json\x1b[0m\n`,
+          iterPaths = {
+            ...paths,
+            dir: worktreeSetup.ralphDir,
+            progress: worktreeSetup.progressPath,
+          };
+          tasksPath = worktreeSetup.prdTasksPath;
+        } else {
+          tasksPath = join(paths.dir, "prd-tasks.json");
+          const expandedItems = expandPrdFileReferences(
+            limitTasks(laneItems, taskSelection.maxTasks),
+            paths.dir,
           );
+          writeFileSync(tasksPath, JSON.stringify(expandedItems, null, 2));
+        }
 
-          const retryResult = await runIteration(
-            prompt,
-            iterPaths,
-            sandboxed,
-            iterFilteredPrdPath,
-            cliConfig,
-            debug,
-            modelError.suggestion,
-            streamJson,
-          );
-          exitCode = retryResult.exitCode;
-          output = retryResult.output;
-          stderr = retryResult.stderr;
+        const iterStartedAt = Date.now();
+        const result = await runIterationInDir(
+          iterPaths,
+          tasksPath,
+          knownGoodPrd,
+          targetDir,
+          iteration,
+          lane.modelChain,
+          lane.key || undefined,
+          lane.prefix,
+        );
+        const iterEndedAt = Date.now();
+
+        // Escalate (or go back to the first model) based on the lane's first task
+        const modelSwitch = lane.modelChain.recordIteration(
+          prdItemKey(laneItems[0]),
+          result.syncResult.count > 0,
+        );
+        if (modelSwitch) {
+          result.modelSwitches.push(modelSwitch);
+          log(`\x1b[36mSwitching model: ${describeModelSwitch(modelSwitch)}\x1b[0m`);
         }
-      }
 
-      // Sync completed items from worktree's prd-tasks.json back to master PRD
-      const syncResult = syncPassesFromTasks(iterFilteredPrdPath, paths.prd);
+        // Recover the PRD if the agent corrupted it, and remember the latest valid copy
+        const remaining = await withPrdLock(() => {
+          validateAndRecoverPrd(paths.prd, knownGoodPrd);
+          knownGoodPrd = loadValidPrd(paths.prd);
+          return getLaneGroups().groups.get(lane.key)?.length ?? 0;
+        });
+
+        // Progress = tasks completed in this group, or new tasks added to it
+        const madeProgress =
+          result.syncResult.count > 0 || remaining > laneItems.length - result.syncResult.count;
+        lane.iterationsWithoutProgress = madeProgress ? 0 : lane.iterationsWithoutProgress + 1;
+
+        // Setting a failing item aside lets the lane carry on with its other items
+        const quarantinedTasks = recordTaskAttempt(laneItems[0], result, iteration);
+        for (const record of quarantinedTasks) {
+          log(`\x1b[33m${describeQuarantine(record)}\x1b[0m`);
+          lane.iterationsWithoutProgress = 0;
+        }
 
-      // Send task_complete notification for each completed task
-      for (const taskName of syncResult.taskNames) {
-        await sendNotificationWithDaemonEvents(
-          "task_complete",
-          `Ralph: Task complete - ${taskName}`,
-          {
-            command: config.notifyCommand,
-            debug,
-            daemonConfig: config.daemon,
-            chatConfig: config.chat,
-            taskName,
-          },
+        if (result.exitCode !== 0) {
+          if (result.exitCode === lane.lastExitCode) {
+            lane.consecutiveFailures++;
+          } else {
+            lane.consecutiveFailures = 1;
+            lane.lastExitCode = result.exitCode;
+          }
+        } else {
+          lane.consecutiveFailures = 0;
+          lane.lastExitCode = 0;
+        }
+
+        // Attribute usage since the lane's last completed task to the tasks completed now
+        if (result.usage) {
+          runUsage = addUsage(runUsage, result.usage);
+          lane.unattributedUsage = addUsage(lane.unattributedUsage, result.usage);
+          log(
+            `\x1b[90mUsage: ${formatUsage(result.usage)} this iteration, ${formatUsage(runUsage)} this run\x1b[0m`,
+          );
+        }
+        const taskCount = result.syncResult.tasks.length;
+        const tasksCompleted: LedgerTask[] = result.syncResult.tasks.map((task) =>
+          hasUsage(lane.unattributedUsage)
+            ? { ...task, usage: splitUsage(lane.unattributedUsage, taskCount) }
+            : task,
         );
+        if (taskCount > 0) {
+          lane.unattributedUsage = emptyUsage();
+        }
+
+        recordedIterations++;
+        appendLedgerRecord(runsDir, runId, {
+          type: "iteration",
+          iteration,
+          startedAt: new Date(iterStartedAt).toISOString(),
+          endedAt: new Date(iterEndedAt).toISOString(),
+          durationMs: iterEndedAt - iterStartedAt,
+          cliProvider,
+          model: result.model,
+          branch: lane.key || undefined,
+          worktree: lane.key ? targetDir : undefined,
+          exitCode: result.exitCode,
+          ...(result.timedOut && { timedOut: result.timedOut }),
+          ...(result.modelSwitches.length > 0 && { modelSwitches: result.modelSwitches }),
+          tasksCompleted,
+          ...(result.tasksReverted.length > 0 && { tasksReverted: result.tasksReverted }),
+          ...(quarantinedTasks.length > 0 && {
+            tasksQuarantined: quarantinedTasks.map((record) => ({
+              ...(record.id && { id: record.id }),
+              description: record.description,
+            })),
+          }),
+          commits: result.commits,
+          ...(result.usage && { usage: result.usage }),
+          ...(result.agentActions.length > 0 && { agentActions: result.agentActions }),
+          iterationsWithoutProgress: lane.iterationsWithoutProgress,
+          consecutiveFailures: lane.consecutiveFailures,
+        });
+
+        // Stop starting new iterations once the configured budget is used up
+        const budgetExceeded = checkBudget(runUsage, usageLimits);
+        if (budgetExceeded && !stopping) {
+          stopping = true;
+          stopReason = "budget";
+          console.log(
+            `\nStopping: budget reached - ${budgetExceeded}. Waiting for running lanes to finish...`,
+          );
+          await sendNotificationWithDaemonEvents(
+            "run_stopped",
+            `Ralph: Run stopped - Budget reached - ${budgetExceeded}.`,
+            {
+              command: config.notifyCommand,
+              debug,
+              daemonConfig: config.daemon,
+              chatConfig: config.chat,
+              errorMessage: `Budget reached - ${budgetExceeded}.`,
+            },
+          );
+          break;
+        }
+
+        if (allMode && lane.iterationsWithoutProgress >= maxIterationsWithoutProgress) {
+          log(
+            `\x1b[33mStopping this group: no progress after ${maxIterationsWithoutProgress} consecutive iterations.\x1b[0m`,
+          );
+          lane.status = "stalled";
+          break;
+        }
+
+        if (result.exitCode !== 0) {
+          const failure = result.timedOut
+            ? describeTimeout(result.timedOut, iterationLimits)
+            : `exited with code ${result.exitCode}`;
+          log(`\x1b[31m${cliConfig.command} ${failure}\x1b[0m`);
+          if (lane.consecutiveFailures >= maxConsecutiveFailures) {
+            log(
+              `\x1b[31mStopping this group: ${cliConfig.command} failed ${lane.consecutiveFailures} times in a row.\x1b[0m`,
+            );
+            lane.status = "failed";
+            break;
+          }
+        }
       }
 
-      // Clean up temp file after iteration
-      try {
-        unlinkSync(iterFilteredPrdPath);
-      } catch {
-        // Ignore cleanup errors
+      if (lane.status === "running") {
+        lane.status = "done";
       }
+    };
 
-      return { exitCode, output, stderr, syncResult };
-    } finally {
-      // Always restore working directory
-      if (targetDir !== workspaceCwd) {
-        process.chdir(workspaceCwd);
-        console.log(`\x1b[90m[ralph] Switched back to ${workspaceCwd}\x1b[0m`);
+    // Start a lane for each ready branch group, up to `parallel` at once. Groups can
+    // become ready (or get new items) while others run, so re-check whenever a lane ends.
+    while (true) {
+      if (!stopping) {
+        for (const key of getLaneGroups().groups.keys()) {
+          if (active.size >= parallel) break;
+          const existing = lanes.get(key);
+          if (active.has(key) || existing?.status === "stalled" || existing?.status === "failed") {
+            continue;
+          }
+          const lane: ParallelLane = existing ?? {
+            key,
+            prefix: formatLanePrefix(key || baseBranch, lanes.size),
+            status: "running",
+            consecutiveFailures: 0,
+            lastExitCode: 0,
+            iterationsWithoutProgress: 0,
+            unattributedUsage: emptyUsage(),
+            modelChain: createModelChain(models, escalation),
+          };
+          lanes.set(key, lane);
+          active.set(
+            key,
+            runLane(lane).finally(() => active.delete(key)),
+          );
+        }
       }
+      if (active.size === 0) break;
+      await Promise.race(active.values());
+    }
+
+    if (stopping) return;
+
+    const counts = countPrdItems(paths.prd, category, branchFilterActive, branchFilter);
+    console.log("\n" + "=".repeat(50));
+    if (counts.incomplete === 0) {
+      console.log("PRD COMPLETE - All tasks finished!");
+      console.log(`Final Status: ${counts.complete}/${counts.total} complete`);
+      console.log("=".repeat(50));
+
+      await sendNotificationWithDaemonEvents(
+        "prd_complete",
+        `Ralph: PRD Complete! All tasks finished.${usageSummary()}`,
+        {
+          command: config.notifyCommand,
+          debug,
+          daemonConfig: config.daemon,
+          chatConfig: config.chat,
+        },
+      );
+
+      stopReason = "complete";
+      return;
+    }
+
+    const stoppedLanes = [...lanes.values()].filter(
+      (lane) => lane.status === "stalled" || lane.status === "failed",
+    );
+    console.log(`Stopping: ${counts.incomplete} item(s) remaining.`);
+    for (const lane of stoppedLanes) {
+      const reason =
+        lane.status === "failed"
+          ? `failed ${lane.consecutiveFailures} time(s) in a row`
+          : "no progress";
+      console.log(`  ${lane.prefix}${reason}`);
+    }
+    const { blocked, quarantined, allItems } = getLaneGroups();
+    if (blocked.length > 0) {
+      printBlockedItems(blocked, allItems);
     }
+    if (quarantined.length > 0) {
+      printQuarantinedItems(quarantined, readTaskAttempts(attemptsPath));
+    }
+    console.log("=".repeat(50));
+
+    stopReason = stoppedLanes.some((lane) => lane.status === "failed")
+      ? "failures"
+      : stoppedLanes.length > 0
+        ? "no_progress"
+        : "blocked";
+    const stoppedMessage = `${counts.incomplete} tasks remaining (${stoppedLanes.length} branch group(s) stopped, ${blocked.length} item(s) blocked).`;
+    await sendNotificationWithDaemonEvents(
+      "run_stopped",
+      `Ralph: Run stopped - ${stoppedMessage}`,
+      {
+        command: config.notifyCommand,
+        debug,
+        daemonConfig: config.daemon,
+        chatConfig: config.chat,
+        errorMessage: stoppedMessage,
+      },
+    );
   }
 
   try {
-    while (true) {
+    if (parallel > 1) {
+      await runParallel();
+    }
+
+    // Sequential mode: one branch group per iteration
+    while (parallel === 1) {
       iterationCount++;
 
       const currentCounts = countPrdItems(paths.prd, category, branchFilterActive, branchFilter);
@@ -1089,6 +2086,7 @@ export async function run(args: string[]): Promise<void> {
       // Check if we should stop (not in loop mode)
       if (!loopMode && !allMode) {
         if (iterationCount > requestedIterations) {
+          stopReason = "iterations";
           break;
         }
       }
@@ -1103,28 +2101,72 @@ export async function run(args: string[]): Promise<void> {
       } else {
         console.log(`Iteration ${iterationCount} of ${requestedIterations}`);
       }
+      if (models.length > 1) {
+        console.log(`Model: ${modelChain.current()}`);
+      }
       console.log(`${"=".repeat(50)}\n`);
 
       // Load a valid copy of the PRD before handing to the LLM
       const validPrd = loadValidPrd(paths.prd);
 
-      // Read all items and group by branch
-      const prdContent = readPrdFile(paths.prd)?.content;
-      const allItems: PrdItem[] = Array.isArray(prdContent) ? prdContent : [];
-      let itemsForIteration = allItems.filter((item) => !item.passes);
-      if (category) {
-        itemsForIteration = itemsForIteration.filter((item) => item.category === category);
-      }
-      if (branchFilterActive) {
-        itemsForIteration = applyBranchFilter(itemsForIteration, branchFilter!);
+      // Read all items and group the unblocked ones by branch
+      const allItems = readPrdItems(paths.prd);
+      const schedule = getReadyBranchGroups(
+        allItems,
+        category,
+        branchFilterActive,
+        branchFilter,
+        taskSelection.strategy,
+        loadQuarantinedKeys(),
+      );
+      const itemsForIteration = schedule.ready;
+      const branchGroups = schedule.groups;
+
+      // Everything left is quarantined or waiting on unfinished dependencies (e.g. a cycle,
+      // or a dependency outside the current --category/--branch filter)
+      const stuckCount = schedule.blocked.length + schedule.quarantined.length;
+      if (branchGroups.size === 0 && stuckCount > 0 && !loopMode) {
+        const reason =
+          schedule.quarantined.length === 0
+            ? "blocked by unfinished dependencies"
+            : schedule.blocked.length === 0
+              ? "quarantined"
+              : "quarantined or blocked by unfinished dependencies";
+        console.log("\n" + "=".repeat(50));
+        console.log(`Stopping: all remaining items are ${reason}.`);
+        if (schedule.quarantined.length > 0) {
+          printQuarantinedItems(schedule.quarantined, readTaskAttempts(attemptsPath));
+        }
+        if (schedule.blocked.length > 0) {
+          printBlockedItems(schedule.blocked, allItems);
+        }
+        console.log("=".repeat(50));
+
+        const stoppedMessage = `${stuckCount} remaining task(s) are ${reason}.`;
+        await sendNotificationWithDaemonEvents(
+          "run_stopped",
+          `Ralph: Run stopped - ${stoppedMessage}`,
+          {
+            command: config.notifyCommand,
+            debug,
+            daemonConfig: config.daemon,
+            chatConfig: config.chat,
+            errorMessage: stoppedMessage,
+          },
+        );
+
+        stopReason = schedule.blocked.length > 0 ? "blocked" : "quarantined";
+        break;
       }
-      const branchGroups = groupItemsByBranch(itemsForIteration);
 
       // Check if there are any incomplete items
       if (branchGroups.size === 0) {
         if (loopMode) {
           console.log("\n" + "=".repeat(50));
-          if (category) {
+          if (schedule.blocked.length > 0) {
+            printBlockedItems(schedule.blocked, allItems);
+            console.log("Waiting for blocked items to become available...");
+          } else if (category) {
             console.log(`All "${category}" items complete. Waiting for new items...`);
           } else {
             console.log("All items complete. Waiting for new items...");
@@ -1140,6 +2182,8 @@ export async function run(args: string[]): Promise<void> {
               category,
               branchFilterActive,
               branchFilter,
+              taskSelection,
+              loadQuarantinedKeys(),
             );
             if (newItems) {
               console.log("\nNew incomplete item(s) detected! Resuming...");
@@ -1165,41 +2209,34 @@ export async function run(args: string[]): Promise<void> {
           }
           console.log("=".repeat(50));
 
-          await sendNotificationWithDaemonEvents("prd_complete", undefined, {
-            command: config.notifyCommand,
-            debug,
-            daemonConfig: config.daemon,
-            chatConfig: config.chat,
-          });
+          await sendNotificationWithDaemonEvents(
+            "prd_complete",
+            `Ralph: PRD Complete! All tasks finished.${usageSummary()}`,
+            {
+              command: config.notifyCommand,
+              debug,
+              daemonConfig: config.daemon,
+              chatConfig: config.chat,
+            },
+          );
 
+          stopReason = "complete";
           break;
         }
       }
 
       let iterExitCode = 0;
       let iterOutput = "";
+      const iterStartedAt = Date.now();
+      let iterResult: Awaited<ReturnType<typeof runIterationInDir>> | null = null;
+      let iterBranch: string | undefined;
+      let iterWorktree: string | undefined;
+      let iterTask: PrdItem | undefined; // First task the agent was given, for escalation and attempts
 
       // Get the base branch for branch state tracking
-      let baseBranch = "main";
       const hasCommits = repoHasCommits();
-      if (hasCommits) {
-        try {
-          baseBranch = execSync("git -C /workspace rev-parse --abbrev-ref HEAD", {
-            encoding: "utf-8",
-          }).trim();
-        } catch {
-          // Default to "main"
-        }
-      }
-
-      // Merge items tagged with the base branch into the no-branch group,
-      // so they run in /workspace instead of creating a worktree.
-      const baseBranchItems = branchGroups.get(baseBranch);
-      if (baseBranchItems && baseBranchItems.length > 0) {
-        const noBranch = branchGroups.get("") || [];
-        branchGroups.set("", [...noBranch, ...baseBranchItems]);
-        branchGroups.delete(baseBranch);
-      }
+      const baseBranch = getBaseBranch();
+      mergeBaseBranchGroup(branchGroups, baseBranch);
 
       // Find the first incomplete item to determine which group to process.
       // If resuming from a previous interruption, prioritize the resumed branch.
@@ -1248,7 +2285,11 @@ export async function run(args: string[]): Promise<void> {
           }
 
           // Set up .ralph/ in the worktree with branch-specific files
-          const worktreeSetup = setupWorktreeRalphDir(worktreePath, branchItems, paths);
+          const worktreeSetup = setupWorktreeRalphDir(
+            worktreePath,
+            limitTasks(branchItems, taskSelection.maxTasks),
+            paths,
+          );
 
           // Create paths object for the worktree
           const worktreePaths = {
@@ -1262,6 +2303,8 @@ export async function run(args: string[]): Promise<void> {
             worktreeSetup.prdTasksPath,
             validPrd,
             worktreePath,
+            iterationCount,
+            modelChain,
             targetBranch,
           );
 
@@ -1270,6 +2313,10 @@ export async function run(args: string[]): Promise<void> {
 
           iterExitCode = result.exitCode;
           iterOutput = result.output;
+          iterResult = result;
+          iterBranch = targetBranch;
+          iterWorktree = worktreePath;
+          iterTask = branchItems[0];
         }
       } else if (targetBranch !== "" && !worktreesAvailable) {
         // Branch items found but worktrees not available — warn and process no-branch items instead
@@ -1315,20 +2362,34 @@ export async function run(args: string[]): Promise<void> {
             category,
             branchFilterActive,
             branchFilter,
+            taskSelection,
+            loadQuarantinedKeys(),
           );
           filteredPrdPath = tempPath;
 
           // If there are branch groups, rewrite prd-tasks.json to only include no-branch items
           if (hasBranches) {
-            const expandedNoBranch = expandPrdFileReferences(noBranchItems, paths.dir);
+            const expandedNoBranch = expandPrdFileReferences(
+              limitTasks(noBranchItems, taskSelection.maxTasks),
+              paths.dir,
+            );
             writeFileSync(filteredPrdPath, JSON.stringify(expandedNoBranch, null, 2));
           }
 
-          const result = await runIterationInDir(paths, filteredPrdPath, validPrd, workspaceCwd);
+          const result = await runIterationInDir(
+            paths,
+            filteredPrdPath,
+            validPrd,
+            workspaceCwd,
+            iterationCount,
+            modelChain,
+          );
           filteredPrdPath = null;
+          iterTask = noBranchItems[0];
 
           iterExitCode = result.exitCode;
           iterOutput = result.output;
+          iterResult = result;
         }
       }
 
@@ -1336,8 +2397,8 @@ export async function run(args: string[]): Promise<void> {
       validateAndRecoverPrd(paths.prd, validPrd);
 
       // Track progress for --all mode: stop if no progress after N iterations
+      const progressCounts = countPrdItems(paths.prd, category, branchFilterActive, branchFilter);
       if (allMode) {
-        const progressCounts = countPrdItems(paths.prd, category, branchFilterActive, branchFilter);
         const tasksCompleted = progressCounts.complete > lastCompletedCount;
         const tasksAdded = progressCounts.total > lastTotalCount;
 
@@ -1348,10 +2409,128 @@ export async function run(args: string[]): Promise<void> {
         } else {
           iterationsWithoutProgress++;
         }
+      }
 
-        if (iterationsWithoutProgress >= MAX_ITERATIONS_WITHOUT_PROGRESS) {
+      if (iterExitCode !== 0) {
+        if (iterExitCode === lastExitCode) {
+          consecutiveFailures++;
+        } else {
+          consecutiveFailures = 1;
+          lastExitCode = iterExitCode;
+        }
+      } else {
+        consecutiveFailures = 0;
+        lastExitCode = 0;
+      }
+
+      // Setting a failing item aside lets the run carry on with the other items
+      let quarantinedTasks: TaskAttempt[] = [];
+      if (iterResult) {
+        quarantinedTasks = recordTaskAttempt(iterTask, iterResult, iterationCount);
+        for (const record of quarantinedTasks) {
+          console.log(`\x1b[33m[ralph] ${describeQuarantine(record)}\x1b[0m`);
+          iterationsWithoutProgress = 0;
+        }
+      }
+
+      // Escalate (or go back to the first model) for the next iteration
+      if (iterResult) {
+        const modelSwitch = modelChain.recordIteration(
+          iterTask && prdItemKey(iterTask),
+          iterResult.syncResult.count > 0,
+        );
+        if (modelSwitch) {
+          iterResult.modelSwitches.push(modelSwitch);
           console.log(
-            `\nStopping: no progress after ${MAX_ITERATIONS_WITHOUT_PROGRESS} consecutive iterations.`,
+            `\x1b[36m[ralph] Switching model: ${describeModelSwitch(modelSwitch)}\x1b[0m`,
+          );
+        }
+      }
+
+      // Attribute usage since the last completed task to the tasks completed now
+      let tasksCompleted: LedgerTask[] = [];
+      if (iterResult) {
+        if (iterResult.usage) {
+          runUsage = addUsage(runUsage, iterResult.usage);
+          unattributedUsage = addUsage(unattributedUsage, iterResult.usage);
+          console.log(
+            `\x1b[90m[ralph] Usage: ${formatUsage(iterResult.usage)} this iteration, ${formatUsage(runUsage)} this run\x1b[0m`,
+          );
+        }
+        const taskCount = iterResult.syncResult.tasks.length;
+        tasksCompleted = iterResult.syncResult.tasks.map((task) =>
+          hasUsage(unattributedUsage)
+            ? { ...task, usage: splitUsage(unattributedUsage, taskCount) }
+            : task,
+        );
+        if (taskCount > 0) {
+          unattributedUsage = emptyUsage();
+        }
+      }
+
+      if (iterResult) {
+        recordedIterations++;
+        const iterEndedAt = Date.now();
+        appendLedgerRecord(runsDir, runId, {
+          type: "iteration",
+          iteration: iterationCount,
+          startedAt: new Date(iterStartedAt).toISOString(),
+          endedAt: new Date(iterEndedAt).toISOString(),
+          durationMs: iterEndedAt - iterStartedAt,
+          cliProvider,
+          model: iterResult.model,
+          branch: iterBranch,
+          worktree: iterWorktree,
+          exitCode: iterResult.exitCode,
+          ...(iterResult.timedOut && { timedOut: iterResult.timedOut }),
+          ...(iterResult.modelSwitches.length > 0 && {
+            modelSwitches: iterResult.modelSwitches,
+          }),
+          tasksCompleted,
+          ...(iterResult.tasksReverted.length > 0 && { tasksReverted: iterResult.tasksReverted }),
+          ...(quarantinedTasks.length > 0 && {
+            tasksQuarantined: quarantinedTasks.map((record) => ({
+              ...(record.id && { id: record.id }),
+              description: record.description,
+            })),
+          }),
+          commits: iterResult.commits,
+          ...(iterResult.usage && { usage: iterResult.usage }),
+          ...(iterResult.agentActions.length > 0 && { agentActions: iterResult.agentActions }),
+          iterationsWithoutProgress,
+          consecutiveFailures,
+        });
+      }
+
+      // Stop cleanly once the configured budget is used up
+      const budgetExceeded = checkBudget(runUsage, usageLimits);
+      if (budgetExceeded) {
+        console.log(`\nStopping: budget reached - ${budgetExceeded}.`);
+        console.log(
+          `Status: ${progressCounts.complete}/${progressCounts.total} complete, ${progressCounts.incomplete} remaining.`,
+        );
+
+        const stoppedMessage = `Budget reached - ${budgetExceeded}. ${progressCounts.incomplete} tasks remaining.`;
+        await sendNotificationWithDaemonEvents(
+          "run_stopped",
+          `Ralph: Run stopped - ${stoppedMessage}`,
+          {
+            command: config.notifyCommand,
+            debug,
+            daemonConfig: config.daemon,
+            chatConfig: config.chat,
+            errorMessage: stoppedMessage,
+          },
+        );
+
+        stopReason = "budget";
+        break;
+      }
+
+      if (allMode) {
+        if (iterationsWithoutProgress >= maxIterationsWithoutProgress) {
+          console.log(
+            `\nStopping: no progress after ${maxIterationsWithoutProgress} consecutive iterations.`,
           );
           console.log(`(No tasks completed and no new tasks added)`);
           console.log(
@@ -1359,7 +2538,7 @@ export async function run(args: string[]): Promise<void> {
           );
           console.log("Check the PRD and task definitions for issues.");
 
-          const stoppedMessage = `No progress after ${MAX_ITERATIONS_WITHOUT_PROGRESS} iterations. ${progressCounts.incomplete} tasks remaining.`;
+          const stoppedMessage = `No progress after ${maxIterationsWithoutProgress} iterations. ${progressCounts.incomplete} tasks remaining.`;
           await sendNotificationWithDaemonEvents(
             "run_stopped",
             `Ralph: Run stopped - ${stoppedMessage}`,
@@ -1372,28 +2551,35 @@ export async function run(args: string[]): Promise<void> {
             },
           );
 
+          stopReason = "no_progress";
           break;
         }
       }
 
       if (iterExitCode !== 0) {
-        console.error(`\n${cliConfig.command} exited with code ${iterExitCode}`);
-
-        if (iterExitCode === lastExitCode) {
-          consecutiveFailures++;
-        } else {
-          consecutiveFailures = 1;
-          lastExitCode = iterExitCode;
-        }
-
-        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
-          console.error(
-            `\nStopping: ${cliConfig.command} failed ${consecutiveFailures} times in a row with exit code ${iterExitCode}.`,
-          );
-          console.error("This usually indicates a configuration error (e.g., missing API key).");
-          console.error("Please check your CLI configuration and try again.");
+        const timedOut = iterResult?.timedOut;
+        console.error(
+          `\n${cliConfig.command} ${timedOut ? describeTimeout(timedOut, iterationLimits) : `exited with code ${iterExitCode}`}`,
+        );
 
-          const errorMessage = `CLI failed ${consecutiveFailures} times with exit code ${iterExitCode}. Check configuration.`;
+        if (consecutiveFailures >= maxConsecutiveFailures) {
+          let errorMessage: string;
+          if (timedOut) {
+            console.error(
+              `\nStopping: ${cliConfig.command} ${describeTimeout(timedOut, iterationLimits)} ${consecutiveFailures} times in a row.`,
+            );
+            console.error(
+              "The agent may be stuck (e.g. waiting on an interactive prompt), or the iteration timeouts in config.json are too short.",
+            );
+            errorMessage = `CLI ${describeTimeout(timedOut, iterationLimits)} ${consecutiveFailures} times in a row. Check the agent and iteration timeouts.`;
+          } else {
+            console.error(
+              `\nStopping: ${cliConfig.command} failed ${consecutiveFailures} times in a row with exit code ${iterExitCode}.`,
+            );
+            console.error("This usually indicates a configuration error (e.g., missing API key).");
+            console.error("Please check your CLI configuration and try again.");
+            errorMessage = `CLI failed ${consecutiveFailures} times with exit code ${iterExitCode}. Check configuration.`;
+          }
           await sendNotificationWithDaemonEvents("error", `Ralph: ${errorMessage}`, {
             command: config.notifyCommand,
             debug,
@@ -1402,13 +2588,11 @@ export async function run(args: string[]): Promise<void> {
             errorMessage,
           });
 
+          stopReason = "failures";
           break;
         }
 
         console.log("Continuing to next iteration...");
-      } else {
-        consecutiveFailures = 0;
-        lastExitCode = 0;
       }
 
       // Check for completion signal from the LLM.
@@ -1438,6 +2622,8 @@ export async function run(args: string[]): Promise<void> {
               category,
               branchFilterActive,
               branchFilter,
+              taskSelection,
+              loadQuarantinedKeys(),
             );
             if (newItems) {
               console.log("\nNew incomplete item(s) detected! Resuming...");
@@ -1455,17 +2641,25 @@ export async function run(args: string[]): Promise<void> {
           }
           console.log("=".repeat(50));
 
-          await sendNotificationWithDaemonEvents("prd_complete", undefined, {
-            command: config.notifyCommand,
-            debug,
-            daemonConfig: config.daemon,
-            chatConfig: config.chat,
-          });
+          await sendNotificationWithDaemonEvents(
+            "prd_complete",
+            `Ralph: PRD Complete! All tasks finished.${usageSummary()}`,
+            {
+              command: config.notifyCommand,
+              debug,
+              daemonConfig: config.daemon,
+              chatConfig: config.chat,
+            },
+          );
 
+          stopReason = "complete";
           break;
         }
       }
     }
+  } catch (err) {
+    stopReason = "error";
+    throw err;
   } finally {
     // Clean up temp file if it still exists
     if (filteredPrdPath) {
@@ -1476,6 +2670,13 @@ export async function run(args: string[]): Promise<void> {
       }
     }
 
+    appendLedgerRecord(runsDir, runId, {
+      type: "run_end",
+      endedAt: new Date().toISOString(),
+      iterations: recordedIterations,
+      reason: stopReason,
+    });
+
     // Clean up PID file
     cleanupPidFile();
   }
@@ -1483,4 +2684,7 @@ export async function run(args: string[]): Promise<void> {
   const endTime = Date.now();
   const elapsed = formatElapsedTime(startTime, endTime);
   console.log(`\nRalph run finished in ${elapsed}.`);
+  if (hasUsage(runUsage)) {
+    console.log(`Usage: ${formatUsage(runUsage)}`);
+  }
 }
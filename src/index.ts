@@ -32,6 +32,10 @@ import { logo } from "./commands/logo.js";
 import { slack } from "./commands/slack.js";
 import { progress } from "./commands/progress.js";
 import { branch } from "./commands/branch.js";
+import { history } from "./commands/history.js";
+import { rollback } from "./commands/rollback.js";
+import { quarantine } from "./commands/quarantine.js";
+import { policy } from "./commands/policy.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -60,6 +64,10 @@ const commands: Record<string, (args: string[]) => Promise<void> | void> = {
   slack,
   progress,
   branch,
+  history,
+  rollback,
+  quarantine,
+  policy,
   "fix-prd": (args) => fixPrd(args),
   "fix-config": (args) => fixConfig(args),
   // Hidden easter egg
@@ -72,7 +80,8 @@ const commands: Record<string, (args: string[]) => Promise<void> | void> = {
   },
   status: (args) => {
     const headOnly = args.includes("--head");
-    prdStatus(headOnly);
+    const byFile = args.includes("--by-file");
+    prdStatus(headOnly, byFile);
   },
   toggle: (args) => prdToggle(args),
   clean: () => prdClean(),
@@ -9,21 +9,40 @@ import { z } from "zod";
 import YAML from "yaml";
 import { getRalphDir, getPrdFiles } from "./utils/config.js";
 import { DEFAULT_PRD_YAML } from "./templates/prompts.js";
-import { VALID_CATEGORIES } from "./utils/prd-validator.js";
+import {
+  readPrdFile,
+  writePrdAuto,
+  resolvePrdSources,
+  PRD_PRIORITIES,
+  PrdPriority,
+} from "./utils/prd-validator.js";
+import type { PrdChangeAction } from "./utils/prd-journal.js";
+import { loadPrdCategories } from "./utils/prd-categories.js";
+import { migratePrdIds, generatePrdId, collectPrdIds } from "./utils/prd-ids.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const CATEGORIES = VALID_CATEGORIES;
+// Built-in categories plus the project's own, read once at startup
+const CATEGORY_DEFINITIONS = loadPrdCategories();
+const CATEGORIES = CATEGORY_DEFINITIONS.map((c) => c.name) as [string, ...string[]];
 
-type Category = (typeof CATEGORIES)[number];
+const CATEGORY_DESCRIPTION = CATEGORY_DEFINITIONS.some((c) => c.description)
+  ? ` (${CATEGORY_DEFINITIONS.map((c) => (c.description ? `${c.name}: ${c.description}` : c.name)).join("; ")})`
+  : "";
 
 interface PrdEntry {
-  category: Category;
+  category: string;
   description: string;
   steps: string[];
   passes: boolean;
   branch?: string;
+  id?: string;
+  dependsOn?: string[];
+  priority?: PrdPriority;
+  owner?: string;
+  estimate?: number;
+  labels?: string[];
 }
 
 // Structured error codes for MCP tool error responses
@@ -71,17 +90,12 @@ const PRD_FILE_JSON = "prd.json";
 /**
  * Saves PRD entries to disk, auto-detecting format from file extension.
  */
-function savePrd(entries: PrdEntry[]): void {
+function savePrd(entries: PrdEntry[], action: PrdChangeAction): void {
   const prdFiles = getPrdFiles();
   const path = prdFiles.primary ?? join(getRalphDir(), PRD_FILE_JSON);
-  const ext = extname(path).toLowerCase();
 
   try {
-    if (ext === ".yaml" || ext === ".yml") {
-      writeFileSync(path, YAML.stringify(entries));
-    } else {
-      writeFileSync(path, JSON.stringify(entries, null, 2) + "\n");
-    }
+    writePrdAuto(path, entries, { action, source: "mcp" });
 
     // One-time migration: if a secondary PRD file exists, remove it now that
     // the merged entries have been written to the primary file.
@@ -108,14 +122,22 @@ function getVersion(): string {
  * Parses a PRD file based on its extension (MCP-safe version that throws instead of process.exit).
  */
 function parsePrdFile(path: string): PrdEntry[] {
-  const content = readFileSync(path, "utf-8");
-  const ext = extname(path).toLowerCase();
-
   let result: unknown;
-  if (ext === ".yaml" || ext === ".yml") {
-    result = YAML.parse(content);
+  if (resolvePrdSources(path)) {
+    // Split PRD - merge its files
+    const parsed = readPrdFile(path);
+    if (!parsed) {
+      throw new Error(`${path}: one of its PRD files can't be parsed`);
+    }
+    result = parsed.content;
   } else {
-    result = JSON.parse(content);
+    const content = readFileSync(path, "utf-8");
+    const ext = extname(path).toLowerCase();
+    if (ext === ".yaml" || ext === ".yml") {
+      result = YAML.parse(content);
+    } else {
+      result = JSON.parse(content);
+    }
   }
 
   if (result == null) return [];
@@ -129,7 +151,7 @@ function parsePrdFile(path: string): PrdEntry[] {
     }
     const obj = entry as Record<string, unknown>;
 
-    if (typeof obj.category !== "string" || !CATEGORIES.includes(obj.category as Category)) {
+    if (typeof obj.category !== "string" || !CATEGORIES.includes(obj.category)) {
       throw new Error(
         `${path}[${index}]: missing or invalid "category" (expected one of: ${CATEGORIES.join(", ")})`,
       );
@@ -146,13 +168,48 @@ function parsePrdFile(path: string): PrdEntry[] {
     if (obj.branch !== undefined && typeof obj.branch !== "string") {
       throw new Error(`${path}[${index}]: invalid "branch" (expected string)`);
     }
+    if (obj.id !== undefined && typeof obj.id !== "string") {
+      throw new Error(`${path}[${index}]: invalid "id" (expected string)`);
+    }
+    if (
+      obj.dependsOn !== undefined &&
+      (!Array.isArray(obj.dependsOn) || !obj.dependsOn.every((d: unknown) => typeof d === "string"))
+    ) {
+      throw new Error(`${path}[${index}]: invalid "dependsOn" (expected string array)`);
+    }
+    if (
+      obj.priority !== undefined &&
+      !(PRD_PRIORITIES as readonly unknown[]).includes(obj.priority)
+    ) {
+      throw new Error(
+        `${path}[${index}]: invalid "priority" (expected one of: ${PRD_PRIORITIES.join(", ")})`,
+      );
+    }
+    if (obj.owner !== undefined && typeof obj.owner !== "string") {
+      throw new Error(`${path}[${index}]: invalid "owner" (expected string)`);
+    }
+    if (obj.estimate !== undefined && typeof obj.estimate !== "number") {
+      throw new Error(`${path}[${index}]: invalid "estimate" (expected number)`);
+    }
+    if (
+      obj.labels !== undefined &&
+      (!Array.isArray(obj.labels) || !obj.labels.every((l: unknown) => typeof l === "string"))
+    ) {
+      throw new Error(`${path}[${index}]: invalid "labels" (expected string array)`);
+    }
 
     return {
-      category: obj.category as Category,
+      category: obj.category,
       description: obj.description,
       steps: obj.steps as string[],
       passes: obj.passes,
       ...(obj.branch !== undefined && { branch: obj.branch as string }),
+      ...(obj.id !== undefined && { id: obj.id as string }),
+      ...(obj.dependsOn !== undefined && { dependsOn: obj.dependsOn as string[] }),
+      ...(obj.priority !== undefined && { priority: obj.priority as PrdPriority }),
+      ...(obj.owner !== undefined && { owner: obj.owner as string }),
+      ...(obj.estimate !== undefined && { estimate: obj.estimate as number }),
+      ...(obj.labels !== undefined && { labels: obj.labels as string[] }),
     };
   });
 }
@@ -182,9 +239,12 @@ function loadPrd(): PrdEntry[] {
     throw new Error("No PRD file found. Run `ralph init` to create one.");
   }
 
+  // Older PRDs get stable ids assigned (with a backup) on first load
+  migratePrdIds(prdFiles.primary, "mcp");
   const primary = parsePrdFile(prdFiles.primary);
 
   if (prdFiles.both && prdFiles.secondary) {
+    migratePrdIds(prdFiles.secondary, "mcp");
     const secondary = parsePrdFile(prdFiles.secondary);
     return [...primary, ...secondary];
   }
@@ -202,7 +262,7 @@ server.tool(
   "ralph_prd_list",
   "List PRD entries with optional category and status filters",
   {
-    category: z.enum(CATEGORIES).optional().describe("Filter by category"),
+    category: z.enum(CATEGORIES).optional().describe(`Filter by category${CATEGORY_DESCRIPTION}`),
     status: z
       .enum(["all", "passing", "failing"])
       .optional()
@@ -244,29 +304,39 @@ server.tool(
   "ralph_prd_add",
   "Add a new PRD entry with category, description, and verification steps",
   {
-    category: z.enum(CATEGORIES).describe("Category for the new entry"),
+    category: z.enum(CATEGORIES).describe(`Category for the new entry${CATEGORY_DESCRIPTION}`),
     description: z.string().min(1).describe("Description of the requirement"),
     steps: z
       .array(z.string().min(1))
       .min(1)
       .describe("Verification steps to check if requirement is met"),
     branch: z.string().optional().describe("Git branch associated with this entry"),
+    priority: z.enum(PRD_PRIORITIES).optional().describe("Priority of the entry"),
+    owner: z.string().min(1).optional().describe("Person or team responsible for the entry"),
+    estimate: z.number().positive().optional().describe("Size estimate (points, hours, ...)"),
+    labels: z.array(z.string().min(1)).optional().describe("Free-form labels"),
   },
-  async ({ category, description, steps, branch }) => {
+  async ({ category, description, steps, branch, priority, owner, estimate, labels }) => {
     try {
+      const prd = loadPrd();
+
       const entry: PrdEntry = {
+        id: generatePrdId(description, collectPrdIds(prd)),
         category,
         description,
         steps,
         passes: false,
+        ...(priority && { priority }),
+        ...(owner && { owner }),
+        ...(estimate !== undefined && { estimate }),
+        ...(labels?.length && { labels }),
       };
       if (branch) {
         entry.branch = branch;
       }
 
-      const prd = loadPrd();
       prd.push(entry);
-      savePrd(prd);
+      savePrd(prd, "add");
 
       return {
         content: [
@@ -327,15 +397,19 @@ server.tool(
         if (entry.passes) categories[entry.category].passing++;
       });
 
-      const remaining = prd.reduce<{ index: number; category: string; description: string }[]>(
-        (acc, entry, i) => {
-          if (!entry.passes) {
-            acc.push({ index: i + 1, category: entry.category, description: entry.description });
-          }
-          return acc;
-        },
-        [],
-      );
+      const remaining = prd.reduce<
+        { index: number; id?: string; category: string; description: string }[]
+      >((acc, entry, i) => {
+        if (!entry.passes) {
+          acc.push({
+            index: i + 1,
+            id: entry.id,
+            category: entry.category,
+            description: entry.description,
+          });
+        }
+        return acc;
+      }, []);
 
       return {
         content: [
@@ -355,17 +429,31 @@ server.tool(
 // ralph_prd_toggle tool
 server.tool(
   "ralph_prd_toggle",
-  "Toggle completion status (passes) for PRD entries by 1-based index",
+  "Toggle completion status (passes) for PRD entries by 1-based index or id",
   {
     indices: z
       .array(z.number().int().min(1))
-      .min(1)
+      .optional()
       .describe("1-based indices of PRD entries to toggle"),
+    ids: z.array(z.string().min(1)).optional().describe("Ids of PRD entries to toggle"),
   },
-  async ({ indices }) => {
+  async ({ indices = [], ids = [] }) => {
     try {
+      if (indices.length === 0 && ids.length === 0) {
+        return errorResponse(ErrorCode.INVALID_INDEX, "Provide at least one index or id");
+      }
+
       const prd = loadPrd();
 
+      // Resolve ids to indices
+      for (const id of ids) {
+        const index = prd.findIndex((entry) => entry.id === id);
+        if (index === -1) {
+          return errorResponse(ErrorCode.INVALID_INDEX, `Unknown entry id: ${id}`);
+        }
+        indices.push(index + 1);
+      }
+
       // Validate all indices are in range
       for (const index of indices) {
         if (index > prd.length) {
@@ -384,12 +472,13 @@ server.tool(
         entry.passes = !entry.passes;
         return {
           index,
+          id: entry.id,
           description: entry.description,
           passes: entry.passes,
         };
       });
 
-      savePrd(prd);
+      savePrd(prd, "toggle");
 
       return {
         content: [
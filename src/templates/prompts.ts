@@ -202,6 +202,7 @@ IMPORTANT:
 - Focus on a single feature at a time
 - Ensure all checks pass before marking complete
 - Write clear commit messages
+- Never change or remove the "id" of a PRD item
 - If the PRD is fully complete (all items pass), output: <promise>COMPLETE</promise>
 
 Now, read the PRD and begin working on the highest priority incomplete feature.`;
@@ -243,6 +244,7 @@ export function generatePrompt(config: LanguageConfig, technologies?: string[]):
 
 export const DEFAULT_PRD = `[
   {
+    "id": "project-builds",
     "category": "setup",
     "description": "Example: Project builds successfully",
     "steps": [
@@ -253,7 +255,8 @@ export const DEFAULT_PRD = `[
   }
 ]`;
 
-export const DEFAULT_PRD_YAML = `- category: setup
+export const DEFAULT_PRD_YAML = `- id: project-builds
+  category: setup
   description: "Example: Project builds successfully"
   steps:
     - Run the build command
@@ -0,0 +1,580 @@
+import React, { useState, useCallback, useMemo, useEffect } from "react";
+import { Box, Text, useApp, useInput } from "ink";
+import TextInput from "ink-text-input";
+import { usePrd } from "./hooks/usePrd.js";
+import { useTerminalSize } from "./hooks/useTerminalSize.js";
+import { ScrollableContainer } from "./components/ScrollableContainer.js";
+import { StringEditor } from "./components/StringEditor.js";
+import { ArrayEditor } from "./components/ArrayEditor.js";
+import { BooleanToggle } from "./components/BooleanToggle.js";
+import type { PrdEntry } from "../utils/prd-validator.js";
+import {
+  EMPTY_PRD_FILTER,
+  PRD_STATUS_FILTERS,
+  type PrdFilter,
+  filterEntryIndexes,
+  isFiltered,
+  describeFilter,
+  moveEntry,
+  toggleEntries,
+  deleteEntries,
+  updateEntry,
+  indexAfterMove,
+} from "./utils/prd-edit.js";
+
+/**
+ * What the editor is currently showing / listening to.
+ */
+type EditorMode = "list" | "search" | "entry" | "field-editor" | "confirm-delete" | "confirm-quit";
+
+type EntryField = "description" | "category" | "steps" | "branch" | "passes";
+
+const ENTRY_FIELDS: { field: EntryField; label: string }[] = [
+  { field: "description", label: "Description" },
+  { field: "category", label: "Category" },
+  { field: "steps", label: "Steps" },
+  { field: "branch", label: "Branch" },
+  { field: "passes", label: "Passes" },
+];
+
+/**
+ * Picks one value from a fixed list (used for the category).
+ */
+function ChoiceSelector({
+  label,
+  choices,
+  value,
+  onConfirm,
+  onCancel,
+}: {
+  label: string;
+  choices: string[];
+  value: string;
+  onConfirm: (value: string) => void;
+  onCancel: () => void;
+}): React.ReactElement {
+  const [highlighted, setHighlighted] = useState(Math.max(0, choices.indexOf(value)));
+
+  useInput((input, key) => {
+    if (input === "j" || key.downArrow) {
+      setHighlighted((prev) => (prev < choices.length - 1 ? prev + 1 : 0));
+    } else if (input === "k" || key.upArrow) {
+      setHighlighted((prev) => (prev > 0 ? prev - 1 : choices.length - 1));
+    } else if (key.return) {
+      onConfirm(choices[highlighted]);
+    } else if (key.escape) {
+      onCancel();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="cyan" paddingX={1}>
+      <Box marginBottom={1}>
+        <Text bold color="cyan">
+          Edit: {label}
+        </Text>
+      </Box>
+      {choices.map((choice, index) => (
+        <Box key={choice}>
+          <Text color={index === highlighted ? "cyan" : undefined}>
+            {index === highlighted ? "▸ " : "  "}
+          </Text>
+          <Text bold={index === highlighted} inverse={index === highlighted}>
+            {choice}
+          </Text>
+          {choice === value && <Text dimColor> (current)</Text>}
+        </Box>
+      ))}
+      <Box marginTop={1}>
+        <Text dimColor>j/k: navigate | Enter: confirm | Esc: cancel</Text>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * PrdEditor is the `ralph prd edit` TUI: a filterable list of PRD entries that can be
+ * reordered, edited, toggled and deleted, saved with validation and a backup.
+ */
+export function PrdEditor(): React.ReactElement {
+  const { exit } = useApp();
+  const terminalSize = useTerminalSize();
+  const { entries, prdPath, categories, loading, error, hasChanges, savePrd, updateEntries } =
+    usePrd();
+
+  // Reserve lines for: header (2), status message (2), footer (3), borders (2)
+  const listMaxHeight = Math.max(5, terminalSize.rows - 11);
+
+  const [mode, setMode] = useState<EditorMode>("list");
+  const [filter, setFilter] = useState<PrdFilter>(EMPTY_PRD_FILTER);
+  const [searchText, setSearchText] = useState("");
+  const [highlighted, setHighlighted] = useState(0); // Position in the visible list
+  const [marked, setMarked] = useState<Set<number>>(new Set()); // Entry indexes
+  const [entryIndex, setEntryIndex] = useState(-1); // Entry open in the entry view
+  const [highlightedField, setHighlightedField] = useState(0);
+  const [editingField, setEditingField] = useState<EntryField | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const visible = useMemo(() => filterEntryIndexes(entries, filter), [entries, filter]);
+
+  // Keep the highlight on the list after filtering or deleting
+  useEffect(() => {
+    if (highlighted >= visible.length) {
+      setHighlighted(Math.max(0, visible.length - 1));
+    }
+  }, [highlighted, visible.length]);
+
+  const showStatus = useCallback((message: string, durationMs = 2000) => {
+    setStatusMessage(message);
+    setTimeout(() => setStatusMessage(null), durationMs);
+  }, []);
+
+  // Entries an action applies to: the marked ones, or the highlighted one
+  const targetIndexes = useCallback((): number[] => {
+    if (marked.size > 0) return [...marked].sort((a, b) => a - b);
+    return visible.length > 0 ? [visible[highlighted]] : [];
+  }, [marked, visible, highlighted]);
+
+  const handleMove = useCallback(
+    (direction: -1 | 1) => {
+      const target = highlighted + direction;
+      if (target < 0 || target >= visible.length) return;
+      const from = visible[highlighted];
+      const to = visible[target];
+      updateEntries((current) => moveEntry(current, from, to));
+      setMarked((prev) => new Set([...prev].map((index) => indexAfterMove(index, from, to))));
+      setHighlighted(target);
+    },
+    [highlighted, visible, updateEntries],
+  );
+
+  const handleToggleMark = useCallback(() => {
+    if (visible.length === 0) return;
+    const index = visible[highlighted];
+    setMarked((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  }, [visible, highlighted]);
+
+  const handleMarkAll = useCallback(() => {
+    setMarked((prev) => (visible.every((index) => prev.has(index)) ? new Set() : new Set(visible)));
+  }, [visible]);
+
+  const handleTogglePasses = useCallback(() => {
+    const indexes = targetIndexes();
+    if (indexes.length === 0) return;
+    updateEntries((current) => toggleEntries(current, indexes));
+    showStatus(`Toggled ${indexes.length} entr${indexes.length === 1 ? "y" : "ies"}`);
+  }, [targetIndexes, updateEntries, showStatus]);
+
+  const handleDelete = useCallback(() => {
+    const indexes = targetIndexes();
+    updateEntries((current) => deleteEntries(current, indexes));
+    setMarked(new Set());
+    setMode("list");
+    showStatus(`Deleted ${indexes.length} entr${indexes.length === 1 ? "y" : "ies"}`);
+  }, [targetIndexes, updateEntries, showStatus]);
+
+  const handleSave = useCallback(() => {
+    const result = savePrd();
+    if (result.success) {
+      const merged = result.merged ? ", merged with changes made on disk" : "";
+      showStatus(`PRD saved (backup: ${result.backupPath?.split("/").pop()}${merged})`, 3000);
+    } else {
+      const errors = result.errors ?? [];
+      const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : "";
+      showStatus(`Not saved: ${errors[0] ?? "unknown error"}${more}`, 5000);
+    }
+  }, [savePrd, showStatus]);
+
+  const handleQuit = useCallback(() => {
+    if (hasChanges) {
+      setMode("confirm-quit");
+    } else {
+      exit();
+    }
+  }, [hasChanges, exit]);
+
+  const cycleStatusFilter = useCallback(() => {
+    setFilter((prev) => {
+      const next = PRD_STATUS_FILTERS[(PRD_STATUS_FILTERS.indexOf(prev.status) + 1) % 3];
+      return { ...prev, status: next };
+    });
+    setMarked(new Set());
+  }, []);
+
+  const cycleCategoryFilter = useCallback(() => {
+    setFilter((prev) => {
+      const position = prev.category ? categories.indexOf(prev.category) : -1;
+      const next = position + 1 < categories.length ? categories[position + 1] : undefined;
+      return { ...prev, category: next };
+    });
+    setMarked(new Set());
+  }, [categories]);
+
+  const openEntry = useCallback(() => {
+    if (visible.length === 0) return;
+    setEntryIndex(visible[highlighted]);
+    setHighlightedField(0);
+    setMode("entry");
+  }, [visible, highlighted]);
+
+  // List view keys
+  useInput(
+    (input, key) => {
+      if (input === "j" || key.downArrow) {
+        setHighlighted((prev) => Math.min(prev + 1, Math.max(0, visible.length - 1)));
+      } else if (input === "k" || key.upArrow) {
+        setHighlighted((prev) => Math.max(prev - 1, 0));
+      } else if (input === "J" || (key.shift && key.downArrow)) {
+        handleMove(1);
+      } else if (input === "K" || (key.shift && key.upArrow)) {
+        handleMove(-1);
+      } else if (key.return || input === "e") {
+        openEntry();
+      } else if (input === " ") {
+        handleToggleMark();
+      } else if (input === "a") {
+        handleMarkAll();
+      } else if (input === "t") {
+        handleTogglePasses();
+      } else if (input === "d" || key.delete) {
+        if (targetIndexes().length > 0) setMode("confirm-delete");
+      } else if (input === "f") {
+        cycleStatusFilter();
+      } else if (input === "c") {
+        cycleCategoryFilter();
+      } else if (input === "/") {
+        setSearchText(filter.search);
+        setMode("search");
+      } else if (input === "x") {
+        setFilter(EMPTY_PRD_FILTER);
+        setMarked(new Set());
+      } else if (input === "s" || input === "S") {
+        handleSave();
+      } else if (input === "q" || input === "Q") {
+        handleQuit();
+      }
+    },
+    { isActive: mode === "list" && !loading && !error },
+  );
+
+  // Search input: Enter applies, Esc clears the search
+  useInput(
+    (_input, key) => {
+      if (key.escape) {
+        setFilter((prev) => ({ ...prev, search: "" }));
+        setMode("list");
+      }
+    },
+    { isActive: mode === "search" },
+  );
+
+  // Entry view keys
+  useInput(
+    (input, key) => {
+      if (input === "j" || key.downArrow) {
+        setHighlightedField((prev) => (prev < ENTRY_FIELDS.length - 1 ? prev + 1 : 0));
+      } else if (input === "k" || key.upArrow) {
+        setHighlightedField((prev) => (prev > 0 ? prev - 1 : ENTRY_FIELDS.length - 1));
+      } else if (key.return || input === "e") {
+        setEditingField(ENTRY_FIELDS[highlightedField].field);
+        setMode("field-editor");
+      } else if (key.escape || input === "h" || key.leftArrow) {
+        setMode("list");
+      }
+    },
+    { isActive: mode === "entry" },
+  );
+
+  // y/n confirmations
+  useInput(
+    (input, key) => {
+      const confirmed = input === "y" || input === "Y";
+      if (mode === "confirm-delete") {
+        if (confirmed) {
+          handleDelete();
+        } else if (input === "n" || input === "N" || key.escape) {
+          setMode("list");
+        }
+      } else if (confirmed) {
+        exit();
+      } else if (input === "n" || input === "N" || key.escape) {
+        setMode("list");
+      }
+    },
+    { isActive: mode === "confirm-delete" || mode === "confirm-quit" },
+  );
+
+  const handleFieldConfirm = useCallback(
+    (changes: Partial<PrdEntry>) => {
+      if (changes.description !== undefined && !changes.description.trim()) {
+        showStatus("Description can't be empty", 3000);
+        return;
+      }
+      updateEntries((current) => updateEntry(current, entryIndex, changes));
+      setEditingField(null);
+      setMode("entry");
+      showStatus("Entry updated");
+    },
+    [entryIndex, updateEntries, showStatus],
+  );
+
+  const handleFieldCancel = useCallback(() => {
+    setEditingField(null);
+    setMode("entry");
+  }, []);
+
+  if (loading) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="cyan" bold>
+          ralph prd edit
+        </Text>
+        <Text dimColor>Loading PRD...</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="cyan" bold>
+          ralph prd edit
+        </Text>
+        <Text color="red">Error: {error}</Text>
+      </Box>
+    );
+  }
+
+  const entry = entryIndex >= 0 ? entries[entryIndex] : undefined;
+
+  const renderFieldEditor = () => {
+    if (!entry || !editingField) return null;
+    switch (editingField) {
+      case "description":
+        return (
+          <StringEditor
+            label="Description"
+            value={entry.description}
+            onConfirm={(value) => handleFieldConfirm({ description: value.trim() })}
+            onCancel={handleFieldCancel}
+          />
+        );
+      case "branch":
+        return (
+          <StringEditor
+            label="Branch"
+            value={entry.branch ?? ""}
+            placeholder="Leave empty for no branch"
+            onConfirm={(value) => handleFieldConfirm({ branch: value.trim() })}
+            onCancel={handleFieldCancel}
+          />
+        );
+      case "steps":
+        return (
+          <ArrayEditor
+            label="Steps"
+            items={entry.steps}
+            onConfirm={(steps) => handleFieldConfirm({ steps })}
+            onCancel={handleFieldCancel}
+            maxHeight={listMaxHeight}
+          />
+        );
+      case "passes":
+        return (
+          <BooleanToggle
+            label="Passes"
+            value={entry.passes}
+            onConfirm={(passes) => handleFieldConfirm({ passes })}
+            onCancel={handleFieldCancel}
+          />
+        );
+      case "category":
+        return (
+          <ChoiceSelector
+            label="Category"
+            choices={categories}
+            value={entry.category}
+            onConfirm={(category) => handleFieldConfirm({ category })}
+            onCancel={handleFieldCancel}
+          />
+        );
+    }
+  };
+
+  const renderEntry = () => {
+    if (!entry) return null;
+    const values: Record<EntryField, string> = {
+      description: entry.description,
+      category: entry.category,
+      steps: entry.steps.length === 0 ? "(none)" : `${entry.steps.length} step(s)`,
+      branch: entry.branch || "(none)",
+      passes: String(entry.passes),
+    };
+    return (
+      <Box flexDirection="column" borderStyle="single" borderColor="cyan" paddingX={1}>
+        <Box marginBottom={1}>
+          <Text bold color="cyan">
+            Entry {entryIndex + 1}
+          </Text>
+          {entry.id && <Text dimColor> #{entry.id}</Text>}
+        </Box>
+        {ENTRY_FIELDS.map(({ field, label }, index) => (
+          <Box key={field}>
+            <Text color={index === highlightedField ? "cyan" : undefined}>
+              {index === highlightedField ? "▸ " : "  "}
+            </Text>
+            <Box width={14}>
+              <Text bold={index === highlightedField}>{label}</Text>
+            </Box>
+            <Text wrap="truncate">{values[field]}</Text>
+          </Box>
+        ))}
+        {entry.steps.length > 0 && (
+          <Box flexDirection="column" marginTop={1}>
+            {entry.steps.map((step, index) => (
+              <Text key={index} dimColor wrap="truncate">
+                {String(index + 1).padStart(4, " ")}. {step}
+              </Text>
+            ))}
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  const rows = visible.map((index, position) => {
+    const item = entries[index];
+    const isHighlighted = position === highlighted;
+    return (
+      <Box key={`entry-${index}`}>
+        <Text color={isHighlighted ? "cyan" : undefined}>{isHighlighted ? "▸ " : "  "}</Text>
+        <Text color="yellow">{marked.has(index) ? "● " : "  "}</Text>
+        <Text color={item.passes ? "green" : "gray"}>{item.passes ? "✓ " : "○ "}</Text>
+        <Text dimColor>{String(index + 1).padStart(3, " ")}. </Text>
+        <Text color="magenta">[{item.category}] </Text>
+        <Text bold={isHighlighted} inverse={isHighlighted} wrap="truncate">
+          {item.description}
+        </Text>
+        {item.branch && <Text color="cyan"> ({item.branch})</Text>}
+      </Box>
+    );
+  });
+
+  const filterLabel = describeFilter(filter);
+  const listHeader = (
+    <Box marginBottom={1}>
+      <Text bold>
+        {isFiltered(filter)
+          ? `${visible.length} of ${entries.length} entries`
+          : `${entries.length} entries`}
+      </Text>
+      {filterLabel && <Text dimColor> (filter: {filterLabel})</Text>}
+      {marked.size > 0 && <Text color="yellow"> · {marked.size} marked</Text>}
+    </Box>
+  );
+
+  return (
+    <Box flexDirection="column">
+      {/* Header */}
+      <Box marginBottom={1} justifyContent="space-between">
+        <Box>
+          <Text color="cyan" bold>
+            ralph prd edit
+          </Text>
+          {prdPath && <Text dimColor> {prdPath.split("/").pop()}</Text>}
+          {hasChanges && <Text color="yellow"> (unsaved changes)</Text>}
+        </Box>
+        <Box>
+          <Text dimColor>[S] Save</Text>
+          <Text dimColor> | </Text>
+          <Text dimColor>[Q] Quit</Text>
+        </Box>
+      </Box>
+
+      {/* Status message */}
+      {statusMessage && (
+        <Box marginBottom={1}>
+          <Text color={statusMessage.startsWith("Validation") ? "red" : "green"}>
+            {statusMessage}
+          </Text>
+        </Box>
+      )}
+
+      {mode === "field-editor" ? (
+        renderFieldEditor()
+      ) : mode === "entry" ? (
+        renderEntry()
+      ) : (
+        <ScrollableContainer
+          maxHeight={listMaxHeight}
+          highlightedIndex={highlighted}
+          isFocused={mode === "list"}
+          header={listHeader}
+          borderColor="cyan"
+        >
+          {rows.length > 0
+            ? rows
+            : [
+                <Text key="empty" dimColor italic>
+                  No entries match the filter
+                </Text>,
+              ]}
+        </ScrollableContainer>
+      )}
+
+      {/* Search input, confirmations and keyboard hints */}
+      <Box marginTop={1} flexDirection="column">
+        {mode === "search" && (
+          <Box>
+            <Text color="cyan">/ </Text>
+            <TextInput
+              value={searchText}
+              onChange={setSearchText}
+              onSubmit={(value) => {
+                setFilter((prev) => ({ ...prev, search: value }));
+                setHighlighted(0);
+                setMarked(new Set());
+                setMode("list");
+              }}
+              placeholder="Search description, id or branch"
+            />
+          </Box>
+        )}
+        {mode === "confirm-delete" && (
+          <Text color="red">
+            Delete {targetIndexes().length} entr{targetIndexes().length === 1 ? "y" : "ies"}? (y/n)
+          </Text>
+        )}
+        {mode === "confirm-quit" && (
+          <Text color="yellow">Discard unsaved changes and quit? (y/n)</Text>
+        )}
+        {mode === "list" && (
+          <>
+            <Text dimColor>
+              j/k: navigate | Enter: edit | J/K: reorder | Space: mark | a: mark all | t: toggle
+              passes | d: delete
+            </Text>
+            <Text dimColor>
+              f: status filter | c: category filter | /: search | x: clear filters | s: save | q:
+              quit
+            </Text>
+          </>
+        )}
+        {mode === "entry" && (
+          <Text dimColor>j/k: navigate | Enter: edit field | Esc: back to list</Text>
+        )}
+        {mode === "search" && <Text dimColor>Enter: apply | Esc: clear search</Text>}
+      </Box>
+    </Box>
+  );
+}
+
+export default PrdEditor;
@@ -0,0 +1,144 @@
+import { useState, useCallback, useEffect } from "react";
+import { getPrdFiles } from "../../utils/config.js";
+import {
+  readPrdFile,
+  validatePrd,
+  createBackup,
+  writePrdAuto,
+  type PrdEntry,
+} from "../../utils/prd-validator.js";
+import { loadCategoryNames } from "../../utils/prd-categories.js";
+import { diffPrd, isEmptyDiff } from "../../utils/prd-journal.js";
+import { mergePrdEdits } from "../utils/prd-edit.js";
+
+export interface SavePrdResult {
+  success: boolean;
+  backupPath?: string;
+  merged?: boolean; // Changes made on disk while the editor was open were merged in
+  errors?: string[];
+}
+
+export interface UsePrdResult {
+  entries: PrdEntry[];
+  prdPath: string | null;
+  categories: string[];
+  loading: boolean;
+  error: string | null;
+  hasChanges: boolean;
+  savePrd: () => SavePrdResult;
+  updateEntries: (updater: (entries: PrdEntry[]) => PrdEntry[]) => void;
+}
+
+/**
+ * React hook for loading and saving the PRD in the PRD editor.
+ * Saving validates the entries like `ralph fix-prd` does, backs up the current file
+ * and writes it back in its own format (JSON or YAML). If the PRD changed on disk since it
+ * was loaded (e.g. `ralph run` marked a task as passing), those changes are merged in;
+ * saving is refused when both sides changed the same item.
+ */
+export function usePrd(): UsePrdResult {
+  const [entries, setEntries] = useState<PrdEntry[]>([]);
+  const [loadedEntries, setLoadedEntries] = useState<PrdEntry[]>([]); // As read from disk
+  const [prdPath, setPrdPath] = useState<string | null>(null);
+  const [categories] = useState<string[]>(() => loadCategoryNames());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const loadPrdFromFile = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const path = getPrdFiles().primary;
+      if (!path) {
+        throw new Error("No PRD file found. Run 'ralph init' first.");
+      }
+
+      const parsed = readPrdFile(path);
+      const validation = parsed ? validatePrd(parsed.content, categories) : null;
+      if (!validation?.valid || !validation.data) {
+        throw new Error("PRD file is corrupted. Run 'ralph fix-prd' first.");
+      }
+
+      setPrdPath(path);
+      setEntries(validation.data);
+      setLoadedEntries(validation.data);
+      setHasChanges(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error loading PRD";
+      setError(message);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [categories]);
+
+  const savePrd = useCallback((): SavePrdResult => {
+    if (!prdPath) {
+      return { success: false, errors: ["No PRD file to save"] };
+    }
+
+    const validation = validatePrd(entries, categories);
+    if (!validation.valid || !validation.data) {
+      return { success: false, errors: validation.errors };
+    }
+
+    // Don't overwrite changes made by ralph run, MCP or chat while the editor was open
+    const parsed = readPrdFile(prdPath);
+    const onDisk = parsed ? validatePrd(parsed.content, categories) : null;
+    if (!onDisk?.valid || !onDisk.data) {
+      return {
+        success: false,
+        errors: ["The PRD file on disk is corrupted. Run 'ralph fix-prd' first."],
+      };
+    }
+    let data = validation.data;
+    const changedOnDisk = !isEmptyDiff(diffPrd(loadedEntries, onDisk.data));
+    if (changedOnDisk) {
+      const merge = mergePrdEdits(loadedEntries, data, onDisk.data);
+      if (merge.conflicts.length > 0) {
+        return {
+          success: false,
+          errors: merge.conflicts.map(
+            (conflict) => `Changed on disk and in the editor: ${conflict}`,
+          ),
+        };
+      }
+      data = merge.entries;
+    }
+
+    try {
+      const backupPath = createBackup(prdPath);
+      writePrdAuto(prdPath, data, { action: "edit", source: "cli" });
+      setEntries(data);
+      setLoadedEntries(data);
+      setHasChanges(false);
+      return { success: true, backupPath, ...(changedOnDisk && { merged: true }) };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error saving PRD";
+      return { success: false, errors: [message] };
+    }
+  }, [prdPath, entries, loadedEntries, categories]);
+
+  const updateEntries = useCallback((updater: (entries: PrdEntry[]) => PrdEntry[]) => {
+    setEntries((current) => updater(current));
+    setHasChanges(true);
+  }, []);
+
+  // Load the PRD on mount
+  useEffect(() => {
+    loadPrdFromFile();
+  }, [loadPrdFromFile]);
+
+  return {
+    entries,
+    prdPath,
+    categories,
+    loading,
+    error,
+    hasChanges,
+    savePrd,
+    updateEntries,
+  };
+}
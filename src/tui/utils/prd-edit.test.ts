@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterEntryIndexes,
+  isFiltered,
+  describeFilter,
+  moveEntry,
+  indexAfterMove,
+  toggleEntries,
+  deleteEntries,
+  updateEntry,
+  mergePrdEdits,
+  EMPTY_PRD_FILTER,
+} from "./prd-edit.js";
+import type { PrdEntry } from "../../utils/prd-validator.js";
+
+function entry(id: string, overrides: Partial<PrdEntry> = {}): PrdEntry {
+  return {
+    id,
+    category: "feature",
+    description: `Task ${id}`,
+    steps: [],
+    passes: false,
+    ...overrides,
+  };
+}
+
+const ids = (entries: PrdEntry[]) => entries.map((e) => e.id);
+
+// ─── filterEntryIndexes ─────────────────────────────────────────────
+
+describe("filterEntryIndexes", () => {
+  const entries = [
+    entry("login", { category: "ui", description: "Add login page" }),
+    entry("api", { passes: true, branch: "feat/api" }),
+    entry("docs", { category: "docs", description: "Document the login flow" }),
+  ];
+
+  it("returns every index without a filter", () => {
+    expect(filterEntryIndexes(entries, EMPTY_PRD_FILTER)).toEqual([0, 1, 2]);
+  });
+
+  it("filters by status and category", () => {
+    expect(filterEntryIndexes(entries, { ...EMPTY_PRD_FILTER, status: "pending" })).toEqual([0, 2]);
+    expect(filterEntryIndexes(entries, { ...EMPTY_PRD_FILTER, status: "passing" })).toEqual([1]);
+    expect(filterEntryIndexes(entries, { ...EMPTY_PRD_FILTER, category: "docs" })).toEqual([2]);
+  });
+
+  it("searches descriptions, ids and branches case-insensitively", () => {
+    expect(filterEntryIndexes(entries, { ...EMPTY_PRD_FILTER, search: " LOGIN " })).toEqual([0, 2]);
+    expect(filterEntryIndexes(entries, { ...EMPTY_PRD_FILTER, search: "feat/" })).toEqual([1]);
+  });
+});
+
+// ─── isFiltered / describeFilter ────────────────────────────────────
+
+describe("isFiltered / describeFilter", () => {
+  it("describes only the active parts of the filter", () => {
+    expect(isFiltered(EMPTY_PRD_FILTER)).toBe(false);
+    expect(isFiltered({ ...EMPTY_PRD_FILTER, search: "  " })).toBe(false);
+    const filter = { status: "pending" as const, category: "ui", search: "login" };
+    expect(isFiltered(filter)).toBe(true);
+    expect(describeFilter(filter)).toBe('pending · ui · "login"');
+  });
+});
+
+// ─── moveEntry / indexAfterMove ─────────────────────────────────────
+
+describe("moveEntry / indexAfterMove", () => {
+  const entries = [entry("a"), entry("b"), entry("c"), entry("d")];
+
+  it("moves an entry down or up", () => {
+    expect(ids(moveEntry(entries, 0, 2))).toEqual(["b", "c", "a", "d"]);
+    expect(ids(moveEntry(entries, 3, 1))).toEqual(["a", "d", "b", "c"]);
+    expect(ids(entries)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("ignores moves out of range or onto the same position", () => {
+    expect(moveEntry(entries, 1, 1)).toBe(entries);
+    expect(moveEntry(entries, 0, -1)).toBe(entries);
+    expect(moveEntry(entries, 3, 4)).toBe(entries);
+  });
+
+  it("tracks where other entries end up", () => {
+    const moved = moveEntry(entries, 0, 2);
+    for (let i = 0; i < entries.length; i++) {
+      expect(moved[indexAfterMove(i, 0, 2)]).toBe(entries[i]);
+    }
+    const movedUp = moveEntry(entries, 3, 1);
+    for (let i = 0; i < entries.length; i++) {
+      expect(movedUp[indexAfterMove(i, 3, 1)]).toBe(entries[i]);
+    }
+  });
+});
+
+// ─── toggleEntries / deleteEntries ──────────────────────────────────
+
+describe("toggleEntries / deleteEntries", () => {
+  const entries = [entry("a"), entry("b", { passes: true }), entry("c")];
+
+  it("flips passes on the given entries only", () => {
+    expect(toggleEntries(entries, [0, 1]).map((e) => e.passes)).toEqual([true, false, false]);
+    expect(entries[0].passes).toBe(false);
+  });
+
+  it("removes the given entries", () => {
+    expect(ids(deleteEntries(entries, new Set([0, 2])))).toEqual(["b"]);
+  });
+});
+
+// ─── updateEntry ────────────────────────────────────────────────────
+
+describe("updateEntry", () => {
+  it("replaces fields and drops an emptied branch", () => {
+    const entries = [entry("a", { branch: "feat/a" }), entry("b")];
+    const updated = updateEntry(entries, 0, { description: "Renamed", branch: "" });
+    expect(updated[0]).toEqual({ ...entry("a"), description: "Renamed" });
+    expect(updated[1]).toBe(entries[1]);
+  });
+});
+
+// ─── mergePrdEdits ──────────────────────────────────────────────────
+
+describe("mergePrdEdits", () => {
+  const base = [entry("a"), entry("b"), entry("c")];
+
+  it("keeps the editor's order and edits and takes changes made on disk", () => {
+    const ours = [
+      entry("b", { description: "Edited in the editor" }),
+      entry("a"),
+      entry("new-in-editor"),
+    ];
+    const theirs = [entry("a", { passes: true }), entry("b"), entry("c"), entry("new-on-disk")];
+
+    const { entries, conflicts } = mergePrdEdits(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(ids(entries)).toEqual(["b", "a", "new-in-editor", "new-on-disk"]);
+    expect(entries[0].description).toBe("Edited in the editor");
+    expect(entries[1].passes).toBe(true);
+  });
+
+  it("reports fields changed differently on both sides", () => {
+    const ours = [entry("a", { passes: true }), entry("b"), entry("c")];
+    const theirs = [entry("a", { passes: false, description: "Renamed" }), entry("b"), entry("c")];
+    expect(mergePrdEdits(base, ours, theirs).conflicts).toEqual([]);
+
+    const edited = [entry("a", { description: "Mine" }), entry("b"), entry("c")];
+    expect(mergePrdEdits(base, edited, theirs).conflicts).toEqual(['"Mine" (description)']);
+  });
+
+  it("reports items deleted on one side and changed on the other", () => {
+    const ours = [entry("a"), entry("c")];
+    const theirs = [entry("a"), entry("b", { passes: true }), entry("c", { passes: true })];
+    expect(mergePrdEdits(base, ours, theirs).conflicts).toEqual([
+      '"Task b" (deleted in the editor)',
+    ]);
+
+    const edited = [entry("a", { passes: true }), entry("b"), entry("c")];
+    expect(mergePrdEdits(base, edited, [entry("b"), entry("c")]).conflicts).toEqual([
+      '"Task a" (deleted on disk)',
+    ]);
+  });
+
+  it("drops items deleted on either side when the other side left them alone", () => {
+    const { entries, conflicts } = mergePrdEdits(
+      base,
+      [entry("a"), entry("b")],
+      [entry("b"), entry("c")],
+    );
+    expect(conflicts).toEqual([]);
+    expect(ids(entries)).toEqual(["b"]);
+  });
+});
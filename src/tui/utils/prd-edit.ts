@@ -0,0 +1,208 @@
+import type { PrdEntry } from "../../utils/prd-validator.js";
+import { prdItemKey } from "../../utils/checkpoint.js";
+
+/**
+ * Which entries the PRD editor list shows.
+ */
+export type PrdStatusFilter = "all" | "pending" | "passing";
+
+export const PRD_STATUS_FILTERS: PrdStatusFilter[] = ["all", "pending", "passing"];
+
+export interface PrdFilter {
+  status: PrdStatusFilter;
+  category?: string; // undefined = every category
+  search: string; // Case-insensitive match on description, id and branch
+}
+
+export const EMPTY_PRD_FILTER: PrdFilter = { status: "all", search: "" };
+
+/**
+ * Returns the indexes (into `entries`) of the entries that match the filter, in PRD order.
+ */
+export function filterEntryIndexes(entries: PrdEntry[], filter: PrdFilter): number[] {
+  const search = filter.search.trim().toLowerCase();
+  const indexes: number[] = [];
+
+  entries.forEach((entry, index) => {
+    if (filter.status === "pending" && entry.passes) return;
+    if (filter.status === "passing" && !entry.passes) return;
+    if (filter.category && entry.category !== filter.category) return;
+    if (search) {
+      const haystack = [entry.description, entry.id ?? "", entry.branch ?? ""]
+        .join("\n")
+        .toLowerCase();
+      if (!haystack.includes(search)) return;
+    }
+    indexes.push(index);
+  });
+
+  return indexes;
+}
+
+export function isFiltered(filter: PrdFilter): boolean {
+  return filter.status !== "all" || filter.category !== undefined || filter.search.trim() !== "";
+}
+
+/**
+ * Describes the active filter for the editor header, e.g. "pending · ui · "login"".
+ */
+export function describeFilter(filter: PrdFilter): string {
+  return [
+    filter.status !== "all" ? filter.status : "",
+    filter.category ?? "",
+    filter.search.trim() ? `"${filter.search.trim()}"` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Moves the entry at `from` to position `to`. Returns a new array.
+ */
+export function moveEntry(entries: PrdEntry[], from: number, to: number): PrdEntry[] {
+  if (from === to || to < 0 || to >= entries.length) return entries;
+  const result = [...entries];
+  const [entry] = result.splice(from, 1);
+  result.splice(to, 0, entry);
+  return result;
+}
+
+/**
+ * Flips `passes` on each of the given entries, like `ralph toggle`. Returns a new array.
+ */
+export function toggleEntries(entries: PrdEntry[], indexes: Iterable<number>): PrdEntry[] {
+  const selected = new Set(indexes);
+  return entries.map((entry, index) =>
+    selected.has(index) ? { ...entry, passes: !entry.passes } : entry,
+  );
+}
+
+/**
+ * Removes the given entries. Returns a new array.
+ */
+export function deleteEntries(entries: PrdEntry[], indexes: Iterable<number>): PrdEntry[] {
+  const selected = new Set(indexes);
+  return entries.filter((_, index) => !selected.has(index));
+}
+
+/**
+ * Replaces fields of one entry. An empty branch removes the field.
+ * Returns a new array.
+ */
+export function updateEntry(
+  entries: PrdEntry[],
+  index: number,
+  changes: Partial<PrdEntry>,
+): PrdEntry[] {
+  return entries.map((entry, i) => {
+    if (i !== index) return entry;
+    const updated: PrdEntry = { ...entry, ...changes };
+    if (!updated.branch) delete updated.branch;
+    return updated;
+  });
+}
+
+/**
+ * Where an entry at `index` ends up after moveEntry(entries, from, to).
+ */
+export function indexAfterMove(index: number, from: number, to: number): number {
+  if (index === from) return to;
+  if (from < to && index > from && index <= to) return index - 1;
+  if (to < from && index >= to && index < from) return index + 1;
+  return index;
+}
+
+export interface PrdMergeResult {
+  entries: PrdEntry[];
+  conflicts: string[]; // Items changed both in the editor and on disk, e.g. `"Add login" (passes)`
+}
+
+/**
+ * Keys entries by prdItemKey, numbering repeated keys so every entry gets its own.
+ */
+function keyEntries(entries: PrdEntry[]): [string, PrdEntry][] {
+  const seen = new Map<string, number>();
+  return entries.map((entry) => {
+    const key = prdItemKey(entry);
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return [n > 1 ? `${key}#${n}` : key, entry];
+  });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merges one entry field by field: each field takes the side that changed it.
+ * Fields changed differently on both sides are reported as conflicts (the editor's value is kept).
+ */
+function mergeEntry(
+  base: PrdEntry,
+  ours: PrdEntry,
+  theirs: PrdEntry,
+  conflicts: string[],
+): PrdEntry {
+  const fields = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+  const merged: Record<string, unknown> = {};
+  const conflicting: string[] = [];
+  for (const field of fields) {
+    const b = (base as unknown as Record<string, unknown>)[field];
+    const o = (ours as unknown as Record<string, unknown>)[field];
+    const t = (theirs as unknown as Record<string, unknown>)[field];
+    let value = o;
+    if (sameValue(o, b)) {
+      value = t;
+    } else if (!sameValue(t, b) && !sameValue(t, o)) {
+      conflicting.push(field);
+    }
+    if (value !== undefined) merged[field] = value;
+  }
+  if (conflicting.length > 0) {
+    conflicts.push(`"${ours.description}" (${conflicting.join(", ")})`);
+  }
+  return merged as unknown as PrdEntry;
+}
+
+/**
+ * Three-way merge of the editor's entries (`ours`) with the PRD as it is on disk now
+ * (`theirs`), both starting from the PRD the editor loaded (`base`). Keeps the editor's order
+ * and edits, takes fields changed on disk (e.g. `passes` set by `ralph run`), and appends items
+ * added on disk. An item deleted on one side and changed on the other is a conflict.
+ */
+export function mergePrdEdits(
+  base: PrdEntry[],
+  ours: PrdEntry[],
+  theirs: PrdEntry[],
+): PrdMergeResult {
+  const baseItems = new Map(keyEntries(base));
+  const theirItems = new Map(keyEntries(theirs));
+  const ourItems = keyEntries(ours);
+  const ourKeys = new Set(ourItems.map(([key]) => key));
+  const conflicts: string[] = [];
+  const entries: PrdEntry[] = [];
+
+  for (const [key, entry] of ourItems) {
+    const baseEntry = baseItems.get(key);
+    const theirEntry = theirItems.get(key);
+    if (!baseEntry) {
+      entries.push(entry); // Added in the editor
+    } else if (theirEntry) {
+      entries.push(mergeEntry(baseEntry, entry, theirEntry, conflicts));
+    } else if (!sameValue(entry, baseEntry)) {
+      conflicts.push(`"${entry.description}" (deleted on disk)`);
+    }
+  }
+
+  for (const [key, entry] of theirItems) {
+    const baseEntry = baseItems.get(key);
+    if (!baseEntry) {
+      entries.push(entry); // Added on disk
+    } else if (!ourKeys.has(key) && !sameValue(entry, baseEntry)) {
+      conflicts.push(`"${entry.description}" (deleted in the editor)`);
+    }
+  }
+
+  return { entries, conflicts };
+}
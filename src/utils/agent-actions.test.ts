@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEditedFile,
+  getCommand,
+  isPrdFile,
+  isGitPush,
+  detectAgentAction,
+} from "./agent-actions.js";
+
+// ─── getEditedFile ──────────────────────────────────────────────────
+
+describe("getEditedFile", () => {
+  it("reads file_edit events and file-writing tool calls", () => {
+    expect(getEditedFile({ type: "file_edit", path: "src/a.ts" })).toBe("src/a.ts");
+    expect(getEditedFile({ type: "tool_use", name: "Write", input: { file_path: "b.ts" } })).toBe(
+      "b.ts",
+    );
+    expect(getEditedFile({ type: "tool_use", name: "edit", input: { filePath: "c.ts" } })).toBe(
+      "c.ts",
+    );
+  });
+
+  it("ignores reads and other tools", () => {
+    expect(getEditedFile({ type: "file_read", path: "a.ts" })).toBeNull();
+    expect(
+      getEditedFile({ type: "tool_use", name: "Read", input: { file_path: "a.ts" } }),
+    ).toBeNull();
+  });
+});
+
+// ─── getCommand ─────────────────────────────────────────────────────
+
+describe("getCommand", () => {
+  it("reads command events and shell tool calls", () => {
+    expect(getCommand({ type: "command", command: "ls" })).toBe("ls");
+    expect(getCommand({ type: "tool_use", name: "Bash", input: { command: "npm test" } })).toBe(
+      "npm test",
+    );
+    expect(
+      getCommand({ type: "tool_use", name: "shell", input: { command: ["git", "status"] } }),
+    ).toBe("git status");
+  });
+
+  it("returns null for other events", () => {
+    expect(getCommand({ type: "text", text: "git push" })).toBeNull();
+  });
+});
+
+// ─── isPrdFile ──────────────────────────────────────────────────────
+
+describe("isPrdFile", () => {
+  it("matches PRD files but not the tasks file", () => {
+    expect(isPrdFile(".ralph/prd.json")).toBe(true);
+    expect(isPrdFile("/workspace/.ralph/prd.yaml")).toBe(true);
+    expect(isPrdFile(".ralph/prd-tasks.json")).toBe(false);
+  });
+});
+
+// ─── isGitPush ──────────────────────────────────────────────────────
+
+describe("isGitPush", () => {
+  it("detects push in plain, chained and wrapped commands", () => {
+    expect(isGitPush("git push origin main")).toBe(true);
+    expect(isGitPush("git add . && git commit -m x && git push")).toBe(true);
+    expect(isGitPush("bash -lc 'git push'")).toBe(true);
+    expect(isGitPush("git -C repo push")).toBe(true);
+  });
+
+  it("ignores other git commands mentioning push", () => {
+    expect(isGitPush("git commit -m push")).toBe(false);
+    expect(isGitPush("git log --grep push")).toBe(false);
+    expect(isGitPush("npm run push")).toBe(false);
+  });
+});
+
+// ─── detectAgentAction ──────────────────────────────────────────────
+
+describe("detectAgentAction", () => {
+  it("flags direct PRD edits and git push", () => {
+    expect(
+      detectAgentAction({
+        type: "tool_use",
+        name: "Edit",
+        input: { file_path: ".ralph/prd.json" },
+      }),
+    ).toEqual({ kind: "prd_edit", detail: ".ralph/prd.json" });
+    expect(detectAgentAction({ type: "command", command: "git push" })).toEqual({
+      kind: "git_push",
+      detail: "git push",
+    });
+  });
+
+  it("returns null for ordinary events", () => {
+    expect(detectAgentAction({ type: "file_edit", path: "src/index.ts" })).toBeNull();
+    expect(detectAgentAction({ type: "command", command: "npm test" })).toBeNull();
+  });
+});
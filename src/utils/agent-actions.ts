@@ -0,0 +1,125 @@
+/**
+ * Detects agent actions that `ralph run` should flag, from normalized stream-json events.
+ *
+ * - prd_edit: the agent edited the PRD file (prd.json/prd.yaml) directly instead of
+ *   updating the tasks file that ralph syncs back
+ * - git_push: the agent pushed to a remote
+ */
+
+import { basename } from "path";
+import type { StreamEvent } from "./stream-json.js";
+
+export type AgentActionKind = "prd_edit" | "git_push";
+
+export interface AgentAction {
+  kind: AgentActionKind;
+  detail: string; // Edited file path or the command that was run
+}
+
+// Tool names (lowercased) that write files, across providers
+const FILE_WRITE_TOOLS = new Set([
+  "edit",
+  "multiedit",
+  "write",
+  "notebookedit",
+  "str_replace_editor",
+  "write_file",
+  "replace",
+  "patch",
+]);
+
+// Tool names (lowercased) that run shell commands, across providers
+const SHELL_TOOLS = new Set(["bash", "shell", "run_shell_command", "exec_command", "local_shell"]);
+
+// git options that take a separate value, e.g. `git -C dir push`
+const GIT_OPTIONS_WITH_VALUE = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace"]);
+
+const PRD_FILE_NAMES = new Set(["prd.json", "prd.yaml", "prd.yml"]);
+
+function inputField(input: unknown, keys: string[]): unknown {
+  if (!input || typeof input !== "object") return undefined;
+  const record = input as Record<string, unknown>;
+  for (const key of keys) {
+    if (record[key] !== undefined) return record[key];
+  }
+  return undefined;
+}
+
+/**
+ * Returns the path of a file written by the event, or null.
+ */
+export function getEditedFile(event: StreamEvent): string | null {
+  if (event.type === "file_edit") {
+    return event.path;
+  }
+  if (event.type === "tool_use" && FILE_WRITE_TOOLS.has(event.name.toLowerCase())) {
+    const path = inputField(event.input, ["file_path", "filePath", "path", "file"]);
+    return typeof path === "string" ? path : null;
+  }
+  return null;
+}
+
+/**
+ * Returns the shell command run by the event, or null.
+ */
+export function getCommand(event: StreamEvent): string | null {
+  if (event.type === "command") {
+    return event.command;
+  }
+  if (event.type === "tool_use" && SHELL_TOOLS.has(event.name.toLowerCase())) {
+    const command = inputField(event.input, ["command", "cmd"]);
+    if (typeof command === "string") return command;
+    if (Array.isArray(command)) return command.join(" ");
+  }
+  return null;
+}
+
+export function isPrdFile(path: string): boolean {
+  return PRD_FILE_NAMES.has(basename(path.replace(/\\/g, "/")));
+}
+
+/**
+ * Checks whether a shell command runs `git push`, including chained commands
+ * (`git commit && git push`) and wrapped ones (`bash -lc 'git push'`).
+ */
+export function isGitPush(command: string): boolean {
+  for (const segment of command.split(/&&|\|\||[;|\n]/)) {
+    const tokens = segment
+      .trim()
+      .split(/\s+/)
+      .map((token) => token.replace(/^['"]+|['"]+$/g, ""));
+    const gitIndex = tokens.findIndex((token) => token === "git" || token.endsWith("/git"));
+    if (gitIndex === -1) continue;
+
+    let i = gitIndex + 1;
+    while (i < tokens.length && tokens[i].startsWith("-")) {
+      i += GIT_OPTIONS_WITH_VALUE.has(tokens[i]) ? 2 : 1;
+    }
+    if (tokens[i] === "push") return true;
+  }
+  return false;
+}
+
+/**
+ * Returns the flagged action an event represents, or null.
+ */
+export function detectAgentAction(event: StreamEvent): AgentAction | null {
+  const file = getEditedFile(event);
+  if (file && isPrdFile(file)) {
+    return { kind: "prd_edit", detail: file };
+  }
+  const command = getCommand(event);
+  if (command && isGitPush(command)) {
+    return { kind: "git_push", detail: command };
+  }
+  return null;
+}
+
+export function describeAgentAction(action: AgentAction): string {
+  switch (action.kind) {
+    case "prd_edit":
+      return `Agent edited the PRD file directly (${action.detail})`;
+    case "git_push":
+      return `Agent ran git push (${action.detail})`;
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  prdItemKey,
+  getPassingKeys,
+  restorePassesFlags,
+  getCheckpointRef,
+  selectPrunableRefs,
+} from "./checkpoint.js";
+import type { PrdEntry } from "./prd-validator.js";
+
+function entry(overrides: Partial<PrdEntry> = {}): PrdEntry {
+  return { category: "feature", description: "Task", steps: [], passes: false, ...overrides };
+}
+
+// ─── prdItemKey ─────────────────────────────────────────────────────
+
+describe("prdItemKey", () => {
+  it("uses the id, or the description for items without one", () => {
+    expect(prdItemKey({ id: "login", description: "Add login" })).toBe("id:login");
+    expect(prdItemKey({ description: "Add login" })).toBe("description:Add login");
+  });
+});
+
+// ─── getPassingKeys ─────────────────────────────────────────────────
+
+describe("getPassingKeys", () => {
+  it("lists only passing items", () => {
+    const prd = [entry({ id: "a", passes: true }), entry({ id: "b" }), entry({ passes: true })];
+    expect(getPassingKeys(prd)).toEqual(["id:a", "description:Task"]);
+  });
+});
+
+// ─── restorePassesFlags ─────────────────────────────────────────────
+
+describe("restorePassesFlags", () => {
+  it("restores flags and marks items added since the checkpoint as not passing", () => {
+    const prd = [
+      entry({ id: "a", passes: true }),
+      entry({ id: "b", passes: false }),
+      entry({ id: "new", passes: true }),
+    ];
+    expect(restorePassesFlags(prd, ["id:b"])).toBe(3);
+    expect(prd.map((item) => item.passes)).toEqual([false, true, false]);
+  });
+
+  it("returns 0 when nothing changes", () => {
+    const prd = [entry({ id: "a", passes: true })];
+    expect(restorePassesFlags(prd, ["id:a"])).toBe(0);
+  });
+});
+
+// ─── getCheckpointRef ───────────────────────────────────────────────
+
+describe("getCheckpointRef", () => {
+  it("namespaces refs by run and iteration", () => {
+    expect(getCheckpointRef("2026-01-15T10-00-00", 3)).toBe(
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/3",
+    );
+  });
+});
+
+// ─── selectPrunableRefs ─────────────────────────────────────────────
+
+describe("selectPrunableRefs", () => {
+  const refs = [
+    "refs/ralph/checkpoints/2026-01-16T09-00-00/1/head",
+    "refs/ralph/checkpoints/2026-01-15T10-00-00/1/head",
+    "refs/ralph/checkpoints/2026-01-15T10-00-00/1/stash",
+    "refs/ralph/checkpoints/2026-01-15T10-00-00/2/head",
+    "refs/ralph/checkpoints/2026-01-15T10-00-00-2/1/head",
+    "refs/ralph/checkpoints/before-rollback/1700000000000",
+    "refs/ralph/checkpoints/before-rollback/900000000000",
+  ];
+
+  it("keeps the newest runs and rollback saves", () => {
+    expect(selectPrunableRefs(refs, 2)).toEqual([
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/1/head",
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/1/stash",
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/2/head",
+    ]);
+    expect(selectPrunableRefs(refs, 1)).toEqual([
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/1/head",
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/1/stash",
+      "refs/ralph/checkpoints/2026-01-15T10-00-00/2/head",
+      "refs/ralph/checkpoints/2026-01-15T10-00-00-2/1/head",
+      "refs/ralph/checkpoints/before-rollback/900000000000",
+    ]);
+  });
+
+  it("prunes nothing when there are no more runs than kept", () => {
+    expect(selectPrunableRefs(refs, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Per-iteration git checkpoints for `ralph run` and `ralph rollback`.
+ *
+ * Before each iteration ralph records the HEAD SHA of the workspace (or worktree) the
+ * iteration runs in, a stash commit of any uncommitted changes, and which PRD items
+ * were passing. Both commits are kept reachable under `refs/ralph/checkpoints/` so
+ * `git gc` doesn't remove them. Refs of older runs are pruned so they don't pile up.
+ */
+
+import { execFileSync } from "child_process";
+import type { PrdEntry } from "./prd-validator.js";
+
+export const CHECKPOINT_REF_PREFIX = "refs/ralph/checkpoints";
+export const BEFORE_ROLLBACK_REF_PREFIX = `${CHECKPOINT_REF_PREFIX}/before-rollback`;
+
+// Runs (and changes saved by rollback) whose checkpoint refs `ralph run` keeps
+export const DEFAULT_KEEP_CHECKPOINT_RUNS = 10;
+
+export interface Checkpoint {
+  dir: string; // Workspace or worktree the iteration ran in
+  head: string | null; // HEAD before the iteration (null in a repository without commits)
+  stash?: string; // Stash commit of uncommitted changes to tracked files, if any
+  passing: string[]; // PRD items passing before the iteration (see prdItemKey)
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: "pipe" }).trim();
+}
+
+/**
+ * Key identifying a PRD item in a checkpoint: its id, or its description for items without one.
+ */
+export function prdItemKey(item: { id?: string; description: string }): string {
+  return item.id ? `id:${item.id}` : `description:${item.description}`;
+}
+
+export function getPassingKeys(prd: PrdEntry[]): string[] {
+  return prd.filter((item) => item.passes).map(prdItemKey);
+}
+
+/**
+ * Sets each item's passes flag to what it was at the checkpoint. Items added after the
+ * checkpoint are marked as not passing. Returns the number of items changed.
+ */
+export function restorePassesFlags(prd: PrdEntry[], passing: string[]): number {
+  const passingSet = new Set(passing);
+  let changed = 0;
+  for (const item of prd) {
+    const passes = passingSet.has(prdItemKey(item));
+    if (item.passes !== passes) {
+      item.passes = passes;
+      changed++;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Returns a stash commit of uncommitted changes without touching the working tree,
+ * or undefined if the tree is clean. Untracked files are not included.
+ */
+export function createStashCommit(dir: string): string | undefined {
+  try {
+    return git(["stash", "create", "ralph checkpoint"], dir) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records a checkpoint of `dir` and keeps its commits reachable under `refName`.
+ * Git errors are ignored so a checkpoint failure never stops a run.
+ */
+export function createCheckpoint(dir: string, prd: PrdEntry[], refName: string): Checkpoint {
+  let head: string | null = null;
+  try {
+    head = git(["rev-parse", "HEAD"], dir);
+  } catch {
+    // No commits yet (or not a git repository)
+  }
+  const stash = head ? createStashCommit(dir) : undefined;
+
+  try {
+    if (head) git(["update-ref", `${refName}/head`, head], dir);
+    if (stash) git(["update-ref", `${refName}/stash`, stash], dir);
+  } catch {
+    // Ignore ref errors - the SHAs are still recorded in the ledger
+  }
+
+  return { dir, head, ...(stash && { stash }), passing: getPassingKeys(prd) };
+}
+
+/**
+ * Ref under which a run's iteration checkpoint is kept.
+ */
+export function getCheckpointRef(runId: string, iteration: number): string {
+  return `${CHECKPOINT_REF_PREFIX}/${runId}/${iteration}`;
+}
+
+/**
+ * Resets `dir` to the checkpoint's HEAD and re-applies its uncommitted changes.
+ * Throws if a git command fails.
+ */
+export function restoreCheckpoint(checkpoint: Checkpoint): void {
+  if (!checkpoint.head) {
+    throw new Error("The checkpoint has no HEAD commit (the repository had no commits yet).");
+  }
+  git(["reset", "--hard", checkpoint.head], checkpoint.dir);
+  if (checkpoint.stash) {
+    git(["stash", "apply", checkpoint.stash], checkpoint.dir);
+  }
+}
+
+/**
+ * Returns the checkpoint refs to delete so only the newest `keep` runs remain, and the
+ * newest `keep` changes saved by `ralph rollback`. Run ids and save timestamps both sort
+ * oldest first.
+ */
+export function selectPrunableRefs(refs: string[], keep: number): string[] {
+  const runs = new Map<string, string[]>();
+  const saved: string[] = [];
+  for (const ref of refs) {
+    if (ref.startsWith(`${BEFORE_ROLLBACK_REF_PREFIX}/`)) {
+      saved.push(ref);
+      continue;
+    }
+    if (!ref.startsWith(`${CHECKPOINT_REF_PREFIX}/`)) continue;
+    const runId = ref.slice(CHECKPOINT_REF_PREFIX.length + 1).split("/")[0];
+    runs.set(runId, [...(runs.get(runId) ?? []), ref]);
+  }
+
+  const oldRuns = [...runs.keys()].sort().slice(0, Math.max(0, runs.size - keep));
+  const savedAt = (ref: string) => Number(ref.slice(BEFORE_ROLLBACK_REF_PREFIX.length + 1));
+  const oldSaves = saved
+    .sort((a, b) => savedAt(a) - savedAt(b))
+    .slice(0, Math.max(0, saved.length - keep));
+  return [...oldRuns.flatMap((runId) => runs.get(runId) ?? []), ...oldSaves];
+}
+
+/**
+ * Deletes the checkpoint refs of all but the newest `keep` runs, so their stash commits
+ * can be garbage-collected. Git errors are ignored. Returns the number of refs deleted.
+ */
+export function pruneCheckpoints(dir: string, keep: number = DEFAULT_KEEP_CHECKPOINT_RUNS): number {
+  try {
+    const refs = git(["for-each-ref", "--format=%(refname)", CHECKPOINT_REF_PREFIX], dir)
+      .split("\n")
+      .filter(Boolean);
+    const prunable = selectPrunableRefs(refs, keep);
+    if (prunable.length === 0) return 0;
+    execFileSync("git", ["update-ref", "--stdin"], {
+      cwd: dir,
+      input: prunable.map((ref) => `delete ${ref}\n`).join(""),
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    return prunable.length;
+  } catch {
+    return 0;
+  }
+}
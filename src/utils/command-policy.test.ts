@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  splitShellCommand,
+  evaluateCommand,
+  evaluateArgv,
+  getPolicyRules,
+  generatePolicyShimScript,
+  getShimCommands,
+  getShimPrecheck,
+  findPolicyConfigPath,
+  loadPolicy,
+  POLICY_SHIM_DIR,
+  PolicyContext,
+} from "./command-policy.js";
+
+const context: PolicyContext = { cwd: "/workspace", home: "/home/node" };
+const defaults = getPolicyRules();
+
+function check(line: string, rules = defaults, ctx = context) {
+  const decision = evaluateCommand(line, rules, ctx);
+  return [decision.action, decision.rule];
+}
+
+// ─── splitShellCommand ──────────────────────────────────────────────
+
+describe("splitShellCommand", () => {
+  it("splits at operators outside quotes", () => {
+    expect(splitShellCommand(`cd src && git commit -m "a && b; c" | cat; echo 'x|y'`)).toEqual([
+      ["cd", "src"],
+      ["git", "commit", "-m", "a && b; c"],
+      ["cat"],
+      ["echo", "x|y"],
+    ]);
+  });
+
+  it("removes backslashes and joins quoted parts of a word", () => {
+    expect(splitShellCommand(`rm -r my\\ dir "a"'b'`)).toEqual([["rm", "-r", "my dir", "ab"]]);
+  });
+
+  it("returns the commands of substitutions before the command they appear in", () => {
+    expect(splitShellCommand(`echo "$(git log | head -1)" \`date\` '$(not run)'`)).toEqual([
+      ["git", "log"],
+      ["head", "-1"],
+      ["date"],
+      ["echo", "$(git log | head -1)", "`date`", "$(not run)"],
+    ]);
+  });
+});
+
+// ─── evaluateCommand ────────────────────────────────────────────────
+
+describe("evaluateCommand", () => {
+  it("denies the built-in destructive commands", () => {
+    expect(check("git reset --hard HEAD~1")).toEqual(["deny", "git-reset-hard"]);
+    expect(check("git push --force-with-lease origin main")).toEqual(["deny", "git-push-force"]);
+    expect(check("git push origin +main")).toEqual(["deny", "git-push-force"]);
+    expect(check("git clean -fd")).toEqual(["deny", "git-clean-force"]);
+    expect(check("rm -rf /")).toEqual(["deny", "rm-recursive-root"]);
+    expect(check("rm -rf ~")).toEqual(["deny", "rm-recursive-root"]);
+    expect(check("mkfs.ext4 /dev/sda1")).toEqual(["deny", "mkfs"]);
+    expect(check(`psql -c "DROP TABLE users"`)).toEqual(["deny", "sql-drop"]);
+  });
+
+  it("allows similar but harmless commands", () => {
+    expect(check("git push origin main")[0]).toBe("allow");
+    expect(check("rm -rf node_modules dist")[0]).toBe("allow");
+    expect(check(`git commit -m "never git reset --hard"`)[0]).toBe("allow");
+    expect(check("chmod -R 755 build")[0]).toBe("allow");
+  });
+
+  it("sees through wrappers and nested shells", () => {
+    expect(check("sudo -u root git reset --hard")).toEqual(["deny", "git-reset-hard"]);
+    expect(check("FOO=1 env git branch -D feature")).toEqual(["deny", "git-branch-force-delete"]);
+    expect(check(`bash -c "cd / && rm -rf *"`)).toEqual(["deny", "rm-recursive-root"]);
+    expect(check(`sh -ec "git clean -fd"`)).toEqual(["deny", "git-clean-force"]);
+  });
+
+  it("checks the commands of substitutions and eval", () => {
+    expect(check("echo $(git reset --hard)")).toEqual(["deny", "git-reset-hard"]);
+    expect(check("`rm -rf /`")).toEqual(["deny", "rm-recursive-root"]);
+    expect(check("eval 'git push --force'")).toEqual(["deny", "git-push-force"]);
+    expect(check(`echo "$(echo $(git branch -D old))"`)).toEqual([
+      "deny",
+      "git-branch-force-delete",
+    ]);
+    expect(check("echo '$(git reset --hard)'")[0]).toBe("allow");
+  });
+
+  it("resolves relative paths after cd", () => {
+    expect(check("cd / && rm -rf *")).toEqual(["deny", "rm-recursive-root"]);
+    expect(check("cd /workspace/src && rm -rf build")[0]).toBe("allow");
+    expect(check("cd src && rm -rf ../..")).toEqual(["deny", "rm-recursive-root"]);
+    expect(check("rm -rf .")).toEqual(["deny", "rm-recursive-root"]);
+  });
+
+  it("uses the first matching rule, so configured rules override the defaults", () => {
+    const rules = getPolicyRules({
+      rules: [
+        { action: "allow", command: "git", args: ["push", "--force-with-lease"] },
+        { name: "no-deploy", action: "deny", command: "npm", args: ["run", "deploy*"] },
+      ],
+    });
+    expect(check("git push --force-with-lease", rules)).toEqual(["allow", "allow git"]);
+    expect(check("git push --force", rules)).toEqual(["deny", "git-push-force"]);
+    expect(check("npm run deploy:prod", rules)).toEqual(["deny", "no-deploy"]);
+  });
+
+  it("keeps the most restrictive decision across commands", () => {
+    const rules = getPolicyRules({
+      rules: [{ name: "confirm-rm", action: "ask", command: "rm", paths: ["/workspace/data/*"] }],
+    });
+    expect(check("ls && rm data/cache.db", rules)).toEqual(["ask", "confirm-rm"]);
+    expect(check("rm data/cache.db; git reset --hard", rules)).toEqual(["deny", "git-reset-hard"]);
+    expect(check("rm other.db", rules)[0]).toBe("allow");
+  });
+
+  it("drops the built-in rules with defaults: false", () => {
+    expect(check("git reset --hard", getPolicyRules({ defaults: false }))[0]).toBe("allow");
+  });
+});
+
+// ─── evaluateArgv ───────────────────────────────────────────────────
+
+describe("evaluateArgv", () => {
+  it("checks one program with its expanded arguments", () => {
+    expect(evaluateArgv(["git", "push", "-f"], defaults, context).action).toBe("deny");
+    expect(evaluateArgv(["git", "commit", "-m", "push -f"], defaults, context).action).toBe(
+      "allow",
+    );
+    expect(evaluateArgv(["git", "status"], defaults, context)).toEqual({
+      action: "allow",
+    });
+  });
+});
+
+// ─── getShimCommands ────────────────────────────────────────────────
+
+describe("getShimCommands", () => {
+  it("lists literal rule commands and extra shims", () => {
+    expect(getShimCommands()).toEqual(["chmod", "chown", "dd", "git", "rm"]);
+    expect(
+      getShimCommands({ rules: [{ action: "deny", command: "npm" }], shims: ["psql"] }),
+    ).toEqual(["chmod", "chown", "dd", "git", "npm", "psql", "rm"]);
+  });
+});
+
+// ─── getShimPrecheck / generatePolicyShimScript ─────────────────────
+
+describe("getShimPrecheck", () => {
+  it("looks for the first argument of each built-in rule", () => {
+    expect(getShimPrecheck("git")).toEqual([
+      "'clean'",
+      "'checkout'",
+      "'reset'",
+      "'push'",
+      "'branch'",
+    ]);
+    expect(getShimPrecheck("rm")).toEqual(["-*r*|-*R*|'--recursive'"]);
+    expect(getShimPrecheck("dd")).toEqual(["'of=/dev/'*"]);
+  });
+
+  it("checks every call of programs the configured rules or shims name", () => {
+    expect(getShimPrecheck("git", { rules: [{ action: "allow", command: "git" }] })).toBeNull();
+    expect(getShimPrecheck("git", { rules: [{ action: "deny", command: "g*" }] })).toBeNull();
+    expect(getShimPrecheck("git", { rules: [{ action: "deny", pattern: "main" }] })).toBeNull();
+    expect(getShimPrecheck("git", { shims: ["git"] })).toBeNull();
+    expect(getShimPrecheck("npm", { rules: [{ action: "deny", command: "npm" }] })).toBeNull();
+    expect(getShimPrecheck("git", { rules: [{ action: "deny", command: "npm" }] })).not.toBeNull();
+  });
+});
+
+describe("generatePolicyShimScript", () => {
+  it("adds an argv check only for programs the built-in rules alone name", () => {
+    const script = generatePolicyShimScript({ rules: [{ action: "deny", command: "git" }] });
+    expect(script).toContain(`case "$arg" in -*r*|-*R*|'--recursive')`);
+    expect(script).not.toMatch(/^ {2}git\)$/m);
+    expect(script).toMatch(/^ {2}\*\)\n {4}exec ralph policy exec/m);
+    expect(script).toContain(`[ "$dir" = "${POLICY_SHIM_DIR}" ]`);
+  });
+});
+
+// ─── findPolicyConfigPath / loadPolicy ──────────────────────────────
+
+describe("findPolicyConfigPath / loadPolicy", () => {
+  let dir: string;
+  const savedEnv = process.env.RALPH_POLICY_CONFIG;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-policy-"));
+    delete process.env.RALPH_POLICY_CONFIG;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    if (savedEnv === undefined) delete process.env.RALPH_POLICY_CONFIG;
+    else process.env.RALPH_POLICY_CONFIG = savedEnv;
+  });
+
+  it("finds the nearest .ralph/config.json, or the one in RALPH_POLICY_CONFIG", () => {
+    mkdirSync(join(dir, ".ralph"));
+    mkdirSync(join(dir, "src", "lib"), { recursive: true });
+    writeFileSync(join(dir, ".ralph", "config.json"), "{}");
+
+    expect(findPolicyConfigPath(join(dir, "src", "lib"))).toBe(join(dir, ".ralph", "config.json"));
+    process.env.RALPH_POLICY_CONFIG = "/workspace/.ralph/config.json";
+    expect(findPolicyConfigPath(dir)).toBe("/workspace/.ralph/config.json");
+  });
+
+  it("adds legacy dangerous_patterns.txt patterns and falls back to defaults", () => {
+    mkdirSync(join(dir, ".ralph"));
+    mkdirSync(join(dir, ".claude", "hooks"), { recursive: true });
+    writeFileSync(
+      join(dir, ".claude", "hooks", "dangerous_patterns.txt"),
+      "# comment\nterraform destroy\n(unclosed\n",
+    );
+    const configPath = join(dir, ".ralph", "config.json");
+
+    writeFileSync(configPath, JSON.stringify({ policy: { enabled: false } }));
+    const policy = loadPolicy(configPath);
+    expect(policy.enabled).toBe(false);
+    expect(check("terraform destroy -auto-approve", policy.rules)).toEqual([
+      "deny",
+      "dangerous_patterns.txt",
+    ]);
+
+    writeFileSync(configPath, "{ broken");
+    expect(loadPolicy(configPath)).toEqual({ enabled: true, rules: policy.rules });
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * Command policy: deny, allow and ask rules for the shell commands an agent runs,
+ * configured with `policy` in .ralph/config.json.
+ *
+ * The same evaluator backs every CLI provider inside the container:
+ * - Claude Code calls `ralph policy hook claude` from its PreToolUse hook
+ * - other providers get PATH shims (see POLICY_SHIM_DIR) that run `ralph policy exec`
+ *   before the real program
+ *
+ * Rules are checked in order and the first match decides. Your rules come before the
+ * built-in ones, so an allow rule can carve an exception out of a default deny.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import type { CommandPolicyAction, CommandPolicyConfig, CommandPolicyRule } from "./config.js";
+
+// Directory of the PATH shims in the container image
+export const POLICY_SHIM_DIR = "/usr/local/lib/ralph-shims";
+
+// Script the shims link to, written to the Docker build context
+export const POLICY_SHIM_SCRIPT = "ralph-policy-shim.sh";
+
+export const POLICY_LOG_FILE = "policy-log.jsonl";
+
+// Legacy grep -E blocklist written by older versions of `ralph docker init`
+export const LEGACY_PATTERNS_FILE = join(".claude", "hooks", "dangerous_patterns.txt");
+
+export interface PolicyContext {
+  cwd: string;
+  home: string;
+}
+
+export interface PolicyDecision {
+  action: CommandPolicyAction;
+  rule?: string; // Name of the rule that matched, if any
+  reason?: string;
+  command?: string; // The part of the command line the rule matched
+}
+
+export interface PolicyLogEntry extends PolicyDecision {
+  timestamp: string;
+  via: string; // What asked: "claude-hook", "shim" or "check"
+  line: string; // The full command line
+  cwd: string;
+}
+
+export const DEFAULT_POLICY_RULES: CommandPolicyRule[] = [
+  {
+    name: "git-clean-force",
+    action: "deny",
+    command: "git",
+    args: ["clean", "-f|--force"],
+    reason: "deletes untracked files",
+  },
+  {
+    name: "git-checkout-all",
+    action: "deny",
+    command: "git",
+    args: ["checkout", "."],
+    reason: "discards all uncommitted changes",
+  },
+  {
+    name: "git-reset-hard",
+    action: "deny",
+    command: "git",
+    args: ["reset", "--hard"],
+    reason: "discards uncommitted changes",
+  },
+  {
+    name: "git-push-force",
+    action: "deny",
+    command: "git",
+    args: ["push", "-f|--force*|+*"],
+    reason: "rewrites remote history",
+  },
+  {
+    name: "git-branch-force-delete",
+    action: "deny",
+    command: "git",
+    args: ["branch", "-D"],
+    reason: "deletes unmerged branches",
+  },
+  {
+    name: "rm-recursive-root",
+    action: "deny",
+    command: "rm",
+    args: ["-r|-R|--recursive"],
+    paths: ["/", "/*", "~", "."],
+    reason: "recursively deletes the root, a top-level, home or current directory",
+  },
+  {
+    name: "mkfs",
+    action: "deny",
+    command: "mkfs*",
+    reason: "formats a filesystem",
+  },
+  {
+    name: "dd-to-device",
+    action: "deny",
+    command: "dd",
+    args: ["of=/dev/*"],
+    reason: "writes to a device",
+  },
+  {
+    name: "chmod-recursive-root",
+    action: "deny",
+    command: "chmod",
+    args: ["-R|--recursive"],
+    paths: ["/", "/*"],
+    reason: "changes permissions of system directories",
+  },
+  {
+    name: "chown-recursive-root",
+    action: "deny",
+    command: "chown",
+    args: ["-R|--recursive"],
+    paths: ["/", "/*"],
+    reason: "changes ownership of system directories",
+  },
+  {
+    name: "sql-drop",
+    action: "deny",
+    pattern: "\\b(DROP (TABLE|DATABASE)|TRUNCATE TABLE)\\b",
+    reason: "destroys database data",
+  },
+  {
+    name: "fork-bomb",
+    action: "deny",
+    pattern: ":\\(\\)\\s*\\{.*:\\s*\\|\\s*:.*\\}",
+    reason: "fork bomb",
+  },
+];
+
+// Prefixes that run the rest of the command line as a command
+const WRAPPERS = new Set(["sudo", "env", "command", "exec", "nohup", "time", "nice", "xargs"]);
+
+// Wrapper options that take a value (sudo -u root, nice -n 10, xargs -I {})
+const WRAPPER_VALUE_OPTIONS = new Set(["-u", "-g", "-n", "-I", "-P", "-L"]);
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash"]);
+
+const ACTION_RANK: Record<CommandPolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+export function ruleName(rule: CommandPolicyRule): string {
+  return rule.name ?? `${rule.action} ${rule.command ?? rule.pattern ?? "*"}`;
+}
+
+/**
+ * Rules in evaluation order: the configured ones, then patterns from a legacy
+ * dangerous_patterns.txt, then the built-in rules (unless `defaults: false`).
+ */
+export function getPolicyRules(
+  config?: CommandPolicyConfig,
+  legacyPatterns: string[] = [],
+): CommandPolicyRule[] {
+  const legacy = legacyPatterns.map(
+    (pattern): CommandPolicyRule => ({
+      name: "dangerous_patterns.txt",
+      action: "deny",
+      pattern,
+      reason: `matches "${pattern}"`,
+    }),
+  );
+  const defaults = config?.defaults === false ? [] : DEFAULT_POLICY_RULES;
+  return [...(config?.rules ?? []), ...legacy, ...defaults];
+}
+
+/**
+ * Reads the patterns from a legacy dangerous_patterns.txt, skipping comments,
+ * blank lines and patterns that aren't valid regular expressions.
+ */
+export function readLegacyPatterns(projectRoot: string): string[] {
+  const path = join(projectRoot, LEGACY_PATTERNS_FILE);
+  if (!existsSync(path)) return [];
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .filter((line) => {
+      try {
+        new RegExp(line);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+}
+
+/**
+ * Index of the `)` closing a `$(` whose body starts at `start`, or the end of the line.
+ */
+function findSubstitutionEnd(line: string, start: number): number {
+  let depth = 1;
+  let quote: "'" | '"' | null = null;
+  for (let i = start; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"') i++;
+    } else if (ch === "\\") {
+      i++;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return line.length;
+}
+
+/**
+ * Index of the backtick closing one whose body starts at `start`, or the end of the line.
+ */
+function findBacktickEnd(line: string, start: number): number {
+  for (let i = start; i < line.length; i++) {
+    if (line[i] === "\\") i++;
+    else if (line[i] === "`") return i;
+  }
+  return line.length;
+}
+
+/**
+ * Splits a shell command line into simple commands (argv arrays) at unquoted
+ * `;`, `&&`, `||`, `|`, `&` and newlines. Quotes and backslashes are removed the way
+ * the shell would. `$(...)` and backticks (outside single quotes) are not expanded, but
+ * the commands they run are returned too, before the command they appear in.
+ */
+export function splitShellCommand(line: string): string[][] {
+  const commands: string[][] = [];
+  let argv: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  const endWord = () => {
+    if (inWord) argv.push(word);
+    word = "";
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (argv.length > 0) commands.push(argv);
+    argv = [];
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote !== "'" && ((ch === "$" && line[i + 1] === "(") || ch === "`")) {
+      const start = ch === "`" ? i + 1 : i + 2;
+      const end = ch === "`" ? findBacktickEnd(line, start) : findSubstitutionEnd(line, start);
+      commands.push(...splitShellCommand(line.slice(start, end)));
+      word += line.slice(i, end + 1);
+      inWord = true;
+      i = end;
+    } else if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === "\\" && quote === '"' && i + 1 < line.length) {
+        word += line[++i];
+      } else {
+        word += ch;
+      }
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === "\\" && i + 1 < line.length) {
+      word += line[++i];
+      inWord = true;
+    } else if (ch === ";" || ch === "&" || ch === "|" || ch === "\n") {
+      endCommand();
+    } else if (ch === " " || ch === "\t") {
+      endWord();
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  endCommand();
+  return commands;
+}
+
+/**
+ * Drops leading variable assignments and wrappers like sudo or env, and expands
+ * `bash -c "..."` and `eval "..."` into the commands they run.
+ */
+function unwrapCommand(argv: string[]): string[][] {
+  let rest = argv;
+  while (rest.length > 0) {
+    const [first] = rest;
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(first)) {
+      rest = rest.slice(1);
+    } else if (WRAPPERS.has(basename(first))) {
+      rest = rest.slice(1);
+      while (rest.length > 0 && rest[0].startsWith("-")) {
+        rest = rest.slice(WRAPPER_VALUE_OPTIONS.has(rest[0]) ? 2 : 1);
+      }
+    } else {
+      break;
+    }
+  }
+  if (rest.length >= 3 && SHELLS.has(basename(rest[0])) && /^-[a-z]*c[a-z]*$/.test(rest[1])) {
+    return splitShellCommand(rest[2]).flatMap(unwrapCommand);
+  }
+  if (rest.length >= 2 && rest[0] === "eval") {
+    return splitShellCommand(rest.slice(1).join(" ")).flatMap(unwrapCommand);
+  }
+  return rest.length > 0 ? [rest] : [];
+}
+
+function globToRegExp(glob: string, segmentWildcard: boolean): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += segmentWildcard ? "[^/]*" : ".*";
+    } else if (ch === "?") {
+      source += ".";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Matches one argument matcher ("a|b" alternatives with * wildcards) against an argument.
+ * A single-letter flag like "-r" also matches combined short flags such as "-rf".
+ */
+function matchesArg(matcher: string, arg: string): boolean {
+  return matcher.split("|").some((alternative) => {
+    if (/^-[A-Za-z]$/.test(alternative) && /^-[A-Za-z]+$/.test(arg)) {
+      return arg.includes(alternative[1]);
+    }
+    return globToRegExp(alternative, false).test(arg);
+  });
+}
+
+function expandHome(path: string, home: string): string {
+  return path === "~" || path.startsWith("~/") ? home + path.slice(1) : path;
+}
+
+/**
+ * True if a path argument falls in one of the scopes. Scopes are absolute globs
+ * (* within a path segment, ** across segments), `~` for the home directory, or `.`
+ * for the current directory itself.
+ */
+function matchesPathScope(arg: string, scopes: string[], context: PolicyContext): boolean {
+  // An unexpanded * stands for the contents of the directory, so treat it as the directory
+  const literal = arg === "*" ? "." : arg.replace(/\/\*$/, "/");
+  const path = resolve(context.cwd, expandHome(literal, context.home));
+  return scopes.some((scope) => {
+    if (scope === ".") return path === resolve(context.cwd);
+    const pattern = expandHome(scope, context.home);
+    return globToRegExp(pattern, true).test(path) || (arg === scope && arg.includes("*"));
+  });
+}
+
+function matchesRule(
+  rule: CommandPolicyRule,
+  argv: string[],
+  line: string,
+  context: PolicyContext,
+): boolean {
+  if (
+    (rule.command || rule.args || rule.paths) &&
+    (argv.length === 0 ||
+      (rule.command && !globToRegExp(rule.command, false).test(basename(argv[0]))))
+  ) {
+    return false;
+  }
+  const args = argv.slice(1);
+  if (rule.args && !rule.args.every((matcher) => args.some((arg) => matchesArg(matcher, arg)))) {
+    return false;
+  }
+  if (rule.paths) {
+    const pathArgs = args.filter((arg) => !arg.startsWith("-"));
+    if (!pathArgs.some((arg) => matchesPathScope(arg, rule.paths!, context))) return false;
+  }
+  if (rule.pattern) {
+    try {
+      if (!new RegExp(rule.pattern).test(line)) return false;
+    } catch {
+      return false; // Invalid patterns never match
+    }
+  }
+  return true;
+}
+
+function decide(
+  rules: CommandPolicyRule[],
+  argv: string[],
+  line: string,
+  context: PolicyContext,
+): PolicyDecision {
+  const rule = rules.find((r) => matchesRule(r, argv, line, context));
+  if (!rule) return { action: "allow" };
+  return {
+    action: rule.action,
+    rule: ruleName(rule),
+    reason: rule.reason,
+    command: argv.join(" ") || line,
+  };
+}
+
+/**
+ * Evaluates an argv as the PATH shims see it: one program with its real arguments.
+ */
+export function evaluateArgv(
+  argv: string[],
+  rules: CommandPolicyRule[],
+  context: PolicyContext,
+): PolicyDecision {
+  return decide(rules, argv, argv.join(" "), context);
+}
+
+/**
+ * Evaluates a full shell command line. Each simple command is checked on its own
+ * (following `cd` for relative paths) and the most restrictive decision wins.
+ */
+export function evaluateCommand(
+  line: string,
+  rules: CommandPolicyRule[],
+  context: PolicyContext,
+): PolicyDecision {
+  const commands = splitShellCommand(line).flatMap(unwrapCommand);
+  let cwd = context.cwd;
+  let result: PolicyDecision = decide(rules, [], line, context);
+
+  for (const argv of commands) {
+    if (argv[0] === "cd") {
+      cwd = resolve(cwd, expandHome(argv[1] ?? "~", context.home));
+      continue;
+    }
+    const decision = decide(rules, argv, line, { ...context, cwd });
+    const rank = ACTION_RANK[decision.action] - ACTION_RANK[result.action];
+    // On a tie, prefer a decision made by a rule, so `ralph policy check` can name it
+    if (rank > 0 || (rank === 0 && !result.rule && decision.rule)) {
+      result = decision;
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the config.json whose policy applies: $RALPH_POLICY_CONFIG (set in the container
+ * image), else the nearest .ralph/config.json at or above `cwd`.
+ */
+export function findPolicyConfigPath(cwd: string = process.cwd()): string | null {
+  const fromEnv = process.env.RALPH_POLICY_CONFIG;
+  if (fromEnv) return fromEnv;
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const candidate = join(dir, ".ralph", "config.json");
+    if (existsSync(candidate)) return candidate;
+    if (dirname(dir) === dir) return null;
+  }
+}
+
+/**
+ * Loads the policy for `configPath`. A missing or unreadable config falls back to the
+ * built-in rules, so a broken config can't switch the policy off.
+ */
+export function loadPolicy(configPath: string | null): {
+  enabled: boolean;
+  rules: CommandPolicyRule[];
+} {
+  let config: CommandPolicyConfig | undefined;
+  try {
+    config = configPath ? JSON.parse(readFileSync(configPath, "utf-8")).policy : undefined;
+  } catch {
+    config = undefined;
+  }
+  const projectRoot = configPath ? dirname(dirname(configPath)) : process.cwd();
+  return {
+    enabled: config?.enabled !== false,
+    rules: getPolicyRules(config, readLegacyPatterns(projectRoot)),
+  };
+}
+
+/**
+ * Programs the container wraps with PATH shims: every literal `command` in the rules
+ * plus `policy.shims`. Rules with wildcard commands or only a pattern are enforced by
+ * hooks only, unless their programs are listed in `shims`.
+ */
+export function getShimCommands(config?: CommandPolicyConfig): string[] {
+  const commands = getPolicyRules(config)
+    .map((rule) => rule.command)
+    .filter((command): command is string => !!command && !/[*?|]/.test(command));
+  return [...new Set([...commands, ...(config?.shims ?? [])])].sort();
+}
+
+/**
+ * A shell case pattern matching at least the arguments one "a|b" matcher matches. It may
+ * match more (a single-letter flag like -r becomes -*r*), which only costs a call to
+ * `ralph policy exec`.
+ */
+function toCasePattern(matcher: string): string {
+  return matcher
+    .split("|")
+    .map((alternative) => {
+      if (/^-[A-Za-z]$/.test(alternative)) return `-*${alternative[1]}*`;
+      return alternative
+        .split(/([*?])/)
+        .map((part) =>
+          part === "*" || part === "?" || !part ? part : `'${part.replace(/'/g, "'\\''")}'`,
+        )
+        .join("");
+    })
+    .join("|");
+}
+
+/**
+ * Case patterns for the shim's argv check of `command`: a call with no argument matching
+ * one of them can't match a rule, so it runs without starting Node. Null when every call
+ * has to be checked: the program is in `shims`, a configured rule could match it, or a
+ * built-in rule for it has no arguments to look for.
+ */
+export function getShimPrecheck(command: string, config?: CommandPolicyConfig): string[] | null {
+  if (config?.shims?.includes(command)) return null;
+  const targets = (rule: CommandPolicyRule) =>
+    !rule.command || globToRegExp(rule.command, false).test(command);
+  if ((config?.rules ?? []).some(targets)) return null;
+
+  const defaults = config?.defaults === false ? [] : DEFAULT_POLICY_RULES;
+  const rules = defaults.filter((rule) => rule.command && targets(rule));
+  if (rules.length === 0 || rules.some((rule) => !rule.args?.length)) return null;
+  // Every matcher of a rule has to match, so checking for the first one is enough
+  return [...new Set(rules.map((rule) => toCasePattern(rule.args![0])))];
+}
+
+/**
+ * The script every PATH shim links to. Programs only the built-in rules name get a cheap
+ * argv check in the shell and run directly when no rule can match; everything else, and
+ * every call while a legacy dangerous_patterns.txt exists, goes through `ralph policy exec`.
+ */
+export function generatePolicyShimScript(config?: CommandPolicyConfig): string {
+  const prechecks = getShimCommands(config).flatMap((command) => {
+    const patterns = getShimPrecheck(command, config);
+    if (!patterns) return [];
+    return [
+      `  ${command})`,
+      `    for arg in "$@"; do`,
+      `      case "$arg" in ${patterns.join("|")}) exec ralph policy exec -- "$program" "$@" ;; esac`,
+      `    done`,
+      `    ;;`,
+    ];
+  });
+
+  return `#!/bin/sh
+# Command policy shim, generated by ralph docker init from "policy" in .ralph/config.json.
+# Every program in ${POLICY_SHIM_DIR} links here.
+program=\${0##*/}
+
+if [ -f "\${RALPH_POLICY_CONFIG%/*/*}/${LEGACY_PATTERNS_FILE}" ]; then
+  exec ralph policy exec -- "$program" "$@"
+fi
+
+case "$program" in
+${prechecks.join("\n")}${prechecks.length > 0 ? "\n" : ""}  *)
+    exec ralph policy exec -- "$program" "$@"
+    ;;
+esac
+
+# No rule can match this call: run the real program, skipping the shims
+real_path=
+IFS=:
+set -f
+for dir in $PATH; do
+  [ "$dir" = "${POLICY_SHIM_DIR}" ] || real_path="\${real_path:+$real_path:}$dir"
+done
+PATH=$real_path
+exec "$program" "$@"
+`;
+}
+
+/**
+ * Appends a block (deny or ask) decision to the policy log. Best effort.
+ */
+export function logPolicyDecision(logPath: string, entry: PolicyLogEntry): void {
+  try {
+    appendFileSync(logPath, JSON.stringify(entry) + "\n");
+  } catch {
+    // Logging must never turn into a reason to run or block a command
+  }
+}
+
+export function getDefaultPolicyContext(): PolicyContext {
+  return { cwd: process.cwd(), home: process.env.HOME || homedir() };
+}
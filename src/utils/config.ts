@@ -1,4 +1,4 @@
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, readFileSync, writeFileSync, readdirSync } from "fs";
 import { join, basename } from "path";
 import { getCliProviders, DEFAULT_PRD_YAML, DEFAULT_PROGRESS } from "../templates/prompts.js";
 
@@ -9,9 +9,18 @@ export interface CliConfig {
   promptArgs?: string[];
   modelArgs?: string[];
   model?: string; // Default model name to use (e.g., "claude-sonnet-4-20250514"). Overridden by --model flag.
+  models?: string[]; // Ordered model fallback chain, cheapest first. Takes precedence over model.
+  escalation?: ModelEscalationConfig; // When `ralph run` moves along the models chain
   fileArgs?: string[]; // Args for including files (e.g., ["--read"] for Aider). If not set, uses @file syntax in prompt.
 }
 
+export interface ModelEscalationConfig {
+  afterIterationsWithoutProgress?: number; // Switch to the next model after this many iterations on the same task without progress (default: 2, 0 disables)
+  onRateLimit?: boolean; // Retry with the next model on rate-limit/overload errors in stderr (default: true)
+  errorPatterns?: string[]; // Extra stderr regular expressions that trigger a fallback
+  resetOnProgress?: boolean; // Go back to the first model after a task completes (default: true)
+}
+
 /**
  * LLM Provider Types
  * - anthropic: Anthropic Claude API
@@ -68,6 +77,12 @@ export interface AsciinemaConfig {
   streamJson?: StreamJsonConfig; // Stream JSON output for cleaner recordings
 }
 
+export interface FirewallConfig {
+  allowedDomains?: string[]; // Extra domains the container may reach
+  mode?: "enforce" | "audit"; // audit logs traffic outside the allowlist but lets it through (default: enforce)
+  refreshInterval?: number; // Seconds between DNS re-resolutions of the allowed domains (default: 300, 0 = off)
+}
+
 export interface DaemonActionConfig {
   command: string; // Command to execute on host
   description?: string; // Human-readable description of the action
@@ -185,6 +200,64 @@ export interface ChatConfig {
   responders?: RespondersConfig; // Chat responders for handling messages
 }
 
+/**
+ * Verification steps: "check" runs checkCommand, "test" runs testCommand.
+ */
+export type VerificationStep = "check" | "test";
+
+export interface VerificationCategoryConfig {
+  enabled?: boolean; // Overrides verification.enabled for this category
+  steps?: VerificationStep[]; // Overrides verification.steps for this category
+}
+
+export interface VerificationConfig {
+  enabled?: boolean; // Run checks before accepting tasks marked as passing (default: false)
+  steps?: VerificationStep[]; // Commands to run (default: ["check", "test"])
+  timeout?: number; // Timeout per command in seconds (default: 600)
+  categories?: Record<string, VerificationCategoryConfig>; // Per-category overrides, e.g. { "docs": { "enabled": false } }
+}
+
+export interface IterationTimeoutConfig {
+  timeout?: number; // Wall-clock limit per iteration in seconds (default: none)
+  idleTimeout?: number; // Stop the agent after this many seconds without output (default: none)
+  killGrace?: number; // Seconds between SIGTERM and SIGKILL when stopping the agent (default: 10)
+}
+
+export interface TaskPickConfig {
+  strategy?: string; // Order in which unblocked items are handed to the agent (default: "fifo")
+  maxTasksInContext?: number; // Only show the agent the first N items per iteration (default: all)
+}
+
+export interface PrdLintConfig {
+  rules?: Record<string, string>; // Severity per rule: "error", "warning" or "off"
+  strict?: boolean; // Warnings fail `ralph prd lint` too (default: false)
+  blockRun?: boolean; // `ralph run` refuses to start while the PRD has lint errors (default: false)
+}
+
+export type CommandPolicyAction = "deny" | "allow" | "ask";
+
+export interface CommandPolicyRule {
+  name?: string; // Shown in block messages and the policy log
+  action: CommandPolicyAction;
+  command?: string; // Program the rule applies to, e.g. "git" or "mkfs*" (default: any)
+  args?: string[]; // Each must match an argument: "a|b" alternatives, * wildcards, "-r" matches "-rf"
+  paths?: string[]; // Only when a path argument is in one of these scopes (globs, ~, . for cwd)
+  pattern?: string; // Regular expression matched against the whole command line
+  reason?: string;
+}
+
+export interface CommandPolicyConfig {
+  enabled?: boolean; // Enforce the policy in the container (default: true)
+  defaults?: boolean; // Apply the built-in deny rules after your own (default: true)
+  rules?: CommandPolicyRule[]; // Checked in order, first match wins
+  shims?: string[]; // Extra programs to wrap with PATH shims, e.g. ["psql"]
+}
+
+export interface PrdCategoryConfig {
+  name: string;
+  description?: string; // Shown by `ralph add` and in the MCP tool schemas
+}
+
 export interface BranchState {
   baseBranch: string; // The base branch (e.g., "main") that /workspace is on
   currentBranch: string; // The branch being actively worked on (e.g., "feat/resume-test")
@@ -203,6 +276,15 @@ export interface RalphConfig {
   cliProvider?: string;
   llmProviders?: LLMProvidersConfig; // Named LLM providers for chat responders
   branch?: BranchState; // Active branch state for resume after interruption
+  maxCostUsd?: number; // Stop `ralph run` once the run's reported cost reaches this (USD)
+  maxTokens?: number; // Stop `ralph run` once the run's total token usage reaches this
+  verification?: VerificationConfig; // Run checkCommand/testCommand before accepting completed tasks
+  iteration?: IterationTimeoutConfig; // Time limits for each `ralph run` iteration
+  maxAttemptsPerTask?: number; // Quarantine a PRD item after this many failed attempts (default: no limit)
+  categories?: (string | PrdCategoryConfig)[]; // PRD categories added to the built-in ones
+  pick?: TaskPickConfig; // Defaults for `ralph run --pick` / `--max-tasks-in-context`
+  lint?: PrdLintConfig; // Rules for `ralph prd lint`
+  policy?: CommandPolicyConfig; // Deny/allow/ask rules for commands the agent runs
   docker?: {
     ports?: string[];
     volumes?: string[];
@@ -218,9 +300,8 @@ export interface RalphConfig {
     };
     startCommand?: string;
     asciinema?: AsciinemaConfig;
-    firewall?: {
-      allowedDomains?: string[];
-    };
+    firewall?: FirewallConfig;
+    runtime?: "auto" | "docker" | "podman" | "nerdctl"; // Container runtime for ralph docker (default: auto-detect)
     autoStart?: boolean; // Automatically restart container when Docker/Podman starts
     restartCount?: number; // Max restart attempts on failure (uses on-failure policy). 0 = no restart, >0 = max retries
     worktreesPath?: string; // Host-side path for git worktree storage, mounted at /worktrees in the container
@@ -287,12 +368,14 @@ const CONFIG_FILE = "config.json";
 const PROMPT_FILE = "prompt.md";
 const PRD_FILE_JSON = "prd.json";
 const PRD_FILE_YAML = "prd.yaml";
+const PRD_DIR = "prd"; // One PRD file per epic: .ralph/prd/*.yaml
 const PROGRESS_FILE = "progress.txt";
 
 /**
  * Gets the PRD file path(s) that exist.
  * Returns an object with:
- * - primary: The main PRD file path to use (yaml preferred over json)
+ * - primary: The main PRD file path to use (yaml preferred over json), or the .ralph/prd/
+ *   directory when the PRD is split into one file per epic and there's no prd.yaml/prd.json
  * - secondary: The secondary PRD file path if both exist (for merging)
  * - jsonOnly: True if only prd.json exists (shows migration notice)
  * - yamlOnly: True if only prd.yaml exists (happy path)
@@ -344,6 +427,16 @@ export function getPrdFiles(): {
       both: false,
       none: false,
     };
+  } else if (hasPrdDirectory(join(ralphDir, PRD_DIR))) {
+    // Split PRD - the files in .ralph/prd/ are merged by readPrdFile
+    return {
+      primary: join(ralphDir, PRD_DIR),
+      secondary: null,
+      jsonOnly: false,
+      yamlOnly: false,
+      both: false,
+      none: false,
+    };
   } else {
     // No PRD file exists
     return {
@@ -357,6 +450,17 @@ export function getPrdFiles(): {
   }
 }
 
+/**
+ * True if the directory exists and holds at least one PRD file.
+ */
+function hasPrdDirectory(dir: string): boolean {
+  try {
+    return readdirSync(dir).some((name) => /\.(ya?ml|json)$/i.test(name));
+  } catch {
+    return false;
+  }
+}
+
 export function getRalphDir(): string {
   return join(process.cwd(), RALPH_DIR);
 }
@@ -582,7 +686,7 @@ export function getLLMProviderBaseUrl(provider: LLMProviderConfig): string {
  * Get LLM providers from config, merging with defaults.
  * User-defined providers override defaults with the same name.
  */
-export function getLLMProviders(config: RalphConfig): LLMProvidersConfig {
+export function getLLMProviders(config: Pick<RalphConfig, "llmProviders">): LLMProvidersConfig {
   return {
     ...DEFAULT_LLM_PROVIDERS,
     ...(config.llmProviders ?? {}),
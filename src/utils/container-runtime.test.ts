@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  createContainerRuntime,
+  detectContainerRuntime,
+  getContainerRuntime,
+} from "./container-runtime.js";
+
+function fakeRun(outputs: Record<string, string>) {
+  return (command: string, args: string[]): string | null =>
+    outputs[`${command} ${args[0]}`] ?? null;
+}
+
+// ─── detectContainerRuntime ─────────────────────────────────────────
+
+describe("detectContainerRuntime", () => {
+  it("prefers Docker when its daemon answers", () => {
+    const run = fakeRun({
+      "docker version": "27.1.1",
+      "docker --version": "Docker version 27.1.1, build 6312585",
+      "podman version": "5.2.0",
+    });
+    expect(detectContainerRuntime(run)).toBe("docker");
+  });
+
+  it("uses Podman when docker is missing, not running or Podman's alias", () => {
+    expect(detectContainerRuntime(fakeRun({ "podman version": "5.2.0" }))).toBe("podman");
+    expect(
+      detectContainerRuntime(
+        fakeRun({
+          "docker version": "5.2.0",
+          "docker --version": "podman version 5.2.0",
+          "podman version": "5.2.0",
+        }),
+      ),
+    ).toBe("podman");
+  });
+
+  it("falls back to nerdctl, then Docker", () => {
+    expect(detectContainerRuntime(fakeRun({ "nerdctl version": "Client: ..." }))).toBe("nerdctl");
+    expect(detectContainerRuntime(fakeRun({}))).toBe("docker");
+  });
+});
+
+// ─── createContainerRuntime ─────────────────────────────────────────
+
+describe("createContainerRuntime", () => {
+  it("runs compose through each runtime's CLI", () => {
+    for (const name of ["docker", "podman", "nerdctl"] as const) {
+      const runtime = createContainerRuntime(name);
+      expect(runtime.command).toBe(name);
+      expect(runtime.composeCommand(["-p", "ralph-app", "build"])).toEqual({
+        command: name,
+        args: ["compose", "-p", "ralph-app", "build"],
+      });
+    }
+  });
+
+  it("maps the node user to the host user with rootless Podman only", () => {
+    const podman = createContainerRuntime("podman");
+    expect(podman.composeServiceOptions(true).join("\n")).toContain(
+      'userns_mode: "keep-id:uid=1000,gid=1000"',
+    );
+    expect(podman.composeServiceOptions(false)).toEqual([]);
+    expect(podman.bindMountOptions()).toEqual(["z"]);
+    expect(podman.runArgs(true)).toEqual(["--userns=keep-id:uid=1000,gid=1000"]);
+    expect(podman.hasPods).toBe(true);
+
+    const docker = createContainerRuntime("docker");
+    expect(docker.composeServiceOptions(true)).toEqual([]);
+    expect(docker.bindMountOptions()).toEqual([]);
+    expect(docker.runArgs(true)).toEqual([]);
+    expect(docker.hasPods).toBe(false);
+  });
+
+  it("uses the configured runtime without detecting", () => {
+    expect(getContainerRuntime("nerdctl").name).toBe("nerdctl");
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Container runtime abstraction for `ralph docker`.
+ * Docker, Podman and nerdctl share the Docker CLI and Compose file format, but differ in
+ * how compose is invoked, whether they group containers into pods and how bind mounts
+ * behave when the runtime is rootless.
+ */
+
+import { spawnSync } from "child_process";
+
+export type ContainerRuntimeName = "docker" | "podman" | "nerdctl";
+
+// UID/GID of the node user in the generated image
+const CONTAINER_UID = 1000;
+const CONTAINER_GID = 1000;
+
+const PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * A container runtime that can build and run the generated docker-compose.yml.
+ */
+export interface ContainerRuntime {
+  /** Runtime name, as set with docker.runtime */
+  readonly name: ContainerRuntimeName;
+  /** CLI binary used for image, volume and container commands */
+  readonly command: string;
+  /** Whether the runtime groups containers into pods that `clean` must remove */
+  readonly hasPods: boolean;
+
+  /**
+   * Command and arguments that run a compose subcommand, e.g. ["compose", "-p", name, "build"].
+   */
+  composeCommand(args: string[]): { command: string; args: string[] };
+
+  /** Whether the runtime runs containers without root on the host */
+  isRootless(): boolean;
+
+  /**
+   * Extra service keys for docker-compose.yml (indented lines), e.g. user namespace mapping.
+   */
+  composeServiceOptions(rootless: boolean): string[];
+
+  /** Options appended to the project bind mounts, e.g. "z" for SELinux relabeling */
+  bindMountOptions(): string[];
+
+  /** `run` arguments for containers started without compose (dev containers) */
+  runArgs(rootless: boolean): string[];
+}
+
+/**
+ * Runs a command and returns its trimmed stdout, or null when it fails or isn't installed.
+ */
+function probe(command: string, args: string[]): string | null {
+  const result = spawnSync(command, args, {
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "ignore"],
+    timeout: PROBE_TIMEOUT_MS,
+  });
+  return result.status === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Docker Engine (also Docker Desktop). Rootless Docker is detected but needs no changes:
+ * the container's node user maps to a subordinate UID on the host.
+ */
+export class DockerRuntime implements ContainerRuntime {
+  readonly name: ContainerRuntimeName = "docker";
+  readonly command: string = "docker";
+  readonly hasPods: boolean = false;
+
+  composeCommand(args: string[]): { command: string; args: string[] } {
+    return { command: this.command, args: ["compose", ...args] };
+  }
+
+  isRootless(): boolean {
+    return (
+      probe(this.command, ["info", "--format", "{{.SecurityOptions}}"])?.includes("rootless") ??
+      false
+    );
+  }
+
+  composeServiceOptions(_rootless: boolean): string[] {
+    return [];
+  }
+
+  bindMountOptions(): string[] {
+    return [];
+  }
+
+  runArgs(_rootless: boolean): string[] {
+    return [];
+  }
+}
+
+/**
+ * Podman, usually rootless. Rootless Podman maps the container's node user to the host
+ * user (keep-id), so files written to the workspace stay owned by you, and bind mounts
+ * are relabeled for SELinux hosts.
+ */
+export class PodmanRuntime implements ContainerRuntime {
+  readonly name: ContainerRuntimeName = "podman";
+  readonly command: string = "podman";
+  readonly hasPods: boolean = true;
+
+  composeCommand(args: string[]): { command: string; args: string[] } {
+    return { command: this.command, args: ["compose", ...args] };
+  }
+
+  isRootless(): boolean {
+    return probe(this.command, ["info", "--format", "{{.Host.Security.Rootless}}"]) === "true";
+  }
+
+  composeServiceOptions(rootless: boolean): string[] {
+    if (!rootless) return [];
+    return [
+      "    # Rootless Podman: run as your host user so workspace files keep their owner",
+      `    userns_mode: "keep-id:uid=${CONTAINER_UID},gid=${CONTAINER_GID}"`,
+    ];
+  }
+
+  bindMountOptions(): string[] {
+    return ["z"];
+  }
+
+  runArgs(rootless: boolean): string[] {
+    return rootless ? [`--userns=keep-id:uid=${CONTAINER_UID},gid=${CONTAINER_GID}`] : [];
+  }
+}
+
+/**
+ * nerdctl for containerd (Rancher Desktop, Lima, Finch).
+ */
+export class NerdctlRuntime implements ContainerRuntime {
+  readonly name: ContainerRuntimeName = "nerdctl";
+  readonly command: string = "nerdctl";
+  readonly hasPods: boolean = false;
+
+  composeCommand(args: string[]): { command: string; args: string[] } {
+    return { command: this.command, args: ["compose", ...args] };
+  }
+
+  isRootless(): boolean {
+    // nerdctl only runs without root through RootlessKit
+    return process.getuid?.() !== 0;
+  }
+
+  composeServiceOptions(_rootless: boolean): string[] {
+    return [];
+  }
+
+  bindMountOptions(): string[] {
+    return [];
+  }
+
+  runArgs(_rootless: boolean): string[] {
+    return [];
+  }
+}
+
+/**
+ * Creates the runtime with the given name.
+ */
+export function createContainerRuntime(name: ContainerRuntimeName): ContainerRuntime {
+  switch (name) {
+    case "podman":
+      return new PodmanRuntime();
+    case "nerdctl":
+      return new NerdctlRuntime();
+    default:
+      return new DockerRuntime();
+  }
+}
+
+/**
+ * Finds the first usable runtime: Docker when its daemon answers (and `docker` isn't
+ * Podman's docker alias), then Podman, then nerdctl. Falls back to Docker, so the usual
+ * "failed to run docker" errors explain what is missing.
+ */
+export function detectContainerRuntime(
+  run: (command: string, args: string[]) => string | null = probe,
+): ContainerRuntimeName {
+  const docker = run("docker", ["version", "--format", "{{.Server.Version}}"]);
+  if (docker !== null && !run("docker", ["--version"])?.toLowerCase().includes("podman")) {
+    return "docker";
+  }
+  if (run("podman", ["version", "--format", "{{.Version}}"]) !== null) {
+    return "podman";
+  }
+  if (run("nerdctl", ["version"]) !== null) {
+    return "nerdctl";
+  }
+  return "docker";
+}
+
+let detected: ContainerRuntimeName | undefined;
+
+/**
+ * Returns the runtime set with docker.runtime, or the detected one for "auto" (the default).
+ * Detection runs once per process.
+ */
+export function getContainerRuntime(setting?: ContainerRuntimeName | "auto"): ContainerRuntime {
+  if (setting && setting !== "auto") {
+    return createContainerRuntime(setting);
+  }
+  detected ??= detectContainerRuntime();
+  return createContainerRuntime(detected);
+}
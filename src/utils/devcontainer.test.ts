@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  generateDevcontainerJson,
+  getDevcontainerPath,
+  readDevcontainerHash,
+  toDevcontainerMount,
+} from "./devcontainer.js";
+
+/** Parses the generated JSONC by dropping its comment lines. */
+function parse(content: string): Record<string, any> {
+  const json = content
+    .split("\n")
+    .filter((line) => !line.startsWith("//"))
+    .join("\n");
+  return JSON.parse(json);
+}
+
+// ─── toDevcontainerMount ────────────────────────────────────────────
+
+describe("toDevcontainerMount", () => {
+  it("resolves relative sources from .ralph/docker like compose does", () => {
+    expect(toDevcontainerMount("../../data:/data")).toBe(
+      "source=${localWorkspaceFolder}/data,target=/data,type=bind",
+    );
+  });
+
+  it("keeps absolute and home sources as binds and names as volumes", () => {
+    expect(toDevcontainerMount("~/.ssh:/home/node/.ssh:ro")).toBe(
+      "source=${localEnv:HOME}/.ssh,target=/home/node/.ssh,type=bind,readonly",
+    );
+    expect(toDevcontainerMount("/var/cache:/cache")).toBe(
+      "source=/var/cache,target=/cache,type=bind",
+    );
+    expect(toDevcontainerMount("gradle-cache:/home/node/.gradle")).toBe(
+      "source=gradle-cache,target=/home/node/.gradle,type=volume",
+    );
+  });
+});
+
+// ─── generateDevcontainerJson ───────────────────────────────────────
+
+describe("generateDevcontainerJson", () => {
+  it("builds the shared Dockerfile and runs the firewall on start", () => {
+    const devcontainer = parse(generateDevcontainerJson({ name: "app", configHash: "abc" }));
+    expect(devcontainer.build).toEqual({
+      dockerfile: "../.ralph/docker/Dockerfile",
+      context: "../.ralph/docker",
+    });
+    expect(devcontainer.capAdd).toEqual(["NET_ADMIN"]);
+    expect(devcontainer.postStartCommand).toContain("init-firewall.sh");
+    expect(devcontainer.appPort).toBeUndefined();
+    expect(devcontainer.customizations).toBeUndefined();
+  });
+
+  it("translates ports, volumes, environment, env file and MCP servers", () => {
+    const devcontainer = parse(
+      generateDevcontainerJson({
+        name: "app",
+        configHash: "abc",
+        runArgs: ["--userns=keep-id:uid=1000,gid=1000"],
+        docker: {
+          ports: ["3000:3000"],
+          volumes: ["cache:/cache"],
+          environment: { API_KEY: "${API_KEY}", MODE: "dev" },
+          envFile: ".env",
+        },
+        mcpServers: {
+          github: { command: "npx", args: ["-y", "@modelcontextprotocol/server-github"] },
+        },
+      }),
+    );
+    expect(devcontainer.appPort).toEqual(["3000:3000"]);
+    expect(devcontainer.mounts).toContain("source=cache,target=/cache,type=volume");
+    expect(devcontainer.containerEnv).toEqual({ API_KEY: "${localEnv:API_KEY}", MODE: "dev" });
+    expect(devcontainer.runArgs).toEqual([
+      "--userns=keep-id:uid=1000,gid=1000",
+      "--env-file",
+      "${localWorkspaceFolder}/.env",
+    ]);
+    expect(devcontainer.customizations.vscode.mcp.servers.github).toEqual({
+      type: "stdio",
+      command: "npx",
+      args: ["-y", "@modelcontextprotocol/server-github"],
+    });
+  });
+});
+
+// ─── readDevcontainerHash ───────────────────────────────────────────
+
+describe("readDevcontainerHash", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-devcontainer-"));
+    mkdirSync(join(dir, ".devcontainer"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads the hash of a generated file", () => {
+    writeFileSync(
+      getDevcontainerPath(dir),
+      generateDevcontainerJson({ name: "app", configHash: "0123abcd" }),
+    );
+    expect(readDevcontainerHash(dir)).toBe("0123abcd");
+  });
+
+  it("returns null for missing or hand-written files", () => {
+    expect(readDevcontainerHash(join(dir, "missing"))).toBeNull();
+    writeFileSync(getDevcontainerPath(dir), '{ "name": "mine" }\n');
+    expect(readDevcontainerHash(dir)).toBeNull();
+  });
+});
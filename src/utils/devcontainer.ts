@@ -0,0 +1,128 @@
+/**
+ * devcontainer.json generation for `ralph docker init --devcontainer`.
+ *
+ * The dev container builds the same .ralph/docker/Dockerfile as `ralph docker`, so packages,
+ * build commands and the firewall script are shared. Mounts, ports, environment and MCP
+ * servers are translated from RalphConfig.docker and claude.mcpServers.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join, posix } from "path";
+import { RalphConfig } from "./config.js";
+
+export const DEVCONTAINER_DIR = ".devcontainer";
+export const DEVCONTAINER_FILE = "devcontainer.json";
+
+const HASH_MARKER = "ralph-config-hash:";
+
+// Compose files live in .ralph/docker/, so relative volume paths start there
+const COMPOSE_DIR = ".ralph/docker";
+
+export interface DevcontainerOptions {
+  name: string;
+  configHash: string; // computeConfigHash of the config the file was generated from
+  docker?: RalphConfig["docker"];
+  mcpServers?: NonNullable<RalphConfig["claude"]>["mcpServers"];
+  runArgs?: string[]; // Runtime-specific run arguments, e.g. Podman's --userns
+}
+
+export function getDevcontainerPath(projectRoot: string): string {
+  return join(projectRoot, DEVCONTAINER_DIR, DEVCONTAINER_FILE);
+}
+
+/**
+ * Turns compose-style `${VAR}` and `~` references into devcontainer variables.
+ */
+function toLocalEnv(value: string): string {
+  return value.replace(/^~(?=\/|$)/, "${localEnv:HOME}").replace(/\$\{(\w+)\}/g, "${localEnv:$1}");
+}
+
+/**
+ * Converts a compose short-syntax volume (`source:target[:ro]`) to a devcontainer mount.
+ */
+export function toDevcontainerMount(volume: string): string {
+  const [source, target, mode] = volume.split(":");
+  if (!target) {
+    return `target=${source},type=volume`;
+  }
+
+  let mount: string;
+  if (source.startsWith(".")) {
+    const path = posix.normalize(posix.join(COMPOSE_DIR, source));
+    mount = `source=\${localWorkspaceFolder}/${path},target=${target},type=bind`;
+  } else if (source.startsWith("/") || source.startsWith("~") || source.startsWith("${")) {
+    mount = `source=${toLocalEnv(source)},target=${target},type=bind`;
+  } else {
+    mount = `source=${source},target=${target},type=volume`;
+  }
+  return mode?.split(",").includes("ro") ? `${mount},readonly` : mount;
+}
+
+/**
+ * Generates devcontainer.json (JSON with comments) for the project sandbox.
+ */
+export function generateDevcontainerJson(options: DevcontainerOptions): string {
+  const { docker } = options;
+
+  const mounts = [
+    "source=${localEnv:HOME}/.claude,target=/home/node/.claude,type=bind",
+    `source=${options.name}-history,target=/commandhistory,type=volume`,
+  ];
+  if (docker?.worktreesPath) {
+    mounts.push(toDevcontainerMount(`${docker.worktreesPath}:/worktrees`));
+  }
+  mounts.push(...(docker?.volumes ?? []).map(toDevcontainerMount));
+
+  const runArgs = [...(options.runArgs ?? [])];
+  if (docker?.envFile) {
+    runArgs.push("--env-file", `\${localWorkspaceFolder}/${docker.envFile}`);
+  }
+
+  const containerEnv = Object.fromEntries(
+    Object.entries(docker?.environment ?? {}).map(([key, value]) => [key, toLocalEnv(value)]),
+  );
+
+  const mcpServers = Object.fromEntries(
+    Object.entries(options.mcpServers ?? {}).map(([name, server]) => [
+      name,
+      { type: "stdio", ...server },
+    ]),
+  );
+
+  const devcontainer: Record<string, unknown> = {
+    name: options.name,
+    build: {
+      dockerfile: `../${COMPOSE_DIR}/Dockerfile`,
+      context: `../${COMPOSE_DIR}`,
+    },
+    workspaceFolder: "/workspace",
+    workspaceMount: "source=${localWorkspaceFolder},target=/workspace,type=bind",
+    remoteUser: "node",
+    capAdd: ["NET_ADMIN"],
+    mounts,
+    ...(runArgs.length > 0 && { runArgs }),
+    ...(docker?.ports && docker.ports.length > 0 && { appPort: docker.ports }),
+    ...(Object.keys(containerEnv).length > 0 && { containerEnv }),
+    postStartCommand: "sudo /usr/local/bin/init-firewall.sh",
+    ...(Object.keys(mcpServers).length > 0 && {
+      customizations: { vscode: { mcp: { servers: mcpServers } } },
+    }),
+  };
+
+  return `// Dev container for this project, generated by ralph-cli from .ralph/config.json.
+// It builds the same Dockerfile as 'ralph docker'; regenerate with 'ralph docker init --devcontainer'.
+// ${HASH_MARKER} ${options.configHash}
+${JSON.stringify(devcontainer, null, 2)}
+`;
+}
+
+/**
+ * Reads the config hash recorded in a generated devcontainer.json. Returns null when the
+ * file doesn't exist or wasn't generated by Ralph.
+ */
+export function readDevcontainerHash(projectRoot: string): string | null {
+  const path = getDevcontainerPath(projectRoot);
+  if (!existsSync(path)) return null;
+  const match = readFileSync(path, "utf-8").match(new RegExp(`^// ${HASH_MARKER} (\\S+)$`, "m"));
+  return match ? match[1] : null;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  compareStages,
+  hashStage,
+  loadStageState,
+  renderDockerfile,
+  saveStageState,
+  toStageRecords,
+  DockerStage,
+} from "./docker-stages.js";
+
+function makeStages(packages: string[] = ["htop"]): DockerStage[] {
+  return [
+    { name: "base", description: "system tools", inputs: {}, instructions: "RUN echo base" },
+    {
+      name: "packages",
+      description: "custom packages",
+      inputs: { "docker.packages": packages },
+      instructions: `RUN apt-get install -y ${packages.join(" ")}`,
+    },
+    {
+      name: "sandbox",
+      description: "firewall",
+      inputs: {},
+      instructions: "COPY init-firewall.sh /usr/local/bin/",
+      copies: ["init-firewall.sh"],
+    },
+  ];
+}
+
+function records(packages?: string[], firewall = "echo firewall") {
+  return toStageRecords(makeStages(packages), { "init-firewall.sh": firewall });
+}
+
+// ─── renderDockerfile ───────────────────────────────────────────────
+
+describe("renderDockerfile", () => {
+  it("chains each stage on the previous one", () => {
+    const dockerfile = renderDockerfile("# Header", "node:20-bookworm", makeStages());
+    expect(dockerfile).toContain("FROM node:20-bookworm AS base\nRUN echo base");
+    expect(dockerfile).toContain("FROM base AS packages");
+    expect(dockerfile).toContain("FROM packages AS sandbox");
+    expect(dockerfile).toContain("(inputs: docker.packages)");
+    expect(dockerfile.startsWith("# Header\n\n")).toBe(true);
+  });
+});
+
+// ─── hashStage ──────────────────────────────────────────────────────
+
+describe("hashStage", () => {
+  it("changes with the instructions and with copied files", () => {
+    const [, packages, sandbox] = makeStages();
+    expect(hashStage(packages)).toBe(hashStage({ ...packages, description: "renamed" }));
+    expect(hashStage(packages)).not.toBe(hashStage(makeStages(["htop", "tmux"])[1]));
+    expect(hashStage(sandbox, { "init-firewall.sh": "a" })).not.toBe(
+      hashStage(sandbox, { "init-firewall.sh": "b" }),
+    );
+  });
+});
+
+// ─── compareStages ──────────────────────────────────────────────────
+
+describe("compareStages", () => {
+  it("marks every stage stale without a build record", () => {
+    const statuses = compareStages(records(), null);
+    expect(statuses.every((s) => s.stale && s.reason === "not built yet")).toBe(true);
+    expect(compareStages(records(), null, "no record")[0].reason).toBe("no record");
+  });
+
+  it("reports nothing to rebuild when the hashes match", () => {
+    expect(compareStages(records(), records()).some((s) => s.stale)).toBe(false);
+  });
+
+  it("rebuilds from the first changed stage and names the changed inputs", () => {
+    const statuses = compareStages(records(["htop", "tmux"]), records());
+    expect(statuses).toEqual([
+      { name: "base", stale: false },
+      { name: "packages", stale: true, reason: "docker.packages changed" },
+      { name: "sandbox", stale: true, reason: "rebuilt on top of packages" },
+    ]);
+  });
+
+  it("explains changes that don't come from the config", () => {
+    const statuses = compareStages(records(undefined, "echo new firewall"), records());
+    expect(statuses[1].stale).toBe(false);
+    expect(statuses[2].reason).toContain("generated Dockerfile changed");
+  });
+});
+
+// ─── loadStageState / saveStageState ────────────────────────────────
+
+describe("loadStageState", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-stages-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips saved state", () => {
+    const path = join(dir, "state.json");
+    saveStageState(path, { stages: records(), builtAt: "2026-01-01T00:00:00.000Z" });
+    expect(loadStageState(path)).toEqual({
+      stages: records(),
+      builtAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("returns null for missing or invalid files", () => {
+    expect(loadStageState(join(dir, "missing.json"))).toBeNull();
+    writeFileSync(join(dir, "bad.json"), "{ not json");
+    expect(loadStageState(join(dir, "bad.json"))).toBeNull();
+  });
+});
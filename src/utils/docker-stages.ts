@@ -0,0 +1,139 @@
+/**
+ * Multi-stage Dockerfile bookkeeping for `ralph docker build` and `ralph docker status`.
+ *
+ * The generated Dockerfile is a chain of stages (base, toolchain, cli, packages, build,
+ * sandbox), each built FROM the previous one. Every stage records the config values it
+ * is generated from and a hash of its instructions plus the files it copies. Comparing the
+ * hashes of the generated Dockerfile with those of the last build tells which stages the
+ * layer cache has to rebuild, and the inputs tell why.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+// Stage hashes of the generated Dockerfile (written by `ralph docker init`)
+export const GENERATED_STAGES_FILE = ".stage-hashes.json";
+// Stage hashes of the last successful `ralph docker build`
+export const BUILT_STAGES_FILE = ".build-stages.json";
+
+export interface DockerStage {
+  name: string;
+  description: string;
+  inputs: Record<string, unknown>; // Config values the stage is generated from, by config path
+  instructions: string; // Dockerfile instructions after the FROM line
+  copies?: string[]; // Build context files the stage COPYs
+}
+
+export interface StageRecord {
+  name: string;
+  hash: string;
+  inputs: Record<string, unknown>;
+}
+
+export interface StageState {
+  stages: StageRecord[];
+  builtAt?: string;
+}
+
+export interface StageStatus {
+  name: string;
+  stale: boolean;
+  reason?: string; // Why a stale stage rebuilds
+}
+
+/**
+ * Renders the stages as one Dockerfile. The first stage starts from baseImage, every other
+ * stage from the one before it.
+ */
+export function renderDockerfile(header: string, baseImage: string, stages: DockerStage[]): string {
+  const sections = stages.map((stage, i) => {
+    const from = i === 0 ? baseImage : stages[i - 1].name;
+    const inputs = Object.keys(stage.inputs);
+    const inputNote = inputs.length > 0 ? ` (inputs: ${inputs.join(", ")})` : "";
+    return `# ─── Stage ${stage.name}: ${stage.description}${inputNote}
+FROM ${from} AS ${stage.name}
+${stage.instructions.trim()}
+`;
+  });
+  return `${header.trim()}\n\n${sections.join("\n")}`;
+}
+
+/**
+ * Hashes a stage's instructions together with the content of the files it copies, so the
+ * hash changes whenever Docker's layer cache would miss.
+ */
+export function hashStage(stage: DockerStage, files: Record<string, string> = {}): string {
+  const hash = createHash("sha256").update(stage.instructions);
+  for (const name of stage.copies ?? []) {
+    hash.update(`\0${name}\0${files[name] ?? ""}`);
+  }
+  return hash.digest("hex").substring(0, 16);
+}
+
+export function toStageRecords(
+  stages: DockerStage[],
+  files: Record<string, string> = {},
+): StageRecord[] {
+  return stages.map((stage) => ({
+    name: stage.name,
+    hash: hashStage(stage, files),
+    inputs: stage.inputs,
+  }));
+}
+
+function changedInputs(current: Record<string, unknown>, built: Record<string, unknown>): string[] {
+  const keys = [...new Set([...Object.keys(current), ...Object.keys(built)])];
+  return keys.filter((key) => JSON.stringify(current[key]) !== JSON.stringify(built[key]));
+}
+
+/**
+ * Compares stages with the last build. A stage is stale when its hash changed or an earlier
+ * stage is stale, since every stage is built on top of the previous one. Without a build
+ * record, every stage is stale for unbuiltReason.
+ */
+export function compareStages(
+  current: StageRecord[],
+  built: StageRecord[] | null,
+  unbuiltReason: string = "not built yet",
+): StageStatus[] {
+  let firstStale: string | undefined;
+  return current.map((stage) => {
+    const previous = built?.find((b) => b.name === stage.name);
+    let reason: string | undefined;
+    if (!built) {
+      reason = unbuiltReason;
+    } else if (!previous) {
+      reason = "new stage";
+    } else if (previous.hash !== stage.hash) {
+      const inputs = changedInputs(stage.inputs, previous.inputs);
+      reason =
+        inputs.length > 0
+          ? `${inputs.join(", ")} changed`
+          : "generated Dockerfile changed (e.g. after a ralph-cli update)";
+    } else if (firstStale) {
+      reason = `rebuilt on top of ${firstStale}`;
+    }
+
+    if (!reason) {
+      return { name: stage.name, stale: false };
+    }
+    firstStale ??= stage.name;
+    return { name: stage.name, stale: true, reason };
+  });
+}
+
+export function loadStageState(path: string): StageState | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const state = JSON.parse(readFileSync(path, "utf-8")) as StageState;
+    return Array.isArray(state.stages) ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStageState(path: string, state: StageState): void {
+  writeFileSync(path, JSON.stringify(state, null, 2) + "\n");
+}
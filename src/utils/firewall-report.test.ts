@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { parseFirewallLog, parseDnsNames, buildFirewallReport } from "./firewall-report.js";
+
+const KERNEL_LOG = `[ 1201.000001] eth0: renamed from veth1234
+[ 1202.500000] RALPH-FW-ALLOW: IN= OUT=eth0 SRC=172.18.0.2 DST=140.82.112.3 LEN=60 TOS=0x00 PREC=0x00 TTL=64 ID=1 DF PROTO=TCP SPT=40000 DPT=443 WINDOW=64240 RES=0x00 SYN URGP=0
+[ 1203.100000] RALPH-FW-DENY: IN= OUT=eth0 SRC=172.18.0.2 DST=151.101.0.223 LEN=60 PROTO=TCP SPT=40002 DPT=443 SYN URGP=0
+Oct 19 12:00:03 host kernel: RALPH-FW-DENY: IN= OUT=eth0 SRC=172.18.0.2 DST=151.101.0.223 LEN=60 PROTO=TCP SPT=40004 DPT=443 SYN URGP=0
+[ 1204.000000] RALPH-FW-DENY: IN= OUT=eth0 SRC=172.18.0.2 DST=8.8.4.4 LEN=84 PROTO=ICMP TYPE=8 CODE=0 ID=7 SEQ=1
+`;
+
+// ─── parseFirewallLog ───────────────────────────────────────────────
+
+describe("parseFirewallLog", () => {
+  it("reads verdict, destination, protocol and port from dmesg and journalctl lines", () => {
+    expect(parseFirewallLog(KERNEL_LOG)).toEqual([
+      { verdict: "allow", dst: "140.82.112.3", proto: "tcp", port: 443 },
+      { verdict: "deny", dst: "151.101.0.223", proto: "tcp", port: 443 },
+      { verdict: "deny", dst: "151.101.0.223", proto: "tcp", port: 443 },
+      { verdict: "deny", dst: "8.8.4.4", proto: "icmp", port: undefined },
+    ]);
+  });
+
+  it("reads audit entries", () => {
+    const log = "RALPH-FW-AUDIT: IN= OUT=eth0 DST=1.2.3.4 PROTO=UDP SPT=5 DPT=123";
+    expect(parseFirewallLog(log)).toEqual([
+      { verdict: "audit", dst: "1.2.3.4", proto: "udp", port: 123 },
+    ]);
+  });
+});
+
+// ─── parseDnsNames ──────────────────────────────────────────────────
+
+describe("parseDnsNames", () => {
+  it("reads resolved.log lines", () => {
+    const names = parseDnsNames(
+      "2026-10-19T12:00:00Z github.com 140.82.112.3\n2026-10-19T12:00:00Z api.github.com 140.82.112.3\n",
+    );
+    expect(names.get("140.82.112.3")).toEqual(["api.github.com", "github.com"]);
+  });
+
+  it("credits dnsmasq answers behind a CNAME to the queried name", () => {
+    const names = parseDnsNames(`Oct 19 12:00:01 dnsmasq[42]: query[A] pypi.org from 127.0.0.1
+Oct 19 12:00:01 dnsmasq[42]: forwarded pypi.org to 127.0.0.11
+Oct 19 12:00:01 dnsmasq[42]: reply pypi.org is <CNAME>
+Oct 19 12:00:01 dnsmasq[42]: reply dualstack.python.map.fastly.net is 151.101.0.223
+Oct 19 12:00:02 dnsmasq[42]: query[A] example.com from 127.0.0.1
+Oct 19 12:00:02 dnsmasq[42]: cached example.com is 93.184.216.34
+`);
+    expect(names.get("151.101.0.223")).toEqual(["pypi.org"]);
+    expect(names.get("93.184.216.34")).toEqual(["example.com"]);
+  });
+});
+
+// ─── buildFirewallReport ────────────────────────────────────────────
+
+describe("buildFirewallReport", () => {
+  it("groups destinations and suggests names that aren't allowed", () => {
+    const names = new Map([
+      ["140.82.112.3", ["github.com"]],
+      ["151.101.0.223", ["pypi.org"]],
+    ]);
+    const report = buildFirewallReport(parseFirewallLog(KERNEL_LOG), names, ["github.com"]);
+
+    expect(report.allowed.map((d) => [d.dst, d.count, d.names])).toEqual([
+      ["140.82.112.3", 1, ["github.com"]],
+    ]);
+    expect(report.blocked.map((d) => [d.dst, d.count, d.names])).toEqual([
+      ["151.101.0.223", 2, ["pypi.org"]],
+      ["8.8.4.4", 1, []],
+    ]);
+    expect(report.suggestedDomains).toEqual(["pypi.org"]);
+    expect(report.unnamed).toEqual(["8.8.4.4"]);
+  });
+
+  it("does not suggest domains that are already allowed", () => {
+    const events = parseFirewallLog(
+      "RALPH-FW-DENY: DST=140.82.112.4 PROTO=TCP DPT=443\nRALPH-FW-DENY: DST=140.82.112.4 PROTO=TCP DPT=22",
+    );
+    const report = buildFirewallReport(events, new Map([["140.82.112.4", ["github.com"]]]), [
+      "GitHub.com",
+    ]);
+    expect(report.blocked).toHaveLength(2);
+    expect(report.suggestedDomains).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Summarizes the container firewall's kernel log output for `ralph docker firewall report`.
+ *
+ * init-firewall.sh logs new outbound connections with a RALPH-FW-ALLOW, RALPH-FW-DENY or
+ * RALPH-FW-AUDIT prefix. The log only has addresses, so names come from the files the
+ * script writes to .ralph/firewall/: resolved.log (addresses of the allowed domains) and,
+ * in audit mode, dns.log (every DNS answer, logged by dnsmasq).
+ */
+
+export const FIREWALL_LOG_DIR = "firewall";
+export const FIREWALL_NAME_FILES = ["resolved.log", "dns.log"];
+
+export type FirewallVerdict = "allow" | "deny" | "audit";
+
+export interface FirewallLogEvent {
+  verdict: FirewallVerdict;
+  dst: string;
+  proto: string;
+  port?: number;
+}
+
+export interface FirewallDestination {
+  verdict: FirewallVerdict;
+  dst: string;
+  proto: string;
+  port?: number;
+  names: string[]; // Domains that resolved to dst
+  count: number;
+}
+
+export interface FirewallReport {
+  allowed: FirewallDestination[];
+  blocked: FirewallDestination[]; // Denied, or logged in audit mode, most frequent first
+  suggestedDomains: string[]; // Names of blocked destinations that aren't allowed yet
+  unnamed: string[]; // Blocked addresses without a known name
+}
+
+const LOG_LINE = /RALPH-FW-(ALLOW|DENY|AUDIT): .*?\bDST=(\S+).*?\bPROTO=(\S+)(?:.*?\bDPT=(\d+))?/;
+const IPV4 = "\\d{1,3}(?:\\.\\d{1,3}){3}";
+const DNS_QUERY = /\bquery\[A+\] (\S+) from /;
+const DNS_REPLY = new RegExp(`\\b(?:reply|cached) (\\S+) is (${IPV4})\\b`);
+const RESOLVED_LINE = new RegExp(`^\\S+ (\\S+) (${IPV4})$`);
+
+/**
+ * Parses firewall entries from kernel log output (dmesg, journalctl -k). Other lines are ignored.
+ */
+export function parseFirewallLog(text: string): FirewallLogEvent[] {
+  const events: FirewallLogEvent[] = [];
+  for (const line of text.split("\n")) {
+    const match = line.match(LOG_LINE);
+    if (!match) continue;
+    events.push({
+      verdict: match[1].toLowerCase() as FirewallVerdict,
+      dst: match[2],
+      proto: match[3].toLowerCase(),
+      port: match[4] ? Number(match[4]) : undefined,
+    });
+  }
+  return events;
+}
+
+/**
+ * Maps addresses to the domain names that resolved to them, from resolved.log lines
+ * (`<time> <domain> <ip>`) and dnsmasq query logs. Answers reached through a CNAME are
+ * credited to the name that was asked for.
+ */
+export function parseDnsNames(text: string): Map<string, string[]> {
+  const names = new Map<string, Set<string>>();
+  const queried = new Set<string>();
+  let lastQuery: string | undefined;
+
+  const add = (ip: string, name: string) => {
+    const set = names.get(ip) ?? new Set<string>();
+    set.add(name.replace(/\.$/, "").toLowerCase());
+    names.set(ip, set);
+  };
+
+  for (const line of text.split("\n")) {
+    const query = line.match(DNS_QUERY);
+    if (query) {
+      lastQuery = query[1];
+      queried.add(lastQuery);
+      continue;
+    }
+    const reply = line.match(DNS_REPLY);
+    if (reply) {
+      add(reply[2], queried.has(reply[1]) ? reply[1] : (lastQuery ?? reply[1]));
+      continue;
+    }
+    const resolved = line.trim().match(RESOLVED_LINE);
+    if (resolved) {
+      add(resolved[2], resolved[1]);
+    }
+  }
+
+  return new Map([...names].map(([ip, set]) => [ip, [...set].sort()]));
+}
+
+/**
+ * Allowlist entries match exactly: init-firewall.sh resolves each name on its own,
+ * so allowing a domain doesn't cover its subdomains.
+ */
+function isAllowed(name: string, allowedDomains: string[]): boolean {
+  return allowedDomains.some((domain) => domain.toLowerCase() === name);
+}
+
+function groupDestinations(
+  events: FirewallLogEvent[],
+  names: Map<string, string[]>,
+): FirewallDestination[] {
+  const grouped = new Map<string, FirewallDestination>();
+  for (const event of events) {
+    const key = `${event.verdict} ${event.dst} ${event.proto} ${event.port ?? ""}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      grouped.set(key, { ...event, names: names.get(event.dst) ?? [], count: 1 });
+    }
+  }
+  return [...grouped.values()].sort((a, b) => b.count - a.count || a.dst.localeCompare(b.dst));
+}
+
+/**
+ * Groups the logged connections by destination and suggests domains to allow.
+ */
+export function buildFirewallReport(
+  events: FirewallLogEvent[],
+  names: Map<string, string[]>,
+  allowedDomains: string[],
+): FirewallReport {
+  const destinations = groupDestinations(events, names);
+  const allowed = destinations.filter((d) => d.verdict === "allow");
+  const blocked = destinations.filter((d) => d.verdict !== "allow");
+
+  const suggestedDomains = [
+    ...new Set(blocked.flatMap((d) => d.names).filter((name) => !isAllowed(name, allowedDomains))),
+  ];
+  const unnamed = [...new Set(blocked.filter((d) => d.names.length === 0).map((d) => d.dst))];
+
+  return { allowed, blocked, suggestedDomains, unnamed };
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  createModelChain,
+  describeModelSwitch,
+  getModelList,
+  isRateLimitError,
+} from "./model-chain.js";
+
+// ─── getModelList ───────────────────────────────────────────────────
+
+describe("getModelList", () => {
+  it("prefers the --model flag", () => {
+    expect(getModelList({ command: "claude", models: ["haiku", "sonnet"] }, "opus")).toEqual([
+      "opus",
+    ]);
+  });
+
+  it("uses the models chain over the single model", () => {
+    expect(getModelList({ command: "claude", model: "opus", models: ["haiku", "sonnet"] })).toEqual(
+      ["haiku", "sonnet"],
+    );
+  });
+
+  it("falls back to the single model, or none", () => {
+    expect(getModelList({ command: "claude", model: "opus" })).toEqual(["opus"]);
+    expect(getModelList({ command: "claude" })).toEqual([]);
+    expect(getModelList({ command: "claude", models: [] })).toEqual([]);
+  });
+});
+
+// ─── isRateLimitError ───────────────────────────────────────────────
+
+describe("isRateLimitError", () => {
+  it("detects common rate-limit and overload errors", () => {
+    expect(isRateLimitError("Error: rate limit exceeded")).toBe(true);
+    expect(isRateLimitError("API Error: 429 Too Many Requests")).toBe(true);
+    expect(isRateLimitError('{"type":"overloaded_error","message":"Overloaded"}')).toBe(true);
+    expect(isRateLimitError("status: 529")).toBe(true);
+    expect(isRateLimitError("RESOURCE_EXHAUSTED: quota")).toBe(true);
+  });
+
+  it("ignores unrelated errors", () => {
+    expect(isRateLimitError("Error: invalid API key")).toBe(false);
+    expect(isRateLimitError("src/index.ts:429: unexpected token")).toBe(false);
+  });
+
+  it("accepts extra patterns and skips invalid ones", () => {
+    expect(isRateLimitError("server busy, try later", ["server busy"])).toBe(true);
+    expect(isRateLimitError("server busy", ["(unclosed"])).toBe(false);
+  });
+});
+
+// ─── createModelChain ───────────────────────────────────────────────
+
+describe("createModelChain", () => {
+  it("starts on the first model and advances to the end of the chain", () => {
+    const chain = createModelChain(["haiku", "sonnet"]);
+    expect(chain.current()).toBe("haiku");
+    expect(chain.advance()).toBe("sonnet");
+    expect(chain.advance()).toBeUndefined();
+    expect(chain.current()).toBe("sonnet");
+  });
+
+  it("escalates after two iterations on the same task without progress", () => {
+    const chain = createModelChain(["haiku", "sonnet", "opus"]);
+    expect(chain.recordIteration("id:a", false)).toBeNull();
+    expect(chain.recordIteration("id:a", false)).toEqual({
+      from: "haiku",
+      to: "sonnet",
+      reason: "no_progress",
+    });
+    expect(chain.current()).toBe("sonnet");
+  });
+
+  it("starts counting again when the task changes", () => {
+    const chain = createModelChain(["haiku", "sonnet"]);
+    chain.recordIteration("id:a", false);
+    expect(chain.recordIteration("id:b", false)).toBeNull();
+    expect(chain.current()).toBe("haiku");
+  });
+
+  it("goes back to the first model after progress", () => {
+    const chain = createModelChain(["haiku", "sonnet"]);
+    chain.advance();
+    expect(chain.recordIteration("id:a", true)).toEqual({
+      from: "sonnet",
+      to: "haiku",
+      reason: "task_completed",
+    });
+    expect(chain.current()).toBe("haiku");
+  });
+
+  it("follows the escalation policy", () => {
+    const chain = createModelChain(["haiku", "sonnet"], {
+      afterIterationsWithoutProgress: 3,
+      resetOnProgress: false,
+    });
+    chain.recordIteration("id:a", false);
+    chain.recordIteration("id:a", false);
+    expect(chain.current()).toBe("haiku");
+    chain.recordIteration("id:a", false);
+    expect(chain.current()).toBe("sonnet");
+    expect(chain.recordIteration("id:a", true)).toBeNull();
+    expect(chain.current()).toBe("sonnet");
+  });
+
+  it("never escalates when disabled or with a single model", () => {
+    const disabled = createModelChain(["haiku", "sonnet"], { afterIterationsWithoutProgress: 0 });
+    const single = createModelChain(["opus"]);
+    for (let i = 0; i < 5; i++) {
+      expect(disabled.recordIteration("id:a", false)).toBeNull();
+      expect(single.recordIteration("id:a", false)).toBeNull();
+    }
+  });
+});
+
+// ─── describeModelSwitch ────────────────────────────────────────────
+
+describe("describeModelSwitch", () => {
+  it("describes the switch and its reason", () => {
+    expect(describeModelSwitch({ from: "haiku", to: "sonnet", reason: "rate_limit" })).toBe(
+      "haiku → sonnet (rate limited or overloaded)",
+    );
+    expect(describeModelSwitch({ to: "sonnet", reason: "model_not_found" })).toBe(
+      "default → sonnet (model not found)",
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Model fallback chains for `ralph run`.
+ *
+ * `cli.models` lists models in order, usually cheapest first. A run starts on the first
+ * model and moves along the chain when the escalation policy (`cli.escalation`) says so:
+ * - after N iterations on the same task without progress
+ * - when the agent fails with a rate-limit or overload error
+ * Completing a task goes back to the first model.
+ */
+
+import type { CliConfig, ModelEscalationConfig } from "./config.js";
+
+export type ModelSwitchReason = "no_progress" | "task_completed" | "rate_limit" | "model_not_found";
+
+export interface ModelSwitch {
+  from?: string;
+  to: string;
+  reason: ModelSwitchReason;
+}
+
+export const DEFAULT_ESCALATE_AFTER = 2;
+
+// stderr patterns for rate-limit and overload errors across providers
+const RATE_LIMIT_PATTERNS = [
+  /rate[ _-]?limit/i,
+  /too many requests/i,
+  /\b(?:status|code|error|http)[ :=]*429\b/i,
+  /overloaded/i,
+  /\b(?:status|code|error|http)[ :=]*529\b/i,
+  /quota exceeded/i,
+  /resource[ _-]?exhausted/i,
+];
+
+export interface ModelChain {
+  readonly models: string[];
+  current(): string | undefined;
+  /**
+   * Moves to the next model in the chain. Returns it, or undefined at the end of the chain.
+   */
+  advance(): string | undefined;
+  /**
+   * Records an iteration's outcome for `taskKey` (the task the agent was given first).
+   * Returns the switch if the policy moved to another model.
+   */
+  recordIteration(taskKey: string | undefined, progressed: boolean): ModelSwitch | null;
+}
+
+/**
+ * Returns the models to use, in order. A --model flag pins the run to that model.
+ */
+export function getModelList(cliConfig: CliConfig, modelFlag?: string): string[] {
+  if (modelFlag) return [modelFlag];
+  if (cliConfig.models && cliConfig.models.length > 0) return [...cliConfig.models];
+  return cliConfig.model ? [cliConfig.model] : [];
+}
+
+/**
+ * Checks stderr for rate-limit or overload errors. `extraPatterns` are regular expressions
+ * from `cli.escalation.errorPatterns`.
+ */
+export function isRateLimitError(stderr: string, extraPatterns: string[] = []): boolean {
+  const patterns = [
+    ...RATE_LIMIT_PATTERNS,
+    ...extraPatterns.flatMap((pattern) => {
+      try {
+        return [new RegExp(pattern, "i")];
+      } catch {
+        return [];
+      }
+    }),
+  ];
+  return patterns.some((pattern) => pattern.test(stderr));
+}
+
+export function createModelChain(models: string[], policy: ModelEscalationConfig = {}): ModelChain {
+  const escalateAfter = policy.afterIterationsWithoutProgress ?? DEFAULT_ESCALATE_AFTER;
+  let index = 0;
+  let taskKey: string | undefined;
+  let iterationsWithoutProgress = 0;
+
+  const advance = (): string | undefined => {
+    if (index + 1 >= models.length) return undefined;
+    index++;
+    iterationsWithoutProgress = 0;
+    return models[index];
+  };
+
+  return {
+    models,
+    current: () => models[index],
+    advance,
+    recordIteration(key, progressed) {
+      if (progressed) {
+        iterationsWithoutProgress = 0;
+        taskKey = key;
+        if (index > 0 && policy.resetOnProgress !== false) {
+          const from = models[index];
+          index = 0;
+          return { from, to: models[0], reason: "task_completed" };
+        }
+        return null;
+      }
+
+      if (key !== taskKey) {
+        taskKey = key;
+        iterationsWithoutProgress = 0;
+      }
+      iterationsWithoutProgress++;
+      if (escalateAfter > 0 && iterationsWithoutProgress >= escalateAfter) {
+        const from = models[index];
+        const to = advance();
+        if (to) return { from, to, reason: "no_progress" };
+      }
+      return null;
+    },
+  };
+}
+
+export function describeModelSwitch(modelSwitch: ModelSwitch): string {
+  const from = modelSwitch.from ?? "default";
+  switch (modelSwitch.reason) {
+    case "no_progress":
+      return `${from} → ${modelSwitch.to} (no progress)`;
+    case "task_completed":
+      return `${from} → ${modelSwitch.to} (task completed)`;
+    case "rate_limit":
+      return `${from} → ${modelSwitch.to} (rate limited or overloaded)`;
+    case "model_not_found":
+      return `${from} → ${modelSwitch.to} (model not found)`;
+  }
+}
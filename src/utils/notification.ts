@@ -22,6 +22,8 @@ export interface NotificationOptions {
   chatConfig?: ChatConfig;
   /** Task name for task_complete events (used in message placeholders) */
   taskName?: string;
+  /** Stable PRD id of the task for task_complete events (used in {{taskId}} placeholder) */
+  taskId?: string;
   /** Error message for error events (used in {{error}} placeholder) */
   errorMessage?: string;
 }
@@ -176,7 +178,7 @@ function mapEventToDaemonEvent(event: NotificationEvent): DaemonEventType | null
 export async function triggerDaemonEvents(
   event: DaemonEventType,
   options?: NotificationOptions,
-  context?: { taskName?: string; errorMessage?: string },
+  context?: { taskName?: string; taskId?: string; errorMessage?: string },
 ): Promise<void> {
   const { daemonConfig, debug } = options ?? {};
 
@@ -209,6 +211,9 @@ export async function triggerDaemonEvents(
       if (context?.taskName) {
         message = message.replace(/\{\{task\}\}/g, context.taskName);
       }
+      if (context?.taskId) {
+        message = message.replace(/\{\{taskId\}\}/g, context.taskId);
+      }
       if (context?.errorMessage) {
         message = message.replace(/\{\{error\}\}/g, context.errorMessage);
       }
@@ -379,6 +384,7 @@ export async function sendNotificationWithDaemonEvents(
   if (daemonEvent) {
     await triggerDaemonEvents(daemonEvent, options, {
       taskName: options?.taskName,
+      taskId: options?.taskId,
       errorMessage: options?.errorMessage,
     });
   }
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  createLock,
+  createLinePrefixer,
+  formatLanePrefix,
+  parseParallelCount,
+} from "./parallel.js";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ─── createLock ─────────────────────────────────────────────────────
+
+describe("createLock", () => {
+  it("runs functions one at a time in call order", async () => {
+    const withLock = createLock();
+    const events: string[] = [];
+
+    await Promise.all([
+      withLock(async () => {
+        events.push("a:start");
+        await sleep(20);
+        events.push("a:end");
+      }),
+      withLock(() => {
+        events.push("b");
+      }),
+    ]);
+
+    expect(events).toEqual(["a:start", "a:end", "b"]);
+  });
+
+  it("returns the function's result", async () => {
+    const withLock = createLock();
+    expect(await withLock(() => 42)).toBe(42);
+  });
+
+  it("keeps working after a function throws", async () => {
+    const withLock = createLock();
+    await expect(
+      withLock(() => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(await withLock(() => "ok")).toBe("ok");
+  });
+});
+
+// ─── createLinePrefixer ─────────────────────────────────────────────
+
+describe("createLinePrefixer", () => {
+  it("prefixes complete lines and buffers partial ones", () => {
+    let written = "";
+    const prefixer = createLinePrefixer((text) => (written += text), "[a] ");
+
+    prefixer.write("one\ntw");
+    expect(written).toBe("[a] one\n");
+
+    prefixer.write("o\nthree");
+    expect(written).toBe("[a] one\n[a] two\n");
+
+    prefixer.flush();
+    expect(written).toBe("[a] one\n[a] two\n[a] three\n");
+  });
+
+  it("writes nothing on flush when no partial line is buffered", () => {
+    let written = "";
+    const prefixer = createLinePrefixer((text) => (written += text), "[a] ");
+    prefixer.write("done\n");
+    prefixer.flush();
+    expect(written).toBe("[a] done\n");
+  });
+});
+
+// ─── formatLanePrefix ───────────────────────────────────────────────
+
+describe("formatLanePrefix", () => {
+  it("wraps the label in brackets", () => {
+    expect(formatLanePrefix("feat/login", 0)).toBe("\x1b[36m[feat/login]\x1b[0m ");
+  });
+
+  it("cycles through colors by lane index", () => {
+    expect(formatLanePrefix("a", 6)).toBe(formatLanePrefix("a", 0));
+    expect(formatLanePrefix("a", 1)).not.toBe(formatLanePrefix("a", 0));
+  });
+});
+
+// ─── parseParallelCount ─────────────────────────────────────────────
+
+describe("parseParallelCount", () => {
+  it("accepts positive integers", () => {
+    expect(parseParallelCount("1")).toBe(1);
+    expect(parseParallelCount("4")).toBe(4);
+  });
+
+  it("rejects missing, zero and non-numeric values", () => {
+    expect(parseParallelCount(undefined)).toBeNull();
+    expect(parseParallelCount("0")).toBeNull();
+    expect(parseParallelCount("two")).toBeNull();
+    expect(parseParallelCount("--all")).toBeNull();
+    expect(parseParallelCount("2.5")).toBeNull();
+  });
+});
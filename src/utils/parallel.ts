@@ -0,0 +1,66 @@
+/**
+ * Helpers for `ralph run --parallel`, which runs one agent per branch worktree at once.
+ */
+
+/**
+ * Runs functions one at a time, in call order. Used to serialize read-modify-write
+ * sections on the master PRD across parallel lanes.
+ */
+export type Lock = <T>(fn: () => T | Promise<T>) => Promise<T>;
+
+export function createLock(): Lock {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => T | Promise<T>): Promise<T> => {
+    const result = tail.then(fn);
+    // Keep the chain going whether or not fn throws
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+/**
+ * Line-buffered writer that prefixes every output line, so output from several agents
+ * can share the terminal. Call flush() when the stream ends to write a trailing partial line.
+ */
+export interface LinePrefixer {
+  write(chunk: string): void;
+  flush(): void;
+}
+
+export function createLinePrefixer(write: (text: string) => void, prefix: string): LinePrefixer {
+  let buffer = "";
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      if (lines.length > 0) {
+        write(lines.map((line) => `${prefix}${line}\n`).join(""));
+      }
+    },
+    flush() {
+      if (buffer) {
+        write(`${prefix}${buffer}\n`);
+        buffer = "";
+      }
+    },
+  };
+}
+
+const LANE_COLORS = ["\x1b[36m", "\x1b[35m", "\x1b[33m", "\x1b[34m", "\x1b[32m", "\x1b[96m"];
+
+/**
+ * Colored `[label] ` prefix for a lane's output lines.
+ */
+export function formatLanePrefix(label: string, index: number): string {
+  return `${LANE_COLORS[index % LANE_COLORS.length]}[${label}]\x1b[0m `;
+}
+
+/**
+ * Parses the value of `--parallel`. Returns null if it isn't a positive integer.
+ */
+export function parseParallelCount(value: string | undefined): number | null {
+  if (value === undefined || !/^\d+$/.test(value)) return null;
+  const count = parseInt(value, 10);
+  return count >= 1 ? count : null;
+}
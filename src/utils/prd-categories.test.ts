@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getPrdCategories, getCategoryNames } from "./prd-categories.js";
+import { VALID_CATEGORIES } from "./prd-validator.js";
+
+// ─── getPrdCategories ───────────────────────────────────────────────
+
+describe("getPrdCategories", () => {
+  it("returns the built-in categories without config", () => {
+    expect(getCategoryNames()).toEqual([...VALID_CATEGORIES]);
+    expect(getCategoryNames({})).toEqual([...VALID_CATEGORIES]);
+  });
+
+  it("adds declared categories after the built-in ones", () => {
+    const categories = getPrdCategories({
+      categories: ["security", { name: "perf", description: "Performance work" }],
+    });
+    expect(categories.slice(-2)).toEqual([
+      { name: "security" },
+      { name: "perf", description: "Performance work" },
+    ]);
+  });
+
+  it("adds descriptions to built-in categories without duplicating them", () => {
+    const categories = getPrdCategories({
+      categories: [{ name: "docs", description: "User-facing docs" }, "docs"],
+    });
+    expect(categories).toHaveLength(VALID_CATEGORIES.length);
+    expect(categories.find((c) => c.name === "docs")?.description).toBe("User-facing docs");
+  });
+
+  it("ignores invalid declarations", () => {
+    const names = getCategoryNames({
+      categories: ["", "has space", { name: 42 }, null, "infra"] as never,
+    });
+    expect(names).toEqual([...VALID_CATEGORIES, "infra"]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * PRD categories: the built-in ones plus any a project declares in config.json:
+ *
+ *   "categories": ["security", { "name": "perf", "description": "Performance work" }]
+ */
+
+import { loadConfig, type RalphConfig } from "./config.js";
+import { VALID_CATEGORIES } from "./prd-validator.js";
+
+export interface PrdCategory {
+  name: string;
+  description?: string;
+}
+
+export const CATEGORY_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+
+/**
+ * Returns the built-in categories followed by the ones declared in `config.categories`.
+ * Entries with invalid names are ignored (fix-config reports them). A declared category
+ * with a built-in name only adds its description.
+ */
+export function getPrdCategories(config?: Pick<RalphConfig, "categories"> | null): PrdCategory[] {
+  const categories: PrdCategory[] = VALID_CATEGORIES.map((name) => ({ name }));
+
+  for (const item of config?.categories ?? []) {
+    const declared = typeof item === "string" ? { name: item } : item;
+    if (
+      typeof declared !== "object" ||
+      declared === null ||
+      typeof declared.name !== "string" ||
+      !CATEGORY_NAME_PATTERN.test(declared.name)
+    ) {
+      continue;
+    }
+    const description =
+      typeof declared.description === "string" && declared.description
+        ? declared.description
+        : undefined;
+
+    const existing = categories.find((category) => category.name === declared.name);
+    if (existing) {
+      if (description) existing.description = description;
+    } else {
+      categories.push({ name: declared.name, ...(description && { description }) });
+    }
+  }
+
+  return categories;
+}
+
+export function getCategoryNames(config?: Pick<RalphConfig, "categories"> | null): string[] {
+  return getPrdCategories(config).map((category) => category.name);
+}
+
+/**
+ * Reads the project's categories from .ralph/config.json.
+ * Falls back to the built-in categories if the config is missing or unreadable.
+ */
+export function loadPrdCategories(): PrdCategory[] {
+  try {
+    return getPrdCategories(loadConfig());
+  } catch {
+    return getPrdCategories();
+  }
+}
+
+export function loadCategoryNames(): string[] {
+  return loadPrdCategories().map((category) => category.name);
+}
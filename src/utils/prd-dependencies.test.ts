@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  indexById,
+  getBlockers,
+  findDependencyCycles,
+  validateDependencies,
+  topologicalOrder,
+  scheduleItems,
+  formatBlockers,
+  type DependencyNode,
+} from "./prd-dependencies.js";
+
+function item(id: string, passes = false, dependsOn?: string[]): DependencyNode {
+  return { id, description: `Task ${id}`, passes, ...(dependsOn && { dependsOn }) };
+}
+
+// ─── getBlockers ────────────────────────────────────────────────────
+
+describe("getBlockers", () => {
+  it("returns no blockers when all dependencies pass", () => {
+    const entries = [item("a", true), item("b", false, ["a"])];
+    expect(getBlockers(entries[1], indexById(entries))).toEqual([]);
+  });
+
+  it("returns failing dependencies", () => {
+    const entries = [item("a"), item("b", false, ["a"])];
+    const blockers = getBlockers(entries[1], indexById(entries));
+    expect(blockers).toHaveLength(1);
+    expect(blockers[0].id).toBe("a");
+    expect(blockers[0].entry).toBe(entries[0]);
+  });
+
+  it("treats unknown ids as blockers", () => {
+    const entries = [item("b", false, ["missing"])];
+    const blockers = getBlockers(entries[0], indexById(entries));
+    expect(blockers).toEqual([{ id: "missing", entry: undefined }]);
+  });
+
+  it("returns no blockers for entries without dependsOn", () => {
+    const entries = [item("a")];
+    expect(getBlockers(entries[0], indexById(entries))).toEqual([]);
+  });
+});
+
+// ─── findDependencyCycles ───────────────────────────────────────────
+
+describe("findDependencyCycles", () => {
+  it("returns no cycles for an acyclic graph", () => {
+    const entries = [item("a"), item("b", false, ["a"]), item("c", false, ["a", "b"])];
+    expect(findDependencyCycles(entries)).toEqual([]);
+  });
+
+  it("detects a two-item cycle", () => {
+    const entries = [item("a", false, ["b"]), item("b", false, ["a"])];
+    expect(findDependencyCycles(entries)).toEqual([["a", "b", "a"]]);
+  });
+
+  it("detects self-references", () => {
+    const entries = [item("a", false, ["a"])];
+    expect(findDependencyCycles(entries)).toEqual([["a", "a"]]);
+  });
+
+  it("ignores dangling references", () => {
+    const entries = [item("a", false, ["missing"])];
+    expect(findDependencyCycles(entries)).toEqual([]);
+  });
+});
+
+// ─── validateDependencies ───────────────────────────────────────────
+
+describe("validateDependencies", () => {
+  it("accepts valid dependencies", () => {
+    const entries = [item("a"), item("b", false, ["a"])];
+    expect(validateDependencies(entries)).toEqual([]);
+  });
+
+  it("reports duplicate ids", () => {
+    const errors = validateDependencies([item("a"), item("a")]);
+    expect(errors).toEqual(["Item 2: duplicate id 'a' (also used by item 1)"]);
+  });
+
+  it("reports dangling references", () => {
+    const errors = validateDependencies([item("a", false, ["nope"])]);
+    expect(errors).toEqual(["Item 1: 'dependsOn' references unknown id 'nope'"]);
+  });
+
+  it("reports self-dependencies once", () => {
+    const errors = validateDependencies([item("a", false, ["a"])]);
+    expect(errors).toEqual(["Item 1: cannot depend on itself ('a')"]);
+  });
+
+  it("reports cycles", () => {
+    const errors = validateDependencies([
+      item("a", false, ["c"]),
+      item("b", false, ["a"]),
+      item("c", false, ["b"]),
+    ]);
+    expect(errors).toEqual(["Dependency cycle: a -> c -> b -> a"]);
+  });
+
+  it("reports references to entries without ids", () => {
+    const errors = validateDependencies([
+      { description: "no id", passes: false },
+      item("b", false, ["no id"]),
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain("unknown id 'no id'");
+  });
+});
+
+// ─── topologicalOrder ───────────────────────────────────────────────
+
+describe("topologicalOrder", () => {
+  it("keeps original order when there are no dependencies", () => {
+    const entries = [item("a"), item("b"), item("c")];
+    expect(topologicalOrder(entries).map((e) => e.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("moves dependencies before their dependents", () => {
+    const entries = [item("c", false, ["b"]), item("a"), item("b", false, ["a"])];
+    expect(topologicalOrder(entries).map((e) => e.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("includes every entry even when there is a cycle", () => {
+    const entries = [item("a", false, ["b"]), item("b", false, ["a"]), item("c")];
+    const ordered = topologicalOrder(entries).map((e) => e.id);
+    expect(ordered).toHaveLength(3);
+    expect(new Set(ordered)).toEqual(new Set(["a", "b", "c"]));
+  });
+});
+
+// ─── scheduleItems ──────────────────────────────────────────────────
+
+describe("scheduleItems", () => {
+  it("splits candidates into ready and blocked", () => {
+    const all = [item("a"), item("b", false, ["a"]), item("c")];
+    const { ready, blocked } = scheduleItems(all, all);
+    expect(ready.map((e) => e.id)).toEqual(["a", "c"]);
+    expect(blocked.map((e) => e.id)).toEqual(["b"]);
+  });
+
+  it("resolves dependencies against the full PRD", () => {
+    const all = [item("a", true), item("b", false, ["a"])];
+    const { ready, blocked } = scheduleItems([all[1]], all);
+    expect(ready.map((e) => e.id)).toEqual(["b"]);
+    expect(blocked).toEqual([]);
+  });
+
+  it("blocks items depending on filtered-out failing items", () => {
+    const all = [item("a"), item("b", false, ["a"])];
+    const { ready, blocked } = scheduleItems([all[1]], all);
+    expect(ready).toEqual([]);
+    expect(blocked.map((e) => e.id)).toEqual(["b"]);
+  });
+});
+
+// ─── formatBlockers ─────────────────────────────────────────────────
+
+describe("formatBlockers", () => {
+  it("lists ids and marks unknown ones", () => {
+    const a = item("a");
+    expect(formatBlockers([{ id: "a", entry: a }, { id: "x" }])).toBe("a, x (unknown)");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Dependency handling for PRD entries.
+ *
+ * PRD entries can declare an `id` and a `dependsOn` list of other entry ids.
+ * An entry is blocked while any of its dependencies is still failing (or
+ * cannot be resolved), and `ralph run` only hands unblocked entries to the agent.
+ */
+
+/**
+ * Minimal shape needed for dependency resolution.
+ * Compatible with PrdEntry and the command-local PRD item interfaces.
+ */
+export interface DependencyNode {
+  id?: string;
+  description: string;
+  passes: boolean;
+  dependsOn?: string[];
+}
+
+/**
+ * A dependency that keeps an entry from being scheduled.
+ * `entry` is undefined when the referenced id does not exist in the PRD.
+ */
+export interface Blocker<T extends DependencyNode = DependencyNode> {
+  id: string;
+  entry?: T;
+}
+
+/**
+ * Allowed characters for PRD entry ids (same rules as branch names, minus slashes).
+ */
+export const PRD_ID_PATTERN = /^[a-zA-Z0-9_\-.]+$/;
+
+/**
+ * Builds a lookup of entries by id. Entries without an id are skipped.
+ * If an id is duplicated, the first entry wins.
+ */
+export function indexById<T extends DependencyNode>(entries: T[]): Map<string, T> {
+  const byId = new Map<string, T>();
+  for (const entry of entries) {
+    if (entry.id && !byId.has(entry.id)) {
+      byId.set(entry.id, entry);
+    }
+  }
+  return byId;
+}
+
+/**
+ * Returns the dependencies of an entry that are not yet satisfied:
+ * referenced entries that are still failing, or ids that don't exist.
+ */
+export function getBlockers<T extends DependencyNode>(
+  entry: T,
+  byId: Map<string, T>,
+): Blocker<T>[] {
+  const blockers: Blocker<T>[] = [];
+  for (const depId of entry.dependsOn ?? []) {
+    const dep = byId.get(depId);
+    if (!dep || !dep.passes) {
+      blockers.push({ id: depId, entry: dep });
+    }
+  }
+  return blockers;
+}
+
+/**
+ * Returns true if the entry has at least one unsatisfied dependency.
+ */
+export function isBlocked<T extends DependencyNode>(entry: T, byId: Map<string, T>): boolean {
+  return getBlockers(entry, byId).length > 0;
+}
+
+/**
+ * Finds dependency cycles among entries.
+ * Each cycle is returned as a list of ids, starting and ending with the same id
+ * (e.g. ["a", "b", "a"]). Each cycle is reported once.
+ */
+export function findDependencyCycles(entries: DependencyNode[]): string[][] {
+  const byId = indexById(entries);
+  const state = new Map<string, "visiting" | "done">();
+  const cycles: string[][] = [];
+  const stack: string[] = [];
+
+  const visit = (id: string): void => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const depId of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(depId)) continue; // Dangling references are reported separately
+      const depState = state.get(depId);
+      if (depState === "visiting") {
+        cycles.push([...stack.slice(stack.indexOf(depId)), depId]);
+      } else if (depState === undefined) {
+        visit(depId);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of byId.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Checks ids and dependsOn references across all entries.
+ * Returns error messages using the same "Item N:" prefix as validatePrd.
+ */
+export function validateDependencies(entries: DependencyNode[]): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  entries.forEach((entry, i) => {
+    if (!entry.id) return;
+    const first = seen.get(entry.id);
+    if (first !== undefined) {
+      errors.push(`Item ${i + 1}: duplicate id '${entry.id}' (also used by item ${first + 1})`);
+    } else {
+      seen.set(entry.id, i);
+    }
+  });
+
+  entries.forEach((entry, i) => {
+    for (const depId of entry.dependsOn ?? []) {
+      if (depId === entry.id) {
+        errors.push(`Item ${i + 1}: cannot depend on itself ('${depId}')`);
+      } else if (!seen.has(depId)) {
+        errors.push(`Item ${i + 1}: 'dependsOn' references unknown id '${depId}'`);
+      }
+    }
+  });
+
+  for (const cycle of findDependencyCycles(entries)) {
+    // Self-references are already reported above
+    if (cycle.length > 2) {
+      errors.push(`Dependency cycle: ${cycle.join(" -> ")}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Orders entries so that every entry comes after the entries it depends on.
+ * Entries keep their original PRD order wherever dependencies allow it.
+ * Entries that are part of a cycle are appended in their original order.
+ */
+export function topologicalOrder<T extends DependencyNode>(entries: T[]): T[] {
+  const byId = indexById(entries);
+  const placed = new Set<T>();
+  const result: T[] = [];
+  const visiting = new Set<T>();
+
+  const place = (entry: T): void => {
+    if (placed.has(entry) || visiting.has(entry)) return;
+    visiting.add(entry);
+    for (const depId of entry.dependsOn ?? []) {
+      const dep = byId.get(depId);
+      if (dep) place(dep);
+    }
+    visiting.delete(entry);
+    if (!placed.has(entry)) {
+      placed.add(entry);
+      result.push(entry);
+    }
+  };
+
+  for (const entry of entries) {
+    place(entry);
+  }
+
+  return result;
+}
+
+/**
+ * Selects the items that can be worked on now.
+ * `candidates` are typically the failing items after category/branch filters;
+ * `allEntries` is the full PRD used to resolve dependencies.
+ * Returns the unblocked candidates in dependency order plus the blocked ones.
+ */
+export function scheduleItems<T extends DependencyNode>(
+  candidates: T[],
+  allEntries: T[],
+): { ready: T[]; blocked: T[] } {
+  const byId = indexById(allEntries);
+  const ready: T[] = [];
+  const blocked: T[] = [];
+
+  for (const item of topologicalOrder(candidates)) {
+    if (isBlocked(item, byId)) {
+      blocked.push(item);
+    } else {
+      ready.push(item);
+    }
+  }
+
+  return { ready, blocked };
+}
+
+/**
+ * Formats the blockers of an entry for display, e.g. "setup-db, api-auth (unknown)".
+ */
+export function formatBlockers(blockers: Blocker[]): string {
+  return blockers.map((b) => (b.entry ? b.id : `${b.id} (unknown)`)).join(", ");
+}
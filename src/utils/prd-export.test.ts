@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderMarkdownReport,
+  renderJUnitXml,
+  renderHtmlReport,
+  renderCsv,
+  ExportOptions,
+} from "./prd-export.js";
+import { parseCsv } from "./prd-import.js";
+import type { PrdEntry } from "./prd-validator.js";
+
+const entries: PrdEntry[] = [
+  {
+    id: "db-schema",
+    category: "setup",
+    description: "Create the users table",
+    steps: ["Write migration", "Run it"],
+    passes: true,
+  },
+  {
+    id: "register",
+    category: "feature",
+    description: "Add <register> endpoint",
+    steps: ["Accept email & password"],
+    passes: false,
+    branch: "feat/auth",
+    dependsOn: ["login"],
+    priority: "high",
+    owner: "ana",
+    estimate: 3,
+    labels: ["auth", "api"],
+  },
+  {
+    id: "login",
+    category: "feature",
+    description: 'Add "login" page, with redirect',
+    steps: ["Create form"],
+    passes: false,
+  },
+];
+
+const options: ExportOptions = {
+  title: "demo PRD",
+  generatedAt: new Date("2026-01-02T03:04:05Z"),
+};
+
+// ─── renderMarkdownReport ───────────────────────────────────────────
+
+describe("renderMarkdownReport", () => {
+  it("renders a checklist grouped by category", () => {
+    const md = renderMarkdownReport(entries, options);
+    expect(md).toContain("# demo PRD");
+    expect(md).toContain("**1/3 passing (33%)** — generated 2026-01-02T03:04:05.000Z");
+    expect(md).toContain("## setup (1/1)\n\n- [x] Create the users table — `db-schema`");
+    expect(md).toContain("  - Write migration\n  - Run it");
+    expect(md).toContain(
+      "- [ ] Add <register> endpoint — `register`, branch `feat/auth`, priority high, owner ana, estimate 3, labels auth, api, blocked by login",
+    );
+  });
+});
+
+// ─── renderJUnitXml ─────────────────────────────────────────────────
+
+describe("renderJUnitXml", () => {
+  it("reports one test case per item, with items that don't pass as skipped", () => {
+    const xml = renderJUnitXml(entries, options);
+    expect(xml).toContain('<testsuites name="demo PRD" tests="3" failures="0" skipped="2"');
+    expect(xml).toContain('<testsuite name="feature" tests="2" failures="0" skipped="2"');
+    expect(xml).toContain(
+      '<testcase name="Add &lt;register&gt; endpoint [register]" classname="prd.feature" time="0">',
+    );
+    expect(xml).toContain('<skipped message="Blocked by login"/>');
+    expect(xml).toContain(
+      "<system-out>Branch: feat/auth\npriority: high\nowner: ana\nestimate: 3\nlabels: auth, api\n1. Accept email &amp; password</system-out>",
+    );
+    expect(xml.match(/<testcase /g)).toHaveLength(3);
+  });
+
+  it("reports items that don't pass as failures with failPending", () => {
+    const xml = renderJUnitXml(entries, { ...options, failPending: true });
+    expect(xml).toContain('tests="3" failures="2" skipped="0"');
+    expect(xml).toContain('<failure message="Not passing yet" type="pending"/>');
+    expect(xml).toContain('<failure message="Blocked by login" type="blocked"/>');
+  });
+
+  it("resolves dependencies against the full PRD when exporting a subset", () => {
+    const done = { ...entries[2], passes: true };
+    const xml = renderJUnitXml([entries[1]], { ...options, allEntries: [entries[1], done] });
+    expect(xml).toContain('<skipped message="Not passing yet"/>');
+  });
+});
+
+// ─── renderHtmlReport ───────────────────────────────────────────────
+
+describe("renderHtmlReport", () => {
+  it("renders a self-contained page with escaped content", () => {
+    const html = renderHtmlReport(entries, options);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<script|<link|src=/);
+    expect(html).toContain('<div class="progress"><div style="width: 33%"></div></div>');
+    expect(html).toContain("<strong>Add &lt;register&gt; endpoint</strong>");
+    expect(html).toContain('<div class="item blocked">');
+    expect(html).toContain("<li>Accept email &amp; password</li>");
+  });
+});
+
+// ─── renderCsv ──────────────────────────────────────────────────────
+
+describe("renderCsv", () => {
+  it("quotes fields that need it", () => {
+    const csv = renderCsv([entries[2]]);
+    expect(csv).toBe(
+      'id,category,description,steps,passes,branch,dependsOn,priority,owner,estimate,labels\nlogin,feature,"Add ""login"" page, with redirect",Create form,false,,,,,,\n',
+    );
+  });
+
+  it("round-trips through the CSV importer", () => {
+    expect(parseCsv(renderCsv(entries)).entries).toEqual(entries);
+  });
+});
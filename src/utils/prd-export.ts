@@ -0,0 +1,293 @@
+/**
+ * Renderers for `ralph prd export`: a Markdown report, JUnit XML (one test case per PRD item,
+ * so CI systems can show progress in their test views), a self-contained HTML status page
+ * and CSV (readable by `ralph prd import`).
+ */
+
+import type { PrdEntry } from "./prd-validator.js";
+import { indexById, getBlockers, formatBlockers } from "./prd-dependencies.js";
+
+export type ExportFormat = "md" | "junit" | "html" | "csv";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "junit", "html", "csv"];
+
+export interface ExportOptions {
+  title: string;
+  generatedAt?: Date; // Defaults to now
+  allEntries?: PrdEntry[]; // Full PRD, used to resolve dependsOn when exporting a subset
+  failPending?: boolean; // JUnit: report items that don't pass as failures instead of skipped
+}
+
+type ItemStatus = "passing" | "pending" | "blocked";
+
+interface ExportItem {
+  entry: PrdEntry;
+  status: ItemStatus;
+  blockedBy?: string;
+}
+
+interface CategoryGroup {
+  category: string;
+  items: ExportItem[];
+  passing: number;
+}
+
+/**
+ * Groups entries by category in PRD order and works out each item's status.
+ */
+function groupItems(entries: PrdEntry[], options: ExportOptions): CategoryGroup[] {
+  const byId = indexById(options.allEntries ?? entries);
+  const groups = new Map<string, CategoryGroup>();
+
+  for (const entry of entries) {
+    const blockers = entry.passes ? [] : getBlockers(entry, byId);
+    const item: ExportItem = {
+      entry,
+      status: entry.passes ? "passing" : blockers.length > 0 ? "blocked" : "pending",
+      ...(blockers.length > 0 && { blockedBy: formatBlockers(blockers) }),
+    };
+    let group = groups.get(entry.category);
+    if (!group) {
+      group = { category: entry.category, items: [], passing: 0 };
+      groups.set(entry.category, group);
+    }
+    group.items.push(item);
+    if (entry.passes) group.passing++;
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * The optional priority/owner/estimate/labels fields that are set, as [name, value] pairs.
+ */
+function customFields(entry: PrdEntry): [string, string][] {
+  const fields: [string, string][] = [];
+  if (entry.priority) fields.push(["priority", entry.priority]);
+  if (entry.owner) fields.push(["owner", entry.owner]);
+  if (entry.estimate !== undefined) fields.push(["estimate", String(entry.estimate)]);
+  if (entry.labels?.length) fields.push(["labels", entry.labels.join(", ")]);
+  return fields;
+}
+
+function percent(passing: number, total: number): number {
+  return total === 0 ? 0 : Math.round((passing / total) * 100);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function renderMarkdownReport(entries: PrdEntry[], options: ExportOptions): string {
+  const passing = entries.filter((e) => e.passes).length;
+  const lines = [
+    `# ${options.title}`,
+    "",
+    `**${passing}/${entries.length} passing (${percent(passing, entries.length)}%)** — generated ${(options.generatedAt ?? new Date()).toISOString()}`,
+  ];
+
+  for (const group of groupItems(entries, options)) {
+    lines.push("", `## ${group.category} (${group.passing}/${group.items.length})`, "");
+    for (const { entry, blockedBy } of group.items) {
+      const details = [
+        entry.id && `\`${entry.id}\``,
+        entry.branch && `branch \`${entry.branch}\``,
+        ...customFields(entry).map(([name, value]) => `${name} ${value}`),
+        blockedBy && `blocked by ${blockedBy}`,
+      ].filter(Boolean);
+      const suffix = details.length > 0 ? ` — ${details.join(", ")}` : "";
+      lines.push(`- [${entry.passes ? "x" : " "}] ${entry.description}${suffix}`);
+      for (const step of entry.steps) {
+        lines.push(`  - ${step}`);
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function renderJUnitXml(entries: PrdEntry[], options: ExportOptions): string {
+  const groups = groupItems(entries, options);
+  const timestamp = (options.generatedAt ?? new Date()).toISOString().slice(0, 19);
+  const notPassing = entries.length - entries.filter((e) => e.passes).length;
+  const failures = options.failPending ? notPassing : 0;
+  const skipped = options.failPending ? 0 : notPassing;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.title)}" tests="${entries.length}" failures="${failures}" skipped="${skipped}" errors="0" time="0">`,
+  ];
+
+  for (const group of groups) {
+    const groupNotPassing = group.items.length - group.passing;
+    lines.push(
+      `  <testsuite name="${escapeXml(group.category)}" tests="${group.items.length}" failures="${options.failPending ? groupNotPassing : 0}" skipped="${options.failPending ? 0 : groupNotPassing}" errors="0" time="0" timestamp="${timestamp}">`,
+    );
+    for (const { entry, status, blockedBy } of group.items) {
+      const name = escapeXml(entry.id ? `${entry.description} [${entry.id}]` : entry.description);
+      lines.push(
+        `    <testcase name="${name}" classname="prd.${escapeXml(group.category)}" time="0">`,
+      );
+      if (status !== "passing") {
+        const message = escapeXml(blockedBy ? `Blocked by ${blockedBy}` : "Not passing yet");
+        lines.push(
+          options.failPending
+            ? `      <failure message="${message}" type="${status}"/>`
+            : `      <skipped message="${message}"/>`,
+        );
+      }
+      const output = [
+        ...(entry.branch ? [`Branch: ${entry.branch}`] : []),
+        ...customFields(entry).map(([name, value]) => `${name}: ${value}`),
+        ...entry.steps.map((step, i) => `${i + 1}. ${step}`),
+      ];
+      if (output.length > 0) {
+        lines.push(`      <system-out>${escapeXml(output.join("\n"))}</system-out>`);
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #1f2328; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #656d76; margin-top: 0; }
+  .progress { background: #eaeef2; border-radius: 6px; height: 12px; overflow: hidden; margin: 1rem 0 0.5rem; }
+  .progress > div { background: #1a7f37; height: 100%; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; margin-top: 2rem; }
+  h2 .count { color: #656d76; font-weight: normal; font-size: 0.8em; }
+  .item { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+  .item.passing { border-left: 4px solid #1a7f37; }
+  .item.pending { border-left: 4px solid #9a6700; }
+  .item.blocked { border-left: 4px solid #cf222e; }
+  .badge { display: inline-block; border-radius: 2em; padding: 0 0.6em; font-size: 0.75em; font-weight: 600; color: #fff; vertical-align: middle; }
+  .badge.passing { background: #1a7f37; }
+  .badge.pending { background: #9a6700; }
+  .badge.blocked { background: #cf222e; }
+  .details { color: #656d76; font-size: 0.85em; margin: 0.25rem 0 0; }
+  code { background: #eff1f3; border-radius: 4px; padding: 0.1em 0.3em; }
+  ol { margin: 0.5rem 0 0; }
+`;
+
+export function renderHtmlReport(entries: PrdEntry[], options: ExportOptions): string {
+  const passing = entries.filter((e) => e.passes).length;
+  const pct = percent(passing, entries.length);
+  const title = escapeXml(options.title);
+  const body: string[] = [
+    `<h1>${title}</h1>`,
+    `<p class="meta">${passing}/${entries.length} passing (${pct}%) · generated ${(options.generatedAt ?? new Date()).toISOString()}</p>`,
+    `<div class="progress"><div style="width: ${pct}%"></div></div>`,
+  ];
+
+  for (const group of groupItems(entries, options)) {
+    body.push(
+      `<h2>${escapeXml(group.category)} <span class="count">${group.passing}/${group.items.length}</span></h2>`,
+    );
+    for (const { entry, status, blockedBy } of group.items) {
+      const details = [
+        entry.id && `<code>${escapeXml(entry.id)}</code>`,
+        entry.branch && `branch <code>${escapeXml(entry.branch)}</code>`,
+        ...customFields(entry).map(([name, value]) => `${name} ${escapeXml(value)}`),
+        blockedBy && `blocked by ${escapeXml(blockedBy)}`,
+      ].filter(Boolean);
+      body.push(`<div class="item ${status}">`);
+      body.push(
+        `  <div><span class="badge ${status}">${status}</span> <strong>${escapeXml(entry.description)}</strong></div>`,
+      );
+      if (details.length > 0) {
+        body.push(`  <p class="details">${details.join(" · ")}</p>`);
+      }
+      if (entry.steps.length > 0) {
+        body.push(
+          `  <ol>${entry.steps.map((step) => `<li>${escapeXml(step)}</li>`).join("")}</ol>`,
+        );
+      }
+      body.push("</div>");
+    }
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Renders entries as CSV with the columns `ralph prd import` reads.
+ * Steps are separated by newlines within the field.
+ */
+export function renderCsv(entries: PrdEntry[]): string {
+  const rows = [
+    [
+      "id",
+      "category",
+      "description",
+      "steps",
+      "passes",
+      "branch",
+      "dependsOn",
+      "priority",
+      "owner",
+      "estimate",
+      "labels",
+    ],
+  ];
+  for (const entry of entries) {
+    rows.push([
+      entry.id ?? "",
+      entry.category,
+      entry.description,
+      entry.steps.join("\n"),
+      String(entry.passes),
+      entry.branch ?? "",
+      (entry.dependsOn ?? []).join(";"),
+      entry.priority ?? "",
+      entry.owner ?? "",
+      entry.estimate !== undefined ? String(entry.estimate) : "",
+      (entry.labels ?? []).join(";"),
+    ]);
+  }
+  return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+export function renderPrdExport(
+  entries: PrdEntry[],
+  format: ExportFormat,
+  options: ExportOptions,
+): string {
+  switch (format) {
+    case "md":
+      return renderMarkdownReport(entries, options);
+    case "junit":
+      return renderJUnitXml(entries, options);
+    case "html":
+      return renderHtmlReport(entries, options);
+    case "csv":
+      return renderCsv(entries);
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import {
+  resolveGenerateProvider,
+  buildGeneratePrompt,
+  stripCodeFence,
+  parseGeneratedItems,
+} from "./prd-generate.js";
+import { createLLMClient } from "./llm-client.js";
+import { VALID_CATEGORIES } from "./prd-validator.js";
+
+const REPLY = `Here is the PRD:
+
+\`\`\`yaml
+- id: login-form
+  category: feature
+  description: Add a login form
+  steps:
+    - Create the form
+    - Run npm test
+  passes: true
+- id: session
+  category: feature
+  description: Keep users signed in
+  steps:
+    - Store the session token
+  dependsOn: [login-form]
+  passes: false
+\`\`\`
+`;
+
+// ─── resolveGenerateProvider ────────────────────────────────────────
+
+describe("resolveGenerateProvider", () => {
+  it("uses the named provider, else the first configured one, else anthropic", () => {
+    const config = { llmProviders: { local: { type: "ollama" as const, model: "llama3" } } };
+    expect(resolveGenerateProvider(config, "openai").name).toBe("openai");
+    expect(resolveGenerateProvider(config).provider).toEqual({ type: "ollama", model: "llama3" });
+    expect(resolveGenerateProvider({}).name).toBe("anthropic");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => resolveGenerateProvider({}, "nope")).toThrow(/"nope" not found/);
+  });
+});
+
+// ─── buildGeneratePrompt ────────────────────────────────────────────
+
+describe("buildGeneratePrompt", () => {
+  it("lists the categories and the existing items", () => {
+    const { systemPrompt, message } = buildGeneratePrompt(
+      "  Users can log in.  ",
+      [{ name: "feature" }, { name: "infra", description: "Deployment" }],
+      [{ category: "feature", description: "Add signup", steps: [], passes: true }],
+    );
+    expect(systemPrompt).toContain("- feature\n- infra: Deployment");
+    expect(message).toContain("Specification:\n\nUsers can log in.");
+    expect(message).toContain("- Add signup");
+  });
+});
+
+// ─── stripCodeFence ─────────────────────────────────────────────────
+
+describe("stripCodeFence", () => {
+  it("returns the first fenced block, or the whole text", () => {
+    expect(stripCodeFence("Intro\n```json\n[1]\n```\nOutro")).toBe("[1]");
+    expect(stripCodeFence("  - a\n")).toBe("- a");
+  });
+});
+
+// ─── parseGeneratedItems ────────────────────────────────────────────
+
+describe("parseGeneratedItems", () => {
+  it("parses a valid reply and resets passes", () => {
+    const result = parseGeneratedItems(REPLY, VALID_CATEGORIES);
+    expect(result.recovered).toBe(false);
+    expect(result.entries.map((e) => [e.id, e.passes])).toEqual([
+      ["login-form", false],
+      ["session", false],
+    ]);
+  });
+
+  it("recovers items from a malformed reply", () => {
+    const reply = JSON.stringify({
+      tasks: [{ category: "feature", description: "Add logout", steps: "Click logout" }],
+    });
+    const result = parseGeneratedItems(reply, VALID_CATEGORIES);
+    expect(result.recovered).toBe(true);
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(result.entries[0]).toMatchObject({ description: "Add logout", passes: false });
+  });
+
+  it("throws when nothing can be used", () => {
+    expect(() => parseGeneratedItems("Sorry, I can't help with that.", VALID_CATEGORIES)).toThrow(
+      /no usable items/,
+    );
+  });
+});
+
+// ─── Generation through an Ollama provider ──────────────────────────
+
+describe("generation through an Ollama provider", () => {
+  let server: Server;
+  let baseUrl: string;
+  let request: { model?: string; messages?: { role: string; content: string }[] } = {};
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        request = JSON.parse(body);
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ message: { role: "assistant", content: REPLY } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("drafts items from the stub's reply", async () => {
+    const { provider } = resolveGenerateProvider({
+      llmProviders: { local: { type: "ollama", model: "stub", baseUrl } },
+    });
+    const { systemPrompt, message } = buildGeneratePrompt("Users can log in.", [
+      { name: "feature" },
+    ]);
+
+    const reply = await createLLMClient(provider).chat(
+      [{ role: "user", content: message }],
+      systemPrompt,
+    );
+
+    expect(request.model).toBe("stub");
+    expect(request.messages?.map((m) => m.role)).toEqual(["system", "user"]);
+    expect(parseGeneratedItems(reply, ["feature"]).entries).toHaveLength(2);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Helpers for `ralph prd generate`, which asks an LLM provider (see llm-client.ts) to turn a
+ * free-text spec into PRD entries:
+ * - building the prompt from the spec, the project's categories and the existing items
+ * - reading the reply (YAML or JSON, optionally in a code fence) and checking it with
+ *   validatePrd, falling back to attemptRecovery for malformed output
+ */
+
+import type { LLMProviderConfig, RalphConfig } from "./config.js";
+import { getLLMProviders } from "./config.js";
+import type { PrdCategory } from "./prd-categories.js";
+import { robustYamlParse, validatePrd, attemptRecovery, PrdEntry } from "./prd-validator.js";
+
+export interface GeneratePrompt {
+  systemPrompt: string;
+  message: string;
+}
+
+export interface GeneratedItems {
+  entries: PrdEntry[];
+  recovered: boolean; // The reply wasn't a valid PRD and was repaired by attemptRecovery
+  errors: string[]; // validatePrd errors for the reply as it was
+}
+
+// Provider used when neither --provider nor llmProviders in config.json names one
+export const DEFAULT_GENERATE_PROVIDER = "anthropic";
+
+/**
+ * Picks the LLM provider for generation: the one named on the command line, else the first
+ * provider defined in config.json, else the default. Throws if the name isn't configured.
+ */
+export function resolveGenerateProvider(
+  config: Pick<RalphConfig, "llmProviders">,
+  name?: string,
+): { name: string; provider: LLMProviderConfig } {
+  const providers = getLLMProviders(config);
+  const providerName =
+    name ?? Object.keys(config.llmProviders ?? {})[0] ?? DEFAULT_GENERATE_PROVIDER;
+  const provider = providers[providerName];
+  if (!provider) {
+    throw new Error(
+      `LLM provider "${providerName}" not found. Available providers: ${Object.keys(providers).join(", ")}`,
+    );
+  }
+  return { name: providerName, provider };
+}
+
+/**
+ * Builds the prompt asking for PRD items that implement `spec`.
+ * Existing item descriptions are listed so the model doesn't repeat them.
+ */
+export function buildGeneratePrompt(
+  spec: string,
+  categories: PrdCategory[],
+  existing: PrdEntry[] = [],
+): GeneratePrompt {
+  const categoryLines = categories.map((c) =>
+    c.description ? `- ${c.name}: ${c.description}` : `- ${c.name}`,
+  );
+
+  const systemPrompt = [
+    "You convert software specifications into a PRD for Ralph, an AI coding loop that works on one item per iteration.",
+    "Reply with a YAML array of items and nothing else. Each item has:",
+    "- category: one of the categories below",
+    "- description: an imperative sentence saying what to implement",
+    "- steps: concrete actions, ending with a step that verifies the result (a test, a command or a check)",
+    "- passes: false",
+    "Optional fields: id (short kebab-case), dependsOn (ids of items that must be done first), priority (critical, high, medium or low).",
+    "Keep each item small enough to finish in one iteration, and order items so dependencies come first.",
+    "",
+    "Categories:",
+    ...categoryLines,
+  ].join("\n");
+
+  const parts = [`Specification:\n\n${spec.trim()}`];
+  if (existing.length > 0) {
+    parts.push(
+      `The PRD already has these items - don't repeat them:\n${existing.map((e) => `- ${e.description}`).join("\n")}`,
+    );
+  }
+
+  return { systemPrompt, message: parts.join("\n\n") };
+}
+
+/**
+ * Returns the contents of the first fenced code block in `text`, or the text itself.
+ */
+export function stripCodeFence(text: string): string {
+  const match = text.match(/```[a-zA-Z]*\s*\n([\s\S]*?)```/);
+  return (match ? match[1] : text).trim();
+}
+
+/**
+ * Parses the LLM reply into PRD entries. Valid replies are used as-is; otherwise
+ * attemptRecovery tries to salvage the items. Generated items always start with passes: false.
+ * Throws if the reply can't be parsed or recovered.
+ */
+export function parseGeneratedItems(text: string, categories: readonly string[]): GeneratedItems {
+  let content: unknown;
+  try {
+    content = robustYamlParse(stripCodeFence(text));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`The reply isn't valid YAML or JSON: ${message}`);
+  }
+
+  const validation = validatePrd(content, categories);
+  let entries = validation.data;
+  let recovered = false;
+  if (!validation.valid) {
+    // Dependency errors are checked again against the whole PRD before writing
+    entries = validation.data ?? attemptRecovery(content, categories) ?? undefined;
+    recovered = !validation.data;
+  }
+  if (!entries || entries.length === 0) {
+    throw new Error(
+      validation.errors.length > 0
+        ? `The reply has no usable items: ${validation.errors.slice(0, 3).join("; ")}`
+        : "The reply has no items",
+    );
+  }
+
+  return {
+    entries: entries.map((entry) => ({ ...entry, passes: false })),
+    recovered,
+    errors: validation.valid ? [] : validation.errors,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { generatePrdId, collectPrdIds, assignMissingIds } from "./prd-ids.js";
+import { PRD_ID_PATTERN } from "./prd-dependencies.js";
+
+// ─── generatePrdId ──────────────────────────────────────────────────
+
+describe("generatePrdId", () => {
+  it("derives a slug from the description", () => {
+    expect(generatePrdId("Add login page", new Set())).toBe("add-login-page");
+  });
+
+  it("strips punctuation and keeps at most six words", () => {
+    const id = generatePrdId("Example: Project builds, tests pass and lint is clean!", new Set());
+    expect(id).toBe("example-project-builds-tests-pass-and");
+    expect(id).toMatch(PRD_ID_PATTERN);
+  });
+
+  it("limits the id length", () => {
+    const id = generatePrdId(
+      "Internationalization localization accessibility compatibility",
+      new Set(),
+    );
+    expect(id.length).toBeLessThanOrEqual(40);
+    expect(id.endsWith("-")).toBe(false);
+  });
+
+  it("falls back to 'item' when the description has no usable characters", () => {
+    expect(generatePrdId("!!!", new Set())).toBe("item");
+  });
+
+  it("appends a counter on collision and records the new id", () => {
+    const ids = new Set(["add-login-page", "add-login-page-2"]);
+    expect(generatePrdId("Add login page", ids)).toBe("add-login-page-3");
+    expect(ids.has("add-login-page-3")).toBe(true);
+  });
+});
+
+// ─── collectPrdIds ──────────────────────────────────────────────────
+
+describe("collectPrdIds", () => {
+  it("collects string ids and ignores everything else", () => {
+    const ids = collectPrdIds([{ id: "a" }, { id: "" }, { id: 3 }, {}, null, "x"]);
+    expect([...ids]).toEqual(["a"]);
+  });
+});
+
+// ─── assignMissingIds ───────────────────────────────────────────────
+
+describe("assignMissingIds", () => {
+  it("keeps existing ids and assigns new ones", () => {
+    const { entries, assigned } = assignMissingIds([
+      { id: "login", description: "Add login page", passes: false },
+      { description: "Add login page", passes: false },
+    ]);
+    expect(assigned).toBe(1);
+    expect(entries[0].id).toBe("login");
+    expect(entries[1].id).toBe("add-login-page");
+  });
+
+  it("avoids ids already used later in the list", () => {
+    const { entries } = assignMissingIds([
+      { description: "Add login page" },
+      { id: "add-login-page", description: "Something else" },
+    ]);
+    expect(entries[0]).toEqual({ id: "add-login-page-2", description: "Add login page" });
+  });
+
+  it("places generated ids first", () => {
+    const { entries } = assignMissingIds([{ category: "ui", description: "Dark mode" }]);
+    expect(Object.keys(entries[0])[0]).toBe("id");
+  });
+
+  it("replaces empty and non-string ids", () => {
+    const { entries, assigned } = assignMissingIds([
+      { id: "", description: "Add login page" },
+      { id: 5, description: "Dark mode" },
+    ]);
+    expect(assigned).toBe(2);
+    expect(entries).toEqual([
+      { id: "add-login-page", description: "Add login page" },
+      { id: "dark-mode", description: "Dark mode" },
+    ]);
+    expect(assignMissingIds(entries).assigned).toBe(0);
+  });
+
+  it("does not modify the input", () => {
+    const input = [{ description: "Dark mode" }];
+    assignMissingIds(input);
+    expect(input[0]).toEqual({ description: "Dark mode" });
+  });
+
+  it("passes non-object entries through", () => {
+    const { entries, assigned } = assignMissingIds(["oops", null]);
+    expect(assigned).toBe(0);
+    expect(entries).toEqual(["oops", null]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Stable ids for PRD entries.
+ *
+ * Every PRD entry carries an `id` that is generated once and never changes,
+ * even when the description is edited. Syncing, toggling, notifications and
+ * dependencies all key on this id instead of matching descriptions.
+ */
+
+import { readPrdFile, createBackup, writePrdAuto, PrdEntry } from "./prd-validator.js";
+import type { PrdChangeSource } from "./prd-journal.js";
+
+const MAX_SLUG_WORDS = 6;
+const MAX_SLUG_LENGTH = 40;
+
+/**
+ * Turns a description into a short, readable id base.
+ * e.g. "Add login page with OAuth support" -> "add-login-page-with-oauth-support"
+ */
+function slugify(description: string): string {
+  const slug = description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((word) => word.length > 0)
+    .slice(0, MAX_SLUG_WORDS)
+    .join("-")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, "");
+  return slug || "item";
+}
+
+/**
+ * Generates a new id from a description that doesn't collide with existing ids.
+ * Adds the new id to `existingIds`.
+ */
+export function generatePrdId(description: string, existingIds: Set<string>): string {
+  const base = slugify(description);
+  let id = base;
+  for (let n = 2; existingIds.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  existingIds.add(id);
+  return id;
+}
+
+/**
+ * Collects the ids already used by entries.
+ */
+export function collectPrdIds(entries: unknown[]): Set<string> {
+  const ids = new Set<string>();
+  for (const entry of entries) {
+    if (typeof entry === "object" && entry !== null) {
+      const id = (entry as Record<string, unknown>).id;
+      if (typeof id === "string" && id) {
+        ids.add(id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Returns a copy of the entries where every object entry has an id.
+ * Generated ids are placed first so they're easy to spot in the file.
+ * Non-object entries are passed through untouched (validation reports them).
+ */
+export function assignMissingIds<T>(entries: T[]): { entries: T[]; assigned: number } {
+  const existingIds = collectPrdIds(entries);
+  let assigned = 0;
+
+  const result = entries.map((entry) => {
+    if (typeof entry !== "object" || entry === null) {
+      return entry;
+    }
+    const obj = entry as Record<string, unknown>;
+    if (typeof obj.id === "string" && obj.id) {
+      return entry;
+    }
+    const description = typeof obj.description === "string" ? obj.description : "";
+    assigned++;
+    // Drop an empty or non-string id so it can't overwrite the generated one
+    const { id: _, ...rest } = obj;
+    return { id: generatePrdId(description, existingIds), ...rest } as T;
+  });
+
+  return { entries: result, assigned };
+}
+
+/**
+ * Migrates a PRD file so every entry has an id.
+ * Creates a backup before rewriting. Files that can't be parsed are left
+ * alone so fix-prd can deal with them.
+ * The rewrite is journaled with the given source (the CLI unless called from MCP or chat).
+ * Returns the number of ids assigned and the backup path if one was written.
+ */
+export function migratePrdIds(
+  prdPath: string,
+  source: PrdChangeSource = "cli",
+): { assigned: number; backupPath?: string } {
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) {
+    return { assigned: 0 };
+  }
+
+  const { entries, assigned } = assignMissingIds(parsed.content as unknown[]);
+  if (assigned === 0) {
+    return { assigned: 0 };
+  }
+
+  const backupPath = createBackup(prdPath);
+  writePrdAuto(prdPath, entries as PrdEntry[], { action: "migrate", source });
+  return { assigned, backupPath };
+}
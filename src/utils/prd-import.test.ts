@@ -0,0 +1,283 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectImportFormat,
+  normalizeCategory,
+  parseMarkdownChecklist,
+  parseCsvRows,
+  parseCsv,
+  parseIssueExport,
+  dedupeEntries,
+} from "./prd-import.js";
+import { validatePrd, PrdEntry } from "./prd-validator.js";
+
+function entry(description: string, extra: Partial<PrdEntry> = {}): PrdEntry {
+  return { category: "feature", description, steps: ["Do it"], passes: false, ...extra };
+}
+
+// ─── detectImportFormat ─────────────────────────────────────────────
+
+describe("detectImportFormat", () => {
+  it("detects formats from the file extension", () => {
+    expect(detectImportFormat("docs/requirements.md")).toBe("markdown");
+    expect(detectImportFormat("Backlog.CSV")).toBe("csv");
+    expect(detectImportFormat("issues.json")).toBe("issues");
+  });
+
+  it("returns null for unknown extensions", () => {
+    expect(detectImportFormat("backlog.xlsx")).toBeNull();
+  });
+});
+
+// ─── normalizeCategory ──────────────────────────────────────────────
+
+describe("normalizeCategory", () => {
+  it("accepts category names and common aliases", () => {
+    expect(normalizeCategory("UI")).toBe("ui");
+    expect(normalizeCategory("Bug fixes")).toBe("bugfix");
+    expect(normalizeCategory("Documentation")).toBe("docs");
+    expect(normalizeCategory("enhancement")).toBe("feature");
+  });
+
+  it("returns null for anything else", () => {
+    expect(normalizeCategory("Sprint 12")).toBeNull();
+  });
+
+  it("accepts the project's categories", () => {
+    expect(normalizeCategory("Security")).toBeNull();
+    expect(normalizeCategory("Security", ["feature", "security"])).toBe("security");
+    // Aliases only apply to categories the project has
+    expect(normalizeCategory("Bugs", ["feature", "security"])).toBeNull();
+  });
+});
+
+// ─── parseMarkdownChecklist ─────────────────────────────────────────
+
+describe("parseMarkdownChecklist", () => {
+  it("turns headings into categories and nested items into steps", () => {
+    const { entries, warnings } = parseMarkdownChecklist(
+      [
+        "## Features",
+        "- [ ] Add login page",
+        "  - Create the form",
+        "  - Validate input",
+        "- [x] Add logout button",
+        "",
+        "## Bugs",
+        "* [ ] Fix crash on empty cart",
+      ].join("\n"),
+    );
+
+    expect(warnings).toEqual([]);
+    expect(entries).toEqual([
+      {
+        category: "feature",
+        description: "Add login page",
+        steps: ["Create the form", "Validate input"],
+        passes: false,
+      },
+      {
+        category: "feature",
+        description: "Add logout button",
+        steps: ["Verify the feature works as expected"],
+        passes: true,
+      },
+      {
+        category: "bugfix",
+        description: "Fix crash on empty cart",
+        steps: ["Verify the feature works as expected"],
+        passes: false,
+      },
+    ]);
+    expect(validatePrd(entries).valid).toBe(true);
+  });
+
+  it("uses the default category for unknown headings and warns once per heading", () => {
+    const { entries, warnings } = parseMarkdownChecklist(
+      ["# Sprint 12", "- [ ] First", "- [ ] Second"].join("\n"),
+    );
+    expect(entries.map((e) => e.category)).toEqual(["feature", "feature"]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('"Sprint 12"');
+  });
+
+  it("accepts plain and numbered lists and skips code blocks", () => {
+    const { entries } = parseMarkdownChecklist(
+      ["1. Set up CI", "   1. Add workflow", "```", "- not an item", "```", "- Write docs"].join(
+        "\n",
+      ),
+    );
+    expect(entries.map((e) => e.description)).toEqual(["Set up CI", "Write docs"]);
+    expect(entries[0].steps).toEqual(["Add workflow"]);
+  });
+
+  it("does not attach items after a paragraph to the previous item", () => {
+    const { entries } = parseMarkdownChecklist(
+      ["- [ ] First", "Some notes.", "  - Orphan"].join("\n"),
+    );
+    expect(entries.map((e) => e.description)).toEqual(["First", "Orphan"]);
+  });
+});
+
+// ─── parseCsvRows ───────────────────────────────────────────────────
+
+describe("parseCsvRows", () => {
+  it("handles quoted fields with commas, quotes and newlines", () => {
+    expect(parseCsvRows('a,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+// ─── parseCsv ───────────────────────────────────────────────────────
+
+describe("parseCsv", () => {
+  it("maps columns to PRD fields", () => {
+    const { entries, warnings } = parseCsv(
+      [
+        "Title,Category,Steps,Status,Branch,ID,Depends On",
+        'Add login page,feature,"Create form; Validate input",done,feat/auth,login-page,',
+        "Add register endpoint,Bugs,,open,,,login-page",
+      ].join("\n"),
+    );
+
+    expect(warnings).toEqual([]);
+    expect(entries).toEqual([
+      {
+        category: "feature",
+        description: "Add login page",
+        steps: ["Create form", "Validate input"],
+        passes: true,
+        branch: "feat/auth",
+        id: "login-page",
+      },
+      {
+        category: "bugfix",
+        description: "Add register endpoint",
+        steps: ["Verify the feature works as expected"],
+        passes: false,
+        dependsOn: ["login-page"],
+      },
+    ]);
+  });
+
+  it("reads priority, owner, estimate and labels columns", () => {
+    const { entries, warnings } = parseCsv(
+      [
+        "title,category,priority,assignee,points,tags",
+        'Audit deps,security,High,ana,2,"deps, q3"',
+        "Other,feature,urgent,,big,",
+      ].join("\n"),
+      ["feature", "security"],
+    );
+    expect(entries[0]).toMatchObject({
+      category: "security",
+      priority: "high",
+      owner: "ana",
+      estimate: 2,
+      labels: ["deps", "q3"],
+    });
+    expect(entries[1]).not.toHaveProperty("priority");
+    expect(warnings).toEqual([
+      'Row 3: unknown priority "urgent" - ignored',
+      'Row 3: estimate "big" is not a positive number - ignored',
+    ]);
+  });
+
+  it("warns about unknown categories and rows without a description", () => {
+    const { entries, warnings } = parseCsv("description,category\nFirst,epic\n,ui\n");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].category).toBe("feature");
+    expect(warnings).toEqual([
+      'Row 2: unknown category "epic" - using "feature"',
+      "Row 3: no description - skipped",
+    ]);
+  });
+
+  it("throws without a description column", () => {
+    expect(() => parseCsv("category,steps\nui,x\n")).toThrow(/description column/);
+  });
+});
+
+// ─── parseIssueExport ───────────────────────────────────────────────
+
+describe("parseIssueExport", () => {
+  it("maps issue titles, bodies, labels and state", () => {
+    const { entries } = parseIssueExport(
+      JSON.stringify([
+        {
+          title: "Crash on empty cart",
+          body: "Steps:\n- [ ] Reproduce\n- [ ] Add a guard\n\nMore text",
+          labels: [{ name: "p1" }, { name: "bug" }],
+          assignees: [{ login: "ana" }],
+          state: "CLOSED",
+        },
+        { title: "Dark mode", labels: ["design"], state: "open" },
+      ]),
+    );
+
+    expect(entries).toEqual([
+      {
+        category: "bugfix",
+        description: "Crash on empty cart",
+        steps: ["Reproduce", "Add a guard"],
+        passes: true,
+        owner: "ana",
+        labels: ["p1"],
+      },
+      {
+        category: "ui",
+        description: "Dark mode",
+        steps: ["Verify the feature works as expected"],
+        passes: false,
+      },
+    ]);
+  });
+
+  it("accepts an object with an issues array and skips pull requests", () => {
+    const { entries, warnings } = parseIssueExport(
+      JSON.stringify({
+        issues: [{ title: "Docs" }, { title: "PR", pull_request: {} }, { body: "no title" }],
+      }),
+    );
+    expect(entries.map((e) => e.description)).toEqual(["Docs"]);
+    expect(warnings).toEqual(["Issue 3: no title - skipped"]);
+  });
+
+  it("throws when the JSON isn't an issue list", () => {
+    expect(() => parseIssueExport('{"title": "x"}')).toThrow(/array of issues/);
+  });
+});
+
+// ─── dedupeEntries ──────────────────────────────────────────────────
+
+describe("dedupeEntries", () => {
+  it("skips entries matching existing ids, descriptions or similar descriptions", () => {
+    const existing = [
+      entry("Add login page", { id: "login" }),
+      entry("Add user registration form with email verification"),
+    ];
+    const imported = [
+      entry("Something else entirely", { id: "login" }),
+      entry("add login page"),
+      entry("Add user registration form with email verification step"),
+      entry("Add password reset"),
+    ];
+
+    const { added, duplicates } = dedupeEntries(existing, imported);
+    expect(added.map((e) => e.description)).toEqual(["Add password reset"]);
+    expect(duplicates.map((d) => d.match)).toEqual([existing[0], existing[0], existing[1]]);
+    expect(duplicates[2].score).toBeLessThan(1);
+  });
+
+  it("drops duplicates within the import", () => {
+    const { added, duplicates } = dedupeEntries([], [entry("Add search"), entry("Add Search")]);
+    expect(added).toHaveLength(1);
+    expect(duplicates[0].match).toBe(added[0]);
+  });
+
+  it("keeps entries below the threshold", () => {
+    const { added } = dedupeEntries([entry("Add login page")], [entry("Add logout page")]);
+    expect(added).toHaveLength(1);
+  });
+});
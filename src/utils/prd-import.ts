@@ -0,0 +1,488 @@
+/**
+ * Parsers for `ralph prd import`, which turns requirements written outside ralph into PRD entries:
+ * - Markdown checklists: headings become categories, top-level list items become entries
+ *   and their nested items become steps
+ * - CSV with a header row (description, category, steps, passes, branch, id, dependsOn,
+ *   priority, owner, estimate, labels)
+ * - JSON issue exports: an array of issues, or an object with an `issues` array
+ */
+
+import { extname } from "path";
+import {
+  similarity,
+  DUPLICATE_THRESHOLD,
+  VALID_CATEGORIES,
+  PRD_PRIORITIES,
+  PrdEntry,
+  PrdPriority,
+} from "./prd-validator.js";
+import { DEFAULT_VERIFICATION_STEP } from "./prd-lint.js";
+
+export type ImportFormat = "markdown" | "csv" | "issues";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["markdown", "csv", "issues"];
+
+export interface ImportResult {
+  entries: PrdEntry[];
+  warnings: string[];
+}
+
+export interface ImportDuplicate {
+  entry: PrdEntry; // The imported entry that was skipped
+  match: PrdEntry; // The existing (or earlier imported) entry it duplicates
+  score: number; // 1 for an id or exact description match
+}
+
+export const DEFAULT_IMPORT_CATEGORY = "feature";
+
+const CATEGORY_ALIASES: Record<string, string> = {
+  features: "feature",
+  enhancement: "feature",
+  enhancements: "feature",
+  bug: "bugfix",
+  bugs: "bugfix",
+  bugfixes: "bugfix",
+  "bug fix": "bugfix",
+  "bug fixes": "bugfix",
+  fix: "bugfix",
+  fixes: "bugfix",
+  ux: "ui",
+  frontend: "ui",
+  design: "ui",
+  infra: "setup",
+  infrastructure: "setup",
+  dev: "development",
+  refactor: "development",
+  refactoring: "development",
+  chore: "development",
+  chores: "development",
+  test: "testing",
+  tests: "testing",
+  qa: "testing",
+  doc: "docs",
+  documentation: "docs",
+};
+
+const PASSING_VALUES = ["true", "yes", "y", "x", "1", "done", "closed", "complete", "completed"];
+
+/**
+ * Picks the import format from a file extension. Returns null if the extension is unknown.
+ */
+export function detectImportFormat(filePath: string): ImportFormat | null {
+  switch (extname(filePath).toLowerCase()) {
+    case ".md":
+    case ".markdown":
+      return "markdown";
+    case ".csv":
+      return "csv";
+    case ".json":
+      return "issues";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maps a heading, column value or label to a PRD category, e.g. "Bug fixes" -> "bugfix".
+ * `categories` are the project's categories (see loadCategoryNames()).
+ * Returns null if it doesn't name a category.
+ */
+export function normalizeCategory(
+  name: string,
+  categories: readonly string[] = VALID_CATEGORIES,
+): string | null {
+  const exact = categories.find((category) => category.toLowerCase() === name.trim().toLowerCase());
+  if (exact) {
+    return exact;
+  }
+  const key = name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+  const alias = categories.includes(key) ? key : CATEGORY_ALIASES[key];
+  return alias && categories.includes(alias) ? alias : null;
+}
+
+function withDefaultSteps(steps: string[]): string[] {
+  return steps.length > 0 ? steps : [DEFAULT_VERIFICATION_STEP];
+}
+
+/**
+ * Parses a Markdown checklist. `- [x]` items are imported as passing.
+ * Items under a heading that doesn't name a category use the default category.
+ */
+export function parseMarkdownChecklist(
+  content: string,
+  categories: readonly string[] = VALID_CATEGORIES,
+): ImportResult {
+  const entries: PrdEntry[] = [];
+  const warnings: string[] = [];
+  let heading: string | undefined;
+  let category = DEFAULT_IMPORT_CATEGORY;
+  let warnedHeading = false;
+  let current: PrdEntry | null = null;
+  let inCodeBlock = false;
+
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\t/g, "    ");
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !line.trim()) continue;
+
+    const headingMatch = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+    if (headingMatch) {
+      heading = headingMatch[1];
+      category = normalizeCategory(heading, categories) ?? DEFAULT_IMPORT_CATEGORY;
+      warnedHeading = false;
+      current = null;
+      continue;
+    }
+
+    const itemMatch = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/);
+    if (!itemMatch) {
+      // Paragraph text ends the current item; indented text continues it
+      if (!/^\s/.test(line)) current = null;
+      continue;
+    }
+
+    const [, indent, checkbox, text] = itemMatch;
+    const description = text.trim();
+    if (!description) continue;
+
+    if (indent.length >= 2 && current) {
+      current.steps.push(description);
+      continue;
+    }
+
+    if (heading && !warnedHeading && !normalizeCategory(heading, categories)) {
+      warnings.push(
+        `Line ${i + 1}: heading "${heading}" is not a category - using "${DEFAULT_IMPORT_CATEGORY}"`,
+      );
+      warnedHeading = true;
+    }
+
+    current = {
+      category,
+      description,
+      steps: [],
+      passes: checkbox === "x" || checkbox === "X",
+    };
+    entries.push(current);
+  }
+
+  for (const entry of entries) {
+    entry.steps = withDefaultSteps(entry.steps);
+  }
+  return { entries, warnings };
+}
+
+/**
+ * Splits CSV text into rows of fields. Supports quoted fields with commas,
+ * newlines and doubled quotes.
+ */
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  description: ["description", "title", "summary", "task", "name"],
+  category: ["category", "type"],
+  steps: ["steps", "acceptance criteria", "criteria"],
+  passes: ["passes", "done", "status", "completed"],
+  branch: ["branch"],
+  id: ["id"],
+  dependsOn: ["dependson", "depends on", "depends_on", "dependencies"],
+  priority: ["priority"],
+  owner: ["owner", "assignee"],
+  estimate: ["estimate", "points", "size"],
+  labels: ["labels", "tags"],
+};
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses a CSV file with a header row. Steps are separated by newlines or semicolons.
+ * Throws if there is no description (or title) column.
+ */
+export function parseCsv(
+  content: string,
+  categories: readonly string[] = VALID_CATEGORIES,
+): ImportResult {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ""));
+  const entries: PrdEntry[] = [];
+  const warnings: string[] = [];
+  if (rows.length === 0) {
+    return { entries, warnings };
+  }
+
+  const header = rows[0].map((name) => name.trim().toLowerCase());
+  const columns: Record<string, number> = {};
+  for (const [field, aliases] of Object.entries(CSV_COLUMNS)) {
+    const index = header.findIndex((name) => aliases.includes(name));
+    if (index !== -1) columns[field] = index;
+  }
+  if (columns.description === undefined) {
+    throw new Error(
+      `CSV header has no description column (expected one of: ${CSV_COLUMNS.description.join(", ")})`,
+    );
+  }
+
+  for (let i = 1; i < rows.length; i++) {
+    const get = (field: string) =>
+      columns[field] !== undefined ? (rows[i][columns[field]] ?? "").trim() : "";
+    const rowLabel = `Row ${i + 1}`;
+
+    const description = get("description");
+    if (!description) {
+      warnings.push(`${rowLabel}: no description - skipped`);
+      continue;
+    }
+
+    let category = DEFAULT_IMPORT_CATEGORY;
+    const categoryValue = get("category");
+    if (categoryValue) {
+      const normalized = normalizeCategory(categoryValue, categories);
+      if (normalized) {
+        category = normalized;
+      } else {
+        warnings.push(
+          `${rowLabel}: unknown category "${categoryValue}" - using "${DEFAULT_IMPORT_CATEGORY}"`,
+        );
+      }
+    }
+
+    const entry: PrdEntry = {
+      category,
+      description,
+      steps: withDefaultSteps(splitList(get("steps"), /\r?\n|;/)),
+      passes: PASSING_VALUES.includes(get("passes").toLowerCase()),
+    };
+    const branch = get("branch");
+    if (branch) entry.branch = branch;
+    const id = get("id");
+    if (id) entry.id = id;
+    const dependsOn = splitList(get("dependsOn"), /[\s,;]+/);
+    if (dependsOn.length > 0) entry.dependsOn = dependsOn;
+
+    const priority = get("priority").toLowerCase();
+    if ((PRD_PRIORITIES as readonly string[]).includes(priority)) {
+      entry.priority = priority as PrdPriority;
+    } else if (priority) {
+      warnings.push(`${rowLabel}: unknown priority "${get("priority")}" - ignored`);
+    }
+    const owner = get("owner");
+    if (owner) entry.owner = owner;
+    const estimate = get("estimate");
+    if (estimate && Number(estimate) > 0) {
+      entry.estimate = Number(estimate);
+    } else if (estimate) {
+      warnings.push(`${rowLabel}: estimate "${estimate}" is not a positive number - ignored`);
+    }
+    const labels = splitList(get("labels"), /[,;]/);
+    if (labels.length > 0) entry.labels = labels;
+    entries.push(entry);
+  }
+
+  return { entries, warnings };
+}
+
+function labelNames(labels: unknown): string[] {
+  if (!Array.isArray(labels)) return [];
+  return labels.flatMap((label) => {
+    if (typeof label === "string") return [label];
+    if (typeof label === "object" && label !== null) {
+      const name = (label as Record<string, unknown>).name;
+      if (typeof name === "string") return [name];
+    }
+    return [];
+  });
+}
+
+function assigneeName(issue: Record<string, unknown>): string | undefined {
+  const assignees = Array.isArray(issue.assignees) ? issue.assignees : [issue.assignee];
+  for (const assignee of assignees) {
+    if (typeof assignee === "string" && assignee) return assignee;
+    if (typeof assignee === "object" && assignee !== null) {
+      const login = (assignee as Record<string, unknown>).login;
+      if (typeof login === "string" && login) return login;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a JSON issue export (e.g. `gh issue list --json title,body,labels,state`).
+ * The title becomes the description, list items in the body become steps, the first label
+ * that names a category becomes the category (the other labels are kept as labels), the
+ * first assignee becomes the owner, and closed issues are imported as passing.
+ * Throws if the JSON isn't an issue list.
+ */
+export function parseIssueExport(
+  content: string,
+  categories: readonly string[] = VALID_CATEGORIES,
+): ImportResult {
+  const parsed: unknown = JSON.parse(content);
+  const issues =
+    typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>).issues
+      : parsed;
+  if (!Array.isArray(issues)) {
+    throw new Error("Expected a JSON array of issues or an object with an 'issues' array");
+  }
+
+  const entries: PrdEntry[] = [];
+  const warnings: string[] = [];
+
+  issues.forEach((item, i) => {
+    if (typeof item !== "object" || item === null) {
+      warnings.push(`Issue ${i + 1}: not an object - skipped`);
+      return;
+    }
+    const issue = item as Record<string, unknown>;
+    // GitHub's REST API lists pull requests alongside issues
+    if (issue.pull_request) return;
+
+    const title = typeof issue.title === "string" ? issue.title.trim() : "";
+    if (!title) {
+      warnings.push(`Issue ${i + 1}: no title - skipped`);
+      return;
+    }
+
+    const body = typeof issue.body === "string" ? issue.body : "";
+    const steps = body
+      .split(/\r?\n/)
+      .map((line) => line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s*)?(.+)$/)?.[1]?.trim())
+      .filter((step): step is string => Boolean(step));
+
+    const labels = labelNames(issue.labels);
+    const categoryLabel = labels.find((label) => normalizeCategory(label, categories));
+    const category = categoryLabel
+      ? normalizeCategory(categoryLabel, categories)!
+      : DEFAULT_IMPORT_CATEGORY;
+    const otherLabels = labels.filter((label) => label !== categoryLabel);
+    const owner = assigneeName(issue);
+
+    const state = typeof issue.state === "string" ? issue.state.toLowerCase() : "";
+    entries.push({
+      category,
+      description: title,
+      steps: withDefaultSteps(steps),
+      passes: state === "closed" || issue.closed === true,
+      ...(owner && { owner }),
+      ...(otherLabels.length > 0 && { labels: otherLabels }),
+    });
+  });
+
+  return { entries, warnings };
+}
+
+export function parseImport(
+  content: string,
+  format: ImportFormat,
+  categories: readonly string[] = VALID_CATEGORIES,
+): ImportResult {
+  switch (format) {
+    case "markdown":
+      return parseMarkdownChecklist(content, categories);
+    case "csv":
+      return parseCsv(content, categories);
+    case "issues":
+      return parseIssueExport(content, categories);
+  }
+}
+
+function findDuplicate(entry: PrdEntry, candidates: PrdEntry[], threshold: number) {
+  if (entry.id) {
+    const byId = candidates.find((candidate) => candidate.id === entry.id);
+    if (byId) return { match: byId, score: 1 };
+  }
+
+  const description = entry.description.trim().toLowerCase();
+  let best: { match: PrdEntry; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (candidate.description.trim().toLowerCase() === description) {
+      return { match: candidate, score: 1 };
+    }
+    const score = similarity(candidate.description, entry.description);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { match: candidate, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits imported entries into new ones and duplicates of existing entries (same id,
+ * same description, or a similar description). Duplicates within the import are
+ * dropped as well, keeping the first.
+ */
+export function dedupeEntries(
+  existing: PrdEntry[],
+  imported: PrdEntry[],
+  threshold = DUPLICATE_THRESHOLD,
+): { added: PrdEntry[]; duplicates: ImportDuplicate[] } {
+  const added: PrdEntry[] = [];
+  const duplicates: ImportDuplicate[] = [];
+
+  for (const entry of imported) {
+    const duplicate = findDuplicate(entry, [...existing, ...added], threshold);
+    if (duplicate) {
+      duplicates.push({ entry, ...duplicate });
+    } else {
+      added.push(entry);
+    }
+  }
+
+  return { added, duplicates };
+}
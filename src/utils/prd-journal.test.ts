@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync, existsSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  recordPrdChange,
+  readPrdJournal,
+  getJournalPath,
+  diffPrd,
+  describePrdDiff,
+  isEmptyDiff,
+  JOURNAL_STATE_FILE,
+  SNAPSHOT_INTERVAL,
+} from "./prd-journal.js";
+import { writePrdAuto, writePrdYaml, PrdEntry } from "./prd-validator.js";
+
+function item(id: string, extra: Partial<PrdEntry> = {}): PrdEntry {
+  return {
+    id,
+    category: "feature",
+    description: `Do ${id}`,
+    steps: ["Run tests"],
+    passes: false,
+    ...extra,
+  };
+}
+
+// ─── diffPrd ────────────────────────────────────────────────────────
+
+describe("diffPrd", () => {
+  it("finds added, removed and changed items by id", () => {
+    const before = [item("a"), item("b"), item("c")];
+    const after = [item("a", { passes: true, description: "Do a better" }), item("c"), item("d")];
+    const diff = diffPrd(before, after);
+    expect(diff.added.map((i) => i.id)).toEqual(["d"]);
+    expect(diff.removed.map((i) => i.id)).toEqual(["b"]);
+    expect(diff.changed).toEqual([
+      { key: "id:a", before: before[0], after: after[0], fields: ["description", "passes"] },
+    ]);
+    expect(diff.reordered).toBe(false);
+    expect(describePrdDiff(diff)).toBe("+1 added, -1 removed, ~1 changed (1 now passing)");
+  });
+
+  it("detects reordering and optional fields appearing", () => {
+    const diff = diffPrd([item("a"), item("b")], [item("b", { priority: "high" }), item("a")]);
+    expect(diff.reordered).toBe(true);
+    expect(diff.changed[0].fields).toEqual(["priority"]);
+    expect(describePrdDiff(diff)).toBe("~1 changed, reordered");
+  });
+
+  it("matches items without ids by description, keeping duplicates apart", () => {
+    const plain = { category: "feature", description: "Same", steps: [], passes: false };
+    const diff = diffPrd([plain, plain], [plain, { ...plain, passes: true }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.changed.map((c) => c.key)).toEqual(["description:Same#2"]);
+  });
+
+  it("reports no changes for equal snapshots", () => {
+    const diff = diffPrd([item("a")], [item("a")]);
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(describePrdDiff(diff)).toBe("no changes");
+  });
+});
+
+// ─── recordPrdChange / readPrdJournal ───────────────────────────────
+
+describe("recordPrdChange / readPrdJournal", () => {
+  let dir: string;
+  let prdPath: string;
+  const now = new Date("2026-01-02T03:04:05Z");
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-journal-"));
+    prdPath = join(dir, "prd.yaml");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("appends numbered entries with a snapshot of the items", () => {
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("a")], [], now);
+    recordPrdChange(prdPath, { action: "toggle", source: "mcp" }, [item("a", { passes: true })]);
+
+    const journal = readPrdJournal(prdPath);
+    expect(journal.map((e) => [e.seq, e.action, e.source, e.prd])).toEqual([
+      [1, "add", "cli", "prd.yaml"],
+      [2, "toggle", "mcp", "prd.yaml"],
+    ]);
+    expect(journal[0].timestamp).toBe("2026-01-02T03:04:05.000Z");
+    expect(journal[1].items[0].passes).toBe(true);
+  });
+
+  it("records the existing PRD and outside edits before a change", () => {
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("a"), item("b")], [item("a")]);
+    recordPrdChange(
+      prdPath,
+      { action: "sync", source: "agent" },
+      [item("a", { passes: true })],
+      [item("a")],
+    );
+
+    expect(readPrdJournal(prdPath).map((e) => [e.seq, e.action, e.source])).toEqual([
+      [1, "initial", "file"],
+      [2, "add", "cli"],
+      [3, "external", "file"],
+      [4, "sync", "agent"],
+    ]);
+  });
+
+  it("skips malformed lines and entries for other PRD files", () => {
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("a")]);
+    appendFileSync(getJournalPath(prdPath), '{"seq": 2, "prd": "prd.js\n');
+    recordPrdChange(join(dir, "prd.json"), { action: "add", source: "cli" }, [item("b")]);
+
+    expect(readPrdJournal(prdPath).map((e) => e.seq)).toEqual([1]);
+    expect(readPrdJournal(join(dir, "prd.json")).map((e) => e.seq)).toEqual([3]);
+  });
+
+  it("is written by writePrdAuto when a change is given", () => {
+    writePrdYaml(prdPath, [item("a")]);
+    writePrdAuto(prdPath, [item("a")]);
+    expect(existsSync(getJournalPath(prdPath))).toBe(false);
+
+    writePrdAuto(prdPath, [item("a"), item("b")], { action: "add", source: "chat" });
+    writeFileSync(prdPath, "- not: an item\n");
+    writePrdAuto(prdPath, [item("b")], { action: "fix", source: "cli" });
+
+    const journal = readPrdJournal(prdPath);
+    expect(journal.map((e) => [e.action, e.items.length])).toEqual([
+      ["initial", 1],
+      ["add", 2],
+      ["external", 0],
+      ["fix", 1],
+    ]);
+  });
+
+  it("stores only changed items between periodic snapshots", () => {
+    const items = [item("a"), item("b"), item("c")];
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, items);
+    for (let i = 1; i < SNAPSHOT_INTERVAL + 1; i++) {
+      items[1] = item("b", { passes: i % 2 === 1 });
+      recordPrdChange(prdPath, { action: "toggle", source: "cli" }, items);
+    }
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("c"), ...items, item("d")]);
+
+    const lines = readFileSync(getJournalPath(prdPath), "utf-8").trim().split("\n");
+    const parsed = lines.map((line) => JSON.parse(line));
+    expect(parsed[0].items).toHaveLength(3);
+    expect(parsed[1].changes).toEqual({ set: { "id:b": item("b", { passes: true }) } });
+    expect(parsed[SNAPSHOT_INTERVAL].items).toHaveLength(3);
+    expect(parsed[SNAPSHOT_INTERVAL + 1].changes.order).toEqual([
+      "id:c",
+      "id:a",
+      "id:b",
+      "id:c#2",
+      "id:d",
+    ]);
+
+    const journal = readPrdJournal(prdPath);
+    expect(journal).toHaveLength(SNAPSHOT_INTERVAL + 2);
+    expect(journal[1].items[1].passes).toBe(true);
+    expect(journal[2].items[1].passes).toBe(false);
+    expect(journal.at(-1)!.items.map((i) => i.id)).toEqual(["c", "a", "b", "c", "d"]);
+  });
+
+  it("rebuilds the sidecar state when it is missing or out of date", () => {
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("a")]);
+    rmSync(join(dir, JOURNAL_STATE_FILE));
+    recordPrdChange(prdPath, { action: "toggle", source: "cli" }, [item("a", { passes: true })]);
+
+    // Another process appended without updating the sidecar
+    appendFileSync(
+      getJournalPath(prdPath),
+      JSON.stringify({ seq: 3, prd: "prd.yaml", action: "add", source: "mcp", items: [] }) + "\n",
+    );
+    recordPrdChange(prdPath, { action: "add", source: "cli" }, [item("b")], [], now);
+
+    expect(readPrdJournal(prdPath).map((e) => [e.seq, e.action, e.items.length])).toEqual([
+      [1, "add", 1],
+      [2, "toggle", 1],
+      [3, "add", 0],
+      [4, "add", 1],
+    ]);
+  });
+});
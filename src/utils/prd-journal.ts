@@ -0,0 +1,345 @@
+/**
+ * Append-only PRD change journal, stored next to the PRD in .ralph/prd-journal.jsonl.
+ *
+ * Every write through writePrdAuto that names a change appends a line with the action,
+ * where it came from and the items it changed, so `ralph prd log` can list the history
+ * and `ralph prd diff` can compare any two points. Edits made outside Ralph (by hand, or by
+ * the agent editing the PRD directly) are picked up as an `external` entry the next time
+ * Ralph writes the PRD.
+ *
+ * Most lines only hold the items that changed (a patch); every SNAPSHOT_INTERVAL changes, and
+ * for the first change of a PRD, a line holds a full snapshot. The last sequence number and
+ * the latest items are kept in a sidecar file, so a write doesn't have to re-read the journal.
+ */
+
+import { appendFileSync, existsSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, join } from "path";
+import { prdItemKey } from "./checkpoint.js";
+import type { PrdEntry } from "./prd-validator.js";
+
+export const JOURNAL_FILE = "prd-journal.jsonl";
+export const JOURNAL_STATE_FILE = "prd-journal.state.json";
+
+// Changes between full snapshots of a PRD in the journal
+export const SNAPSHOT_INTERVAL = 50;
+
+export type PrdChangeAction =
+  | "add"
+  | "edit"
+  | "toggle"
+  | "sync"
+  | "verify"
+  | "clean"
+  | "reset"
+  | "fix"
+  | "import"
+  | "generate"
+  | "migrate"
+  | "untag"
+  | "rollback"
+  | "initial" // First snapshot of a PRD that existed before the journal
+  | "external"; // Changes made outside Ralph, found before the next write
+
+export type PrdChangeSource = "cli" | "mcp" | "chat" | "agent" | "file";
+
+export interface PrdChange {
+  action: PrdChangeAction;
+  source: PrdChangeSource;
+}
+
+export interface PrdJournalEntry extends PrdChange {
+  seq: number; // 1-based position in the journal, used by `ralph prd diff`
+  timestamp: string;
+  prd: string; // PRD file (or split PRD directory) name, e.g. prd.yaml
+  items: PrdEntry[];
+}
+
+/**
+ * Items changed by a journal entry, keyed like diffPrd. `order` lists every key after the
+ * change and is only stored when items were added, removed or reordered.
+ */
+interface PrdJournalPatch {
+  set: Record<string, PrdEntry>;
+  order?: string[];
+}
+
+/**
+ * A journal line: a full snapshot (`items`) or the changes since the previous entry.
+ */
+type PrdJournalLine = Omit<PrdJournalEntry, "items"> &
+  ({ items: PrdEntry[] } | { changes: PrdJournalPatch });
+
+/**
+ * Sidecar state: the journal size it describes, the last sequence number, and per PRD the
+ * latest items and how many patches were written since the last snapshot.
+ */
+interface PrdJournalState {
+  size: number;
+  seq: number;
+  prds: Record<string, { items: PrdEntry[]; sinceSnapshot: number }>;
+}
+
+export interface PrdItemChange {
+  key: string;
+  before: PrdEntry;
+  after: PrdEntry;
+  fields: string[];
+}
+
+export interface PrdDiff {
+  added: PrdEntry[];
+  removed: PrdEntry[];
+  changed: PrdItemChange[];
+  reordered: boolean; // Items present on both sides are in a different order
+}
+
+export function getJournalPath(prdPath: string): string {
+  return join(dirname(prdPath), JOURNAL_FILE);
+}
+
+function getJournalStatePath(journalPath: string): string {
+  return join(dirname(journalPath), JOURNAL_STATE_FILE);
+}
+
+/**
+ * Reads every journal line with its items filled in from the previous entry of the same PRD.
+ * Malformed lines are skipped but still counted, as they used up a sequence number.
+ */
+function readJournalLines(journalPath: string): {
+  entries: PrdJournalEntry[];
+  lineCount: number;
+  sinceSnapshot: Map<string, number>;
+} {
+  const entries: PrdJournalEntry[] = [];
+  const latest = new Map<string, PrdEntry[]>();
+  const sinceSnapshot = new Map<string, number>();
+  let lineCount = 0;
+  if (!existsSync(journalPath)) return { entries, lineCount, sinceSnapshot };
+
+  for (const line of readFileSync(journalPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    lineCount++;
+    let parsed: PrdJournalLine;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue; // Skip lines cut off by an interrupted write
+    }
+    if (typeof parsed?.prd !== "string") continue;
+
+    let items: PrdEntry[];
+    if ("items" in parsed && Array.isArray(parsed.items)) {
+      items = parsed.items;
+      sinceSnapshot.set(parsed.prd, 0);
+    } else if ("changes" in parsed && parsed.changes && latest.has(parsed.prd)) {
+      items = applyPatch(latest.get(parsed.prd)!, parsed.changes);
+      sinceSnapshot.set(parsed.prd, (sinceSnapshot.get(parsed.prd) ?? 0) + 1);
+    } else {
+      continue;
+    }
+    latest.set(parsed.prd, items);
+    const { seq, timestamp, prd, action, source } = parsed;
+    entries.push({ seq, timestamp, prd, action, source, items });
+  }
+  return { entries, lineCount, sinceSnapshot };
+}
+
+/**
+ * Reads the journal entries for a PRD, oldest first. Malformed lines are skipped.
+ */
+export function readPrdJournal(prdPath: string): PrdJournalEntry[] {
+  const prd = basename(prdPath);
+  return readJournalLines(getJournalPath(prdPath)).entries.filter((entry) => entry.prd === prd);
+}
+
+function journalSize(journalPath: string): number {
+  return existsSync(journalPath) ? statSync(journalPath).size : 0;
+}
+
+/**
+ * Loads the sidecar state. If it is missing or doesn't match the journal (an older journal,
+ * or another process appended since), it is rebuilt by reading the journal once.
+ */
+function loadJournalState(journalPath: string): PrdJournalState {
+  const size = journalSize(journalPath);
+  try {
+    const state = JSON.parse(readFileSync(getJournalStatePath(journalPath), "utf-8"));
+    if (state?.size === size && typeof state.seq === "number" && state.prds) {
+      return state;
+    }
+  } catch {
+    // Missing or unreadable - rebuild below
+  }
+
+  const { entries, lineCount, sinceSnapshot } = readJournalLines(journalPath);
+  const prds: PrdJournalState["prds"] = {};
+  for (const entry of entries) {
+    prds[entry.prd] = { items: entry.items, sinceSnapshot: sinceSnapshot.get(entry.prd) ?? 0 };
+  }
+  return { size, seq: lineCount, prds };
+}
+
+/**
+ * Items added or changed from `before` to `after`, plus the new order if the set of items
+ * or their order changed.
+ */
+function createPatch(before: PrdEntry[], after: PrdEntry[]): PrdJournalPatch {
+  const beforeItems = keyItems(before);
+  const afterItems = keyItems(after);
+  const set: Record<string, PrdEntry> = {};
+  for (const [key, item] of afterItems) {
+    const old = beforeItems.get(key);
+    if (!old || JSON.stringify(old) !== JSON.stringify(item)) set[key] = item;
+  }
+  const beforeKeys = [...beforeItems.keys()];
+  const afterKeys = [...afterItems.keys()];
+  const sameOrder =
+    beforeKeys.length === afterKeys.length && beforeKeys.every((key, i) => key === afterKeys[i]);
+  return sameOrder ? { set } : { set, order: afterKeys };
+}
+
+function applyPatch(before: PrdEntry[], patch: PrdJournalPatch): PrdEntry[] {
+  const beforeItems = keyItems(before);
+  const keys = patch.order ?? [...beforeItems.keys()];
+  return keys
+    .map((key) => patch.set[key] ?? beforeItems.get(key))
+    .filter((item): item is PrdEntry => item !== undefined);
+}
+
+/**
+ * Keeps only objects that look like PRD items, so snapshots of a damaged PRD can still be diffed.
+ */
+function toItems(content: unknown): PrdEntry[] {
+  if (!Array.isArray(content)) return [];
+  return content.filter(
+    (item): item is PrdEntry =>
+      typeof item === "object" && item !== null && typeof item.description === "string",
+  );
+}
+
+/**
+ * Appends a change to the journal. `previous` is the PRD content on disk before the write:
+ * if it differs from the last journaled snapshot, an `initial` or `external` entry is
+ * recorded first. The journal is best effort and never makes the PRD write fail.
+ */
+export function recordPrdChange(
+  prdPath: string,
+  change: PrdChange,
+  items: PrdEntry[],
+  previous?: unknown,
+  now: Date = new Date(),
+): void {
+  try {
+    const journalPath = getJournalPath(prdPath);
+    const prd = basename(prdPath);
+    const timestamp = now.toISOString();
+    const state = loadJournalState(journalPath);
+    const lines: string[] = [];
+
+    // Stores the items as a patch against the PRD's previous entry, or as a full snapshot
+    const addLine = (entry: PrdChange, entryItems: PrdEntry[]) => {
+      const last = state.prds[prd];
+      const meta = { seq: ++state.seq, timestamp, prd, ...entry };
+      if (!last || last.sinceSnapshot + 1 >= SNAPSHOT_INTERVAL) {
+        lines.push(JSON.stringify({ ...meta, items: entryItems }));
+        state.prds[prd] = { items: entryItems, sinceSnapshot: 0 };
+      } else {
+        lines.push(JSON.stringify({ ...meta, changes: createPatch(last.items, entryItems) }));
+        state.prds[prd] = { items: entryItems, sinceSnapshot: last.sinceSnapshot + 1 };
+      }
+    };
+
+    if (previous !== undefined) {
+      const last = state.prds[prd];
+      const before = toItems(previous);
+      if (last ? !isEmptyDiff(diffPrd(last.items, before)) : before.length > 0) {
+        addLine({ action: last ? "external" : "initial", source: "file" }, before);
+      }
+    }
+
+    addLine(change, toItems(items));
+    appendFileSync(journalPath, lines.join("\n") + "\n");
+    state.size = journalSize(journalPath);
+    writeFileSync(getJournalStatePath(journalPath), JSON.stringify(state));
+  } catch {
+    // A journal that can't be written must not block changes to the PRD
+  }
+}
+
+/**
+ * Keys items by prdItemKey, numbering repeated keys so duplicates are compared in order.
+ */
+function keyItems(items: PrdEntry[]): Map<string, PrdEntry> {
+  const keyed = new Map<string, PrdEntry>();
+  for (const item of items) {
+    const key = prdItemKey(item);
+    let unique = key;
+    for (let n = 2; keyed.has(unique); n++) unique = `${key}#${n}`;
+    keyed.set(unique, item);
+  }
+  return keyed;
+}
+
+/**
+ * Compares two PRD snapshots item by item, matching items by id (or description).
+ */
+export function diffPrd(before: PrdEntry[], after: PrdEntry[]): PrdDiff {
+  const beforeItems = keyItems(before);
+  const afterItems = keyItems(after);
+
+  const added = [...afterItems].filter(([key]) => !beforeItems.has(key)).map(([, item]) => item);
+  const removed = [...beforeItems].filter(([key]) => !afterItems.has(key)).map(([, item]) => item);
+
+  const changed: PrdItemChange[] = [];
+  for (const [key, oldItem] of beforeItems) {
+    const newItem = afterItems.get(key);
+    if (!newItem) continue;
+    const fields = [...new Set([...Object.keys(oldItem), ...Object.keys(newItem)])].filter(
+      (field) =>
+        JSON.stringify(oldItem[field as keyof PrdEntry]) !==
+        JSON.stringify(newItem[field as keyof PrdEntry]),
+    );
+    if (fields.length > 0) {
+      changed.push({ key, before: oldItem, after: newItem, fields });
+    }
+  }
+
+  const commonBefore = [...beforeItems.keys()].filter((key) => afterItems.has(key));
+  const commonAfter = [...afterItems.keys()].filter((key) => beforeItems.has(key));
+  const reordered = commonBefore.some((key, i) => key !== commonAfter[i]);
+
+  return { added, removed, changed, reordered };
+}
+
+export function isEmptyDiff(diff: PrdDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0 &&
+    !diff.reordered
+  );
+}
+
+/**
+ * One-line summary of a diff, e.g. `+1 added, ~2 changed (1 now passing)`.
+ */
+export function describePrdDiff(diff: PrdDiff): string {
+  if (isEmptyDiff(diff)) return "no changes";
+
+  const parts: string[] = [];
+  if (diff.added.length > 0) parts.push(`+${diff.added.length} added`);
+  if (diff.removed.length > 0) parts.push(`-${diff.removed.length} removed`);
+  if (diff.changed.length > 0) {
+    const passing = diff.changed.filter((c) => !c.before.passes && c.after.passes).length;
+    const failing = diff.changed.filter((c) => c.before.passes && !c.after.passes).length;
+    const flags = [
+      passing > 0 ? `${passing} now passing` : "",
+      failing > 0 ? `${failing} no longer passing` : "",
+    ].filter(Boolean);
+    parts.push(
+      `~${diff.changed.length} changed${flags.length > 0 ? ` (${flags.join(", ")})` : ""}`,
+    );
+  }
+  if (diff.reordered) parts.push("reordered");
+  return parts.join(", ");
+}
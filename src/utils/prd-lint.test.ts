@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  lintPrd,
+  fixPrd,
+  getRuleSeverities,
+  hasLintFailures,
+  formatLintIssue,
+  DEFAULT_VERIFICATION_STEP,
+} from "./prd-lint.js";
+import { PrdEntry } from "./prd-validator.js";
+
+function entry(description: string, extra: Partial<PrdEntry> = {}): PrdEntry {
+  return {
+    category: "feature",
+    description,
+    steps: ["Create the endpoint", "Run npm test and check it passes"],
+    passes: false,
+    ...extra,
+  };
+}
+
+const context = { baseDir: "/nonexistent" };
+
+const rules = (entries: PrdEntry[]) => lintPrd(entries, context).map((i) => [i.index, i.rule]);
+
+// ─── lintPrd ────────────────────────────────────────────────────────
+
+describe("lintPrd", () => {
+  it("passes well-formed items", () => {
+    expect(
+      lintPrd([entry("Add a login endpoint"), entry("Add a logout endpoint")], context),
+    ).toEqual([]);
+  });
+
+  it("flags vague descriptions", () => {
+    expect(rules([entry("Make it better"), entry("Login")])).toEqual([
+      [0, "vague-description"],
+      [1, "vague-description"],
+    ]);
+  });
+
+  it("flags items without a verification step", () => {
+    expect(rules([entry("Add a login endpoint", { steps: ["Create the endpoint"] })])).toEqual([
+      [0, "missing-verification"],
+    ]);
+    expect(rules([entry("Add a login endpoint", { steps: [] })])).toEqual([
+      [0, "missing-verification"],
+    ]);
+  });
+
+  it("flags exact and near duplicates as errors", () => {
+    const issues = lintPrd(
+      [entry("Add a login endpoint"), entry("add a  login endpoint"), entry("Add login endpoint")],
+      context,
+    );
+    expect(issues.map((i) => [i.index, i.rule, i.severity])).toEqual([
+      [1, "duplicate", "error"],
+      [2, "duplicate", "error"],
+    ]);
+    expect(issues[0].message).toContain('item 1 "Add a login endpoint"');
+  });
+
+  it("flags steps that can't be checked", () => {
+    const steps = ["Style the page", "Make sure it looks good", "Run npm test"];
+    expect(rules([entry("Style the login page", { steps })])).toEqual([[0, "uncheckable-step"]]);
+  });
+
+  it("flags too many steps", () => {
+    const steps = [...Array.from({ length: 10 }, (_, i) => `Step ${i}`), "Run npm test"];
+    expect(rules([entry("Add a login endpoint", { steps })])).toEqual([[0, "too-many-steps"]]);
+  });
+
+  it("flags stray whitespace", () => {
+    expect(rules([entry(" Add a login endpoint", { steps: ["Run npm test", ""] })])).toEqual([
+      [0, "whitespace"],
+    ]);
+  });
+
+  it("applies configured severities and turns rules off", () => {
+    const config = { rules: { "vague-description": "error", "missing-verification": "off" } };
+    const issues = lintPrd([entry("Login", { steps: [] })], context, config);
+    expect(issues.map((i) => [i.rule, i.severity])).toEqual([["vague-description", "error"]]);
+  });
+});
+
+// ─── missing-file-reference ─────────────────────────────────────────
+
+describe("missing-file-reference", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-lint-"));
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("resolves @{file} references against the base directory", () => {
+    const items = [
+      entry("Implement the spec in @{spec.md}"),
+      entry("Implement the API", { steps: ["Follow @{docs/api.md}", "Run npm test"] }),
+    ];
+    const issues = lintPrd(items, { baseDir: dir });
+    expect(issues.map((i) => [i.index, i.rule, i.severity])).toEqual([
+      [1, "missing-file-reference", "error"],
+    ]);
+    expect(issues[0].message).toBe("@{docs/api.md} points at a missing file");
+  });
+});
+
+// ─── fixPrd ─────────────────────────────────────────────────────────
+
+describe("fixPrd", () => {
+  it("adds verification steps, trims whitespace and removes exact duplicates", () => {
+    const result = fixPrd(
+      [
+        entry(" Add a login endpoint ", { steps: ["Create the endpoint", " "] }),
+        entry("Add a login endpoint"),
+      ],
+      context,
+    );
+    expect(result.fixed).toEqual(["missing-verification", "duplicate", "whitespace"]);
+    expect(result.entries).toEqual([
+      entry("Add a login endpoint", { steps: ["Create the endpoint", DEFAULT_VERIFICATION_STEP] }),
+    ]);
+  });
+
+  it("keeps duplicates other items depend on", () => {
+    const items = [
+      entry("Add a login endpoint", { id: "login" }),
+      entry("Add a login endpoint", { id: "login-2" }),
+      entry("Add a session store", { id: "session", dependsOn: ["login-2"] }),
+    ];
+    expect(fixPrd(items, context)).toEqual({ entries: items, fixed: [] });
+  });
+
+  it("skips rules that are turned off", () => {
+    const items = [entry("Add a login endpoint", { steps: ["Create the endpoint"] })];
+    const config = { rules: { "missing-verification": "off" } };
+    expect(fixPrd(items, context, config).fixed).toEqual([]);
+  });
+});
+
+// ─── getRuleSeverities / hasLintFailures ────────────────────────────
+
+describe("getRuleSeverities", () => {
+  it("ignores unknown severities", () => {
+    const severities = getRuleSeverities({ rules: { duplicate: "fatal", whitespace: "off" } });
+    expect(severities.duplicate).toBe("error");
+    expect(severities.whitespace).toBe("off");
+  });
+});
+
+describe("hasLintFailures", () => {
+  it("fails on errors, and on warnings when strict", () => {
+    const warnings = lintPrd([entry("Login")], context);
+    expect(hasLintFailures(warnings)).toBe(false);
+    expect(hasLintFailures(warnings, true)).toBe(true);
+    expect(hasLintFailures(lintPrd([entry("Add login"), entry("Add login")], context))).toBe(true);
+  });
+
+  it("formats issues on one line", () => {
+    const items = [entry("Login")];
+    expect(formatLintIssue(lintPrd(items, context)[0], items)).toBe(
+      '1. Login: Description "Login" is too short to act on (vague-description)',
+    );
+  });
+});
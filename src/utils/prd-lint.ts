@@ -0,0 +1,269 @@
+/**
+ * Quality rules for PRD entries, used by `ralph prd lint` and (optionally) before `ralph run`.
+ * validatePrd checks that the PRD has the right shape; these rules check that each item is
+ * something an agent can actually finish and verify in one iteration.
+ */
+
+import { existsSync } from "fs";
+import { join } from "path";
+import type { PrdLintConfig } from "./config.js";
+import { similarity, DUPLICATE_THRESHOLD, PrdEntry } from "./prd-validator.js";
+
+export type LintSeverity = "error" | "warning" | "off";
+
+export const LINT_SEVERITIES: LintSeverity[] = ["error", "warning", "off"];
+
+export interface LintIssue {
+  rule: string;
+  severity: Exclude<LintSeverity, "off">;
+  index: number; // Entry the issue is about
+  message: string;
+  fixable: boolean;
+}
+
+export interface LintContext {
+  baseDir: string; // Directory @{file} references are resolved against (.ralph/)
+}
+
+interface LintRule {
+  name: string;
+  description: string;
+  severity: LintSeverity; // Default, overridable with lint.rules in config.json
+  check(entries: PrdEntry[], context: LintContext): { index: number; message: string }[];
+  fix?(entries: PrdEntry[]): PrdEntry[];
+}
+
+export const DEFAULT_VERIFICATION_STEP = "Verify the feature works as expected";
+
+// Steps above this count are too much for one iteration
+const MAX_STEPS = 10;
+
+const VAGUE_DESCRIPTION =
+  /\b(make (it|things|everything) (better|nicer|work)|improve (it|things|stuff|everything)|fix (it|stuff|things|everything)|clean ?up stuff|misc(ellaneous)?|various|tbd|todo|stuff|etc\.?)\b/i;
+
+const VAGUE_STEP =
+  /\b(make sure (it|everything) works|looks? (good|nice|right)|as needed|if necessary|and so on|etc\.?|whatever|somehow)\b/i;
+
+const VERIFICATION_WORDS =
+  /\b(verify|verifies|test|tests|tested|check|checks|assert|confirm|ensure|expect|should|run|passes|returns|displays|shows|responds|succeeds|fails)\b/i;
+
+const FILE_REFERENCE = /@\{([^}]+)\}/g;
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function fileReferences(entry: PrdEntry): string[] {
+  const texts = [entry.description, ...entry.steps];
+  return texts.flatMap((text) =>
+    typeof text === "string" ? [...text.matchAll(FILE_REFERENCE)].map((m) => m[1]) : [],
+  );
+}
+
+/**
+ * Ids referenced by some entry's dependsOn.
+ */
+function referencedIds(entries: PrdEntry[]): Set<string> {
+  return new Set(entries.flatMap((entry) => entry.dependsOn ?? []));
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    name: "vague-description",
+    description: 'Descriptions like "make it better" that don\'t say what to build',
+    severity: "warning",
+    check: (entries) =>
+      entries.flatMap((entry, index) => {
+        const words = entry.description.trim().split(/\s+/).length;
+        if (VAGUE_DESCRIPTION.test(entry.description)) {
+          return [{ index, message: `Vague description "${entry.description}"` }];
+        }
+        if (words < 3) {
+          return [{ index, message: `Description "${entry.description}" is too short to act on` }];
+        }
+        return [];
+      }),
+  },
+  {
+    name: "missing-verification",
+    description: "Items without a step that verifies the result (fix: add a verification step)",
+    severity: "warning",
+    check: (entries) =>
+      entries.flatMap((entry, index) => {
+        if (entry.steps.length === 0) {
+          return [{ index, message: "No steps, so nothing says how to verify the item" }];
+        }
+        if (!entry.steps.some((step) => VERIFICATION_WORDS.test(step))) {
+          return [{ index, message: "No step verifies the result (test, check, verify, ...)" }];
+        }
+        return [];
+      }),
+    fix: (entries) =>
+      entries.map((entry) =>
+        entry.steps.some((step) => VERIFICATION_WORDS.test(step))
+          ? entry
+          : { ...entry, steps: [...entry.steps, DEFAULT_VERIFICATION_STEP] },
+      ),
+  },
+  {
+    name: "duplicate",
+    description:
+      "Items with the same or a very similar description (fix: remove exact duplicates nothing depends on)",
+    severity: "error",
+    check: (entries) =>
+      entries.flatMap((entry, index) => {
+        const earlier = entries.findIndex(
+          (other, i) =>
+            i < index &&
+            (normalize(other.description) === normalize(entry.description) ||
+              similarity(other.description, entry.description) >= DUPLICATE_THRESHOLD),
+        );
+        return earlier === -1
+          ? []
+          : [
+              {
+                index,
+                message: `Duplicates item ${earlier + 1} "${entries[earlier].description}"`,
+              },
+            ];
+      }),
+    fix: (entries) => {
+      const referenced = referencedIds(entries);
+      return entries.filter(
+        (entry, index) =>
+          (entry.id && referenced.has(entry.id)) ||
+          !entries
+            .slice(0, index)
+            .some((other) => normalize(other.description) === normalize(entry.description)),
+      );
+    },
+  },
+  {
+    name: "uncheckable-step",
+    description: 'Steps like "make sure it works" that can\'t be checked',
+    severity: "warning",
+    check: (entries) =>
+      entries.flatMap((entry, index) =>
+        entry.steps
+          .filter((step) => VAGUE_STEP.test(step))
+          .map((step) => ({ index, message: `Step "${step}" can't be checked` })),
+      ),
+  },
+  {
+    name: "missing-file-reference",
+    description: "@{file} references to files that don't exist",
+    severity: "error",
+    check: (entries, context) =>
+      entries.flatMap((entry, index) =>
+        fileReferences(entry)
+          .filter((path) => !existsSync(path.startsWith("/") ? path : join(context.baseDir, path)))
+          .map((path) => ({ index, message: `@{${path}} points at a missing file` })),
+      ),
+  },
+  {
+    name: "too-many-steps",
+    description: `Items with more than ${MAX_STEPS} steps, too big for one iteration`,
+    severity: "warning",
+    check: (entries) =>
+      entries.flatMap((entry, index) =>
+        entry.steps.length > MAX_STEPS
+          ? [{ index, message: `${entry.steps.length} steps - consider splitting the item` }]
+          : [],
+      ),
+  },
+  {
+    name: "whitespace",
+    description: "Stray whitespace and empty steps (fix: trim them)",
+    severity: "warning",
+    check: (entries) =>
+      entries.flatMap((entry, index) => {
+        const texts = [entry.description, ...entry.steps];
+        return texts.some((text) => text !== text.trim()) || entry.steps.some((s) => !s.trim())
+          ? [{ index, message: "Stray whitespace or empty steps" }]
+          : [];
+      }),
+    fix: (entries) =>
+      entries.map((entry) => ({
+        ...entry,
+        description: entry.description.trim(),
+        steps: entry.steps.map((step) => step.trim()).filter(Boolean),
+      })),
+  },
+];
+
+/**
+ * Severity of each rule after applying lint.rules from config.json.
+ * Unknown rule names and severities are ignored.
+ */
+export function getRuleSeverities(config?: PrdLintConfig): Record<string, LintSeverity> {
+  const severities: Record<string, LintSeverity> = {};
+  for (const rule of LINT_RULES) {
+    const configured = config?.rules?.[rule.name];
+    severities[rule.name] = LINT_SEVERITIES.includes(configured as LintSeverity)
+      ? (configured as LintSeverity)
+      : rule.severity;
+  }
+  return severities;
+}
+
+/**
+ * Runs every enabled rule. Issues are sorted by entry, then by rule order.
+ */
+export function lintPrd(
+  entries: PrdEntry[],
+  context: LintContext,
+  config?: PrdLintConfig,
+): LintIssue[] {
+  const severities = getRuleSeverities(config);
+  const issues: LintIssue[] = [];
+
+  for (const rule of LINT_RULES) {
+    const severity = severities[rule.name];
+    if (severity === "off") continue;
+    for (const { index, message } of rule.check(entries, context)) {
+      issues.push({ rule: rule.name, severity, index, message, fixable: rule.fix !== undefined });
+    }
+  }
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Applies the autofix of every enabled rule that reported an issue.
+ * Returns the fixed entries and the names of the rules that changed something.
+ */
+export function fixPrd(
+  entries: PrdEntry[],
+  context: LintContext,
+  config?: PrdLintConfig,
+): { entries: PrdEntry[]; fixed: string[] } {
+  const severities = getRuleSeverities(config);
+  const fixed: string[] = [];
+  let result = entries;
+
+  for (const rule of LINT_RULES) {
+    if (!rule.fix || severities[rule.name] === "off") continue;
+    if (rule.check(result, context).length === 0) continue;
+    const next = rule.fix(result);
+    if (JSON.stringify(next) !== JSON.stringify(result)) {
+      fixed.push(rule.name);
+      result = next;
+    }
+  }
+
+  return { entries: result, fixed };
+}
+
+/**
+ * One-line description of an issue, e.g. `3. Add login: No steps, ... (missing-verification)`.
+ */
+export function formatLintIssue(issue: LintIssue, entries: PrdEntry[]): string {
+  return `${issue.index + 1}. ${entries[issue.index].description}: ${issue.message} (${issue.rule})`;
+}
+
+/**
+ * True if the issues should fail the lint: any error, or any warning when `strict`.
+ */
+export function hasLintFailures(issues: LintIssue[], strict = false): boolean {
+  return issues.some((issue) => issue.severity === "error" || strict);
+}
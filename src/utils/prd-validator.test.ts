@@ -1,4 +1,9 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import YAML from "yaml";
+import { migratePrdIds } from "./prd-ids.js";
 import {
   validatePrd,
   extractPassingItems,
@@ -8,6 +13,10 @@ import {
   expandFileReferences,
   expandPrdFileReferences,
   createTemplatePrd,
+  readPrdFile,
+  writePrdAuto,
+  resolvePrdSources,
+  createBackup,
   type PrdEntry,
 } from "./prd-validator.js";
 
@@ -55,6 +64,46 @@ describe("validatePrd", () => {
     expect(result.errors.some((e) => e.includes("invalid category"))).toBe(true);
   });
 
+  it("accepts categories passed by the caller", () => {
+    const entry = { category: "security", description: "test", steps: [], passes: false };
+    expect(validatePrd([entry]).valid).toBe(false);
+    expect(validatePrd([entry], ["feature", "security"]).valid).toBe(true);
+  });
+
+  it("keeps valid priority, owner, estimate and labels fields", () => {
+    const entry = {
+      category: "feature",
+      description: "test",
+      steps: [],
+      passes: false,
+      priority: "high",
+      owner: "platform-team",
+      estimate: 3,
+      labels: ["auth", "q3"],
+    };
+    const result = validatePrd([entry]);
+    expect(result.valid).toBe(true);
+    expect(result.data).toEqual([entry]);
+  });
+
+  it("rejects invalid custom fields", () => {
+    const result = validatePrd([
+      {
+        category: "feature",
+        description: "test",
+        steps: [],
+        passes: false,
+        priority: "urgent",
+        owner: 7,
+        estimate: -1,
+        labels: "auth",
+      },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(4);
+    expect(result.errors[0]).toContain("'priority' must be one of: critical, high, medium, low");
+  });
+
   it("rejects non-string steps", () => {
     const result = validatePrd([
       {
@@ -283,6 +332,73 @@ describe("validatePrd", () => {
     ]);
     expect(result.valid).toBe(false);
   });
+
+  it("accepts id and dependsOn fields", () => {
+    const result = validatePrd([
+      { id: "db", category: "setup", description: "a", steps: ["s"], passes: false },
+      {
+        id: "api",
+        category: "feature",
+        description: "b",
+        steps: ["s"],
+        passes: false,
+        dependsOn: ["db"],
+      },
+    ]);
+    expect(result.valid).toBe(true);
+    expect(result.data![0].id).toBe("db");
+    expect(result.data![1].dependsOn).toEqual(["db"]);
+  });
+
+  it("rejects ids with invalid characters", () => {
+    const result = validatePrd([
+      { id: "has space", category: "feature", description: "a", steps: ["s"], passes: false },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes("'id' field contains invalid characters"))).toBe(
+      true,
+    );
+  });
+
+  it("rejects dependsOn that is not a string array", () => {
+    const result = validatePrd([
+      { category: "feature", description: "a", steps: ["s"], passes: false, dependsOn: "db" },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.includes("'dependsOn'"))).toBe(true);
+  });
+
+  it("rejects dangling dependsOn references but keeps the parsed data", () => {
+    const result = validatePrd([
+      { category: "feature", description: "a", steps: ["s"], passes: false, dependsOn: ["x"] },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Item 1: 'dependsOn' references unknown id 'x'"]);
+    expect(result.data).toHaveLength(1);
+  });
+
+  it("rejects dependency cycles", () => {
+    const result = validatePrd([
+      {
+        id: "a",
+        category: "feature",
+        description: "a",
+        steps: [],
+        passes: false,
+        dependsOn: ["b"],
+      },
+      {
+        id: "b",
+        category: "feature",
+        description: "b",
+        steps: [],
+        passes: false,
+        dependsOn: ["a"],
+      },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Dependency cycle: a -> b -> a"]);
+  });
 });
 
 // ─── extractPassingItems ────────────────────────────────────────────
@@ -547,6 +663,18 @@ describe("smartMerge", () => {
     expect(result.merged[1].passes).toBe(false);
   });
 
+  it("matches by id before description", () => {
+    const withIds: PrdEntry[] = [
+      { ...original[0], id: "login" },
+      { ...original[1], id: "signup" },
+    ];
+    const corrupted = [{ id: "signup", description: "Add login page", passes: true }];
+    const result = smartMerge(withIds, corrupted);
+    expect(result.itemsUpdated).toBe(1);
+    expect(result.merged[0].passes).toBe(false);
+    expect(result.merged[1].passes).toBe(true);
+  });
+
   it("matches by similarity", () => {
     const corrupted = [{ description: "Add login page feature", passes: true }];
     const result = smartMerge(original, corrupted);
@@ -935,6 +1063,21 @@ describe("attemptRecovery", () => {
     expect(result).toBeNull();
   });
 
+  it("recovers project categories and custom fields", () => {
+    const corrupted = [{ type: "security", title: "Audit deps", priority: "high", labels: ["q3"] }];
+    expect(attemptRecovery(corrupted)).toBeNull();
+    expect(attemptRecovery(corrupted, ["feature", "security"])).toEqual([
+      {
+        category: "security",
+        description: "Audit deps",
+        steps: ["Verify the feature works as expected"],
+        passes: false,
+        priority: "high",
+        labels: ["q3"],
+      },
+    ]);
+  });
+
   it("recovers git_branch alternative field", () => {
     const corrupted = [
       { category: "feature", description: "Test", git_branch: "feat/test", passes: false },
@@ -1272,3 +1415,128 @@ describe("createTemplatePrd", () => {
     expect(recoveryResult[0].category).toBe("setup");
   });
 });
+
+// ─── Split PRDs ─────────────────────────────────────────────────────
+
+describe("split PRDs", () => {
+  let dir: string;
+
+  const entry = (id: string, passes = false): PrdEntry => ({
+    id,
+    category: "feature",
+    description: `Item ${id}`,
+    steps: [],
+    passes,
+  });
+
+  const readYaml = (path: string) => YAML.parse(readFileSync(path, "utf-8"));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-split-prd-"));
+    mkdirSync(join(dir, "prd"));
+    writeFileSync(join(dir, "prd", "auth.yaml"), YAML.stringify([entry("login"), entry("logout")]));
+    writeFileSync(join(dir, "prd", "billing.json"), JSON.stringify([entry("invoice")]));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("treats single-file PRDs as not split", () => {
+    writeFileSync(join(dir, "prd.yaml"), YAML.stringify([entry("a")]));
+    expect(resolvePrdSources(join(dir, "prd.yaml"))).toBeNull();
+  });
+
+  it("merges a directory of PRD files and remembers each item's file", () => {
+    const parsed = readPrdFile(join(dir, "prd"));
+    expect((parsed!.content as PrdEntry[]).map((e) => e.id)).toEqual([
+      "login",
+      "logout",
+      "invoice",
+    ]);
+    expect(parsed!.sources).toEqual([
+      join(dir, "prd", "auth.yaml"),
+      join(dir, "prd", "auth.yaml"),
+      join(dir, "prd", "billing.json"),
+    ]);
+  });
+
+  it("expands the include list of a root file after its own items", () => {
+    writeFileSync(
+      join(dir, "prd.yaml"),
+      YAML.stringify({ include: ["prd/*.json", "prd/auth.yaml"], items: [entry("setup")] }),
+    );
+    const parsed = readPrdFile(join(dir, "prd.yaml"));
+    expect((parsed!.content as PrdEntry[]).map((e) => e.id)).toEqual([
+      "setup",
+      "invoice",
+      "login",
+      "logout",
+    ]);
+  });
+
+  it("writes each item back to its own file and new items next to the previous one", () => {
+    const prdPath = join(dir, "prd");
+    const billingBefore = readFileSync(join(dir, "prd", "billing.json"), "utf-8");
+    const entries = readPrdFile(prdPath)!.content as PrdEntry[];
+
+    entries[1].passes = true;
+    entries.splice(2, 0, entry("mfa"));
+    writePrdAuto(prdPath, entries);
+
+    expect(readYaml(join(dir, "prd", "auth.yaml"))).toEqual([
+      entry("login"),
+      entry("logout", true),
+      entry("mfa"),
+    ]);
+    // Untouched files aren't rewritten
+    expect(readFileSync(join(dir, "prd", "billing.json"), "utf-8")).toBe(billingBefore);
+  });
+
+  it("keeps items in their files when ids are first assigned", () => {
+    const prdPath = join(dir, "prd");
+    const withoutId = (description: string) => ({
+      category: "feature",
+      description,
+      passes: false,
+    });
+    writeFileSync(join(dir, "prd", "auth.yaml"), YAML.stringify([withoutId("Login")]));
+    writeFileSync(join(dir, "prd", "billing.json"), JSON.stringify([withoutId("Invoice")]));
+
+    expect(migratePrdIds(prdPath).assigned).toBe(2);
+
+    expect(readYaml(join(dir, "prd", "auth.yaml"))).toEqual([
+      { id: "login", ...withoutId("Login") },
+    ]);
+    expect(JSON.parse(readFileSync(join(dir, "prd", "billing.json"), "utf-8"))).toEqual([
+      { id: "invoice", ...withoutId("Invoice") },
+    ]);
+  });
+
+  it("keeps the include list when writing the root file", () => {
+    const prdPath = join(dir, "prd.yaml");
+    writeFileSync(prdPath, YAML.stringify({ include: ["prd/auth.yaml"], items: [entry("setup")] }));
+
+    const entries = readPrdFile(prdPath)!.content as PrdEntry[];
+    writePrdAuto(
+      prdPath,
+      entries.map((e) => ({ ...e, passes: true })),
+    );
+
+    expect(readYaml(prdPath)).toEqual({
+      include: ["prd/auth.yaml"],
+      items: [entry("setup", true)],
+    });
+    expect(readYaml(join(dir, "prd", "auth.yaml"))).toEqual([
+      entry("login", true),
+      entry("logout", true),
+    ]);
+  });
+
+  it("backs up the merged items as one YAML file", () => {
+    const backupPath = createBackup(join(dir, "prd"));
+    expect(backupPath.startsWith(join(dir, "backup.prd."))).toBe(true);
+    expect(backupPath.endsWith(".yaml")).toBe(true);
+    expect(readYaml(backupPath).map((e: PrdEntry) => e.id)).toEqual(["login", "logout", "invoice"]);
+  });
+});
@@ -1,6 +1,9 @@
-import { existsSync, readFileSync, writeFileSync, readdirSync } from "fs";
-import { join, dirname, extname } from "path";
+import { existsSync, readFileSync, writeFileSync, readdirSync, statSync } from "fs";
+import { join, dirname, extname, basename } from "path";
 import YAML from "yaml";
+import { PRD_ID_PATTERN, validateDependencies } from "./prd-dependencies.js";
+import { prdItemKey } from "./checkpoint.js";
+import { recordPrdChange, PrdChange } from "./prd-journal.js";
 
 export interface PrdEntry {
   category: string;
@@ -8,12 +11,18 @@ export interface PrdEntry {
   steps: string[];
   passes: boolean;
   branch?: string;
+  id?: string; // Stable identifier, referenced by other entries' dependsOn
+  dependsOn?: string[]; // Ids of entries that must pass before this one is scheduled
+  priority?: PrdPriority;
+  owner?: string; // Person or team responsible for the item
+  estimate?: number; // Size in the team's unit (points, hours, ...)
+  labels?: string[];
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
-  data?: PrdEntry[];
+  data?: PrdEntry[]; // Also set when only the cross-item dependency checks failed
 }
 
 export interface MergeResult {
@@ -23,10 +32,14 @@ export interface MergeResult {
 }
 
 interface ExtractedItem {
+  id?: string;
   description: string;
   passes: boolean;
 }
 
+/**
+ * Built-in categories. Projects can add their own in config.json (see prd-categories.ts).
+ */
 export const VALID_CATEGORIES = [
   "ui",
   "feature",
@@ -37,11 +50,40 @@ export const VALID_CATEGORIES = [
   "docs",
 ] as const;
 
+export const PRD_PRIORITIES = ["critical", "high", "medium", "low"] as const;
+
+export type PrdPriority = (typeof PRD_PRIORITIES)[number];
+
+/**
+ * Copies the optional priority/owner/estimate/labels fields that are valid.
+ */
+function pickCustomFields(obj: Record<string, unknown>): Partial<PrdEntry> {
+  const fields: Partial<PrdEntry> = {};
+  if ((PRD_PRIORITIES as readonly unknown[]).includes(obj.priority)) {
+    fields.priority = obj.priority as PrdPriority;
+  }
+  if (typeof obj.owner === "string" && obj.owner) {
+    fields.owner = obj.owner;
+  }
+  if (typeof obj.estimate === "number" && obj.estimate > 0) {
+    fields.estimate = obj.estimate;
+  }
+  if (Array.isArray(obj.labels) && obj.labels.every((label) => typeof label === "string")) {
+    fields.labels = obj.labels as string[];
+  }
+  return fields;
+}
+
 /**
  * Validates that a PRD structure is correct.
+ * `categories` lists the allowed categories (the built-in ones unless the caller
+ * passes the project's, see loadCategoryNames()).
  * Returns validation result with parsed data if valid.
  */
-export function validatePrd(content: unknown): ValidationResult {
+export function validatePrd(
+  content: unknown,
+  categories: readonly string[] = VALID_CATEGORIES,
+): ValidationResult {
   const errors: string[] = [];
 
   // Must be an array
@@ -66,7 +108,7 @@ export function validatePrd(content: unknown): ValidationResult {
     // Check required fields
     if (typeof entry.category !== "string") {
       errors.push(`${prefix} missing or invalid 'category' field`);
-    } else if (!(VALID_CATEGORIES as readonly string[]).includes(entry.category)) {
+    } else if (!categories.includes(entry.category)) {
       errors.push(`${prefix} invalid category '${entry.category}'`);
     }
 
@@ -101,6 +143,47 @@ export function validatePrd(content: unknown): ValidationResult {
       );
     }
 
+    // Validate optional id field if present
+    if (entry.id !== undefined && typeof entry.id !== "string") {
+      errors.push(`${prefix} 'id' field must be a string if provided`);
+    } else if (typeof entry.id === "string" && !PRD_ID_PATTERN.test(entry.id)) {
+      errors.push(
+        `${prefix} 'id' field contains invalid characters (only alphanumeric, hyphens, underscores, and dots allowed)`,
+      );
+    }
+
+    // Validate optional dependsOn field if present
+    if (entry.dependsOn !== undefined) {
+      if (!Array.isArray(entry.dependsOn)) {
+        errors.push(`${prefix} 'dependsOn' field must be an array of ids if provided`);
+      } else if (entry.dependsOn.some((dep) => typeof dep !== "string")) {
+        errors.push(`${prefix} 'dependsOn' entries must be strings`);
+      }
+    }
+
+    // Validate optional custom fields if present
+    if (
+      entry.priority !== undefined &&
+      !(PRD_PRIORITIES as readonly unknown[]).includes(entry.priority)
+    ) {
+      errors.push(`${prefix} 'priority' must be one of: ${PRD_PRIORITIES.join(", ")}`);
+    }
+    if (entry.owner !== undefined && typeof entry.owner !== "string") {
+      errors.push(`${prefix} 'owner' field must be a string if provided`);
+    }
+    if (
+      entry.estimate !== undefined &&
+      (typeof entry.estimate !== "number" || !(entry.estimate > 0))
+    ) {
+      errors.push(`${prefix} 'estimate' field must be a positive number if provided`);
+    }
+    if (
+      entry.labels !== undefined &&
+      (!Array.isArray(entry.labels) || entry.labels.some((label) => typeof label !== "string"))
+    ) {
+      errors.push(`${prefix} 'labels' field must be an array of strings if provided`);
+    }
+
     // If no errors for this item, add to valid data
     if (errors.filter((e) => e.startsWith(prefix)).length === 0) {
       const validEntry: PrdEntry = {
@@ -112,7 +195,13 @@ export function validatePrd(content: unknown): ValidationResult {
       if (typeof entry.branch === "string") {
         validEntry.branch = entry.branch;
       }
-      data.push(validEntry);
+      if (typeof entry.id === "string") {
+        validEntry.id = entry.id;
+      }
+      if (Array.isArray(entry.dependsOn)) {
+        validEntry.dependsOn = entry.dependsOn as string[];
+      }
+      data.push({ ...validEntry, ...pickCustomFields(entry) });
     }
   }
 
@@ -120,6 +209,12 @@ export function validatePrd(content: unknown): ValidationResult {
     return { valid: false, errors };
   }
 
+  // Cross-item checks: duplicate ids, dangling references, and cycles
+  const dependencyErrors = validateDependencies(data);
+  if (dependencyErrors.length > 0) {
+    return { valid: false, errors: dependencyErrors, data };
+  }
+
   return { valid: true, errors: [], data };
 }
 
@@ -236,13 +331,19 @@ function extractFromItem(item: unknown): ExtractedItem | null {
     }
   }
 
-  return { description, passes };
+  const id = typeof obj.id === "string" && obj.id ? obj.id : undefined;
+
+  return { ...(id && { id }), description, passes };
 }
 
+// Minimum similarity() score for two descriptions to count as duplicates,
+// both for `ralph prd lint` and for skipping items in `ralph prd import`
+export const DUPLICATE_THRESHOLD = 0.85;
+
 /**
  * Calculates similarity between two strings using Jaccard index on words.
  */
-function similarity(a: string, b: string): number {
+export function similarity(a: string, b: string): number {
   const wordsA = new Set(
     a
       .toLowerCase()
@@ -266,6 +367,39 @@ function similarity(a: string, b: string): number {
   return intersection.size / union.size;
 }
 
+/**
+ * Finds the original entry an extracted item refers to.
+ * Matches on the stable id first, then falls back to description similarity.
+ */
+function findMatchingEntry(entries: PrdEntry[], item: ExtractedItem): PrdEntry | null {
+  if (item.id) {
+    const byId = entries.find((entry) => entry.id === item.id);
+    if (byId) return byId;
+  }
+
+  let bestMatch: PrdEntry | null = null;
+  let bestScore = 0;
+
+  for (const entry of entries) {
+    // Exact substring match
+    if (
+      entry.description.includes(item.description) ||
+      item.description.includes(entry.description)
+    ) {
+      return entry;
+    }
+
+    // Similarity match
+    const score = similarity(entry.description, item.description);
+    if (score > bestScore && score > 0.5) {
+      bestMatch = entry;
+      bestScore = score;
+    }
+  }
+
+  return bestMatch;
+}
+
 /**
  * Smart merge: applies passes flags from corrupted PRD to valid original.
  * Only updates items that were marked as passing in the corrupted version.
@@ -279,28 +413,7 @@ export function smartMerge(original: PrdEntry[], corrupted: unknown): MergeResul
   for (const item of passingItems) {
     if (!item.passes) continue;
 
-    // Find matching original item by description similarity
-    let bestMatch: PrdEntry | null = null;
-    let bestScore = 0;
-
-    for (const entry of merged) {
-      // Exact substring match
-      if (
-        entry.description.includes(item.description) ||
-        item.description.includes(entry.description)
-      ) {
-        bestMatch = entry;
-        bestScore = 1;
-        break;
-      }
-
-      // Similarity match
-      const score = similarity(entry.description, item.description);
-      if (score > bestScore && score > 0.5) {
-        bestMatch = entry;
-        bestScore = score;
-      }
-    }
+    const bestMatch = findMatchingEntry(merged, item);
 
     if (bestMatch && !bestMatch.passes) {
       bestMatch.passes = true;
@@ -315,15 +428,19 @@ export function smartMerge(original: PrdEntry[], corrupted: unknown): MergeResul
 
 /**
  * Attempts to recover a valid PRD from corrupted content.
+ * `categories` lists the categories a renamed category field may hold.
  * Returns the recovered PRD entries or null if recovery failed.
  */
-export function attemptRecovery(corrupted: unknown): PrdEntry[] | null {
+export function attemptRecovery(
+  corrupted: unknown,
+  categories: readonly string[] = VALID_CATEGORIES,
+): PrdEntry[] | null {
   // Strategy 1: Unwrap from common wrapper objects
   if (typeof corrupted === "object" && corrupted !== null && !Array.isArray(corrupted)) {
     const obj = corrupted as Record<string, unknown>;
     for (const key of PRD_WRAPPER_KEYS) {
       if (Array.isArray(obj[key])) {
-        const result = attemptArrayRecovery(obj[key]);
+        const result = attemptArrayRecovery(obj[key], categories);
         if (result) return result;
       }
     }
@@ -331,7 +448,7 @@ export function attemptRecovery(corrupted: unknown): PrdEntry[] | null {
 
   // Strategy 2: Direct array recovery with field mapping
   if (Array.isArray(corrupted)) {
-    const result = attemptArrayRecovery(corrupted);
+    const result = attemptArrayRecovery(corrupted, categories);
     if (result) return result;
   }
 
@@ -341,7 +458,7 @@ export function attemptRecovery(corrupted: unknown): PrdEntry[] | null {
 /**
  * Attempts to recover PRD entries from an array with possibly renamed fields.
  */
-function attemptArrayRecovery(items: unknown[]): PrdEntry[] | null {
+function attemptArrayRecovery(items: unknown[], categories: readonly string[]): PrdEntry[] | null {
   const recovered: PrdEntry[] = [];
 
   for (const item of items) {
@@ -359,7 +476,7 @@ function attemptArrayRecovery(items: unknown[]): PrdEntry[] | null {
     for (const field of categoryFields) {
       if (typeof obj[field] === "string") {
         const value = obj[field] as string;
-        if ((VALID_CATEGORIES as readonly string[]).includes(value)) {
+        if (categories.includes(value)) {
           entry.category = value;
           break;
         }
@@ -440,6 +557,23 @@ function attemptArrayRecovery(items: unknown[]): PrdEntry[] | null {
       }
     }
 
+    // Id mapping (optional field) - only keep ids that aren't category names
+    if (typeof obj.id === "string" && PRD_ID_PATTERN.test(obj.id) && !categories.includes(obj.id)) {
+      entry.id = obj.id;
+    }
+
+    // Dependencies mapping (optional field)
+    const dependsOnFields = ["dependsOn", "depends_on", "dependencies", "after"];
+    for (const field of dependsOnFields) {
+      if (Array.isArray(obj[field])) {
+        const deps = (obj[field] as unknown[]).filter((d) => typeof d === "string") as string[];
+        if (deps.length > 0) {
+          entry.dependsOn = deps;
+          break;
+        }
+      }
+    }
+
     // Check if we recovered all required fields
     if (!entry.category || !entry.description) {
       return null; // Missing critical fields
@@ -453,7 +587,7 @@ function attemptArrayRecovery(items: unknown[]): PrdEntry[] | null {
       entry.passes = false;
     }
 
-    recovered.push(entry as PrdEntry);
+    recovered.push({ ...(entry as PrdEntry), ...pickCustomFields(obj) });
   }
 
   return recovered.length > 0 ? recovered : null;
@@ -465,10 +599,12 @@ function attemptArrayRecovery(items: unknown[]): PrdEntry[] | null {
  * Returns the backup path.
  */
 export function createBackup(prdPath: string): string {
-  const content = readFileSync(prdPath, "utf-8");
+  const sources = resolvePrdSources(prdPath);
+  const content = sources ? backupSplitPrd(prdPath, sources) : readFileSync(prdPath, "utf-8");
   const dir = dirname(prdPath);
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const ext = extname(prdPath).toLowerCase();
+  // Split PRDs are backed up as one merged YAML file
+  const ext = sources ? ".yaml" : extname(prdPath).toLowerCase();
   // Preserve original extension, default to .json if unknown
   const backupExt = ext === ".yaml" || ext === ".yml" ? ext : ".json";
   const backupPath = join(dir, `backup.prd.${timestamp}${backupExt}`);
@@ -764,13 +900,11 @@ export function readYamlPrdFile(prdPath: string): { content: unknown; raw: strin
 }
 
 /**
- * Reads and parses a PRD file, handling potential JSON/YAML errors.
+ * Parses a single PRD file without unwrapping it.
  * Detects file format based on extension (.yaml/.yml uses YAML, .json uses JSON).
  * For YAML files, attempts to fix common LLM-caused issues before parsing.
- * Automatically unwraps if the content is wrapped in a common object structure.
- * Returns the parsed content or null if it couldn't be parsed.
  */
-export function readPrdFile(prdPath: string): { content: unknown; raw: string } | null {
+function parsePrdFileContent(prdPath: string): { content: unknown; raw: string } | null {
   try {
     const raw = readFileSync(prdPath, "utf-8");
     const ext = extname(prdPath).toLowerCase();
@@ -783,24 +917,42 @@ export function readPrdFile(prdPath: string): { content: unknown; raw: string }
         content = YAML.parse(raw);
       } catch {
         const fixed = fixYamlEmbeddedQuotes(fixYamlMultilineStrings(raw));
-        content = YAML.parse(fixed);
-        // Unwrap if wrapped in common object structure
-        content = unwrapPrdContent(content);
-        return { content, raw: fixed };
+        return { content: YAML.parse(fixed), raw: fixed };
       }
     } else {
       // Default to JSON for .json or any other extension
       content = JSON.parse(raw);
     }
-
-    // Unwrap if wrapped in common object structure
-    content = unwrapPrdContent(content);
     return { content, raw };
   } catch {
     return null;
   }
 }
 
+/**
+ * Reads a single PRD file, unwrapping it if it's wrapped in a common object structure.
+ */
+function readSinglePrdFile(prdPath: string): { content: unknown; raw: string } | null {
+  const parsed = parsePrdFileContent(prdPath);
+  return parsed && { content: unwrapPrdContent(parsed.content), raw: parsed.raw };
+}
+
+/**
+ * Reads and parses a PRD file, handling potential JSON/YAML errors.
+ * Detects file format based on extension (.yaml/.yml uses YAML, .json uses JSON).
+ * For YAML files, attempts to fix common LLM-caused issues before parsing.
+ * Automatically unwraps if the content is wrapped in a common object structure.
+ * Split PRDs (see resolvePrdSources) are merged into one list, and `sources` holds
+ * the file each item was read from.
+ * Returns the parsed content or null if it couldn't be parsed.
+ */
+export function readPrdFile(
+  prdPath: string,
+): { content: unknown; raw: string; sources?: string[] } | null {
+  const sources = resolvePrdSources(prdPath);
+  return sources ? readSplitPrd(prdPath, sources) : readSinglePrdFile(prdPath);
+}
+
 /**
  * Writes a PRD to file in JSON format.
  */
@@ -817,16 +969,210 @@ export function writePrdYaml(prdPath: string, entries: PrdEntry[]): void {
 
 /**
  * Writes a PRD to file, detecting format from file extension.
+ * Split PRDs are written back file by file (see writeSplitPrd).
+ * With `change`, the write is recorded in the PRD journal (see prd-journal.ts).
  */
-export function writePrdAuto(prdPath: string, entries: PrdEntry[]): void {
+export function writePrdAuto(prdPath: string, entries: PrdEntry[], change?: PrdChange): void {
+  const previous = change && existsSync(prdPath) ? readPrdFile(prdPath)?.content : undefined;
+  const sources = resolvePrdSources(prdPath);
+  if (sources) {
+    writeSplitPrd(prdPath, sources, entries);
+  } else {
+    writeSinglePrdFile(prdPath, entries);
+  }
+  if (change) {
+    recordPrdChange(prdPath, change, entries, previous);
+  }
+}
+
+function writeSinglePrdFile(prdPath: string, content: unknown): void {
   const ext = extname(prdPath).toLowerCase();
   if (ext === ".yaml" || ext === ".yml") {
-    writePrdYaml(prdPath, entries);
+    writeFileSync(prdPath, YAML.stringify(content));
   } else {
-    writePrd(prdPath, entries);
+    writeFileSync(prdPath, JSON.stringify(content, null, 2) + "\n");
+  }
+}
+
+// ─── Split PRDs ──────────────────────────────────────────────────────
+
+const PRD_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Root file of a split PRD: its own items plus the files listed under `include:`.
+ */
+interface PrdIncludeRoot {
+  include: string[];
+  items?: unknown;
+}
+
+function isPrdDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
   }
 }
 
+function isIncludeRoot(content: unknown): content is PrdIncludeRoot {
+  return (
+    typeof content === "object" &&
+    content !== null &&
+    !Array.isArray(content) &&
+    Array.isArray((content as Record<string, unknown>).include)
+  );
+}
+
+/**
+ * Lists the PRD files in a directory, in name order.
+ */
+function listPrdFiles(dir: string, pattern?: RegExp): string[] {
+  if (!isPrdDirectory(dir)) return [];
+  return readdirSync(dir)
+    .filter((name) => PRD_FILE_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .filter((name) => !pattern || pattern.test(name))
+    .sort()
+    .map((name) => join(dir, name));
+}
+
+/**
+ * Expands one `include:` entry, relative to the root file's directory.
+ * A `*` in the file name matches any characters (e.g. `prd/*.yaml`).
+ */
+function expandInclude(baseDir: string, include: string): string[] {
+  const path = include.startsWith("/") ? include : join(baseDir, include);
+  const name = basename(path);
+  if (!name.includes("*")) return [path];
+  const escaped = name.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return listPrdFiles(dirname(path), new RegExp(`^${escaped}$`));
+}
+
+/**
+ * Returns the files a split PRD is made of, or null for a regular single-file PRD.
+ * A PRD is split when it's a directory of PRD files (`.ralph/prd/*.yaml`, in name order),
+ * or a file with an `include:` list - its own `items` come first, then the included files.
+ */
+export function resolvePrdSources(prdPath: string): string[] | null {
+  if (isPrdDirectory(prdPath)) {
+    const files = listPrdFiles(prdPath);
+    return files.length > 0 ? files : [join(prdPath, "prd.yaml")];
+  }
+
+  const root = parsePrdFileContent(prdPath)?.content;
+  if (!isIncludeRoot(root)) return null;
+
+  const files = [prdPath];
+  for (const include of root.include) {
+    if (typeof include !== "string") continue;
+    for (const file of expandInclude(dirname(prdPath), include)) {
+      if (!files.includes(file)) files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Reads the items of one file of a split PRD. Included files that don't exist yet are empty.
+ */
+function readPrdSource(prdPath: string, file: string): { content: unknown; raw: string } | null {
+  if (file === prdPath) {
+    const parsed = parsePrdFileContent(prdPath);
+    if (!parsed || !isIncludeRoot(parsed.content)) return null;
+    return { content: parsed.content.items ?? [], raw: parsed.raw };
+  }
+  if (!existsSync(file)) return { content: [], raw: "" };
+  return readSinglePrdFile(file);
+}
+
+/**
+ * Merges the files of a split PRD. Returns null if any of them can't be parsed.
+ */
+function readSplitPrd(
+  prdPath: string,
+  files: string[],
+): { content: unknown[]; raw: string; sources: string[] } | null {
+  const content: unknown[] = [];
+  const sources: string[] = [];
+  const raws: string[] = [];
+
+  for (const file of files) {
+    const parsed = readPrdSource(prdPath, file);
+    if (!parsed || !Array.isArray(parsed.content)) return null;
+    content.push(...parsed.content);
+    sources.push(...parsed.content.map(() => file));
+    raws.push(parsed.raw);
+  }
+
+  return { content, raw: raws.join("\n"), sources };
+}
+
+/**
+ * Keys an item read from a split PRD can be found by again: its id key and its
+ * description key, so an item that has just been given an id still finds its file.
+ */
+function sourceKeys(item: unknown): string[] {
+  if (typeof item !== "object" || item === null) return [];
+  const { id, description } = item as Record<string, unknown>;
+  if (typeof description !== "string") return [];
+  const keys = [prdItemKey({ description })];
+  if (typeof id === "string" && id) keys.unshift(prdItemKey({ id, description }));
+  return keys;
+}
+
+/**
+ * Writes entries back to the files of a split PRD.
+ * Each entry goes to the file it was read from; new entries go to the file of the entry
+ * before them (or the first file). Only files whose items changed are rewritten.
+ */
+function writeSplitPrd(prdPath: string, files: string[], entries: PrdEntry[]): void {
+  const current = readSplitPrd(prdPath, files);
+  const origins = new Map<string, string>();
+  current?.content.forEach((item, index) => {
+    for (const key of sourceKeys(item)) {
+      if (!origins.has(key)) origins.set(key, current.sources[index]);
+    }
+  });
+
+  const byFile = new Map<string, PrdEntry[]>(files.map((file) => [file, []]));
+  let previous = files[0];
+  for (const entry of entries) {
+    const file =
+      origins.get(prdItemKey(entry)) ??
+      origins.get(prdItemKey({ description: entry.description })) ??
+      previous;
+    byFile.get(file)!.push(entry);
+    previous = file;
+  }
+
+  for (const [file, fileEntries] of byFile) {
+    const before = current?.content.filter((_, index) => current.sources[index] === file);
+    if (before && JSON.stringify(before) === JSON.stringify(fileEntries)) continue;
+    if (!existsSync(file) && fileEntries.length === 0) continue;
+
+    if (file === prdPath) {
+      // Keep the include list (and any other keys) of the root file
+      const root = parsePrdFileContent(prdPath)?.content;
+      const rest = isIncludeRoot(root) ? root : { include: [] };
+      writeSinglePrdFile(prdPath, { ...rest, items: fileEntries });
+    } else {
+      writeSinglePrdFile(file, fileEntries);
+    }
+  }
+}
+
+/**
+ * Content for a backup of a split PRD: the merged items, or every file's text
+ * (under a comment naming the file) if some of them can't be parsed.
+ */
+function backupSplitPrd(prdPath: string, files: string[]): string {
+  const merged = readSplitPrd(prdPath, files);
+  if (merged) return YAML.stringify(merged.content);
+  return files
+    .filter((file) => existsSync(file))
+    .map((file) => `# ${file}\n${readFileSync(file, "utf-8")}`)
+    .join("\n");
+}
+
 /**
  * Expands @{filepath} patterns in a string with actual file contents.
  * Similar to curl's @ syntax for including file contents.
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRunId,
+  parseLedger,
+  resolveRunId,
+  compareModels,
+  sumLedgerUsage,
+  summarizeModels,
+  type IterationRecord,
+  type RunLedger,
+} from "./run-ledger.js";
+
+function iteration(overrides: Partial<IterationRecord> = {}): IterationRecord {
+  return {
+    type: "iteration",
+    iteration: 1,
+    startedAt: "2026-01-15T10:00:00.000Z",
+    endedAt: "2026-01-15T10:01:00.000Z",
+    durationMs: 60000,
+    cliProvider: "claude",
+    exitCode: 0,
+    tasksCompleted: [],
+    commits: [],
+    iterationsWithoutProgress: 0,
+    consecutiveFailures: 0,
+    ...overrides,
+  };
+}
+
+// ─── createRunId ────────────────────────────────────────────────────
+
+describe("createRunId", () => {
+  it("creates a sortable, filename-safe id", () => {
+    expect(createRunId(new Date("2026-01-15T10:30:00.123Z"))).toBe("2026-01-15T10-30-00");
+  });
+});
+
+// ─── parseLedger ────────────────────────────────────────────────────
+
+describe("parseLedger", () => {
+  it("collects start, iterations and end records", () => {
+    const content = [
+      JSON.stringify({
+        type: "run_start",
+        runId: "r1",
+        startedAt: "2026-01-15T10:00:00.000Z",
+        cliProvider: "claude",
+        command: "claude",
+        mode: "all",
+      }),
+      JSON.stringify({
+        type: "checkpoint",
+        iteration: 1,
+        createdAt: "2026-01-15T10:00:00.000Z",
+        dir: "/workspace",
+        head: "abc123",
+        passing: [],
+      }),
+      JSON.stringify(iteration({ iteration: 1 })),
+      JSON.stringify(iteration({ iteration: 2, exitCode: 1 })),
+      JSON.stringify({ type: "run_end", endedAt: "x", iterations: 2, reason: "complete" }),
+    ].join("\n");
+
+    const ledger = parseLedger("r1", content);
+    expect(ledger.start?.mode).toBe("all");
+    expect(ledger.checkpoints.map((cp) => cp.head)).toEqual(["abc123"]);
+    expect(ledger.iterations.map((it) => it.exitCode)).toEqual([0, 1]);
+    expect(ledger.end?.reason).toBe("complete");
+  });
+
+  it("skips malformed lines", () => {
+    const content = JSON.stringify(iteration()) + "\n{not json\n\n";
+    const ledger = parseLedger("r1", content);
+    expect(ledger.iterations).toHaveLength(1);
+    expect(ledger.end).toBeUndefined();
+  });
+});
+
+// ─── resolveRunId ───────────────────────────────────────────────────
+
+describe("resolveRunId", () => {
+  const runIds = ["2026-01-14T09-00-00", "2026-01-15T10-00-00", "2026-01-15T11-00-00"];
+
+  it("resolves 'latest' to the newest run", () => {
+    expect(resolveRunId(runIds, "latest")).toBe("2026-01-15T11-00-00");
+  });
+
+  it("resolves exact ids and unique prefixes", () => {
+    expect(resolveRunId(runIds, "2026-01-15T10-00-00")).toBe("2026-01-15T10-00-00");
+    expect(resolveRunId(runIds, "2026-01-14")).toBe("2026-01-14T09-00-00");
+  });
+
+  it("returns null for ambiguous or unknown references", () => {
+    expect(resolveRunId(runIds, "2026-01-15")).toBeNull();
+    expect(resolveRunId(runIds, "nope")).toBeNull();
+    expect(resolveRunId([], "latest")).toBeNull();
+  });
+});
+
+// ─── compareModels ──────────────────────────────────────────────────
+
+describe("compareModels", () => {
+  it("groups iterations by provider and model", () => {
+    const ledgers: RunLedger[] = [
+      {
+        runId: "r1",
+        checkpoints: [],
+        iterations: [
+          iteration({ model: "opus", tasksCompleted: [{ id: "a", description: "A" }] }),
+          iteration({ model: "opus", exitCode: 1 }),
+          iteration({ cliProvider: "codex" }),
+        ],
+      },
+      {
+        runId: "r2",
+        checkpoints: [],
+        iterations: [iteration({ model: "opus", durationMs: 30000 })],
+      },
+    ];
+
+    const stats = compareModels(ledgers);
+    expect(stats).toHaveLength(2);
+
+    const opus = stats[0];
+    expect(opus).toMatchObject({
+      cliProvider: "claude",
+      model: "opus",
+      runs: 2,
+      iterations: 3,
+      succeeded: 2,
+      productive: 1,
+      tasksCompleted: 1,
+      totalDurationMs: 150000,
+    });
+
+    expect(stats[1]).toMatchObject({ cliProvider: "codex", model: "default", iterations: 1 });
+  });
+});
+
+// ─── sumLedgerUsage ─────────────────────────────────────────────────
+
+describe("sumLedgerUsage", () => {
+  it("adds usage across runs and skips iterations without usage", () => {
+    const usage = { inputTokens: 10, outputTokens: 5, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    const ledgers: RunLedger[] = [
+      {
+        runId: "r1",
+        checkpoints: [],
+        iterations: [iteration({ usage: { ...usage, costUsd: 0.5 } }), iteration()],
+      },
+      { runId: "r2", checkpoints: [], iterations: [iteration({ usage })] },
+    ];
+
+    expect(sumLedgerUsage(ledgers)).toEqual({
+      inputTokens: 20,
+      outputTokens: 10,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0.5,
+    });
+  });
+});
+
+// ─── summarizeModels ────────────────────────────────────────────────
+
+describe("summarizeModels", () => {
+  it("counts iterations and tasks per model in order of first use", () => {
+    const ledger: RunLedger = {
+      runId: "r1",
+      checkpoints: [],
+      iterations: [
+        iteration({ model: "haiku" }),
+        iteration({ model: "sonnet", tasksCompleted: [{ id: "a", description: "A" }] }),
+        iteration({ model: "haiku", tasksCompleted: [{ id: "b", description: "B" }] }),
+        iteration(),
+      ],
+    };
+
+    expect(summarizeModels(ledger)).toEqual([
+      { model: "haiku", iterations: 2, tasksCompleted: 1 },
+      { model: "sonnet", iterations: 1, tasksCompleted: 1 },
+      { model: "default", iterations: 1, tasksCompleted: 0 },
+    ]);
+  });
+});
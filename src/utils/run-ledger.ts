@@ -0,0 +1,311 @@
+/**
+ * Run ledger: a structured record of every `ralph run`.
+ *
+ * Each run writes one JSONL file to `.ralph/runs/<run-id>.jsonl` containing a
+ * `run_start` record, a `checkpoint` and an `iteration` record per iteration and
+ * a `run_end` record. Runs that were interrupted have no `run_end` record.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, appendFileSync } from "fs";
+import { join } from "path";
+import { emptyUsage, addUsage, type TokenUsage } from "./usage.js";
+import type { AgentAction } from "./agent-actions.js";
+import type { TimeoutReason } from "./watchdog.js";
+import type { ModelSwitch } from "./model-chain.js";
+import type { Checkpoint } from "./checkpoint.js";
+
+export const RUNS_DIR_NAME = "runs";
+
+export interface RunStartRecord {
+  type: "run_start";
+  runId: string;
+  startedAt: string;
+  cliProvider: string;
+  command: string;
+  model?: string;
+  models?: string[]; // Model fallback chain, when more than one model is configured
+  mode: "all" | "loop" | "count";
+  requestedIterations?: number;
+  category?: string;
+  branchFilter?: string;
+  parallel?: number; // Branch groups run at once (--parallel)
+  pick?: string; // Task selection strategy (--pick), when not the default
+  maxTasksInContext?: number; // Items shown to the agent per iteration (--max-tasks-in-context)
+}
+
+export interface LedgerTask {
+  id?: string;
+  description: string;
+  usage?: TokenUsage; // Usage since the previous completed task, shared between tasks completed together
+}
+
+export interface IterationRecord {
+  type: "iteration";
+  iteration: number;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  cliProvider: string;
+  model?: string; // Model the iteration finished on
+  modelSwitches?: ModelSwitch[]; // Fallbacks during the iteration and escalation after it
+  branch?: string;
+  worktree?: string;
+  exitCode: number;
+  timedOut?: TimeoutReason; // Set when the agent was stopped for running too long or going silent
+  tasksCompleted: LedgerTask[];
+  tasksReverted?: LedgerTask[]; // Marked as passing by the agent but failed verification
+  tasksQuarantined?: LedgerTask[]; // Reached maxAttemptsPerTask in this iteration
+  commits: string[];
+  usage?: TokenUsage; // Only recorded when stream-json output reports usage
+  agentActions?: AgentAction[]; // Flagged actions (direct PRD edits, git push) seen in stream-json output
+  iterationsWithoutProgress: number;
+  consecutiveFailures: number;
+}
+
+/**
+ * Written before each iteration starts, so interrupted iterations can be rolled back too.
+ */
+export interface CheckpointRecord extends Checkpoint {
+  type: "checkpoint";
+  iteration: number;
+  createdAt: string;
+  branch?: string;
+}
+
+export interface RunEndRecord {
+  type: "run_end";
+  endedAt: string;
+  iterations: number;
+  reason: string;
+}
+
+export type LedgerRecord = RunStartRecord | CheckpointRecord | IterationRecord | RunEndRecord;
+
+/**
+ * Everything recorded for one run, read back from its ledger file.
+ */
+export interface RunLedger {
+  runId: string;
+  start?: RunStartRecord;
+  checkpoints: CheckpointRecord[];
+  iterations: IterationRecord[];
+  end?: RunEndRecord;
+}
+
+/**
+ * Per provider/model success statistics across runs.
+ */
+export interface ModelStats {
+  cliProvider: string;
+  model: string;
+  runs: number;
+  iterations: number;
+  succeeded: number;
+  productive: number;
+  tasksCompleted: number;
+  totalDurationMs: number;
+  usage: TokenUsage;
+}
+
+export function getRunsDir(ralphDir: string): string {
+  return join(ralphDir, RUNS_DIR_NAME);
+}
+
+/**
+ * Creates a sortable run id from a start time, e.g. "2026-01-15T10-30-00".
+ */
+export function createRunId(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-").slice(0, 19);
+}
+
+/**
+ * Returns a run id that doesn't already have a ledger file in runsDir.
+ */
+export function createUniqueRunId(runsDir: string, date: Date = new Date()): string {
+  const base = createRunId(date);
+  let runId = base;
+  for (let n = 2; existsSync(getLedgerPath(runsDir, runId)); n++) {
+    runId = `${base}-${n}`;
+  }
+  return runId;
+}
+
+export function getLedgerPath(runsDir: string, runId: string): string {
+  return join(runsDir, `${runId}.jsonl`);
+}
+
+/**
+ * Appends a record to a run's ledger file, creating the runs directory if needed.
+ * Write errors are ignored so a full disk never stops a run.
+ */
+export function appendLedgerRecord(runsDir: string, runId: string, record: LedgerRecord): void {
+  try {
+    if (!existsSync(runsDir)) {
+      mkdirSync(runsDir, { recursive: true });
+    }
+    appendFileSync(getLedgerPath(runsDir, runId), JSON.stringify(record) + "\n");
+  } catch {
+    // Ignore write errors
+  }
+}
+
+/**
+ * Parses ledger file content. Malformed lines (e.g. a partially written last
+ * line) are skipped.
+ */
+export function parseLedger(runId: string, content: string): RunLedger {
+  const ledger: RunLedger = { runId, checkpoints: [], iterations: [] };
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let record: LedgerRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (record.type === "run_start") {
+      ledger.start = record;
+    } else if (record.type === "checkpoint") {
+      ledger.checkpoints.push(record);
+    } else if (record.type === "iteration") {
+      ledger.iterations.push(record);
+    } else if (record.type === "run_end") {
+      ledger.end = record;
+    }
+  }
+
+  return ledger;
+}
+
+export function readLedger(runsDir: string, runId: string): RunLedger | null {
+  const path = getLedgerPath(runsDir, runId);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return parseLedger(runId, readFileSync(path, "utf-8"));
+}
+
+/**
+ * Lists run ids in runsDir, oldest first.
+ */
+export function listRunIds(runsDir: string): string[] {
+  if (!existsSync(runsDir)) {
+    return [];
+  }
+  return readdirSync(runsDir)
+    .filter((name) => name.endsWith(".jsonl"))
+    .map((name) => name.slice(0, -".jsonl".length))
+    .sort();
+}
+
+/**
+ * Resolves a user-supplied run reference: an exact id, a unique prefix,
+ * or "latest". Returns null if nothing (or more than one run) matches.
+ */
+export function resolveRunId(runIds: string[], ref: string): string | null {
+  if (ref === "latest") {
+    return runIds.length > 0 ? runIds[runIds.length - 1] : null;
+  }
+  if (runIds.includes(ref)) {
+    return ref;
+  }
+  const matches = runIds.filter((id) => id.startsWith(ref));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * An iteration succeeded if the CLI exited cleanly.
+ */
+export function isSuccessfulIteration(iteration: IterationRecord): boolean {
+  return iteration.exitCode === 0;
+}
+
+/**
+ * Adds up the usage recorded for every iteration of the given runs.
+ */
+export function sumLedgerUsage(ledgers: RunLedger[]): TokenUsage {
+  let total = emptyUsage();
+  for (const ledger of ledgers) {
+    for (const iteration of ledger.iterations) {
+      if (iteration.usage) {
+        total = addUsage(total, iteration.usage);
+      }
+    }
+  }
+  return total;
+}
+
+export interface ModelUsageSummary {
+  model: string;
+  iterations: number;
+  tasksCompleted: number;
+}
+
+/**
+ * Counts a run's iterations and completed tasks per model, in order of first use.
+ */
+export function summarizeModels(ledger: RunLedger): ModelUsageSummary[] {
+  const byModel = new Map<string, ModelUsageSummary>();
+  for (const iteration of ledger.iterations) {
+    const model = iteration.model || "default";
+    const entry = byModel.get(model) ?? { model, iterations: 0, tasksCompleted: 0 };
+    entry.iterations++;
+    entry.tasksCompleted += iteration.tasksCompleted.length;
+    byModel.set(model, entry);
+  }
+  return [...byModel.values()];
+}
+
+/**
+ * Loads every run ledger in runsDir, oldest first.
+ */
+export function readAllLedgers(runsDir: string): RunLedger[] {
+  return listRunIds(runsDir)
+    .map((runId) => readLedger(runsDir, runId))
+    .filter((ledger): ledger is RunLedger => ledger !== null);
+}
+
+/**
+ * Groups iterations from all runs by CLI provider and model.
+ * Iterations without a model are grouped under "default".
+ */
+export function compareModels(ledgers: RunLedger[]): ModelStats[] {
+  const stats = new Map<string, ModelStats & { runIds: Set<string> }>();
+
+  for (const ledger of ledgers) {
+    for (const iteration of ledger.iterations) {
+      const model = iteration.model || "default";
+      const key = `${iteration.cliProvider}\0${model}`;
+      let entry = stats.get(key);
+      if (!entry) {
+        entry = {
+          cliProvider: iteration.cliProvider,
+          model,
+          runs: 0,
+          iterations: 0,
+          succeeded: 0,
+          productive: 0,
+          tasksCompleted: 0,
+          totalDurationMs: 0,
+          usage: emptyUsage(),
+          runIds: new Set(),
+        };
+        stats.set(key, entry);
+      }
+      entry.runIds.add(ledger.runId);
+      entry.iterations++;
+      if (isSuccessfulIteration(iteration)) entry.succeeded++;
+      if (iteration.tasksCompleted.length > 0) entry.productive++;
+      entry.tasksCompleted += iteration.tasksCompleted.length;
+      entry.totalDurationMs += iteration.durationMs;
+      if (iteration.usage) {
+        entry.usage = addUsage(entry.usage, iteration.usage);
+      }
+    }
+  }
+
+  return [...stats.values()]
+    .map(({ runIds, ...entry }) => ({ ...entry, runs: runIds.size }))
+    .sort((a, b) => b.iterations - a.iterations);
+}
@@ -9,6 +9,7 @@ import {
   DefaultStreamParser,
   getStreamJsonParser,
 } from "./stream-json.js";
+import { addUsage, emptyUsage } from "./usage.js";
 
 // ─── ClaudeStreamParser ─────────────────────────────────────────────
 
@@ -713,6 +714,11 @@ describe("CodexStreamParser", () => {
     expect(parser.parseStreamJsonLine(line)).toContain("Rate limited");
   });
 
+  it("handles turn.failed with an error object", () => {
+    const line = JSON.stringify({ type: "turn.failed", error: { message: "Context too long" } });
+    expect(parser.parseStreamJsonLine(line)).toContain("Context too long");
+  });
+
   it("handles turn.failed without error or message", () => {
     const line = JSON.stringify({ type: "turn.failed" });
     expect(parser.parseStreamJsonLine(line)).toContain("Turn failed");
@@ -1163,6 +1169,209 @@ describe("DefaultStreamParser", () => {
   });
 });
 
+// ─── parseStreamEvents ──────────────────────────────────────────────
+
+describe("parseStreamEvents", () => {
+  it("normalizes Claude assistant messages into text and tool_use events", () => {
+    const line = JSON.stringify({
+      type: "assistant",
+      message: {
+        content: [
+          { type: "text", text: "Editing" },
+          { type: "tool_use", name: "Edit", input: { file_path: ".ralph/prd.json" } },
+        ],
+      },
+    });
+    expect(new ClaudeStreamParser().parseStreamEvents(line)).toEqual([
+      { type: "text", text: "Editing" },
+      { type: "tool_use", name: "Edit", input: { file_path: ".ralph/prd.json" } },
+    ]);
+  });
+
+  it("emits usage and turn_end for Claude result events", () => {
+    const line = JSON.stringify({
+      type: "result",
+      result: "done",
+      usage: { input_tokens: 1, output_tokens: 2 },
+    });
+    const events = new ClaudeStreamParser().parseStreamEvents(line);
+    expect(events.map((e) => e.type)).toEqual(["usage", "turn_end"]);
+  });
+
+  it("normalizes Codex items into command, file_edit and error events", () => {
+    const parser = new CodexStreamParser();
+    expect(
+      parser.parseStreamEvents(
+        JSON.stringify({
+          type: "item.started",
+          item: { type: "command_execution", command: "ls" },
+        }),
+      ),
+    ).toEqual([{ type: "command", command: "ls" }]);
+    expect(
+      parser.parseStreamEvents(
+        JSON.stringify({
+          type: "item.completed",
+          item: {
+            type: "file_change",
+            changes: [{ path: "a.ts", kind: "update" }, { kind: "add" }],
+          },
+        }),
+      ),
+    ).toEqual([{ type: "file_edit", path: "a.ts" }]);
+    expect(parser.parseStreamEvents(JSON.stringify({ type: "turn.failed", error: "x" }))).toEqual([
+      { type: "error", source: "Turn failed", message: "x" },
+    ]);
+  });
+
+  it("keeps OpenCode tool input and completed output", () => {
+    const line = JSON.stringify({
+      type: "tool_use",
+      part: {
+        type: "tool",
+        tool: "bash",
+        state: { status: "completed", input: { command: "git push" }, output: "ok" },
+      },
+    });
+    expect(new OpenCodeStreamParser().parseStreamEvents(line)).toEqual([
+      { type: "tool_use", name: "bash", title: undefined, input: { command: "git push" } },
+      { type: "tool_result", output: "ok" },
+    ]);
+  });
+
+  it("returns plain text lines as text events for Aider only", () => {
+    expect(new AiderStreamParser().parseStreamEvents("plain")).toEqual([
+      { type: "text", text: "plain" },
+    ]);
+    expect(new ClaudeStreamParser().parseStreamEvents("plain")).toEqual([]);
+  });
+
+  it("renders parsed events the same as parseStreamJsonLine", () => {
+    const parser = new GeminiStreamParser();
+    const line = JSON.stringify({
+      type: "tools",
+      tools: [{ name: "calc", input: { x: 1 }, output: "2" }],
+    });
+    expect(parser.renderStreamEvents(parser.parseStreamEvents(line))).toBe(
+      parser.parseStreamJsonLine(line),
+    );
+  });
+});
+
+// ─── parseUsage ─────────────────────────────────────────────────────
+
+describe("parseUsage", () => {
+  it("reads usage and cost from Claude result events", () => {
+    const line = JSON.stringify({
+      type: "result",
+      total_cost_usd: 0.42,
+      usage: {
+        input_tokens: 100,
+        output_tokens: 50,
+        cache_read_input_tokens: 1000,
+        cache_creation_input_tokens: 200,
+      },
+    });
+    expect(new ClaudeStreamParser().parseUsage(line)).toEqual({
+      inputTokens: 100,
+      outputTokens: 50,
+      cacheReadTokens: 1000,
+      cacheWriteTokens: 200,
+      costUsd: 0.42,
+    });
+  });
+
+  it("returns null for Claude events without usage", () => {
+    const parser = new ClaudeStreamParser();
+    expect(parser.parseUsage(JSON.stringify({ type: "text", text: "hi" }))).toBeNull();
+    expect(parser.parseUsage(JSON.stringify({ type: "result", result: "done" }))).toBeNull();
+    expect(parser.parseUsage("not json")).toBeNull();
+  });
+
+  it("reads Codex turn.completed usage without counting cached input twice", () => {
+    const line = JSON.stringify({
+      type: "turn.completed",
+      usage: { input_tokens: 1200, cached_input_tokens: 1000, output_tokens: 30 },
+    });
+    expect(new CodexStreamParser().parseUsage(line)).toEqual({
+      inputTokens: 200,
+      outputTokens: 30,
+      cacheReadTokens: 1000,
+      cacheWriteTokens: 0,
+    });
+  });
+
+  it("reads Gemini usage from the result stats only", () => {
+    const parser = new GeminiStreamParser();
+    const turn = JSON.stringify({
+      type: "turn_complete",
+      usageMetadata: { promptTokenCount: 300, candidatesTokenCount: 40 },
+    });
+    expect(parser.parseUsage(turn)).toBeNull();
+
+    const result = JSON.stringify({
+      type: "result",
+      stats: { input_tokens: 500, output_tokens: 60, cached: 100 },
+    });
+    expect(parser.parseUsage(result)).toMatchObject({
+      inputTokens: 400,
+      outputTokens: 60,
+      cacheReadTokens: 100,
+    });
+  });
+
+  it("does not double-count Gemini usage across a full session", () => {
+    const parser = new GeminiStreamParser();
+    const lines = [
+      { type: "turn_complete", usageMetadata: { promptTokenCount: 200, candidatesTokenCount: 20 } },
+      { type: "turn_complete", usageMetadata: { promptTokenCount: 300, candidatesTokenCount: 40 } },
+      { type: "result", stats: { input_tokens: 500, output_tokens: 60, cached: 100 } },
+    ];
+
+    let total = emptyUsage();
+    for (const line of lines) {
+      for (const event of parser.parseStreamEvents(JSON.stringify(line))) {
+        if (event.type === "usage") {
+          total = addUsage(total, event.usage);
+        }
+      }
+    }
+
+    expect(total).toMatchObject({ inputTokens: 400, outputTokens: 60, cacheReadTokens: 100 });
+  });
+
+  it("reads OpenCode step_finish tokens and cost", () => {
+    const line = JSON.stringify({
+      type: "step_finish",
+      part: {
+        tokens: { input: 10, output: 5, reasoning: 3, cache: { read: 7, write: 2 } },
+        cost: 0.01,
+      },
+    });
+    expect(new OpenCodeStreamParser().parseUsage(line)).toEqual({
+      inputTokens: 10,
+      outputTokens: 8,
+      cacheReadTokens: 7,
+      cacheWriteTokens: 2,
+      costUsd: 0.01,
+    });
+  });
+
+  it("delegates Goose usage to the Claude format", () => {
+    const line = JSON.stringify({ type: "result", usage: { input_tokens: 1, output_tokens: 2 } });
+    expect(new GooseStreamParser().parseUsage(line)).toMatchObject({
+      inputTokens: 1,
+      outputTokens: 2,
+    });
+  });
+
+  it("returns null for providers without usage events", () => {
+    const line = JSON.stringify({ type: "result", usage: { input_tokens: 1 } });
+    expect(new AiderStreamParser().parseUsage(line)).toBeNull();
+    expect(new DefaultStreamParser().parseUsage(line)).toBeNull();
+  });
+});
+
 // ─── getStreamJsonParser ────────────────────────────────────────────
 
 describe("getStreamJsonParser", () => {
@@ -1231,6 +1440,7 @@ describe("getStreamJsonParser", () => {
     for (const provider of providers) {
       const parser = getStreamJsonParser(provider);
       expect(typeof parser.parseStreamJsonLine).toBe("function");
+      expect(typeof parser.parseStreamEvents).toBe("function");
     }
   });
 });
@@ -1,20 +1,183 @@
 /**
  * Stream JSON parser interface and provider-specific implementations.
  *
- * Each CLI provider has its own stream-json event format. This module provides
- * a unified interface for parsing stream-json output from different providers.
+ * Each CLI provider has its own stream-json event format. This module normalizes
+ * those formats into a common `StreamEvent` model, and renders display text from
+ * the normalized events.
  */
 
+/**
+ * Token usage (and cost, when the provider reports it) from a stream-json event.
+ * `inputTokens` excludes cached input, which is counted in `cacheReadTokens`.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd?: number;
+}
+
+/**
+ * A provider-independent event parsed from one line of stream-json output.
+ *
+ * - text: Assistant text (streamed deltas or whole messages)
+ * - thinking: Reasoning text
+ * - tool_use: A tool call; `input` is the tool's arguments when known
+ * - tool_result: Output of a tool call or command
+ * - file_edit: A file written or edited by the agent
+ * - file_read: A file read by the agent
+ * - command: A shell command run by the agent
+ * - usage: Token usage reported by the provider
+ * - error: An error reported by the provider; `source` labels where it came from
+ * - turn_end: End of a message or turn, with the stop reason or final result if any
+ * - status: Provider/session information that is only displayed (model, thread, step)
+ */
+export type StreamEvent =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string }
+  | { type: "tool_use"; name: string; title?: string; input?: unknown }
+  | { type: "tool_result"; output: unknown }
+  | { type: "file_edit"; path: string }
+  | { type: "file_read"; path: string }
+  | { type: "command"; command: string }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "error"; message: string; source?: string }
+  | { type: "turn_end"; reason?: string; result?: unknown }
+  | { type: "status"; text: string };
+
 /**
  * Interface for parsing stream-json lines from CLI providers.
  */
 export interface StreamJsonParser {
+  /**
+   * Parse a single line of stream-json output into normalized events.
+   * @param line - A single line of JSON output
+   * @returns The events carried by the line (empty if none or not valid JSON)
+   */
+  parseStreamEvents(line: string): StreamEvent[];
+
+  /**
+   * Render parsed events as displayable text.
+   * @param events - Events returned by parseStreamEvents
+   * @returns Human-readable text to display, or empty string if nothing to show
+   */
+  renderStreamEvents(events: StreamEvent[]): string;
+
   /**
    * Parse a single line of stream-json output and return displayable text.
    * @param line - A single line of JSON output
    * @returns Human-readable text to display, or empty string if nothing to show
    */
   parseStreamJsonLine(line: string): string;
+
+  /**
+   * Extract token usage from a single line of stream-json output.
+   * @param line - A single line of JSON output
+   * @returns Usage reported by the event, or null if the event carries none
+   */
+  parseUsage(line: string): TokenUsage | null;
+}
+
+/**
+ * Reads a non-negative number from an unknown value, defaulting to 0.
+ */
+function toCount(value: unknown): number {
+  return typeof value === "number" && value > 0 ? value : 0;
+}
+
+/**
+ * Narrows an unknown JSON value to an object.
+ */
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
+}
+
+/**
+ * The object elements of an unknown JSON value, or none if it isn't an array.
+ */
+function asObjects(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(asObject).filter((item) => item !== undefined) : [];
+}
+
+/**
+ * The first non-empty string among the values, like `a || b` on string fields.
+ */
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Wraps text in a text event, dropping empty text.
+ */
+function textEvents(text: unknown): StreamEvent[] {
+  return typeof text === "string" && text ? [{ type: "text", text }] : [];
+}
+
+/**
+ * Truncates long tool output for display.
+ */
+export function truncateOutput(output: string | unknown, maxLength: number = 500): string {
+  if (typeof output === "string") {
+    return output.length > maxLength ? output.substring(0, maxLength) + "... (truncated)" : output;
+  }
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Renders a single event as display text.
+ */
+export function renderStreamEvent(event: StreamEvent): string {
+  switch (event.type) {
+    case "text":
+    case "status":
+      return event.text;
+
+    case "thinking":
+      return `[Thinking] ${event.text}\n`;
+
+    case "tool_use": {
+      const title = event.title ? ` (${event.title})` : "";
+      let output = `\n── Tool: ${event.name}${title} ──\n`;
+      if (event.input) {
+        output +=
+          typeof event.input === "string"
+            ? event.input + "\n"
+            : JSON.stringify(event.input, null, 2) + "\n";
+      }
+      return output;
+    }
+
+    case "tool_result":
+      return `── Tool Result ──\n${truncateOutput(event.output)}\n`;
+
+    case "file_edit":
+      return `\n── Writing: ${event.path} ──\n`;
+
+    case "file_read":
+      return `── Reading: ${event.path} ──\n`;
+
+    case "command":
+      return `\n── Running: ${event.command} ──\n`;
+
+    case "usage":
+      return "";
+
+    case "error":
+      return `\n[${event.source || "Error"}]${event.message ? ` ${event.message}` : ""}\n`;
+
+    case "turn_end":
+      if (event.result !== undefined) {
+        return `\n── Result ──\n${JSON.stringify(event.result, null, 2)}\n`;
+      }
+      if (event.reason) {
+        return `\n[${event.reason}]\n`;
+      }
+      return "\n";
+  }
 }
 
 /**
@@ -23,7 +186,68 @@ export interface StreamJsonParser {
 abstract class BaseStreamParser implements StreamJsonParser {
   constructor(protected debug: boolean = false) {}
 
-  abstract parseStreamJsonLine(line: string): string;
+  parseStreamEvents(line: string): StreamEvent[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e) {
+      if (this.debug) {
+        this.debugLog(`parse error: ${e}`);
+      }
+      return this.parseNonJsonLine(line);
+    }
+    const json = asObject(parsed);
+    if (!json) {
+      return [];
+    }
+    if (this.debug && json.type) {
+      this.debugLog(`type: ${json.type}`);
+    }
+    try {
+      return this.toEvents(json);
+    } catch (e) {
+      if (this.debug) {
+        this.debugLog(`event error: ${e}`);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Provider-specific conversion of one parsed JSON object into events.
+   */
+  protected abstract toEvents(json: Record<string, unknown>): StreamEvent[];
+
+  /**
+   * Events for a line that isn't valid JSON. Most providers only emit JSON, so nothing is shown.
+   */
+  protected parseNonJsonLine(_line: string): StreamEvent[] {
+    return [];
+  }
+
+  renderStreamEvents(events: StreamEvent[]): string {
+    return events.map((event) => this.renderEvent(event)).join("");
+  }
+
+  /**
+   * Renders one event. Providers override this for provider-specific display.
+   */
+  protected renderEvent(event: StreamEvent): string {
+    return renderStreamEvent(event);
+  }
+
+  parseStreamJsonLine(line: string): string {
+    return this.renderStreamEvents(this.parseStreamEvents(line));
+  }
+
+  parseUsage(line: string): TokenUsage | null {
+    for (const event of this.parseStreamEvents(line)) {
+      if (event.type === "usage") {
+        return event.usage;
+      }
+    }
+    return null;
+  }
 
   protected debugLog(message: string): void {
     if (this.debug) {
@@ -31,13 +255,25 @@ abstract class BaseStreamParser implements StreamJsonParser {
     }
   }
 
-  protected truncateOutput(output: string | unknown, maxLength: number = 500): string {
-    if (typeof output === "string") {
-      return output.length > maxLength
-        ? output.substring(0, maxLength) + "... (truncated)"
-        : output;
+  /**
+   * Text from the common text/content/message/output fields of an unrecognized event.
+   */
+  protected fallbackEvents(
+    json: Record<string, unknown>,
+    type: string,
+    fields: string[] = ["text", "content"],
+  ): StreamEvent[] {
+    for (const field of fields) {
+      const value = json[field];
+      if (field === "text" ? value : value && typeof value === "string") {
+        return [{ type: "text", text: value as string }];
+      }
+    }
+
+    if (this.debug) {
+      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
     }
-    return JSON.stringify(output, null, 2);
+    return [];
   }
 }
 
@@ -58,146 +294,139 @@ abstract class BaseStreamParser implements StreamJsonParser {
  * - bash_output/command_output: Command results
  */
 export class ClaudeStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
-
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    const type = String(json.type);
+
+    switch (type) {
+      // === Text Content ===
+      case "content_block_delta": {
+        const delta = asObject(json.delta);
+        if (delta?.type === "input_json_delta") {
+          return []; // Don't show partial JSON, wait for complete tool call
+        }
+        return textEvents(delta?.text);
       }
 
-      switch (type) {
-        // === Text Content ===
-        case "content_block_delta":
-          if (json.delta?.type === "text_delta") {
-            return json.delta.text || "";
-          }
-          if (json.delta?.type === "input_json_delta") {
-            return ""; // Don't show partial JSON, wait for complete tool call
-          }
-          return json.delta?.text || "";
-
-        case "text":
-          return json.text || "";
+      case "text":
+        return textEvents(json.text);
 
-        // === Tool Use ===
-        case "content_block_start":
-          if (json.content_block?.type === "tool_use") {
-            const toolName = json.content_block?.name || "unknown";
-            return `\n── Tool: ${toolName} ──\n`;
-          }
-          if (json.content_block?.type === "text") {
-            return json.content_block?.text || "";
-          }
-          return "";
-
-        case "content_block_stop":
-          return "";
-
-        // === Tool Results ===
-        case "tool_result": {
-          const toolOutput = json.content || json.output || "";
-          const truncated = this.truncateOutput(toolOutput);
-          return `\n── Tool Result ──\n${truncated}\n`;
+      // === Tool Use ===
+      case "content_block_start": {
+        const block = asObject(json.content_block);
+        if (block?.type === "tool_use") {
+          return [{ type: "tool_use", name: firstString(block.name) ?? "unknown" }];
+        }
+        if (block?.type === "text") {
+          return textEvents(block.text);
         }
+        return [];
+      }
 
-        // === Assistant Messages ===
-        case "assistant": {
-          const contents = json.message?.content || json.content || [];
-          let output = "";
-          for (const block of contents) {
-            if (block.type === "text") {
-              output += block.text || "";
-            } else if (block.type === "tool_use") {
-              output += `\n── Tool: ${block.name} ──\n`;
-              if (block.input) {
-                output += JSON.stringify(block.input, null, 2) + "\n";
-              }
-            }
+      case "content_block_stop":
+        return [];
+
+      // === Tool Results ===
+      case "tool_result":
+        return [{ type: "tool_result", output: json.content || json.output || "" }];
+
+      // === Assistant Messages ===
+      case "assistant": {
+        const contents = asObjects(asObject(json.message)?.content || json.content);
+        const events: StreamEvent[] = [];
+        for (const block of contents) {
+          if (block.type === "text") {
+            events.push(...textEvents(block.text));
+          } else if (block.type === "tool_use") {
+            events.push({
+              type: "tool_use",
+              name: firstString(block.name) ?? "unknown",
+              input: block.input,
+            });
           }
-          return output;
         }
+        return events;
+      }
 
-        case "message_start":
-          return "\n";
+      case "message_start":
+        return [{ type: "status", text: "\n" }];
 
-        case "message_delta":
-          if (json.delta?.stop_reason) {
-            return `\n[${json.delta.stop_reason}]\n`;
-          }
-          return "";
-
-        case "message_stop":
-          return "\n";
+      case "message_delta": {
+        const reason = firstString(asObject(json.delta)?.stop_reason);
+        return reason ? [{ type: "turn_end", reason }] : [];
+      }
 
-        // === System/User Events ===
-        case "system":
-          if (json.message) {
-            return `[System] ${json.message}\n`;
-          }
-          return "";
+      case "message_stop":
+        return [{ type: "turn_end" }];
 
-        case "user":
-          return "";
+      // === System/User Events ===
+      case "system":
+        if (json.message) {
+          return [{ type: "status", text: `[System] ${json.message}\n` }];
+        }
+        return [];
 
-        // === Results and Errors ===
-        case "result":
-          if (json.result !== undefined) {
-            return `\n── Result ──\n${JSON.stringify(json.result, null, 2)}\n`;
-          }
-          return "";
+      case "user":
+        return [];
 
-        case "error": {
-          const errMsg = json.error?.message || JSON.stringify(json.error);
-          return `\n[Error] ${errMsg}\n`;
+      // === Results and Errors ===
+      case "result": {
+        const events: StreamEvent[] = [];
+        const usage = this.resultUsage(json);
+        if (usage) {
+          events.push({ type: "usage", usage });
         }
-
-        // === File Operations ===
-        case "file_edit":
-        case "file_write": {
-          const filePath = json.path || json.file || "unknown";
-          return `\n── Writing: ${filePath} ──\n`;
+        if (json.result !== undefined) {
+          events.push({ type: "turn_end", result: json.result });
         }
+        return events;
+      }
 
-        case "file_read": {
-          const readPath = json.path || json.file || "unknown";
-          return `── Reading: ${readPath} ──\n`;
-        }
+      case "error":
+        return [
+          {
+            type: "error",
+            message: firstString(asObject(json.error)?.message) ?? JSON.stringify(json.error),
+          },
+        ];
 
-        case "bash":
-        case "command": {
-          const cmd = json.command || json.content || "";
-          return `\n── Running: ${cmd} ──\n`;
-        }
+      // === File Operations ===
+      case "file_edit":
+      case "file_write":
+        return [{ type: "file_edit", path: firstString(json.path, json.file) ?? "unknown" }];
 
-        case "bash_output":
-        case "command_output": {
-          const cmdOutput = json.output || json.content || "";
-          return cmdOutput + "\n";
-        }
+      case "file_read":
+        return [{ type: "file_read", path: firstString(json.path, json.file) ?? "unknown" }];
 
-        default:
-          return this.handleFallback(json, type);
-      }
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
-      }
-      return "";
+      case "bash":
+      case "command":
+        return [{ type: "command", command: firstString(json.command, json.content) ?? "" }];
+
+      case "bash_output":
+      case "command_output":
+        return [{ type: "tool_result", output: json.output || json.content || "" }];
+
+      default:
+        return this.fallbackEvents(json, type, ["text", "content", "message", "output"]);
     }
   }
 
-  private handleFallback(json: Record<string, unknown>, type: string): string {
-    if (json.text) return json.text as string;
-    if (json.content && typeof json.content === "string") return json.content;
-    if (json.message && typeof json.message === "string") return json.message;
-    if (json.output && typeof json.output === "string") return json.output;
-
-    if (this.debug) {
-      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
+  /**
+   * The final `result` event carries the session's total usage and cost.
+   */
+  private resultUsage(json: Record<string, unknown>): TokenUsage | null {
+    const usage = json.usage as Record<string, unknown> | undefined;
+    if (!usage && json.total_cost_usd === undefined) return null;
+
+    const result: TokenUsage = {
+      inputTokens: toCount(usage?.input_tokens),
+      outputTokens: toCount(usage?.output_tokens),
+      cacheReadTokens: toCount(usage?.cache_read_input_tokens),
+      cacheWriteTokens: toCount(usage?.cache_creation_input_tokens),
+    };
+    if (typeof json.total_cost_usd === "number") {
+      result.costUsd = json.total_cost_usd;
     }
-    return "";
+    return result;
   }
 }
 
@@ -212,93 +441,89 @@ export class ClaudeStreamParser extends BaseStreamParser {
  * - response: Final response text
  */
 export class GeminiStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
-
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
-      }
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    const type = String(json.type);
 
-      switch (type) {
-        case "initialization":
-          if (json.model) {
-            return `[Gemini: ${json.model}]\n`;
-          }
-          return "";
-
-        case "messages":
-          if (Array.isArray(json.messages)) {
-            let messagesOutput = "";
-            for (const msg of json.messages) {
-              if (msg.role === "assistant" || msg.role === "model") {
-                if (typeof msg.content === "string") {
-                  messagesOutput += msg.content;
-                } else if (Array.isArray(msg.content)) {
-                  for (const part of msg.content) {
-                    if (part.type === "text") {
-                      messagesOutput += part.text || "";
-                    }
-                  }
+    switch (type) {
+      case "initialization":
+        if (json.model) {
+          return [{ type: "status", text: `[Gemini: ${json.model}]\n` }];
+        }
+        return [];
+
+      case "messages": {
+        const events: StreamEvent[] = [];
+        for (const msg of asObjects(json.messages)) {
+          if (msg.role === "assistant" || msg.role === "model") {
+            if (typeof msg.content === "string") {
+              events.push(...textEvents(msg.content));
+            } else {
+              for (const part of asObjects(msg.content)) {
+                if (part.type === "text") {
+                  events.push(...textEvents(part.text));
                 }
               }
             }
-            return messagesOutput;
-          }
-          return "";
-
-        case "tools":
-          if (Array.isArray(json.tools)) {
-            let toolsOutput = "";
-            for (const tool of json.tools) {
-              if (tool.name) {
-                toolsOutput += `\n── Tool: ${tool.name} ──\n`;
-              }
-              if (tool.input) {
-                toolsOutput += JSON.stringify(tool.input, null, 2) + "\n";
-              }
-              if (tool.output || tool.result) {
-                const toolResult = tool.output || tool.result;
-                const truncated = this.truncateOutput(toolResult);
-                toolsOutput += `── Tool Result ──\n${truncated}\n`;
-              }
-            }
-            return toolsOutput;
           }
-          return "";
-
-        case "turn_complete":
-          return "\n";
+        }
+        return events;
+      }
 
-        case "response":
-          if (json.text) {
-            return json.text;
+      case "tools": {
+        const events: StreamEvent[] = [];
+        for (const tool of asObjects(json.tools)) {
+          if (tool.name || tool.input) {
+            events.push({
+              type: "tool_use",
+              name: firstString(tool.name) ?? "unknown",
+              input: tool.input,
+            });
           }
-          if (json.content && typeof json.content === "string") {
-            return json.content;
+          if (tool.output || tool.result) {
+            events.push({ type: "tool_result", output: tool.output || tool.result });
           }
-          return "";
-
-        default:
-          return this.handleFallback(json, type);
+        }
+        return events;
       }
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
+
+      case "turn_complete":
+        // Turn usageMetadata is already included in the session total of the final `result`
+        return [{ type: "turn_end" }];
+
+      case "response":
+        if (json.text) {
+          return textEvents(json.text);
+        }
+        if (json.content && typeof json.content === "string") {
+          return textEvents(json.content);
+        }
+        return [];
+
+      case "result": {
+        const usage = this.resultUsage(json);
+        const events = this.fallbackEvents(json, type);
+        return usage ? [{ type: "usage", usage }, ...events] : events;
       }
-      return "";
+
+      default:
+        return this.fallbackEvents(json, type);
     }
   }
 
-  private handleFallback(json: Record<string, unknown>, type: string): string {
-    if (json.text) return json.text as string;
-    if (json.content && typeof json.content === "string") return json.content;
-
-    if (this.debug) {
-      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
-    }
-    return "";
+  /**
+   * The final `result` event reports the session's usage in stats. This is the only usage
+   * source: per-turn usageMetadata would count every turn twice.
+   */
+  private resultUsage(json: Record<string, unknown>): TokenUsage | null {
+    const stats = json.stats as Record<string, unknown> | undefined;
+    if (!stats) return null;
+    const cached = toCount(stats.cached);
+    return {
+      inputTokens: Math.max(0, toCount(stats.input_tokens) - cached),
+      outputTokens: toCount(stats.output_tokens),
+      cacheReadTokens: cached,
+      cacheWriteTokens: 0,
+    };
   }
 }
 
@@ -316,133 +541,123 @@ export class GeminiStreamParser extends BaseStreamParser {
  * - done/complete: Completion
  */
 export class OpenCodeStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    const type = String(json.type);
+
+    switch (type) {
+      case "step_start":
+        if (json.step || json.name) {
+          return [{ type: "status", text: `\n── Step: ${json.step || json.name} ──\n` }];
+        }
+        return [{ type: "status", text: "\n" }];
+
+      case "step_end":
+        return [];
 
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
+      case "step_finish": {
+        const usage = this.stepUsage(json);
+        return usage ? [{ type: "usage", usage }] : [];
       }
 
-      switch (type) {
-        case "step_start":
-          if (json.step || json.name) {
-            return `\n── Step: ${json.step || json.name} ──\n`;
+      case "tool_use": {
+        // OpenCode sends tool_use with nested part structure
+        const part = json.part as Record<string, unknown> | undefined;
+        if (part?.type === "tool" && part?.tool) {
+          const state = part.state as Record<string, unknown> | undefined;
+          // Title if available (e.g., "workspace/.ralph/prd-tasks.json")
+          const events: StreamEvent[] = [
+            {
+              type: "tool_use",
+              name: part.tool as string,
+              title: part.title as string | undefined,
+              input: state?.input,
+            },
+          ];
+          // Completed output if available
+          if (state?.status === "completed" && state?.output) {
+            events.push({ type: "tool_result", output: state.output });
           }
-          return "\n";
-
-        case "step_end":
-        case "step_finish":
-          return "";
-
-        case "tool_use": {
-          // OpenCode sends tool_use with nested part structure
-          const part = json.part as Record<string, unknown> | undefined;
-          if (part?.type === "tool" && part?.tool) {
-            const toolName = part.tool as string;
-            const state = part.state as Record<string, unknown> | undefined;
-            let toolOutput = `\n── Tool: ${toolName} ──\n`;
-
-            // Show title if available (e.g., "workspace/.ralph/prd-tasks.json")
-            if (part.title) {
-              toolOutput = `\n── Tool: ${toolName} (${part.title}) ──\n`;
-            }
+          return events;
+        }
+        return [];
+      }
 
-            // Show completed output if available
-            if (state?.status === "completed" && state?.output) {
-              const truncated = this.truncateOutput(state.output);
-              toolOutput += `${truncated}\n`;
-            }
-            return toolOutput;
-          }
-          return "";
+      case "tool":
+      case "tool_call": {
+        const name = firstString(json.name, json.tool);
+        if (name) {
+          return [{ type: "tool_use", name, input: json.input || json.args || json.arguments }];
         }
+        return [];
+      }
 
-        case "tool":
-        case "tool_call":
-          if (json.name || json.tool) {
-            let toolOutput = `\n── Tool: ${json.name || json.tool} ──\n`;
-            if (json.input || json.args || json.arguments) {
-              const toolInput = json.input || json.args || json.arguments;
-              toolOutput +=
-                typeof toolInput === "string"
-                  ? toolInput + "\n"
-                  : JSON.stringify(toolInput, null, 2) + "\n";
-            }
-            return toolOutput;
-          }
-          return "";
+      case "tool_response":
+        return [{ type: "tool_result", output: json.output || json.result || json.content || "" }];
 
-        case "tool_response": {
-          const toolRespOutput = json.output || json.result || json.content || "";
-          const truncated = this.truncateOutput(toolRespOutput);
-          return `── Tool Result ──\n${truncated}\n`;
+      case "assistant_message":
+      case "model_response":
+        if (json.content && typeof json.content === "string") {
+          return textEvents(json.content);
         }
-
-        case "assistant_message":
-        case "model_response":
-          if (json.content && typeof json.content === "string") {
-            return json.content;
-          }
-          if (json.text) {
-            return json.text;
-          }
-          if (Array.isArray(json.content)) {
-            let msgOutput = "";
-            for (const part of json.content) {
-              if (typeof part === "string") {
-                msgOutput += part;
-              } else if (part.type === "text") {
-                msgOutput += part.text || "";
-              }
+        if (json.text) {
+          return textEvents(json.text);
+        }
+        if (Array.isArray(json.content)) {
+          const events: StreamEvent[] = [];
+          for (const part of json.content as unknown[]) {
+            if (typeof part === "string") {
+              events.push(...textEvents(part));
+            } else if (asObject(part)?.type === "text") {
+              events.push(...textEvents(asObject(part)?.text));
             }
-            return msgOutput;
           }
-          return "";
+          return events;
+        }
+        return [];
 
-        case "text": {
-          // OpenCode sends text with nested part structure
-          const textPart = json.part as Record<string, unknown> | undefined;
-          if (textPart?.text) {
-            return textPart.text as string;
-          }
-          if (json.text) {
-            return json.text as string;
-          }
-          return "";
+      case "text": {
+        // OpenCode sends text with nested part structure
+        const textPart = json.part as Record<string, unknown> | undefined;
+        if (textPart?.text) {
+          return textEvents(textPart.text);
         }
+        return textEvents(json.text);
+      }
 
-        case "thinking":
-        case "reasoning":
-          if (json.content || json.text) {
-            return `[Thinking] ${json.content || json.text}\n`;
-          }
-          return "";
+      case "thinking":
+      case "reasoning": {
+        const text = firstString(json.content, json.text);
+        return text ? [{ type: "thinking", text }] : [];
+      }
 
-        case "done":
-        case "complete":
-          return "\n";
+      case "done":
+      case "complete":
+        return [{ type: "turn_end" }];
 
-        default:
-          return this.handleFallback(json, type);
-      }
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
-      }
-      return "";
+      default:
+        return this.fallbackEvents(json, type);
     }
   }
 
-  private handleFallback(json: Record<string, unknown>, type: string): string {
-    if (json.text) return json.text as string;
-    if (json.content && typeof json.content === "string") return json.content;
-
-    if (this.debug) {
-      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
+  /**
+   * Each `step_finish` part reports the tokens and cost of that step.
+   */
+  private stepUsage(json: Record<string, unknown>): TokenUsage | null {
+    const part = json.part as Record<string, unknown> | undefined;
+    const tokens = part?.tokens as Record<string, unknown> | undefined;
+    if (!tokens) return null;
+    const cache = tokens.cache as Record<string, unknown> | undefined;
+
+    const result: TokenUsage = {
+      inputTokens: toCount(tokens.input),
+      outputTokens: toCount(tokens.output) + toCount(tokens.reasoning),
+      cacheReadTokens: toCount(cache?.read),
+      cacheWriteTokens: toCount(cache?.write),
+    };
+    if (typeof part?.cost === "number") {
+      result.costUsd = part.cost;
     }
-    return "";
+    return result;
   }
 }
 
@@ -456,112 +671,122 @@ export class OpenCodeStreamParser extends BaseStreamParser {
  *   - command_execution, file_change, file_read, mcp_tool_call, web_search, plan_update
  */
 export class CodexStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    const type = String(json.type);
 
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
-      }
+    switch (type) {
+      case "thread.started":
+        if (json.thread_id) {
+          return [{ type: "status", text: `[Codex: thread ${json.thread_id}]\n` }];
+        }
+        return [];
 
-      switch (type) {
-        case "thread.started":
-          if (json.thread_id) {
-            return `[Codex: thread ${json.thread_id}]\n`;
-          }
-          return "";
+      case "turn.started":
+        return [{ type: "status", text: "\n" }];
 
-        case "turn.started":
-          return "\n";
+      case "turn.completed": {
+        const usage = this.turnUsage(json);
+        return usage ? [{ type: "usage", usage }, { type: "turn_end" }] : [{ type: "turn_end" }];
+      }
 
-        case "turn.completed":
-          if (json.usage) {
-            const usage = json.usage;
-            return `\n[Turn complete: ${usage.input_tokens || 0} input, ${usage.output_tokens || 0} output tokens]\n`;
-          }
-          return "\n";
+      case "turn.failed": {
+        const error = firstString(json.error, asObject(json.error)?.message, json.message);
+        return [{ type: "error", source: "Turn failed", message: error ?? "" }];
+      }
 
-        case "turn.failed":
-          if (json.error || json.message) {
-            return `\n[Turn failed] ${json.error || json.message}\n`;
+      case "item.started": {
+        const item = asObject(json.item);
+        if (item) {
+          const command = firstString(item.command);
+          if (item.type === "command_execution" && command) {
+            return [{ type: "command", command }];
           }
-          return "\n[Turn failed]\n";
-
-        case "item.started":
-          if (json.item) {
-            const item = json.item;
-            if (item.type === "command_execution" && item.command) {
-              return `\n── Running: ${item.command} ──\n`;
-            }
-            if (item.type === "file_change" || item.type === "file_edit") {
-              const filePath = item.path || item.file || "unknown";
-              return `\n── Writing: ${filePath} ──\n`;
-            }
-            if (item.type === "file_read") {
-              const filePath = item.path || item.file || "unknown";
-              return `── Reading: ${filePath} ──\n`;
-            }
-            if (item.type === "mcp_tool_call" || item.type === "tool_call") {
-              const toolName = item.name || item.tool || "unknown";
-              return `\n── Tool: ${toolName} ──\n`;
-            }
-            if (item.type === "web_search") {
-              const query = item.query || "";
-              return `\n── Web search: ${query} ──\n`;
-            }
-            if (item.type === "plan_update") {
-              return `\n── Plan update ──\n`;
-            }
+          if (item.type === "file_change" || item.type === "file_edit") {
+            return [{ type: "file_edit", path: firstString(item.path, item.file) ?? "unknown" }];
           }
-          return "";
-
-        case "item.completed":
-          if (json.item) {
-            const item = json.item;
-            if (item.type === "agent_message" && item.text) {
-              return item.text;
-            }
-            if (item.type === "command_execution" && item.output) {
-              const truncated = this.truncateOutput(item.output);
-              return `${truncated}\n`;
-            }
-            if (item.type === "reasoning" && item.text) {
-              return `[Thinking] ${item.text}\n`;
-            }
-            if (item.text) {
-              return item.text;
-            }
+          if (item.type === "file_read") {
+            return [{ type: "file_read", path: firstString(item.path, item.file) ?? "unknown" }];
           }
-          return "";
-
-        case "item.failed":
-          if (json.item) {
-            const item = json.item;
-            const errMsg = item.error || item.message || "Unknown error";
-            return `\n[Item failed: ${item.type || "unknown"}] ${errMsg}\n`;
+          if (item.type === "mcp_tool_call" || item.type === "tool_call") {
+            return [{ type: "tool_use", name: firstString(item.name, item.tool) ?? "unknown" }];
           }
-          return "";
+          if (item.type === "web_search") {
+            return [{ type: "status", text: `\n── Web search: ${item.query || ""} ──\n` }];
+          }
+          if (item.type === "plan_update") {
+            return [{ type: "status", text: `\n── Plan update ──\n` }];
+          }
+        }
+        return [];
+      }
 
-        default:
-          return this.handleFallback(json, type);
+      case "item.completed": {
+        const item = asObject(json.item);
+        if (item) {
+          if (item.type === "agent_message" && item.text) {
+            return textEvents(item.text);
+          }
+          if (item.type === "command_execution" && item.output) {
+            return [{ type: "tool_result", output: item.output }];
+          }
+          if (item.type === "file_change" && Array.isArray(item.changes)) {
+            return asObjects(item.changes).flatMap((change): StreamEvent[] => {
+              const path = firstString(change.path);
+              return path ? [{ type: "file_edit", path }] : [];
+            });
+          }
+          const text = firstString(item.text);
+          if (item.type === "reasoning" && text) {
+            return [{ type: "thinking", text }];
+          }
+          return textEvents(text);
+        }
+        return [];
       }
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
+
+      case "item.failed": {
+        const item = asObject(json.item);
+        if (item) {
+          return [
+            {
+              type: "error",
+              source: `Item failed: ${item.type || "unknown"}`,
+              message: firstString(item.error, item.message) ?? "Unknown error",
+            },
+          ];
+        }
+        return [];
       }
-      return "";
+
+      default:
+        return this.fallbackEvents(json, type);
     }
   }
 
-  private handleFallback(json: Record<string, unknown>, type: string): string {
-    if (json.text) return json.text as string;
-    if (json.content && typeof json.content === "string") return json.content;
-
-    if (this.debug) {
-      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
+  /**
+   * Codex reports per-turn token counts (including cached input) after each turn.
+   */
+  protected renderEvent(event: StreamEvent): string {
+    if (event.type === "usage") {
+      const { usage } = event;
+      return `\n[Turn complete: ${usage.inputTokens + usage.cacheReadTokens} input, ${usage.outputTokens} output tokens]`;
     }
-    return "";
+    return super.renderEvent(event);
+  }
+
+  /**
+   * Each `turn.completed` event reports the usage of that turn (no cost).
+   */
+  private turnUsage(json: Record<string, unknown>): TokenUsage | null {
+    const usage = json.usage as Record<string, unknown> | undefined;
+    if (!usage) return null;
+    const cached = toCount(usage.cached_input_tokens);
+    return {
+      inputTokens: Math.max(0, toCount(usage.input_tokens) - cached),
+      outputTokens: toCount(usage.output_tokens),
+      cacheReadTokens: cached,
+      cacheWriteTokens: 0,
+    };
   }
 }
 
@@ -571,19 +796,9 @@ export class CodexStreamParser extends BaseStreamParser {
  * Goose uses a similar event format to Claude Code.
  * Falls back to Claude parser behavior for common events.
  */
-export class GooseStreamParser extends BaseStreamParser {
-  private claudeParser: ClaudeStreamParser;
-
-  constructor(debug: boolean = false) {
-    super(debug);
-    this.claudeParser = new ClaudeStreamParser(debug);
-  }
-
-  parseStreamJsonLine(line: string): string {
-    // Goose uses a similar format to Claude, delegate to Claude parser
-    // This can be extended with Goose-specific event handling as needed
-    return this.claudeParser.parseStreamJsonLine(line);
-  }
+export class GooseStreamParser extends ClaudeStreamParser {
+  // Goose uses a similar format to Claude and shares its parser.
+  // This can be extended with Goose-specific event handling as needed
 }
 
 /**
@@ -597,74 +812,50 @@ export class GooseStreamParser extends BaseStreamParser {
  * - error: Error messages
  */
 export class AiderStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
-
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    const type = String(json.type);
+
+    switch (type) {
+      case "text":
+      case "content":
+        return textEvents(json.text || json.content);
+
+      case "tool_call":
+      case "function_call": {
+        const name = firstString(json.name, json.function);
+        if (name) {
+          return [{ type: "tool_use", name, input: json.arguments || json.args }];
+        }
+        return [];
       }
 
-      switch (type) {
-        case "text":
-        case "content":
-          return json.text || json.content || "";
-
-        case "tool_call":
-        case "function_call":
-          if (json.name || json.function) {
-            let toolOutput = `\n── Tool: ${json.name || json.function} ──\n`;
-            if (json.arguments || json.args) {
-              const args = json.arguments || json.args;
-              toolOutput +=
-                typeof args === "string" ? args + "\n" : JSON.stringify(args, null, 2) + "\n";
-            }
-            return toolOutput;
-          }
-          return "";
+      case "tool_result":
+      case "function_result":
+        return [{ type: "tool_result", output: json.result || json.output || json.content || "" }];
 
-        case "tool_result":
-        case "function_result": {
-          const result = json.result || json.output || json.content || "";
-          const truncated = this.truncateOutput(result);
-          return `── Tool Result ──\n${truncated}\n`;
-        }
+      case "file_edit":
+      case "edit":
+        return [{ type: "file_edit", path: firstString(json.path, json.file) ?? "unknown" }];
 
-        case "file_edit":
-        case "edit": {
-          const filePath = json.path || json.file || "unknown";
-          return `\n── Editing: ${filePath} ──\n`;
-        }
-
-        case "error":
-          return `\n[Error] ${json.message || json.error || JSON.stringify(json)}\n`;
+      case "error":
+        return [
+          { type: "error", message: firstString(json.message, json.error) ?? JSON.stringify(json) },
+        ];
 
-        case "done":
-        case "complete":
-          return "\n";
+      case "done":
+      case "complete":
+        return [{ type: "turn_end" }];
 
-        default:
-          return this.handleFallback(json, type);
-      }
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
-      }
-      // Aider may output plain text lines without JSON
-      return line;
+      default:
+        return this.fallbackEvents(json, type, ["text", "content", "message"]);
     }
   }
 
-  private handleFallback(json: Record<string, unknown>, type: string): string {
-    if (json.text) return json.text as string;
-    if (json.content && typeof json.content === "string") return json.content;
-    if (json.message && typeof json.message === "string") return json.message;
-
-    if (this.debug) {
-      this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
-    }
-    return "";
+  /**
+   * Aider may output plain text lines without JSON
+   */
+  protected parseNonJsonLine(line: string): StreamEvent[] {
+    return textEvents(line);
   }
 }
 
@@ -673,31 +864,9 @@ export class AiderStreamParser extends BaseStreamParser {
  * Used for providers without specific stream-json support or as a fallback.
  */
 export class DefaultStreamParser extends BaseStreamParser {
-  parseStreamJsonLine(line: string): string {
-    try {
-      const json = JSON.parse(line);
-      const type = json.type;
-
-      if (this.debug && type) {
-        this.debugLog(`type: ${type}`);
-      }
-
-      // Handle common patterns across providers
-      if (json.text) return json.text;
-      if (json.content && typeof json.content === "string") return json.content;
-      if (json.message && typeof json.message === "string") return json.message;
-      if (json.output && typeof json.output === "string") return json.output;
-
-      if (this.debug && type) {
-        this.debugLog(`unhandled type: ${type}, keys: ${Object.keys(json).join(", ")}`);
-      }
-      return "";
-    } catch (e) {
-      if (this.debug) {
-        this.debugLog(`parse error: ${e}`);
-      }
-      return "";
-    }
+  protected toEvents(json: Record<string, unknown>): StreamEvent[] {
+    // Handle common patterns across providers
+    return this.fallbackEvents(json, String(json.type), ["text", "content", "message", "output"]);
   }
 }
 
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  readTaskAttempts,
+  writeTaskAttempts,
+  excerptError,
+  recordFailedAttempt,
+  clearAttempts,
+  getQuarantinedKeys,
+  listQuarantined,
+  releaseQuarantined,
+  getAttemptsPath,
+  getFailedAttemptItems,
+  getRunStopLimit,
+  TaskAttempts,
+} from "./task-attempts.js";
+
+const failure = { error: "Tests failed", iteration: 4, runId: "run-1" };
+const now = new Date("2026-01-02T03:04:05Z");
+
+// ─── readTaskAttempts / writeTaskAttempts ───────────────────────────
+
+describe("readTaskAttempts / writeTaskAttempts", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ralph-attempts-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips records and removes the file once empty", () => {
+    const path = getAttemptsPath(dir);
+    expect(readTaskAttempts(path)).toEqual({});
+
+    const attempts: TaskAttempts = {};
+    recordFailedAttempt(attempts, { id: "login", description: "Add login" }, failure, 3, now);
+    writeTaskAttempts(path, attempts);
+    expect(readTaskAttempts(path)).toEqual(attempts);
+
+    writeTaskAttempts(path, {});
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("treats an unreadable file as empty", () => {
+    const path = getAttemptsPath(dir);
+    writeFileSync(path, "{ not json");
+    expect(readTaskAttempts(path)).toEqual({});
+    writeFileSync(path, "[]");
+    expect(readTaskAttempts(path)).toEqual({});
+  });
+});
+
+// ─── excerptError ───────────────────────────────────────────────────
+
+describe("excerptError", () => {
+  it("keeps the last non-empty lines", () => {
+    expect(excerptError("one\n\ntwo\n  three  \nfour\n")).toBe("two | three | four");
+  });
+
+  it("caps the length, keeping the end", () => {
+    const excerpt = excerptError("x".repeat(50) + "END", 20);
+    expect(excerpt).toHaveLength(20);
+    expect(excerpt).toMatch(/^\.\.\.x+END$/);
+  });
+});
+
+// ─── getFailedAttemptItems ──────────────────────────────────────────
+
+describe("getFailedAttemptItems", () => {
+  const task = { id: "login", description: "Add login" };
+  const outcome = { exitCode: 0, completed: 0, reverted: [], commits: [] };
+
+  it("charges the starting task when the agent failed, timed out or committed nothing", () => {
+    expect(getFailedAttemptItems({ ...outcome, exitCode: 1, commits: ["abc"] }, task)).toEqual([
+      task,
+    ]);
+    expect(getFailedAttemptItems({ ...outcome, timedOut: true, commits: ["abc"] }, task)).toEqual([
+      task,
+    ]);
+    expect(getFailedAttemptItems(outcome, task)).toEqual([task]);
+  });
+
+  it("doesn't count a clean exit with commits as a failure", () => {
+    expect(getFailedAttemptItems({ ...outcome, commits: ["abc"] }, task)).toEqual([]);
+  });
+
+  it("doesn't count iterations that completed a task", () => {
+    expect(getFailedAttemptItems({ ...outcome, exitCode: 1, completed: 1 }, task)).toEqual([]);
+  });
+
+  it("charges tasks reverted by verification to themselves", () => {
+    const reverted = [{ id: "signup", description: "Add signup" }];
+    expect(getFailedAttemptItems({ ...outcome, commits: ["abc"], reverted }, task)).toEqual(
+      reverted,
+    );
+  });
+
+  it("charges nothing without a starting task", () => {
+    expect(getFailedAttemptItems({ ...outcome, exitCode: 1 }, undefined)).toEqual([]);
+  });
+});
+
+// ─── getRunStopLimit ────────────────────────────────────────────────
+
+describe("getRunStopLimit", () => {
+  it("keeps the limit without quarantine or with a lower maxAttemptsPerTask", () => {
+    expect(getRunStopLimit(3)).toBe(3);
+    expect(getRunStopLimit(3, 2)).toBe(3);
+  });
+
+  it("quarantines an item before the run stops when maxAttemptsPerTask is above 3", () => {
+    const limit = getRunStopLimit(3, 5);
+    expect(limit).toBe(6);
+
+    // The same item fails every iteration, as it would with a non-zero exit each time
+    const attempts: TaskAttempts = {};
+    let failuresInARow = 0;
+    let quarantinedAt: number | undefined;
+    for (let iteration = 1; failuresInARow < limit; iteration++) {
+      failuresInARow++;
+      const record = recordFailedAttempt(attempts, { description: "Poisoned" }, failure, 5, now);
+      if (record.quarantined && quarantinedAt === undefined) quarantinedAt = iteration;
+    }
+    expect(quarantinedAt).toBe(5);
+  });
+});
+
+// ─── recordFailedAttempt ────────────────────────────────────────────
+
+describe("recordFailedAttempt", () => {
+  it("counts attempts and quarantines items at the limit", () => {
+    const attempts: TaskAttempts = {};
+    const item = { id: "login", description: "Add login" };
+
+    const first = recordFailedAttempt(attempts, item, failure, 2, now);
+    expect(first).toEqual({
+      id: "login",
+      description: "Add login",
+      attempts: 1,
+      lastError: "Tests failed",
+      lastIteration: 4,
+      lastRunId: "run-1",
+      updatedAt: "2026-01-02T03:04:05.000Z",
+    });
+
+    const second = recordFailedAttempt(attempts, item, { ...failure, iteration: 5 }, 2, now);
+    expect(second).toMatchObject({ attempts: 2, lastIteration: 5, quarantined: true });
+    expect(getQuarantinedKeys(attempts)).toEqual(new Set(["id:login"]));
+  });
+
+  it("never quarantines without a limit", () => {
+    const attempts: TaskAttempts = {};
+    for (let i = 0; i < 5; i++) {
+      recordFailedAttempt(attempts, { description: "No id" }, failure);
+    }
+    expect(attempts["description:No id"].attempts).toBe(5);
+    expect(getQuarantinedKeys(attempts).size).toBe(0);
+  });
+});
+
+// ─── clearAttempts ──────────────────────────────────────────────────
+
+describe("clearAttempts", () => {
+  it("forgets completed items", () => {
+    const attempts: TaskAttempts = {};
+    recordFailedAttempt(attempts, { id: "a", description: "A" }, failure);
+    recordFailedAttempt(attempts, { id: "b", description: "B" }, failure);
+    clearAttempts(attempts, [{ id: "a", description: "A" }]);
+    expect(Object.keys(attempts)).toEqual(["id:b"]);
+  });
+});
+
+// ─── listQuarantined / releaseQuarantined ───────────────────────────
+
+describe("listQuarantined / releaseQuarantined", () => {
+  const items = [
+    { id: "a", description: "A", passes: false },
+    { id: "b", description: "B", passes: true },
+    { id: "c", description: "C", passes: false },
+  ];
+
+  function quarantineAll(): TaskAttempts {
+    const attempts: TaskAttempts = {};
+    for (const item of items) {
+      recordFailedAttempt(attempts, item, failure, 1);
+    }
+    recordFailedAttempt(attempts, { id: "d", description: "D" }, failure);
+    return attempts;
+  }
+
+  it("lists quarantined items that still need work, in PRD order", () => {
+    const listed = listQuarantined(quarantineAll(), items);
+    expect(listed.map(({ item }) => item.id)).toEqual(["a", "c"]);
+  });
+
+  it("releases items by id or description", () => {
+    const attempts = quarantineAll();
+    const released = releaseQuarantined(attempts, ["a", "C", "d"]);
+    expect(released.map((record) => record.id)).toEqual(["a", "c"]);
+    expect(Object.keys(attempts)).toEqual(["id:b", "id:d"]);
+  });
+
+  it("releases every quarantined item without refs", () => {
+    const attempts = quarantineAll();
+    expect(releaseQuarantined(attempts)).toHaveLength(3);
+    expect(Object.keys(attempts)).toEqual(["id:d"]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Failed-attempt tracking for PRD items, stored next to the PRD in .ralph/prd-attempts.json.
+ *
+ * A `ralph run` iteration that fails counts a failed attempt against the item it worked on
+ * (see getFailedAttemptItems). Once an item reaches `maxAttemptsPerTask` it is quarantined:
+ * `ralph run` leaves it out until it's released with `ralph quarantine release`.
+ */
+
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from "fs";
+import { join } from "path";
+import { prdItemKey } from "./checkpoint.js";
+
+export const ATTEMPTS_FILE = "prd-attempts.json";
+
+const MAX_ERROR_EXCERPT = 300;
+
+export interface TaskAttempt {
+  id?: string;
+  description: string;
+  attempts: number; // Failed attempts since the item was added or released
+  lastError?: string; // Excerpt of why the last attempt failed
+  lastIteration?: number;
+  lastRunId?: string;
+  updatedAt: string;
+  quarantined?: boolean;
+}
+
+/**
+ * Attempt records keyed by prdItemKey (the item's id, or its description).
+ */
+export type TaskAttempts = Record<string, TaskAttempt>;
+
+export interface FailedAttempt {
+  error: string;
+  iteration: number;
+  runId: string;
+}
+
+interface AttemptItem {
+  id?: string;
+  description: string;
+}
+
+/**
+ * What an iteration did, as far as attempt tracking is concerned.
+ */
+export interface IterationOutcome {
+  exitCode: number;
+  timedOut?: boolean;
+  completed: number; // Tasks that passed (after verification)
+  reverted: AttemptItem[]; // Tasks marked as passing whose verification failed
+  commits: string[]; // Commits made during the iteration
+}
+
+/**
+ * Returns the items to count a failed attempt against. Tasks reverted by verification are
+ * charged to themselves. Otherwise an iteration that completed nothing is charged to the item
+ * it started with (the first in prd-tasks.json) if the agent failed, timed out, or exited
+ * cleanly without committing anything - an agent that is still committing is making progress.
+ */
+export function getFailedAttemptItems<T extends AttemptItem>(
+  outcome: IterationOutcome,
+  startedWith: T | undefined,
+): AttemptItem[] {
+  if (outcome.reverted.length > 0) return outcome.reverted;
+  if (outcome.completed > 0 || !startedWith) return [];
+  if (outcome.exitCode !== 0 || outcome.timedOut || outcome.commits.length === 0) {
+    return [startedWith];
+  }
+  return [];
+}
+
+/**
+ * Raises one of the run's stop limits (iterations without progress, failures in a row)
+ * above `maxAttemptsPerTask`, so an item that keeps failing is quarantined before the
+ * run gives up. One more iteration is allowed after the quarantine: if the next item fails
+ * the same way, the problem isn't the item.
+ */
+export function getRunStopLimit(limit: number, maxAttemptsPerTask?: number): number {
+  return maxAttemptsPerTask === undefined ? limit : Math.max(limit, maxAttemptsPerTask + 1);
+}
+
+export function getAttemptsPath(ralphDir: string): string {
+  return join(ralphDir, ATTEMPTS_FILE);
+}
+
+/**
+ * Reads the attempt records. Returns an empty set if the file is missing or unreadable.
+ */
+export function readTaskAttempts(path: string): TaskAttempts {
+  if (!existsSync(path)) return {};
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8"));
+    return typeof data === "object" && data !== null && !Array.isArray(data) ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Writes the attempt records, removing the file once there are none left.
+ */
+export function writeTaskAttempts(path: string, attempts: TaskAttempts): void {
+  if (Object.keys(attempts).length === 0) {
+    if (existsSync(path)) unlinkSync(path);
+    return;
+  }
+  writeFileSync(path, JSON.stringify(attempts, null, 2) + "\n");
+}
+
+/**
+ * Shortens an error for storage: the last few non-empty lines, capped at 300 characters.
+ */
+export function excerptError(text: string, maxLength: number = MAX_ERROR_EXCERPT): string {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const excerpt = lines.slice(-3).join(" | ");
+  return excerpt.length > maxLength ? "..." + excerpt.slice(-(maxLength - 3)) : excerpt;
+}
+
+/**
+ * Counts a failed attempt against an item. Quarantines it once it reaches `maxAttempts`
+ * (no limit when undefined). Returns the updated record.
+ */
+export function recordFailedAttempt(
+  attempts: TaskAttempts,
+  item: AttemptItem,
+  failure: FailedAttempt,
+  maxAttempts?: number,
+  now: Date = new Date(),
+): TaskAttempt {
+  const key = prdItemKey(item);
+  const count = (attempts[key]?.attempts ?? 0) + 1;
+  const record: TaskAttempt = {
+    ...(item.id && { id: item.id }),
+    description: item.description,
+    attempts: count,
+    lastError: failure.error,
+    lastIteration: failure.iteration,
+    lastRunId: failure.runId,
+    updatedAt: now.toISOString(),
+    ...(maxAttempts !== undefined && count >= maxAttempts && { quarantined: true }),
+  };
+  attempts[key] = record;
+  return record;
+}
+
+/**
+ * Forgets the attempts of items that were completed.
+ */
+export function clearAttempts(attempts: TaskAttempts, items: AttemptItem[]): void {
+  for (const item of items) {
+    delete attempts[prdItemKey(item)];
+  }
+}
+
+export function getQuarantinedKeys(attempts: TaskAttempts): Set<string> {
+  return new Set(
+    Object.entries(attempts)
+      .filter(([, record]) => record.quarantined)
+      .map(([key]) => key),
+  );
+}
+
+/**
+ * Returns the quarantined records of items that still exist in the PRD and aren't passing,
+ * in PRD order.
+ */
+export function listQuarantined<T extends AttemptItem & { passes: boolean }>(
+  attempts: TaskAttempts,
+  items: T[],
+): { item: T; record: TaskAttempt }[] {
+  return items
+    .filter((item) => !item.passes)
+    .map((item) => ({ item, record: attempts[prdItemKey(item)] }))
+    .filter(({ record }) => record?.quarantined === true);
+}
+
+/**
+ * Releases quarantined items so `ralph run` picks them up again, resetting their attempts.
+ * Matches `refs` against item ids and descriptions; releases everything when `refs` is empty.
+ * Returns the released records.
+ */
+export function releaseQuarantined(attempts: TaskAttempts, refs: string[] = []): TaskAttempt[] {
+  const released: TaskAttempt[] = [];
+  for (const [key, record] of Object.entries(attempts)) {
+    if (!record.quarantined) continue;
+    if (refs.length > 0 && !refs.some((ref) => ref === record.id || ref === record.description)) {
+      continue;
+    }
+    released.push(record);
+    delete attempts[key];
+  }
+  return released;
+}
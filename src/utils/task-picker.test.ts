@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  orderTasks,
+  selectTasks,
+  getTaskSelection,
+  parseMaxTasks,
+  PickableTask,
+} from "./task-picker.js";
+
+function task(name: string, extra: Partial<PickableTask> = {}): PickableTask & { name: string } {
+  return { name, category: "feature", steps: ["Do it"], ...extra };
+}
+
+const names = (tasks: { name: string }[]) => tasks.map((t) => t.name);
+
+// ─── orderTasks ─────────────────────────────────────────────────────
+
+describe("orderTasks", () => {
+  const tasks = [
+    task("a", { category: "ui", priority: "low", estimate: 5 }),
+    task("b", { category: "ui", steps: ["1", "2", "3"] }),
+    task("c", { category: "docs", priority: "critical", estimate: 2 }),
+    task("d", { category: "ui", priority: "high", steps: [] }),
+    task("e", { category: "setup", priority: "high", estimate: 2 }),
+  ];
+
+  it("keeps the input order for fifo", () => {
+    expect(names(orderTasks(tasks, "fifo"))).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("sorts by priority, with unprioritized items last and ties in input order", () => {
+    expect(names(orderTasks(tasks, "priority"))).toEqual(["c", "d", "e", "a", "b"]);
+  });
+
+  it("alternates between categories in order of first appearance", () => {
+    expect(names(orderTasks(tasks, "category-round-robin"))).toEqual(["a", "c", "e", "b", "d"]);
+  });
+
+  it("sorts by estimate, then items without one by step count", () => {
+    expect(names(orderTasks(tasks, "smallest-first"))).toEqual(["c", "e", "a", "d", "b"]);
+  });
+
+  it("doesn't modify the input", () => {
+    orderTasks(tasks, "priority");
+    expect(names(tasks)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
+
+// ─── selectTasks ────────────────────────────────────────────────────
+
+describe("selectTasks", () => {
+  it("keeps the first maxTasks items after ordering", () => {
+    const tasks = [task("a"), task("b", { priority: "high" }), task("c", { priority: "medium" })];
+    expect(names(selectTasks(tasks, { strategy: "priority", maxTasks: 2 }))).toEqual(["b", "c"]);
+    expect(names(selectTasks(tasks, { strategy: "fifo" }))).toEqual(["a", "b", "c"]);
+  });
+});
+
+// ─── getTaskSelection ───────────────────────────────────────────────
+
+describe("getTaskSelection", () => {
+  it("defaults to fifo without a limit", () => {
+    expect(getTaskSelection(undefined)).toEqual({ strategy: "fifo" });
+  });
+
+  it("uses config.pick unless a flag overrides it", () => {
+    const config = { strategy: "smallest-first", maxTasksInContext: 3 };
+    expect(getTaskSelection(config)).toEqual({ strategy: "smallest-first", maxTasks: 3 });
+    expect(getTaskSelection(config, "priority", 10)).toEqual({
+      strategy: "priority",
+      maxTasks: 10,
+    });
+  });
+
+  it("ignores invalid config values", () => {
+    expect(getTaskSelection({ strategy: "random", maxTasksInContext: 0 })).toEqual({
+      strategy: "fifo",
+    });
+  });
+});
+
+// ─── parseMaxTasks ──────────────────────────────────────────────────
+
+describe("parseMaxTasks", () => {
+  it("accepts positive integers only", () => {
+    expect(parseMaxTasks("5")).toBe(5);
+    expect(parseMaxTasks("0")).toBeNull();
+    expect(parseMaxTasks("2.5")).toBeNull();
+    expect(parseMaxTasks(undefined)).toBeNull();
+  });
+});
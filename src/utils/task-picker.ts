@@ -0,0 +1,134 @@
+/**
+ * Task selection for `ralph run`: decides the order in which unblocked PRD items are
+ * handed to the agent, and optionally caps how many it sees per iteration.
+ */
+
+import type { TaskPickConfig } from "./config.js";
+import { PRD_PRIORITIES, type PrdPriority } from "./prd-validator.js";
+
+export type PickStrategy = "fifo" | "priority" | "category-round-robin" | "smallest-first";
+
+export const PICK_STRATEGIES: PickStrategy[] = [
+  "fifo",
+  "priority",
+  "category-round-robin",
+  "smallest-first",
+];
+
+export const DEFAULT_PICK_STRATEGY: PickStrategy = "fifo";
+
+export interface TaskSelection {
+  strategy: PickStrategy;
+  maxTasks?: number; // Only hand the first N items to the agent (default: all)
+}
+
+/**
+ * The fields the strategies look at.
+ */
+export interface PickableTask {
+  category: string;
+  steps: string[];
+  priority?: PrdPriority;
+  estimate?: number;
+}
+
+export function isPickStrategy(value: unknown): value is PickStrategy {
+  return typeof value === "string" && (PICK_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Parses a --max-tasks-in-context value. Returns null unless it's a positive integer.
+ */
+export function parseMaxTasks(value: string | undefined): number | null {
+  if (value === undefined || !/^\d+$/.test(value)) return null;
+  const count = parseInt(value, 10);
+  return count >= 1 ? count : null;
+}
+
+/**
+ * Resolves the task selection from the command-line flags, falling back to config.pick.
+ * Invalid config values are ignored.
+ */
+export function getTaskSelection(
+  config: TaskPickConfig | undefined,
+  strategy?: PickStrategy,
+  maxTasks?: number,
+): TaskSelection {
+  const configStrategy = config?.strategy;
+  const configMax = config?.maxTasksInContext;
+  const hasConfigMax =
+    typeof configMax === "number" && Number.isInteger(configMax) && configMax > 0;
+  const resolvedMax = maxTasks ?? (hasConfigMax ? configMax : undefined);
+  return {
+    strategy: strategy ?? (isPickStrategy(configStrategy) ? configStrategy : DEFAULT_PICK_STRATEGY),
+    ...(resolvedMax !== undefined && { maxTasks: resolvedMax }),
+  };
+}
+
+/**
+ * Items without a priority sort after "low".
+ */
+function priorityRank(task: PickableTask): number {
+  return task.priority ? PRD_PRIORITIES.indexOf(task.priority) : PRD_PRIORITIES.length;
+}
+
+/**
+ * Takes one item per category in turn, categories in order of first appearance.
+ */
+function roundRobinByCategory<T extends PickableTask>(tasks: T[]): T[] {
+  const queues = new Map<string, T[]>();
+  for (const task of tasks) {
+    const queue = queues.get(task.category) ?? [];
+    queue.push(task);
+    queues.set(task.category, queue);
+  }
+
+  const result: T[] = [];
+  while (result.length < tasks.length) {
+    for (const queue of queues.values()) {
+      const next = queue.shift();
+      if (next) result.push(next);
+    }
+  }
+  return result;
+}
+
+/**
+ * Orders unblocked items by the given strategy. The sort is stable, so ties keep the
+ * input order (PRD order, dependencies first). Reordering is safe because none of
+ * the items depends on another unfinished one.
+ *
+ * - fifo: input order
+ * - priority: critical, high, medium, low, then items without a priority
+ * - category-round-robin: alternates between categories
+ * - smallest-first: lowest estimate first; items without one go last, fewest steps first
+ */
+export function orderTasks<T extends PickableTask>(tasks: T[], strategy: PickStrategy): T[] {
+  switch (strategy) {
+    case "fifo":
+      return [...tasks];
+    case "priority":
+      return [...tasks].sort((a, b) => priorityRank(a) - priorityRank(b));
+    case "category-round-robin":
+      return roundRobinByCategory(tasks);
+    case "smallest-first":
+      return [...tasks].sort(
+        (a, b) =>
+          (a.estimate ?? Infinity) - (b.estimate ?? Infinity) || a.steps.length - b.steps.length,
+      );
+  }
+}
+
+/**
+ * Caps a list of items at `maxTasks` (no cap when undefined).
+ */
+export function limitTasks<T>(tasks: T[], maxTasks?: number): T[] {
+  return maxTasks === undefined ? tasks : tasks.slice(0, maxTasks);
+}
+
+/**
+ * Orders the items by the selection's strategy and keeps the first `maxTasks`.
+ */
+export function selectTasks<T extends PickableTask>(tasks: T[], selection: TaskSelection): T[] {
+  return limitTasks(orderTasks(tasks, selection.strategy), selection.maxTasks);
+}
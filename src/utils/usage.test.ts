@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptyUsage,
+  addUsage,
+  splitUsage,
+  totalTokens,
+  formatUsage,
+  checkBudget,
+  providerReportsCost,
+  type TokenUsage,
+} from "./usage.js";
+
+function usage(overrides: Partial<TokenUsage> = {}): TokenUsage {
+  return { ...emptyUsage(), ...overrides };
+}
+
+// ─── addUsage ───────────────────────────────────────────────────────
+
+describe("addUsage", () => {
+  it("adds token counts", () => {
+    const sum = addUsage(usage({ inputTokens: 1, outputTokens: 2 }), usage({ inputTokens: 3 }));
+    expect(sum).toEqual(usage({ inputTokens: 4, outputTokens: 2 }));
+  });
+
+  it("only includes cost when one side reports it", () => {
+    expect(addUsage(usage(), usage()).costUsd).toBeUndefined();
+    expect(addUsage(usage({ costUsd: 0.5 }), usage()).costUsd).toBe(0.5);
+    expect(addUsage(usage({ costUsd: 0.5 }), usage({ costUsd: 0.25 })).costUsd).toBe(0.75);
+  });
+});
+
+// ─── splitUsage ─────────────────────────────────────────────────────
+
+describe("splitUsage", () => {
+  it("splits tokens and cost evenly", () => {
+    const share = splitUsage(usage({ inputTokens: 100, outputTokens: 10, costUsd: 1 }), 2);
+    expect(share).toEqual(usage({ inputTokens: 50, outputTokens: 5, costUsd: 0.5 }));
+  });
+
+  it("returns usage unchanged for a single task", () => {
+    const u = usage({ inputTokens: 3 });
+    expect(splitUsage(u, 1)).toBe(u);
+  });
+});
+
+// ─── formatUsage ────────────────────────────────────────────────────
+
+describe("formatUsage", () => {
+  it("includes cost when reported", () => {
+    expect(formatUsage(usage({ inputTokens: 1500, outputTokens: 500, costUsd: 0.123 }))).toBe(
+      "$0.12, 2.0k tokens",
+    );
+  });
+
+  it("omits cost when not reported", () => {
+    expect(formatUsage(usage({ inputTokens: 2_500_000 }))).toBe("2.5M tokens");
+  });
+});
+
+// ─── checkBudget ────────────────────────────────────────────────────
+
+describe("checkBudget", () => {
+  it("returns null without limits or within budget", () => {
+    expect(checkBudget(usage({ inputTokens: 10, costUsd: 1 }), {})).toBeNull();
+    expect(checkBudget(usage({ costUsd: 1 }), { maxCostUsd: 2, maxTokens: 100 })).toBeNull();
+  });
+
+  it("reports an exceeded cost limit", () => {
+    expect(checkBudget(usage({ costUsd: 2 }), { maxCostUsd: 2 })).toContain("maxCostUsd");
+  });
+
+  it("reports an exceeded token limit including cached tokens", () => {
+    const u = usage({ inputTokens: 10, cacheReadTokens: 95 });
+    expect(totalTokens(u)).toBe(105);
+    expect(checkBudget(u, { maxTokens: 100 })).toContain("maxTokens");
+  });
+});
+
+// ─── providerReportsCost ────────────────────────────────────────────
+
+describe("providerReportsCost", () => {
+  it("is true for providers that report cost, defaulting to Claude", () => {
+    expect(providerReportsCost(undefined)).toBe(true);
+    expect(providerReportsCost("claude")).toBe(true);
+    expect(providerReportsCost("opencode")).toBe(true);
+  });
+
+  it("is false for token-only providers", () => {
+    expect(providerReportsCost("codex")).toBe(false);
+    expect(providerReportsCost("gemini")).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Token and cost accounting for `ralph run`.
+ *
+ * Usage comes from the provider's stream-json events (see `StreamJsonParser.parseUsage`)
+ * and is added up per iteration, per task and per run.
+ */
+
+import type { TokenUsage } from "./stream-json.js";
+
+export type { TokenUsage };
+
+/**
+ * Budget limits from config.json. A limit that isn't set is not enforced.
+ */
+export interface UsageLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Providers whose stream-json events report cost. Others (Codex, Gemini, Aider) only report
+ * tokens, so maxCostUsd can't be enforced for them.
+ */
+const COST_REPORTING_PROVIDERS = ["claude", "goose", "opencode"];
+
+export function providerReportsCost(provider: string | undefined): boolean {
+  return COST_REPORTING_PROVIDERS.includes(provider ?? "claude");
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+/**
+ * Adds two usage records. Cost is only present if either side reported one.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+  };
+  if (a.costUsd !== undefined || b.costUsd !== undefined) {
+    sum.costUsd = (a.costUsd ?? 0) + (b.costUsd ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * Splits usage evenly across n tasks (e.g. several tasks completed in one iteration).
+ */
+export function splitUsage(usage: TokenUsage, n: number): TokenUsage {
+  if (n <= 1) return usage;
+  const share: TokenUsage = {
+    inputTokens: Math.round(usage.inputTokens / n),
+    outputTokens: Math.round(usage.outputTokens / n),
+    cacheReadTokens: Math.round(usage.cacheReadTokens / n),
+    cacheWriteTokens: Math.round(usage.cacheWriteTokens / n),
+  };
+  if (usage.costUsd !== undefined) {
+    share.costUsd = usage.costUsd / n;
+  }
+  return share;
+}
+
+/**
+ * Total tokens processed, including cached input.
+ */
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+export function hasUsage(usage: TokenUsage): boolean {
+  return totalTokens(usage) > 0 || (usage.costUsd ?? 0) > 0;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Formats usage for display, e.g. "$0.42, 120.5k tokens".
+ * Cost is left out for providers that don't report it.
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const tokens = `${formatTokens(totalTokens(usage))} tokens`;
+  return usage.costUsd !== undefined ? `${formatCost(usage.costUsd)}, ${tokens}` : tokens;
+}
+
+/**
+ * Checks run totals against the configured limits.
+ * Returns a description of the exceeded limit, or null if within budget.
+ */
+export function checkBudget(usage: TokenUsage, limits: UsageLimits): string | null {
+  if (limits.maxCostUsd !== undefined && (usage.costUsd ?? 0) >= limits.maxCostUsd) {
+    return `cost ${formatCost(usage.costUsd ?? 0)} reached maxCostUsd (${formatCost(limits.maxCostUsd)})`;
+  }
+  if (limits.maxTokens !== undefined && totalTokens(usage) >= limits.maxTokens) {
+    return `${formatTokens(totalTokens(usage))} tokens reached maxTokens (${formatTokens(limits.maxTokens)})`;
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import {
+  getVerificationCommands,
+  isVerificationEnabled,
+  verifyTasks,
+  runCommand,
+  findNewlyPassing,
+  formatVerificationFailures,
+  type CommandResult,
+} from "./verification.js";
+import type { RalphConfig } from "./config.js";
+import type { PrdEntry } from "./prd-validator.js";
+
+function config(verification: RalphConfig["verification"]): RalphConfig {
+  return { language: "node", checkCommand: "npm run check", testCommand: "npm test", verification };
+}
+
+function fakeRunner(failing: string[]) {
+  const calls: string[] = [];
+  const runner = async (command: string): Promise<CommandResult> => {
+    calls.push(command);
+    const failed = failing.includes(command);
+    return { command, exitCode: failed ? 1 : 0, output: failed ? "boom" : "", durationMs: 5 };
+  };
+  return { runner, calls };
+}
+
+function entry(overrides: Partial<PrdEntry> = {}): PrdEntry {
+  return { category: "feature", description: "Task", steps: [], passes: false, ...overrides };
+}
+
+// ─── getVerificationCommands ────────────────────────────────────────
+
+describe("getVerificationCommands", () => {
+  it("is off unless enabled", () => {
+    expect(getVerificationCommands(config(undefined), "feature")).toEqual([]);
+    expect(getVerificationCommands(config({}), "feature")).toEqual([]);
+  });
+
+  it("runs check and test by default", () => {
+    expect(getVerificationCommands(config({ enabled: true }), "feature")).toEqual([
+      "npm run check",
+      "npm test",
+    ]);
+  });
+
+  it("applies per-category overrides", () => {
+    const c = config({
+      enabled: true,
+      categories: { docs: { enabled: false }, testing: { steps: ["test"] } },
+    });
+    expect(getVerificationCommands(c, "docs")).toEqual([]);
+    expect(getVerificationCommands(c, "testing")).toEqual(["npm test"]);
+    expect(
+      getVerificationCommands(config({ categories: { ui: { enabled: true } } }), "ui"),
+    ).toEqual(["npm run check", "npm test"]);
+  });
+
+  it("skips empty commands", () => {
+    const c = { ...config({ enabled: true }), checkCommand: "" };
+    expect(getVerificationCommands(c, "feature")).toEqual(["npm test"]);
+  });
+});
+
+// ─── isVerificationEnabled ──────────────────────────────────────────
+
+describe("isVerificationEnabled", () => {
+  it("is true when enabled globally or for any category", () => {
+    expect(isVerificationEnabled(config(undefined))).toBe(false);
+    expect(isVerificationEnabled(config({ enabled: true }))).toBe(true);
+    expect(isVerificationEnabled(config({ categories: { ui: { enabled: true } } }))).toBe(true);
+  });
+});
+
+// ─── runCommand ─────────────────────────────────────────────────────
+
+describe("runCommand", () => {
+  it("captures the exit code and combined output", async () => {
+    const result = await runCommand("echo out; echo err >&2; exit 3", "/tmp", 5000);
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toContain("out");
+    expect(result.output).toContain("err");
+    expect(result.timedOut).toBeUndefined();
+  });
+
+  it("stops a command that runs over the timeout", async () => {
+    const result = await runCommand("sleep 5", "/tmp", 100);
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+  });
+});
+
+// ─── verifyTasks ────────────────────────────────────────────────────
+
+describe("verifyTasks", () => {
+  it("runs shared commands once and splits passed and failed tasks", async () => {
+    const c = config({ enabled: true, categories: { docs: { steps: ["check"] } } });
+    const { runner, calls } = fakeRunner(["npm test"]);
+    const result = await verifyTasks(
+      [
+        { id: "a", description: "A", category: "feature" },
+        { id: "b", description: "B", category: "docs" },
+        { id: "c", description: "C", category: "feature" },
+      ],
+      c,
+      "/tmp",
+      runner,
+    );
+
+    expect(calls).toEqual(["npm run check", "npm test"]);
+    expect(result.passed.map((t) => t.id)).toEqual(["b"]);
+    expect(result.failed.map((f) => f.task.id)).toEqual(["a", "c"]);
+    expect(result.failed[0].results.map((r) => r.command)).toEqual(["npm test"]);
+  });
+
+  it("passes tasks in unverified categories without running anything", async () => {
+    const { runner, calls } = fakeRunner(["npm test"]);
+    const result = await verifyTasks(
+      [{ description: "A", category: "feature" }],
+      config({}),
+      "/",
+      runner,
+    );
+    expect(calls).toEqual([]);
+    expect(result.passed).toHaveLength(1);
+  });
+});
+
+// ─── findNewlyPassing ───────────────────────────────────────────────
+
+describe("findNewlyPassing", () => {
+  it("returns items that started passing, matched by id or description", () => {
+    const before = [
+      entry({ id: "a" }),
+      entry({ id: "b", passes: true }),
+      entry({ description: "No id" }),
+    ];
+    const after = [
+      entry({ id: "a", passes: true }),
+      entry({ id: "b", passes: true }),
+      entry({ description: "No id", passes: true, category: "docs" }),
+    ];
+    expect(findNewlyPassing(before, after)).toEqual([
+      { id: "a", description: "Task", category: "feature" },
+      { id: undefined, description: "No id", category: "docs" },
+    ]);
+  });
+});
+
+// ─── formatVerificationFailures ─────────────────────────────────────
+
+describe("formatVerificationFailures", () => {
+  it("lists reverted tasks and each failed command's output once", () => {
+    const result: CommandResult = {
+      command: "npm test",
+      exitCode: 2,
+      output: "1 failed\n",
+      durationMs: 1,
+    };
+    const text = formatVerificationFailures(
+      [
+        { task: { id: "a", description: "A", category: "feature" }, results: [result] },
+        { task: { description: "B", category: "feature" }, results: [result] },
+      ],
+      new Date("2026-01-15T10:00:00.000Z"),
+    );
+
+    expect(text).toContain("## Verification failed (2026-01-15T10:00:00.000Z)");
+    expect(text).toContain("- [a] A");
+    expect(text).toContain("- B");
+    expect(text).toContain("`npm test` (exit code 2)");
+    expect(text.match(/1 failed/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Verification gate: runs the project's checkCommand/testCommand before a task
+ * the agent marked as passing is accepted.
+ *
+ * Tasks whose checks fail are reverted to `passes: false` and the failure output is
+ * appended to progress.txt so the next iteration can fix it.
+ */
+
+import { spawn } from "child_process";
+import { appendFileSync } from "fs";
+import type { RalphConfig, VerificationStep } from "./config.js";
+import type { Lock } from "./parallel.js";
+import { readPrdFile, writePrdAuto, type PrdEntry } from "./prd-validator.js";
+import { createWatchdog, DEFAULT_KILL_GRACE_SECONDS } from "./watchdog.js";
+
+const DEFAULT_STEPS: VerificationStep[] = ["check", "test"];
+const DEFAULT_TIMEOUT_SECONDS = 600;
+const MAX_OUTPUT_CHARS = 4000; // Tail of the output kept for progress.txt
+
+/**
+ * A task that was marked as passing during an iteration.
+ */
+export interface VerifiedTask {
+  id?: string;
+  description: string;
+  category: string;
+}
+
+export interface CommandResult {
+  command: string;
+  exitCode: number;
+  output: string; // Combined stdout/stderr
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+export interface VerificationFailure {
+  task: VerifiedTask;
+  results: CommandResult[]; // Only the commands that failed
+}
+
+export interface VerificationResult {
+  passed: VerifiedTask[];
+  failed: VerificationFailure[];
+  results: CommandResult[]; // Every command that ran, in order
+}
+
+export type CommandRunner = (
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+) => Promise<CommandResult>;
+
+// Runs the function directly, for callers that don't share the PRD with parallel lanes
+const runUnlocked: Lock = async (fn) => fn();
+
+/**
+ * Returns the commands that must pass for a task in the given category.
+ * Category overrides in `verification.categories` take precedence over the defaults;
+ * verification is off unless enabled globally or for the category.
+ */
+export function getVerificationCommands(config: RalphConfig, category: string): string[] {
+  const verification = config.verification;
+  if (!verification) return [];
+
+  const override = verification.categories?.[category];
+  const enabled = override?.enabled ?? verification.enabled ?? false;
+  if (!enabled) return [];
+
+  const steps = override?.steps ?? verification.steps ?? DEFAULT_STEPS;
+  const commands: string[] = [];
+  for (const step of steps) {
+    const command = step === "check" ? config.checkCommand : config.testCommand;
+    if (command && command.trim() && !commands.includes(command)) {
+      commands.push(command);
+    }
+  }
+  return commands;
+}
+
+export function isVerificationEnabled(config: RalphConfig): boolean {
+  const verification = config.verification;
+  if (!verification) return false;
+  return (
+    verification.enabled === true ||
+    Object.values(verification.categories ?? {}).some((override) => override.enabled === true)
+  );
+}
+
+/**
+ * Runs a shell command, capturing its combined output. The command runs asynchronously so
+ * parallel lanes keep streaming (and their watchdogs keep firing) while checks run.
+ * A command over the timeout is stopped like a hung agent: SIGTERM, then SIGKILL.
+ */
+export function runCommand(
+  command: string,
+  cwd: string,
+  timeoutMs: number,
+): Promise<CommandResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    let output = "";
+    const proc = spawn(command, { cwd, shell: true, stdio: ["ignore", "pipe", "pipe"] });
+    const watchdog = createWatchdog(proc, {
+      timeoutMs,
+      killGraceMs: DEFAULT_KILL_GRACE_SECONDS * 1000,
+    });
+
+    // Processes the command started can keep its output pipes open after it is killed
+    proc.on("exit", () => {
+      if (watchdog.reason) {
+        proc.stdout.destroy();
+        proc.stderr.destroy();
+      }
+    });
+    proc.stdout.on("data", (data: Buffer) => (output += data.toString()));
+    proc.stderr.on("data", (data: Buffer) => (output += data.toString()));
+
+    proc.on("close", (code) => {
+      watchdog.stop();
+      const timedOut = watchdog.reason !== null;
+      resolve({
+        command,
+        exitCode: code ?? 1,
+        output,
+        durationMs: Date.now() - startedAt,
+        ...(timedOut && { timedOut }),
+      });
+    });
+
+    proc.on("error", (err) => {
+      watchdog.stop();
+      resolve({
+        command,
+        exitCode: 1,
+        output: `${output}${err.message}\n`,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
+
+/**
+ * Runs each task's verification commands. A command shared by several tasks runs once.
+ */
+export async function verifyTasks(
+  tasks: VerifiedTask[],
+  config: RalphConfig,
+  cwd: string,
+  runner: CommandRunner = runCommand,
+): Promise<VerificationResult> {
+  const timeoutMs = (config.verification?.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const cache = new Map<string, CommandResult>();
+  const result: VerificationResult = { passed: [], failed: [], results: [] };
+
+  for (const task of tasks) {
+    const failures: CommandResult[] = [];
+    for (const command of getVerificationCommands(config, task.category)) {
+      let commandResult = cache.get(command);
+      if (!commandResult) {
+        commandResult = await runner(command, cwd, timeoutMs);
+        cache.set(command, commandResult);
+        result.results.push(commandResult);
+      }
+      if (commandResult.exitCode !== 0) {
+        failures.push(commandResult);
+      }
+    }
+
+    if (failures.length > 0) {
+      result.failed.push({ task, results: failures });
+    } else {
+      result.passed.push(task);
+    }
+  }
+
+  return result;
+}
+
+function tail(output: string): string {
+  const trimmed = output.trimEnd();
+  return trimmed.length > MAX_OUTPUT_CHARS
+    ? "... (truncated)\n" + trimmed.slice(-MAX_OUTPUT_CHARS)
+    : trimmed;
+}
+
+/**
+ * Formats verification failures as a progress.txt entry.
+ */
+export function formatVerificationFailures(
+  failures: VerificationFailure[],
+  date: Date = new Date(),
+): string {
+  const lines = [`## Verification failed (${date.toISOString()})`, ""];
+  lines.push("These tasks were marked as passing but their checks failed, so they were reverted:");
+  for (const { task } of failures) {
+    lines.push(`- ${task.id ? `[${task.id}] ` : ""}${task.description}`);
+  }
+
+  const seen = new Set<string>();
+  for (const { results } of failures) {
+    for (const result of results) {
+      if (seen.has(result.command)) continue;
+      seen.add(result.command);
+      const status = result.timedOut ? "timed out" : `exit code ${result.exitCode}`;
+      lines.push(
+        "",
+        `### \`${result.command}\` (${status})`,
+        "",
+        "```",
+        tail(result.output),
+        "```",
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n\n";
+}
+
+export function appendVerificationFailures(
+  progressPath: string,
+  failures: VerificationFailure[],
+): void {
+  try {
+    appendFileSync(progressPath, "\n" + formatVerificationFailures(failures));
+  } catch {
+    // Ignore write errors
+  }
+}
+
+/**
+ * Sets `passes: false` on the PRD items for the given tasks, matching by id
+ * (or by description for items without an id). Returns the number reverted.
+ */
+export function revertTasks(prdPath: string, tasks: VerifiedTask[]): number {
+  const parsed = readPrdFile(prdPath);
+  if (!parsed || !Array.isArray(parsed.content)) return 0;
+  const prd = parsed.content as PrdEntry[];
+
+  let reverted = 0;
+  for (const task of tasks) {
+    const match = task.id
+      ? prd.find((item) => item.id === task.id)
+      : prd.find((item) => !item.id && item.description === task.description);
+    if (match && match.passes) {
+      match.passes = false;
+      reverted++;
+    }
+  }
+
+  if (reverted > 0) {
+    writePrdAuto(prdPath, prd, { action: "verify", source: "agent" });
+  }
+  return reverted;
+}
+
+/**
+ * Returns items that pass in `after` but did not pass in `before`, matched by id
+ * (or by description for items without an id). Used when the agent edits the PRD directly.
+ */
+export function findNewlyPassing(before: PrdEntry[], after: PrdEntry[]): VerifiedTask[] {
+  const key = (item: PrdEntry) => (item.id ? `id:${item.id}` : `description:${item.description}`);
+  const passedBefore = new Set(before.filter((item) => item.passes).map(key));
+
+  return after
+    .filter((item) => item.passes && !passedBefore.has(key(item)))
+    .map((item) => ({ id: item.id, description: item.description, category: item.category }));
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Verifies tasks marked as passing during an iteration. Failed tasks are reverted in the
+ * PRD and their failure output is appended to progress.txt. Tasks in categories without
+ * verification pass unchecked. The commands run outside `withLock`; only the revert of
+ * the PRD holds it.
+ */
+export async function applyVerificationGate(
+  tasks: VerifiedTask[],
+  config: RalphConfig,
+  paths: { prd: string; progress: string },
+  cwd: string = process.cwd(),
+  runner: CommandRunner = runCommand,
+  withLock: Lock = runUnlocked,
+): Promise<VerificationResult> {
+  if (!tasks.some((task) => getVerificationCommands(config, task.category).length > 0)) {
+    return { passed: tasks, failed: [], results: [] };
+  }
+
+  console.log(`\n\x1b[36m[ralph] Verifying ${tasks.length} completed task(s)...\x1b[0m`);
+  const result = await verifyTasks(tasks, config, cwd, runner);
+
+  for (const commandResult of result.results) {
+    const icon = commandResult.exitCode === 0 ? "\x1b[32m✓\x1b[0m" : "\x1b[31m✗\x1b[0m";
+    const status = commandResult.timedOut ? "timed out" : `exit ${commandResult.exitCode}`;
+    console.log(
+      `  ${icon} ${commandResult.command} \x1b[90m(${status}, ${formatSeconds(commandResult.durationMs)})\x1b[0m`,
+    );
+  }
+
+  if (result.failed.length > 0) {
+    await withLock(() =>
+      revertTasks(
+        paths.prd,
+        result.failed.map((failure) => failure.task),
+      ),
+    );
+    appendVerificationFailures(paths.progress, result.failed);
+    console.log(
+      `\x1b[33m[ralph] Reverted ${result.failed.length} task(s) whose checks failed (output added to progress.txt):\x1b[0m`,
+    );
+    for (const { task } of result.failed) {
+      console.log(`  - ${task.description}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createWatchdog,
+  describeTimeout,
+  getWatchdogOptions,
+  DEFAULT_KILL_GRACE_SECONDS,
+} from "./watchdog.js";
+
+function fakeProcess() {
+  const signals: string[] = [];
+  return {
+    signals,
+    kill(signal?: NodeJS.Signals) {
+      signals.push(signal ?? "SIGTERM");
+      return true;
+    },
+  };
+}
+
+// ─── getWatchdogOptions ─────────────────────────────────────────────
+
+describe("getWatchdogOptions", () => {
+  it("returns null when no limit is configured", () => {
+    expect(getWatchdogOptions(undefined)).toBeNull();
+    expect(getWatchdogOptions({})).toBeNull();
+    expect(getWatchdogOptions({ timeout: 0, killGrace: 5 })).toBeNull();
+  });
+
+  it("converts seconds to milliseconds", () => {
+    expect(getWatchdogOptions({ timeout: 1800, idleTimeout: 300, killGrace: 5 })).toEqual({
+      timeoutMs: 1_800_000,
+      idleMs: 300_000,
+      killGraceMs: 5000,
+    });
+  });
+
+  it("uses the default kill grace period", () => {
+    expect(getWatchdogOptions({ idleTimeout: 60 })).toEqual({
+      idleMs: 60_000,
+      killGraceMs: DEFAULT_KILL_GRACE_SECONDS * 1000,
+    });
+  });
+});
+
+// ─── createWatchdog ─────────────────────────────────────────────────
+
+describe("createWatchdog", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends SIGTERM at the wall-clock limit and SIGKILL after the grace period", () => {
+    const proc = fakeProcess();
+    const onTimeout = vi.fn();
+    const watchdog = createWatchdog(proc, { timeoutMs: 1000, killGraceMs: 500, onTimeout });
+
+    vi.advanceTimersByTime(999);
+    expect(proc.signals).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(proc.signals).toEqual(["SIGTERM"]);
+    expect(onTimeout).toHaveBeenCalledWith("wall_clock");
+    expect(watchdog.reason).toBe("wall_clock");
+
+    vi.advanceTimersByTime(500);
+    expect(proc.signals).toEqual(["SIGTERM", "SIGKILL"]);
+  });
+
+  it("does not send SIGKILL if the process exits after SIGTERM", () => {
+    const proc = fakeProcess();
+    const watchdog = createWatchdog(proc, { timeoutMs: 1000, killGraceMs: 500 });
+
+    vi.advanceTimersByTime(1000);
+    watchdog.stop();
+    vi.advanceTimersByTime(1000);
+
+    expect(proc.signals).toEqual(["SIGTERM"]);
+  });
+
+  it("resets the idle timer on output", () => {
+    const proc = fakeProcess();
+    const watchdog = createWatchdog(proc, { idleMs: 1000, killGraceMs: 500 });
+
+    vi.advanceTimersByTime(800);
+    watchdog.activity();
+    vi.advanceTimersByTime(800);
+    expect(proc.signals).toEqual([]);
+
+    vi.advanceTimersByTime(200);
+    expect(proc.signals).toEqual(["SIGTERM"]);
+    expect(watchdog.reason).toBe("idle");
+  });
+
+  it("does nothing once stopped", () => {
+    const proc = fakeProcess();
+    const watchdog = createWatchdog(proc, { timeoutMs: 1000, idleMs: 500, killGraceMs: 500 });
+
+    watchdog.stop();
+    vi.advanceTimersByTime(5000);
+
+    expect(proc.signals).toEqual([]);
+    expect(watchdog.reason).toBeNull();
+  });
+});
+
+// ─── describeTimeout ────────────────────────────────────────────────
+
+describe("describeTimeout", () => {
+  it("describes the limit that was hit", () => {
+    expect(describeTimeout("wall_clock", { timeoutMs: 1_800_000 })).toBe("timed out after 30m");
+    expect(describeTimeout("idle", { idleMs: 90_000 })).toBe("stopped after 1m 30s without output");
+  });
+
+  it("works without the limits", () => {
+    expect(describeTimeout("wall_clock")).toBe("timed out");
+    expect(describeTimeout("idle")).toBe("stopped after producing no output");
+  });
+});
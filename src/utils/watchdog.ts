@@ -0,0 +1,126 @@
+/**
+ * Time limits for the agent process of a `ralph run` iteration.
+ *
+ * The watchdog stops the agent when the iteration runs longer than its wall-clock limit,
+ * or when the agent produces no output for longer than its idle limit. Stopping sends
+ * SIGTERM first and escalates to SIGKILL if the process is still running after a grace period.
+ */
+
+import type { IterationTimeoutConfig } from "./config.js";
+
+export type TimeoutReason = "wall_clock" | "idle";
+
+export const DEFAULT_KILL_GRACE_SECONDS = 10;
+
+// Exit code recorded for an agent stopped by the watchdog (same as coreutils `timeout`)
+export const TIMEOUT_EXIT_CODE = 124;
+
+export interface WatchdogOptions {
+  timeoutMs?: number; // Wall-clock limit, unset for none
+  idleMs?: number; // Limit on time without output, unset for none
+  killGraceMs: number; // Time between SIGTERM and SIGKILL
+  onTimeout?: (reason: TimeoutReason) => void;
+}
+
+export interface Watchdog {
+  activity(): void; // Call whenever the process produces output
+  stop(): void; // Call once the process has exited
+  readonly reason: TimeoutReason | null;
+}
+
+interface KillableProcess {
+  kill(signal?: NodeJS.Signals): boolean;
+}
+
+/**
+ * Converts the `iteration` section of config.json (seconds) to watchdog options.
+ * Returns null if no limit is configured.
+ */
+export function getWatchdogOptions(
+  config: IterationTimeoutConfig | undefined,
+): Omit<WatchdogOptions, "onTimeout"> | null {
+  const timeout = config?.timeout;
+  const idleTimeout = config?.idleTimeout;
+  const hasTimeout = typeof timeout === "number" && timeout > 0;
+  const hasIdleTimeout = typeof idleTimeout === "number" && idleTimeout > 0;
+  if (!hasTimeout && !hasIdleTimeout) return null;
+
+  return {
+    ...(hasTimeout && { timeoutMs: timeout * 1000 }),
+    ...(hasIdleTimeout && { idleMs: idleTimeout * 1000 }),
+    killGraceMs: (config?.killGrace ?? DEFAULT_KILL_GRACE_SECONDS) * 1000,
+  };
+}
+
+export function createWatchdog(proc: KillableProcess, options: WatchdogOptions): Watchdog {
+  let reason: TimeoutReason | null = null;
+  let stopped = false;
+  let wallClockTimer: NodeJS.Timeout | undefined;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let killTimer: NodeJS.Timeout | undefined;
+
+  const clearTimers = () => {
+    clearTimeout(wallClockTimer);
+    clearTimeout(idleTimer);
+  };
+
+  const expire = (timeoutReason: TimeoutReason) => {
+    if (stopped || reason) return;
+    reason = timeoutReason;
+    clearTimers();
+    options.onTimeout?.(timeoutReason);
+    proc.kill("SIGTERM");
+    killTimer = setTimeout(() => {
+      if (!stopped) proc.kill("SIGKILL");
+    }, options.killGraceMs);
+  };
+
+  const resetIdleTimer = () => {
+    if (options.idleMs === undefined) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => expire("idle"), options.idleMs);
+  };
+
+  if (options.timeoutMs !== undefined) {
+    wallClockTimer = setTimeout(() => expire("wall_clock"), options.timeoutMs);
+  }
+  resetIdleTimer();
+
+  return {
+    activity() {
+      if (!stopped && !reason) resetIdleTimer();
+    },
+    stop() {
+      stopped = true;
+      clearTimers();
+      clearTimeout(killTimer);
+    },
+    get reason() {
+      return reason;
+    },
+  };
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+}
+
+/**
+ * Describes why the watchdog stopped the agent, e.g. "timed out after 30m".
+ */
+export function describeTimeout(
+  reason: TimeoutReason,
+  options?: Pick<WatchdogOptions, "timeoutMs" | "idleMs"> | null,
+): string {
+  if (reason === "wall_clock") {
+    return options?.timeoutMs !== undefined
+      ? `timed out after ${formatSeconds(options.timeoutMs)}`
+      : "timed out";
+  }
+  return options?.idleMs !== undefined
+    ? `stopped after ${formatSeconds(options.idleMs)} without output`
+    : "stopped after producing no output";
+}